@@ -0,0 +1,172 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { fetchContractRegistry } from "@/lib/contract-specs";
+import { fetchCommissionSchedules } from "@/lib/commission-schedules";
+import { fetchBaseCurrency, fetchFxRates } from "@/lib/fx-rates";
+import {
+  BROKER_LABELS,
+  ImportEvent,
+  LOT_MATCHING_LABELS,
+  LotMatching,
+  addFundingHistory,
+  applyCommissionSchedule,
+  fetchCarriedPositions,
+  fetchImportedFills,
+  fetchLotMatching,
+  parseAmpFillTimes,
+  parseImportText,
+  planImport,
+  readCsv,
+  saveImport,
+} from "@/lib/import";
+
+// Parses, matches and stores a statement for the signed-in user. Progress is
+// streamed back as newline-delimited ImportEvent JSON. The work carries on if
+// the client disconnects, so closing the tab does not leave half an import.
+//
+// Form fields:
+//   file           the statement (CSV or Flex Query XML)
+//   fileName       name to record on the batch, defaults to the file's name
+//   activity       optional AMP Trade Activity CSV with real fill times
+//   funding        optional Binance Transaction History or Bybit Transaction
+//                  Log with the funding paid on the statement's positions
+//   mapping        JSON { mapping, dateFormat } for CSVs without a parser
+//   source         label for the batch and trade notes, e.g. a profile name
+//   skipDuplicates "false" to import fills that were imported before
+//   uncertainRows  PDF rows left unresolved, counted as skipped
+//   equitySymbols  JSON list of symbols without a contract spec to import as
+//                  stocks
+//   applySchedule  "false" to leave fills the statement has no fees for at
+//                  zero instead of charging the user's commission schedule
+//   lotMatching    how to pair fills into trades, e.g. "FIFO", defaults to
+//                  the user's setting
+export async function POST(request: Request) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const form = await request.formData();
+  const file = form.get("file");
+  if (!(file instanceof File)) {
+    return NextResponse.json({ error: "No file uploaded" }, { status: 400 });
+  }
+  const activity = form.get("activity");
+  const funding = form.get("funding");
+  const mapping = form.get("mapping");
+  const source = form.get("source");
+  const fileName = form.get("fileName");
+  const skipDuplicates = form.get("skipDuplicates") !== "false";
+  const uncertainRows = Number(form.get("uncertainRows")) || 0;
+  const equitySymbols = form.get("equitySymbols");
+  const applySchedule = form.get("applySchedule") !== "false";
+  const lotMatching = form.get("lotMatching");
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let connected = true;
+      const send = (event: ImportEvent) => {
+        if (!connected) return;
+        try {
+          controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+        } catch {
+          connected = false;
+        }
+      };
+
+      try {
+        const contracts = await fetchContractRegistry(supabase, user.id);
+        const parsed = parseImportText(await file.text(), {
+          contracts,
+          mapping:
+            typeof mapping === "string" ? JSON.parse(mapping) : undefined,
+          fillTimes:
+            activity instanceof File
+              ? parseAmpFillTimes(readCsv(await activity.text()).rows)
+              : undefined,
+        });
+        if (!parsed.broker) {
+          throw new Error(
+            "This file's format wasn't recognized. Map its columns on the import page first."
+          );
+        }
+
+        const statement =
+          funding instanceof File
+            ? addFundingHistory(
+                parsed.result,
+                parsed.broker,
+                await funding.text()
+              )
+            : parsed.result;
+        const baseCurrency = await fetchBaseCurrency(supabase, user.id);
+        const result = applySchedule
+          ? applyCommissionSchedule(
+              statement,
+              parsed.broker,
+              await fetchCommissionSchedules(supabase, user.id)
+            )
+          : statement;
+        const plan = planImport(
+          { ...result, skippedRows: result.skippedRows + uncertainRows },
+          await fetchCarriedPositions(supabase, user.id, parsed.broker),
+          contracts,
+          {
+            broker: parsed.broker,
+            baseCurrency,
+            rates: await fetchFxRates(supabase, user.id, baseCurrency),
+            lotMatching:
+              typeof lotMatching === "string" &&
+              Object.hasOwn(LOT_MATCHING_LABELS, lotMatching)
+                ? (lotMatching as LotMatching)
+                : await fetchLotMatching(supabase, user.id),
+            importedFills: skipDuplicates
+              ? await fetchImportedFills(supabase, user.id, result.executions)
+              : undefined,
+          }
+        );
+        const { batchId, tradeCount } = await saveImport(
+          supabase,
+          user.id,
+          {
+            plan,
+            broker: parsed.broker,
+            fileName: typeof fileName === "string" ? fileName : file.name,
+            source:
+              typeof source === "string" && source
+                ? source
+                : BROKER_LABELS[parsed.broker],
+            equitySymbols:
+              typeof equitySymbols === "string"
+                ? JSON.parse(equitySymbols)
+                : [],
+          },
+          (current, total) => send({ type: "progress", current, total })
+        );
+        send({ type: "done", batchId, tradeCount });
+      } catch (error) {
+        console.error("Error importing trades:", error);
+        send({
+          type: "error",
+          message:
+            error instanceof Error
+              ? error.message
+              : "An unknown error occurred",
+        });
+      } finally {
+        if (connected) controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "application/x-ndjson",
+      "Cache-Control": "no-cache",
+    },
+  });
+}
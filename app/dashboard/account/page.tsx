@@ -2,7 +2,12 @@
 
 import { useState, useEffect, useCallback } from "react";
 import { createClient } from "@/lib/supabase/client";
-import { AccountBalance, AccountTransaction } from "@/types/database";
+import {
+  AccountBalance,
+  AccountTransaction,
+  AssetClass,
+  CryptoContract,
+} from "@/types/database";
 import { format, parseISO } from "date-fns";
 import {
   DollarSign,
@@ -16,8 +21,16 @@ import {
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { calculateFuturesPnL } from "@/lib/futures-specs";
+import { calculateTradePnL } from "@/lib/asset-classes";
 import { SupabaseClient } from "@supabase/supabase-js";
+import { fetchContractRegistry } from "@/lib/contract-specs";
+import {
+  DEFAULT_BASE_CURRENCY,
+  fetchBaseCurrency,
+  fetchFxRates,
+  findFxRate,
+  formatMoney,
+} from "@/lib/fx-rates";
 
 const transactionSchema = z.object({
   type: z.enum(["DEPOSIT", "WITHDRAWAL"]),
@@ -32,10 +45,13 @@ export default function AccountPage() {
   const [balance, setBalance] = useState<AccountBalance | null>(null);
   const [transactions, setTransactions] = useState<AccountTransaction[]>([]);
   const [loading, setLoading] = useState(true);
+  // Balances, transfers and trade P&L are all shown in this currency.
+  const [baseCurrency, setBaseCurrency] = useState(DEFAULT_BASE_CURRENCY);
   const [balanceBreakdown, setBalanceBreakdown] = useState<{
     startingBalance: number;
     transactionNet: number;
     tradePnL: number;
+    fundingNet: number;
     calculatedBalance: number;
     tradeCount: number;
   } | null>(null);
@@ -85,6 +101,14 @@ export default function AccountPage() {
       .not("exit_date", "is", null)
       .order("exit_date", { ascending: true });
 
+    // Funding on perpetuals still open has already been paid or received.
+    const { data: openFundingTrades } = await supabase
+      .from("trades")
+      .select("funding, currency")
+      .eq("user_id", userId)
+      .eq("status", "OPEN")
+      .neq("funding", 0);
+
     // Calculate net from transactions
     let transactionNet = 0;
     if (transactions) {
@@ -102,7 +126,9 @@ export default function AccountPage() {
     }
 
     // Calculate total P&L from trades
+    const contracts = await fetchContractRegistry(supabase, userId);
     let tradePnL = 0;
+    let fundingNet = 0;
     if (trades) {
       trades.forEach(
         (trade: {
@@ -112,37 +138,67 @@ export default function AccountPage() {
           symbol: string;
           side: "LONG" | "SHORT";
           commission: number;
+          asset_class?: AssetClass;
+          multiplier?: number | null;
+          crypto_contract?: CryptoContract | null;
+          funding?: number;
+          fx_rate?: number | null;
         }) => {
+          // An option can close at zero.
           if (
             trade.entry_price &&
-            trade.exit_price &&
+            trade.exit_price !== null &&
+            trade.exit_price !== undefined &&
             trade.quantity &&
             trade.symbol
           ) {
             // Use the same calculation as trades page
-            const grossPnL = calculateFuturesPnL(
+            const grossPnL = calculateTradePnL(
               trade.symbol,
               trade.entry_price,
               trade.exit_price,
               trade.quantity,
-              trade.side
+              trade.side,
+              trade.asset_class,
+              contracts,
+              trade.multiplier,
+              trade.crypto_contract
             );
             const fees = trade.commission || 0;
-            const netPnL = grossPnL - fees;
+            // Converted from the trade's currency at its exit day's rate.
+            const netPnL = (grossPnL - fees) * (trade.fx_rate ?? 1);
 
             tradePnL += netPnL;
+            fundingNet += Number(trade.funding ?? 0) * (trade.fx_rate ?? 1);
           }
         }
       );
     }
 
+    // Open positions have no exit day, so their funding is converted at
+    // today's rate. Funding paid in the coin is left out until the position
+    // closes and it can be valued at the exit price, like its P&L.
+    if (openFundingTrades && openFundingTrades.length > 0) {
+      const base = await fetchBaseCurrency(supabase, userId);
+      const rates = await fetchFxRates(supabase, userId, base);
+      const today = format(new Date(), "yyyy-MM-dd");
+      openFundingTrades.forEach(
+        (trade: { funding: number; currency?: string | null }) => {
+          fundingNet +=
+            Number(trade.funding) *
+            (findFxRate(rates, trade.currency ?? base, base, today) ?? 1);
+        }
+      );
+    }
+
     // Calculate actual balance
-    const calculatedBalance = transactionNet + tradePnL;
+    const calculatedBalance = transactionNet + tradePnL + fundingNet;
 
     return {
       startingBalance: balanceData.starting_balance,
       transactionNet,
       tradePnL,
+      fundingNet,
       calculatedBalance,
       tradeCount: trades?.length || 0,
     };
@@ -178,6 +234,7 @@ export default function AccountPage() {
       }
 
       setBalance(balanceData);
+      setBaseCurrency(await fetchBaseCurrency(supabase, user.id));
 
       // Fetch transactions
       const { data: transactionsData } = await supabase
@@ -373,17 +430,22 @@ export default function AccountPage() {
                 Current Balance
               </p>
               <p className="text-2xl font-bold text-white mt-2">
-                $
-                {balanceBreakdown?.calculatedBalance.toFixed(2) ||
-                  balance?.current_balance.toFixed(2) ||
-                  "0.00"}
+                {formatMoney(
+                  balanceBreakdown?.calculatedBalance ??
+                    balance?.current_balance ??
+                    0,
+                  baseCurrency
+                )}
               </p>
               {balanceBreakdown && (
                 <div className="mt-4 pt-4 border-t border-neutral-800 space-y-1">
                   <div className="flex justify-between text-sm">
                     <span className="text-neutral-500">Starting Balance:</span>
                     <span className="text-neutral-300">
-                      ${balanceBreakdown.startingBalance.toFixed(2)}
+                      {formatMoney(
+                        balanceBreakdown.startingBalance,
+                        baseCurrency
+                      )}
                     </span>
                   </div>
                   <div className="flex justify-between text-sm">
@@ -395,14 +457,32 @@ export default function AccountPage() {
                           : "text-red-500"
                       }
                     >
-                      {balanceBreakdown.tradePnL >= 0 ? "+" : ""}$
-                      {balanceBreakdown.tradePnL.toFixed(2)}
+                      {balanceBreakdown.tradePnL >= 0 ? "+" : ""}
+                      {formatMoney(balanceBreakdown.tradePnL, baseCurrency)}
                     </span>
                   </div>
+                  {balanceBreakdown.fundingNet !== 0 && (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-neutral-500">Funding:</span>
+                      <span
+                        className={
+                          balanceBreakdown.fundingNet >= 0
+                            ? "text-green-500"
+                            : "text-red-500"
+                        }
+                      >
+                        {balanceBreakdown.fundingNet >= 0 ? "+" : ""}
+                        {formatMoney(balanceBreakdown.fundingNet, baseCurrency)}
+                      </span>
+                    </div>
+                  )}
                   <div className="flex justify-between text-sm font-medium pt-1 border-t border-neutral-700">
                     <span className="text-neutral-400">Net Balance:</span>
                     <span className="text-white">
-                      ${balanceBreakdown.calculatedBalance.toFixed(2)}
+                      {formatMoney(
+                        balanceBreakdown.calculatedBalance,
+                        baseCurrency
+                      )}
                     </span>
                   </div>
                 </div>
@@ -428,7 +508,7 @@ export default function AccountPage() {
                 Total Deposits
               </p>
               <p className="text-2xl font-bold text-green-500 mt-2">
-                ${stats.totalDeposits.toFixed(2)}
+                {formatMoney(stats.totalDeposits, baseCurrency)}
               </p>
               <p className="text-neutral-500 text-sm mt-1">
                 {stats.depositCount} deposits
@@ -445,7 +525,7 @@ export default function AccountPage() {
                 Total Withdrawals
               </p>
               <p className="text-2xl font-bold text-red-500 mt-2">
-                ${stats.totalWithdrawals.toFixed(2)}
+                {formatMoney(stats.totalWithdrawals, baseCurrency)}
               </p>
               <p className="text-neutral-500 text-sm mt-1">
                 {stats.withdrawalCount} withdrawals
@@ -466,7 +546,7 @@ export default function AccountPage() {
                   stats.netDeposits >= 0 ? "text-white" : "text-red-500"
                 }`}
               >
-                ${stats.netDeposits.toFixed(2)}
+                {formatMoney(stats.netDeposits, baseCurrency)}
               </p>
               <p className="text-neutral-500 text-sm mt-1">
                 Deposits - Withdrawals
@@ -540,12 +620,12 @@ export default function AccountPage() {
                           : "text-green-500"
                       }
                     >
-                      {transaction.type === "WITHDRAWAL" ? "-" : "+"}$
-                      {transaction.amount.toFixed(2)}
+                      {transaction.type === "WITHDRAWAL" ? "-" : "+"}
+                      {formatMoney(transaction.amount, baseCurrency)}
                     </span>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-neutral-300">
-                    ${transaction.balance_after.toFixed(2)}
+                    {formatMoney(transaction.balance_after, baseCurrency)}
                   </td>
                   <td className="px-6 py-4 text-sm text-neutral-400">
                     {transaction.description || "-"}
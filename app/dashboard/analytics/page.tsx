@@ -2,7 +2,20 @@
 
 import { useEffect, useState, useCallback } from "react";
 import { createClient } from "@/lib/supabase/client";
-import { Trade, DailyStats } from "@/types/database";
+import { AssetClass, Trade, DailyStats, Setup } from "@/types/database";
+import {
+  ContractRegistry,
+  FUTURES_CONTRACTS,
+  parseContractDescription,
+} from "@/lib/futures-specs";
+import { fetchContractRegistry } from "@/lib/contract-specs";
+import { ASSET_CLASSES, ASSET_CLASS_LABELS } from "@/lib/asset-classes";
+import {
+  DEFAULT_BASE_CURRENCY,
+  fetchBaseCurrency,
+  formatMoney,
+} from "@/lib/fx-rates";
+import { fetchSetups, setupPerformance } from "@/lib/setups";
 import {
   BarChart,
   Bar,
@@ -31,9 +44,18 @@ import {
 } from "lucide-react";
 
 export default function AnalyticsPage() {
-  const [trades, setTrades] = useState<Trade[]>([]);
+  const [allTrades, setAllTrades] = useState<Trade[]>([]);
   const [, setDailyStats] = useState<DailyStats[]>([]);
   const [loading, setLoading] = useState(true);
+  const [excludeEstimatedTimes, setExcludeEstimatedTimes] = useState(true);
+  const [assetClassFilter, setAssetClassFilter] = useState<AssetClass | "ALL">(
+    "ALL"
+  );
+  const [baseCurrency, setBaseCurrency] = useState(DEFAULT_BASE_CURRENCY);
+  const [setups, setSetups] = useState<Setup[]>([]);
+  // The user's own contract specs, so their roots group like built-in ones.
+  const [contracts, setContracts] =
+    useState<ContractRegistry>(FUTURES_CONTRACTS);
   const supabase = createClient();
 
   const fetchAnalyticsData = useCallback(async () => {
@@ -55,8 +77,11 @@ export default function AnalyticsPage() {
         .eq("user_id", user.id)
         .order("date", { ascending: true });
 
-      if (tradesData) setTrades(tradesData);
+      if (tradesData) setAllTrades(tradesData);
       if (statsData) setDailyStats(statsData);
+      setBaseCurrency(await fetchBaseCurrency(supabase, user.id));
+      setSetups(await fetchSetups(supabase, user.id));
+      setContracts(await fetchContractRegistry(supabase, user.id));
     } catch (error) {
       console.error("Error fetching analytics data:", error);
     } finally {
@@ -68,6 +93,24 @@ export default function AnalyticsPage() {
     fetchAnalyticsData();
   }, [fetchAnalyticsData]);
 
+  // Trades saved before asset classes existed are futures.
+  const assetClassOf = (trade: Trade): AssetClass =>
+    trade.asset_class ?? "FUTURE";
+  const trades =
+    assetClassFilter === "ALL"
+      ? allTrades
+      : allTrades.filter((t) => assetClassOf(t) === assetClassFilter);
+  const tradedAssetClasses = ASSET_CLASSES.filter((assetClass) =>
+    allTrades.some((t) => assetClassOf(t) === assetClass)
+  );
+
+  // Imported trades without real fill times only have a made-up time of day,
+  // which would skew holding-time and timing stats.
+  const timedTrades = excludeEstimatedTimes
+    ? trades.filter((t) => !t.time_estimated)
+    : trades;
+  const estimatedTimeCount = trades.filter((t) => t.time_estimated).length;
+
   // Calculate metrics
   const calculateMetrics = () => {
     const closedTrades = trades.filter((t) => t.status === "CLOSED");
@@ -95,7 +138,7 @@ export default function AnalyticsPage() {
 
     // Average holding time
     const holdingTimes = closedTrades
-      .filter((t) => t.exit_date)
+      .filter((t) => t.exit_date && timedTrades.includes(t))
       .map((t) => {
         const entryDate = new Date(t.entry_date);
         const exitDate = new Date(t.exit_date!);
@@ -148,16 +191,23 @@ export default function AnalyticsPage() {
       [key: string]: { pnl: number; trades: number; winRate: number };
     } = {};
 
+    // Group every futures expiry under its root. Futures imported before
+    // contract months were stored may still have the full contract in
+    // symbol. Other symbols, such as BTCUSDT, are grouped as they are.
     trades.forEach((trade) => {
-      if (!symbolData[trade.symbol]) {
-        symbolData[trade.symbol] = { pnl: 0, trades: 0, winRate: 0 };
+      const root =
+        assetClassOf(trade) === "FUTURE"
+          ? parseContractDescription(trade.symbol, contracts).root
+          : trade.symbol;
+      if (!symbolData[root]) {
+        symbolData[root] = { pnl: 0, trades: 0, winRate: 0 };
       }
 
-      symbolData[trade.symbol].trades++;
+      symbolData[root].trades++;
       if (trade.pnl) {
-        symbolData[trade.symbol].pnl += trade.pnl;
+        symbolData[root].pnl += trade.pnl;
         if (trade.pnl > 0) {
-          symbolData[trade.symbol].winRate++;
+          symbolData[root].winRate++;
         }
       }
     });
@@ -174,7 +224,7 @@ export default function AnalyticsPage() {
     const dayData: { [key: number]: { pnl: number; trades: number } } = {};
     const dayNames = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
 
-    trades.forEach((trade) => {
+    timedTrades.forEach((trade) => {
       const day = new Date(trade.entry_date).getDay();
       if (!dayData[day]) {
         dayData[day] = { pnl: 0, trades: 0 };
@@ -206,9 +256,32 @@ export default function AnalyticsPage() {
     ];
   };
 
+  // Closed trades only, across every asset class regardless of the filter.
+  const prepareAssetClassPerformance = () =>
+    tradedAssetClasses.map((assetClass) => {
+      const closed = allTrades.filter(
+        (t) => t.status === "CLOSED" && assetClassOf(t) === assetClass
+      );
+      const wins = closed.filter((t) => t.pnl && t.pnl > 0).length;
+      const pnl = closed.reduce((sum, t) => sum + (t.pnl || 0), 0);
+      return {
+        assetClass,
+        trades: closed.length,
+        winRate: closed.length > 0 ? (wins / closed.length) * 100 : 0,
+        pnl,
+        avgPnl: closed.length > 0 ? pnl / closed.length : 0,
+      };
+    });
+
   const symbolPerformance = prepareSymbolPerformance();
   const dayOfWeekPerformance = prepareDayOfWeekPerformance();
   const winLossDistribution = prepareWinLossDistribution();
+  const assetClassPerformance = prepareAssetClassPerformance();
+  // Follows the asset class filter.
+  const setupRows = setupPerformance(trades).map((row) => ({
+    ...row,
+    setup: setups.find((setup) => setup.id === row.setupId),
+  }));
 
   if (loading) {
     return (
@@ -225,6 +298,37 @@ export default function AnalyticsPage() {
         <p className="text-gray-400 mt-2">
           Deep dive into your trading performance
         </p>
+        {estimatedTimeCount > 0 && (
+          <label className="mt-3 flex items-center gap-2 text-sm text-gray-400">
+            <input
+              type="checkbox"
+              checked={excludeEstimatedTimes}
+              onChange={(e) => setExcludeEstimatedTimes(e.target.checked)}
+            />
+            Leave {estimatedTimeCount} trade
+            {estimatedTimeCount === 1 ? "" : "s"} with estimated times out of
+            hold time and day-of-week stats
+          </label>
+        )}
+        {tradedAssetClasses.length > 1 && (
+          <label className="mt-3 flex items-center gap-2 text-sm text-gray-400">
+            Asset:
+            <select
+              value={assetClassFilter}
+              onChange={(e) =>
+                setAssetClassFilter(e.target.value as AssetClass | "ALL")
+              }
+              className="px-3 py-1 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:border-blue-500"
+            >
+              <option value="ALL">All</option>
+              {tradedAssetClasses.map((assetClass) => (
+                <option key={assetClass} value={assetClass}>
+                  {ASSET_CLASS_LABELS[assetClass]}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
       </div>
 
       {/* Key Metrics */}
@@ -309,6 +413,133 @@ export default function AnalyticsPage() {
         </div>
       </div>
 
+      {/* Asset Class Performance */}
+      {tradedAssetClasses.length > 1 && (
+        <div className="bg-gray-800 border border-gray-700 rounded-xl p-6">
+          <h3 className="text-lg font-semibold text-white mb-4">
+            Performance by Asset Class
+          </h3>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-400 uppercase">
+                  {[
+                    "Asset Class",
+                    "Trades",
+                    "Win Rate",
+                    "Net P&L",
+                    "Avg P&L",
+                  ].map((label) => (
+                    <th key={label} className="px-2 py-2 font-medium">
+                      {label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {assetClassPerformance.map((row) => (
+                  <tr key={row.assetClass} className="border-t border-gray-700">
+                    <td className="px-2 py-2 text-white">
+                      {ASSET_CLASS_LABELS[row.assetClass]}
+                    </td>
+                    <td className="px-2 py-2 text-gray-300">{row.trades}</td>
+                    <td className="px-2 py-2 text-gray-300">
+                      {row.winRate.toFixed(1)}%
+                    </td>
+                    <td
+                      className={`px-2 py-2 ${
+                        row.pnl >= 0 ? "text-green-500" : "text-red-500"
+                      }`}
+                    >
+                      {formatMoney(row.pnl, baseCurrency)}
+                    </td>
+                    <td
+                      className={`px-2 py-2 ${
+                        row.avgPnl >= 0 ? "text-green-500" : "text-red-500"
+                      }`}
+                    >
+                      {formatMoney(row.avgPnl, baseCurrency)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Setup Performance */}
+      {setups.length > 0 && setupRows.length > 0 && (
+        <div className="bg-gray-800 border border-gray-700 rounded-xl p-6">
+          <h3 className="text-lg font-semibold text-white mb-4">
+            Performance by Setup
+          </h3>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-400 uppercase">
+                  {[
+                    "Setup",
+                    "Trades",
+                    "Win Rate",
+                    "Expectancy",
+                    "Profit Factor",
+                    "Net P&L",
+                    "Target R",
+                  ].map((label) => (
+                    <th key={label} className="px-2 py-2 font-medium">
+                      {label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {setupRows.map((row) => (
+                  <tr
+                    key={row.setupId ?? "none"}
+                    className="border-t border-gray-700"
+                  >
+                    <td
+                      className={`px-2 py-2 ${
+                        row.setup ? "text-white" : "text-gray-500"
+                      }`}
+                    >
+                      {row.setup?.name ?? "No setup"}
+                    </td>
+                    <td className="px-2 py-2 text-gray-300">{row.trades}</td>
+                    <td className="px-2 py-2 text-gray-300">
+                      {row.winRate.toFixed(1)}%
+                    </td>
+                    <td
+                      className={`px-2 py-2 ${
+                        row.expectancy >= 0 ? "text-green-500" : "text-red-500"
+                      }`}
+                    >
+                      {formatMoney(row.expectancy, baseCurrency)}
+                    </td>
+                    <td className="px-2 py-2 text-gray-300">
+                      {Number.isFinite(row.profitFactor)
+                        ? row.profitFactor.toFixed(2)
+                        : "∞"}
+                    </td>
+                    <td
+                      className={`px-2 py-2 ${
+                        row.pnl >= 0 ? "text-green-500" : "text-red-500"
+                      }`}
+                    >
+                      {formatMoney(row.pnl, baseCurrency)}
+                    </td>
+                    <td className="px-2 py-2 text-gray-300">
+                      {row.setup?.target_r ? `${row.setup.target_r}R` : "-"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Charts Grid */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Symbol Performance */}
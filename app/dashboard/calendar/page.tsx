@@ -4,6 +4,15 @@ import { useState, useEffect, useCallback } from "react";
 import { createClient } from "@/lib/supabase/client";
 import { Trade, DailyStats } from "@/types/database";
 import Link from "next/link";
+import {
+  ContractRegistry,
+  FUTURES_CONTRACTS,
+  formatContractPrice,
+  getContractSpecs,
+} from "@/lib/futures-specs";
+import { fetchContractRegistry } from "@/lib/contract-specs";
+import { isFuture } from "@/lib/asset-classes";
+import { optionPositionLabel } from "@/lib/options";
 import {
   format,
   startOfMonth,
@@ -37,6 +46,8 @@ export default function CalendarPage() {
   const [currentDate, setCurrentDate] = useState(new Date());
   const [trades, setTrades] = useState<Trade[]>([]);
   const [dailyStats, setDailyStats] = useState<DailyStats[]>([]);
+  const [contracts, setContracts] =
+    useState<ContractRegistry>(FUTURES_CONTRACTS);
   const [loading, setLoading] = useState(true);
   const [selectedDay, setSelectedDay] = useState<CalendarDay | null>(null);
   const [monthStats, setMonthStats] = useState({
@@ -73,6 +84,7 @@ export default function CalendarPage() {
         .gte("date", format(monthStart, "yyyy-MM-dd"))
         .lte("date", format(monthEnd, "yyyy-MM-dd"));
 
+      setContracts(await fetchContractRegistry(supabase, user.id));
       if (tradesData) setTrades(tradesData);
       if (statsData) setDailyStats(statsData);
 
@@ -167,6 +179,15 @@ export default function CalendarPage() {
     );
   }
 
+  // Prices as the contract is quoted, e.g. 32nds for Treasuries.
+  const formatTradePrice = (trade: Trade, price: number) =>
+    formatContractPrice(
+      price,
+      isFuture(trade.asset_class)
+        ? getContractSpecs(trade.symbol, contracts)
+        : null
+    );
+
   const handleDayClick = (day: CalendarDay) => {
     if (day.isCurrentMonth && (day.trades.length > 0 || day.stats)) {
       setSelectedDay(day);
@@ -418,6 +439,8 @@ export default function CalendarPage() {
                               <div className="flex items-center space-x-3">
                                 <span className="text-white font-medium">
                                   {trade.symbol}
+                                  {trade.asset_class === "OPTION" &&
+                                    ` ${optionPositionLabel(trade)}`}
                                 </span>
                                 <span
                                   className={`px-2 py-1 rounded text-xs font-medium ${
@@ -430,9 +453,13 @@ export default function CalendarPage() {
                                 </span>
                               </div>
                               <div className="text-sm text-gray-400 mt-1">
-                                Entry: ${trade.entry_price} | Exit: $
-                                {trade.exit_price || "-"} | Qty:{" "}
-                                {trade.quantity}
+                                Entry: $
+                                {formatTradePrice(trade, trade.entry_price)} |
+                                Exit: $
+                                {trade.exit_price
+                                  ? formatTradePrice(trade, trade.exit_price)
+                                  : "-"}{" "}
+                                | Qty: {trade.quantity}
                               </div>
                             </div>
                             <div className="text-right">
@@ -0,0 +1,242 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { format, parseISO } from "date-fns";
+import { ArrowLeft, RotateCcw } from "lucide-react";
+import { createClient } from "@/lib/supabase/client";
+import { recalculateDailyStats } from "@/lib/daily-stats";
+import { LOT_MATCHING_LABELS, blockingLaterBatches } from "@/lib/import";
+import { ImportBatch } from "@/types/database";
+
+// Keeps `.in()` filters well under URL length limits for large imports.
+const ID_CHUNK_SIZE = 100;
+
+export default function ImportHistoryPage() {
+  const [batches, setBatches] = useState<ImportBatch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [undoingId, setUndoingId] = useState<string | null>(null);
+  const supabase = createClient();
+
+  const fetchBatches = useCallback(async () => {
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from("import_batches")
+        .select("*")
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      if (data) setBatches(data);
+    } catch (error) {
+      console.error("Error fetching import history:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [supabase]);
+
+  useEffect(() => {
+    fetchBatches();
+  }, [fetchBatches]);
+
+  const handleUndo = async (batch: ImportBatch) => {
+    const blocking = blockingLaterBatches(batch, batches);
+    if (blocking.length > 0) {
+      alert(
+        `Undo ${blocking
+          .map((later) => later.file_name)
+          .join(", ")} first. Later imports traded the same contracts.`
+      );
+      return;
+    }
+    if (
+      !confirm(
+        `Delete the ${batch.trade_count} trade${
+          batch.trade_count === 1 ? "" : "s"
+        } imported from ${batch.file_name}? This cannot be undone.`
+      )
+    )
+      return;
+
+    setUndoingId(batch.id);
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) return;
+
+      // Collect the exit days before deleting so their stats can be rebuilt.
+      const affectedDates = new Set<string>();
+      for (
+        let index = 0;
+        index < batch.trade_ids.length;
+        index += ID_CHUNK_SIZE
+      ) {
+        const ids = batch.trade_ids.slice(index, index + ID_CHUNK_SIZE);
+        const { data: batchTrades, error: fetchError } = await supabase
+          .from("trades")
+          .select("id, exit_date")
+          .eq("user_id", user.id)
+          .in("id", ids);
+        if (fetchError) throw fetchError;
+        batchTrades?.forEach((trade) => {
+          if (trade.exit_date) affectedDates.add(trade.exit_date.slice(0, 10));
+        });
+
+        const { error: deleteError } = await supabase
+          .from("trades")
+          .delete()
+          .eq("user_id", user.id)
+          .in("id", ids);
+        if (deleteError) throw deleteError;
+      }
+
+      // Put back the open positions this import closed or reduced.
+      if (batch.consumed_positions.length > 0) {
+        const { error: restoreError } = await supabase
+          .from("trades")
+          .upsert(batch.consumed_positions);
+        if (restoreError) throw restoreError;
+      }
+
+      for (const date of affectedDates) {
+        await recalculateDailyStats(supabase, user.id, date);
+      }
+
+      const { error: updateError } = await supabase
+        .from("import_batches")
+        .update({ undone_at: new Date().toISOString() })
+        .eq("id", batch.id);
+      if (updateError) throw updateError;
+
+      await fetchBatches();
+    } catch (error) {
+      console.error("Error undoing import:", error);
+      alert("Error undoing import. Please try again.");
+    } finally {
+      setUndoingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-white">Loading import history...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      <div>
+        <Link
+          href="/dashboard/import"
+          className="inline-flex items-center text-gray-400 hover:text-white mb-4"
+        >
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to import
+        </Link>
+        <h1 className="text-3xl font-bold text-white">Import History</h1>
+        <p className="text-neutral-400 mt-2">
+          Review past imports and roll back any that went wrong.
+        </p>
+      </div>
+
+      <div className="bg-neutral-900 border border-neutral-800 rounded-xl overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-neutral-800">
+              <tr>
+                {[
+                  "Imported",
+                  "File",
+                  "Source",
+                  "Rows",
+                  "Trades",
+                  "Skipped",
+                  "Duplicates",
+                  "",
+                ].map((label) => (
+                  <th
+                    key={label}
+                    className="px-4 py-3 text-left text-xs font-medium text-neutral-400 uppercase"
+                  >
+                    {label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {batches.map((batch) => (
+                <tr
+                  key={batch.id}
+                  className={`border-t border-neutral-700 ${
+                    batch.undone_at ? "opacity-50" : ""
+                  }`}
+                >
+                  <td className="px-4 py-3 text-neutral-300 whitespace-nowrap">
+                    {format(parseISO(batch.created_at), "MMM dd, yyyy HH:mm")}
+                  </td>
+                  <td className="px-4 py-3 text-white">{batch.file_name}</td>
+                  <td className="px-4 py-3 text-neutral-300">{batch.broker}</td>
+                  <td className="px-4 py-3 text-neutral-300">
+                    {batch.row_count}
+                  </td>
+                  <td className="px-4 py-3 text-neutral-300">
+                    {batch.trade_count}
+                    {batch.lot_matching && (
+                      <span className="block text-xs text-neutral-500">
+                        {LOT_MATCHING_LABELS[batch.lot_matching]}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-neutral-300">
+                    {batch.skipped_rows}
+                  </td>
+                  <td className="px-4 py-3 text-neutral-300">
+                    {batch.duplicate_count}
+                  </td>
+                  <td className="px-4 py-3 text-right whitespace-nowrap">
+                    {batch.undone_at ? (
+                      <span className="text-neutral-500">
+                        Undone{" "}
+                        {format(parseISO(batch.undone_at), "MMM dd, yyyy")}
+                      </span>
+                    ) : blockingLaterBatches(batch, batches).length > 0 ? (
+                      <span
+                        className="text-neutral-500"
+                        title="A later import traded the same contracts. Undo it first."
+                      >
+                        Undo later imports first
+                      </span>
+                    ) : (
+                      <button
+                        onClick={() => handleUndo(batch)}
+                        disabled={undoingId !== null}
+                        className="inline-flex items-center px-3 py-1 bg-red-700 hover:bg-red-600 text-white text-xs font-medium rounded-lg disabled:opacity-50"
+                      >
+                        <RotateCcw className="w-3 h-3 mr-1" />
+                        {undoingId === batch.id ? "Undoing..." : "Undo import"}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {batches.length === 0 && (
+            <div className="text-center py-12">
+              <p className="text-neutral-400">No imports yet</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
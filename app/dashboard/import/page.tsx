@@ -1,45 +1,69 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { createClient } from "@/lib/supabase/client";
-import { Upload, FileText, AlertCircle, Check } from "lucide-react";
+import { Upload, FileText, AlertCircle, Check, History } from "lucide-react";
 import Papa from "papaparse";
-import { format, isValid, parse } from "date-fns";
-import { calculateFuturesPnL } from "@/lib/futures-specs";
+import { format } from "date-fns";
 import { useRouter } from "next/navigation";
-import AmpPdfImporter from "@/components/AmpPdfImporter";
-
-interface AmpCsvRow {
-  DATE: string;
-  "TRADE NUMBER": string;
-  MARKET: string;
-  BUY: string;
-  SELL: string;
-  "CONTRACT DESCRIPTION": string;
-  "TRADE PRICE": string;
-  CCY: string;
-}
-
-interface ParsedTrade {
-  symbol: string;
-  side: "LONG" | "SHORT";
-  entryPrice: number;
-  exitPrice: number;
-  quantity: number;
-  entryTime: string;
-  exitTime: string;
-  commission: number;
-  pnl: number;
-}
-
-interface OpenLot {
-  contractKey: string;
-  symbol: string;
-  side: "LONG" | "SHORT";
-  quantity: number;
-  price: number;
-  time: string;
-}
+import Link from "next/link";
+import AmpPdfImporter, { AmpTradeRow } from "@/components/AmpPdfImporter";
+import UnknownContractWarning from "@/components/UnknownContractWarning";
+import FxRateWarning from "@/components/FxRateWarning";
+import ImportMappingWizard, {
+  MappingDraft,
+} from "@/components/ImportMappingWizard";
+import {
+  CommissionSchedule,
+  FxRate,
+  ImportProfile,
+  Trade,
+} from "@/types/database";
+import {
+  BROKER_LABELS,
+  Broker,
+  BrokerParseResult,
+  ColumnMapping,
+  CsvRow,
+  ImportEvent,
+  LOT_MATCHING_LABELS,
+  LotMatching,
+  LotMatchingSummary,
+  OpenLot,
+  DEFAULT_LOT_MATCHING,
+  compareLotMatching,
+  addFundingHistory,
+  applyCommissionSchedule,
+  ParsedTrade,
+  diffCarriedPositions,
+  fetchCarriedPositions,
+  fetchImportedFills,
+  fetchLotMatching,
+  headersSignature,
+  isAmpActivityHeaders,
+  parseAmpFillTimes,
+  parseAmpRows,
+  parseImportText,
+  parseMappedRows,
+  planImport,
+  readCsv,
+} from "@/lib/import";
+import {
+  ContractRegistry,
+  FUTURES_CONTRACTS,
+  contractCode,
+  formatContractPrice,
+  getContractSpecs,
+} from "@/lib/futures-specs";
+import { fetchContractRegistry } from "@/lib/contract-specs";
+import { fetchCommissionSchedules } from "@/lib/commission-schedules";
+import {
+  DEFAULT_BASE_CURRENCY,
+  MissingFxRate,
+  fetchBaseCurrency,
+  fetchFxRates,
+  formatMoney,
+} from "@/lib/fx-rates";
 
 const getErrorMessage = (error: unknown): string =>
   error instanceof Error
@@ -48,29 +72,11 @@ const getErrorMessage = (error: unknown): string =>
     ? error
     : "An unknown error occurred";
 
-const extractSymbol = (contractDescription: string): string => {
-  const symbol = contractDescription.trim().split(/\s+/)[0]?.toUpperCase();
-  return symbol || contractDescription;
-};
-
-const parseAmpDate = (value: string): string | null => {
-  const parsed = parse(value.trim(), "dd-MMM-yy", new Date());
-  return isValid(parsed) ? format(parsed, "yyyy-MM-dd'T'00:00:00") : null;
-};
-
-const withDefaultExecutionTime = (
-  dateAtMidnight: string,
-  sequence: number
-): string => {
-  const timestamp = new Date(dateAtMidnight);
-  timestamp.setHours(7, sequence * 1, 0, 0);
-  return format(timestamp, "yyyy-MM-dd'T'HH:mm:ss");
-};
-
 export default function ImportPage() {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [parsing, setParsing] = useState(false);
   const [parsedTrades, setParsedTrades] = useState<ParsedTrade[]>([]);
+  const [broker, setBroker] = useState<Broker | null>(null);
   const [importStatus, setImportStatus] = useState<
     "idle" | "parsing" | "importing" | "success" | "error"
   >("idle");
@@ -80,22 +86,409 @@ export default function ImportPage() {
     total: 0,
   });
   const [showPdfImporter, setShowPdfImporter] = useState(false);
+  const [pdfFileName, setPdfFileName] = useState<string | null>(null);
+  // The AMP statement rows behind the preview, kept so a Trade Activity
+  // export can be merged in afterwards.
+  const [ampSource, setAmpSource] = useState<{
+    rows: CsvRow[];
+    uncertainRows: number;
+  } | null>(null);
+  const [fillTimeSummary, setFillTimeSummary] = useState<string | null>(null);
+  const [activityFile, setActivityFile] = useState<File | null>(null);
+  // The Binance or Bybit trade history behind the preview, kept so a funding
+  // export can be added afterwards.
+  const [tradeHistory, setTradeHistory] = useState<BrokerParseResult | null>(
+    null
+  );
+  const [fundingSummary, setFundingSummary] = useState<string | null>(null);
+  const [fundingFile, setFundingFile] = useState<File | null>(null);
+  const [unrecognizedCsv, setUnrecognizedCsv] = useState<{
+    headers: string[];
+    rows: CsvRow[];
+  } | null>(null);
+  const [importProfile, setImportProfile] = useState<ImportProfile | null>(
+    null
+  );
+  const [showMappingWizard, setShowMappingWizard] = useState(false);
+  // The mapping the preview was parsed with, sent along with the file.
+  const [appliedMapping, setAppliedMapping] = useState<{
+    mapping: ColumnMapping;
+    dateFormat: string;
+  } | null>(null);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  // Fills of the statement that an earlier import already stored.
+  const [duplicateCount, setDuplicateCount] = useState(0);
+  const [carriedPositions, setCarriedPositions] = useState<Trade[]>([]);
+  const [openLots, setOpenLots] = useState<OpenLot[]>([]);
+  const [contracts, setContracts] =
+    useState<ContractRegistry>(FUTURES_CONTRACTS);
+  // The parse behind the preview, re-planned when a missing contract is
+  // defined.
+  const [lastParse, setLastParse] = useState<{
+    broker: Broker;
+    result: BrokerParseResult;
+  } | null>(null);
+  const [unknownSymbols, setUnknownSymbols] = useState<string[]>([]);
+  const [equitySymbols, setEquitySymbols] = useState<string[]>([]);
+  const [schedules, setSchedules] = useState<CommissionSchedule[]>([]);
+  // Charge fills the statement has no fees for at the user's schedule.
+  const [applySchedule, setApplySchedule] = useState(true);
+  const [baseCurrency, setBaseCurrency] = useState(DEFAULT_BASE_CURRENCY);
+  const [fxRates, setFxRates] = useState<FxRate[]>([]);
+  const [missingFxRates, setMissingFxRates] = useState<MissingFxRate[]>([]);
+  // How fills are paired into trades, starting from the user's setting.
+  const [lotMatching, setLotMatching] =
+    useState<LotMatching>(DEFAULT_LOT_MATCHING);
+  const [matchingComparison, setMatchingComparison] = useState<
+    LotMatchingSummary[]
+  >([]);
   const supabase = createClient();
   const router = useRouter();
 
+  // The user's contract specs, commission schedules and FX rates, so the
+  // preview's P&L matches what the import route will save.
+  useEffect(() => {
+    const loadContracts = async () => {
+      try {
+        const {
+          data: { user },
+        } = await supabase.auth.getUser();
+        if (!user) return;
+        setContracts(await fetchContractRegistry(supabase, user.id));
+        setSchedules(await fetchCommissionSchedules(supabase, user.id));
+        const base = await fetchBaseCurrency(supabase, user.id);
+        setBaseCurrency(base);
+        setFxRates(await fetchFxRates(supabase, user.id, base));
+        setLotMatching(await fetchLotMatching(supabase, user.id));
+      } catch (contractsError) {
+        console.error("Error loading contract specs:", contractsError);
+      }
+    };
+    loadContracts();
+  }, [supabase]);
+
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
-    if (file.type !== "text/csv" && !file.name.toLowerCase().endsWith(".csv")) {
-      setError("Please select a CSV file.");
+    const name = file.name.toLowerCase();
+    if (
+      !["text/csv", "text/xml", "application/xml"].includes(file.type) &&
+      !name.endsWith(".csv") &&
+      !name.endsWith(".xml")
+    ) {
+      setError("Please select a CSV or Flex Query XML file.");
       return;
     }
     setSelectedFile(file);
+    setPdfFileName(null);
+    setAmpSource(null);
+    setFillTimeSummary(null);
+    setActivityFile(null);
+    setTradeHistory(null);
+    setFundingSummary(null);
+    setFundingFile(null);
+    setAppliedMapping(null);
     setError(null);
     setParsedTrades([]);
+    setDuplicateCount(0);
+    setOpenLots([]);
+    setCarriedPositions([]);
+    setUnknownSymbols([]);
+    setEquitySymbols([]);
+    setMissingFxRates([]);
+    setMatchingComparison([]);
+    setBroker(null);
+    setUnrecognizedCsv(null);
+    setImportProfile(null);
+    setShowMappingWizard(false);
     setImportStatus("idle");
   };
 
+  // Builds the same plan the import route will save, for the preview.
+  const applyParseResult = async (
+    detectedBroker: Broker,
+    result: BrokerParseResult,
+    registry: ContractRegistry = contracts,
+    withSchedule = applySchedule,
+    rates: FxRate[] = fxRates,
+    method: LotMatching = lotMatching,
+    skipImported = skipDuplicates
+  ) => {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) throw new Error("User not authenticated");
+    const scheduled = withSchedule
+      ? applyCommissionSchedule(result, detectedBroker, schedules)
+      : result;
+    const carriedNow = await fetchCarriedPositions(
+      supabase,
+      user.id,
+      detectedBroker
+    );
+    const importedFills = skipImported
+      ? await fetchImportedFills(supabase, user.id, result.executions)
+      : undefined;
+    const {
+      trades,
+      openLots: remainingLots,
+      carried,
+      skippedRows,
+      duplicateCount: duplicates,
+      unknownSymbols: symbolsWithoutSpecs,
+      missingFxRates: ratesNeeded,
+    } = planImport(scheduled, carriedNow, registry, {
+      broker: detectedBroker,
+      baseCurrency,
+      rates,
+      lotMatching: method,
+      importedFills,
+    });
+    setMatchingComparison(
+      result.executions.length > 0
+        ? compareLotMatching(scheduled, carriedNow, registry, {
+            broker: detectedBroker,
+            baseCurrency,
+            rates,
+            importedFills,
+          })
+        : []
+    );
+
+    setLastParse({ broker: detectedBroker, result });
+    setUnknownSymbols(symbolsWithoutSpecs);
+    setMissingFxRates(ratesNeeded);
+    setBroker(detectedBroker);
+    setParsedTrades(trades);
+    setDuplicateCount(duplicates);
+    setCarriedPositions(carried);
+    setOpenLots(remainingLots);
+    setImportStatus("idle");
+    // A funding-only file changes the open positions it was paid on.
+    if (
+      trades.length === 0 &&
+      !remainingLots.some((lot) => !lot.openTradeId) &&
+      diffCarriedPositions(carried, remainingLots).consumed.length === 0
+    )
+      setError(
+        duplicates > 0
+          ? "Every fill in this file was already imported."
+          : "No trades or open positions were found."
+      );
+    else if (skippedRows > 0) {
+      const optionFills = result.skippedOptionFills ?? 0;
+      const invalidRows = skippedRows - optionFills;
+      setError(
+        [
+          invalidRows > 0 &&
+            `${invalidRows} invalid row${
+              invalidRows === 1 ? " was" : "s were"
+            } skipped.`,
+          optionFills > 0 &&
+            `${optionFills} option fill${
+              optionFills === 1 ? " was" : "s were"
+            } skipped, as options can't be imported yet.`,
+        ]
+          .filter(Boolean)
+          .join(" ")
+      );
+    }
+  };
+
+  // Files without a built-in parser are read through the user's saved import
+  // profile for the same headers, or through a new mapping.
+  const handleUnrecognizedCsv = async (headers: string[], rows: CsvRow[]) => {
+    setUnrecognizedCsv({ headers, rows });
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) throw new Error("User not authenticated");
+      const { data: profile, error: profileError } = await supabase
+        .from("import_profiles")
+        .select("*")
+        .eq("user_id", user.id)
+        .eq("headers_signature", headersSignature(headers))
+        .order("updated_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (profileError) throw profileError;
+      if (profile) {
+        setImportProfile(profile);
+        setAppliedMapping({
+          mapping: profile.column_mapping,
+          dateFormat: profile.date_format,
+        });
+        await applyParseResult(
+          "CUSTOM",
+          parseMappedRows(
+            rows,
+            profile.column_mapping,
+            profile.date_format,
+            contracts
+          )
+        );
+      } else {
+        setImportStatus("idle");
+        setShowMappingWizard(true);
+      }
+    } catch (profileError) {
+      setError(
+        `Error loading import profiles: ${getErrorMessage(profileError)}`
+      );
+      setImportStatus("error");
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  const handleApplyMapping = async (
+    draft: MappingDraft,
+    saveProfile: boolean
+  ) => {
+    if (!unrecognizedCsv) return;
+    setError(null);
+    try {
+      if (saveProfile) {
+        const {
+          data: { user },
+        } = await supabase.auth.getUser();
+        if (!user) throw new Error("User not authenticated");
+        const { data: profile, error: saveError } = await supabase
+          .from("import_profiles")
+          .upsert(
+            {
+              user_id: user.id,
+              name: draft.name,
+              headers_signature: headersSignature(unrecognizedCsv.headers),
+              column_mapping: draft.mapping,
+              date_format: draft.dateFormat,
+              updated_at: new Date().toISOString(),
+            },
+            { onConflict: "user_id,name" }
+          )
+          .select()
+          .single();
+        if (saveError) throw saveError;
+        setImportProfile(profile);
+      } else {
+        setImportProfile(null);
+      }
+      setShowMappingWizard(false);
+      setAppliedMapping({
+        mapping: draft.mapping,
+        dateFormat: draft.dateFormat,
+      });
+      await applyParseResult(
+        "CUSTOM",
+        parseMappedRows(
+          unrecognizedCsv.rows,
+          draft.mapping,
+          draft.dateFormat,
+          contracts
+        )
+      );
+    } catch (saveError) {
+      setError(`Error saving import profile: ${getErrorMessage(saveError)}`);
+    }
+  };
+
+  // Rows extracted from an AMP PDF statement use the same columns as the AMP
+  // CSV, so they go through the same parser.
+  const handlePdfRows = async (
+    rows: AmpTradeRow[],
+    fileName: string,
+    uncertainRows: number
+  ) => {
+    setSelectedFile(null);
+    setEquitySymbols([]);
+    setPdfFileName(fileName);
+    setAmpSource({ rows, uncertainRows });
+    setFillTimeSummary(null);
+    setActivityFile(null);
+    setTradeHistory(null);
+    setFundingSummary(null);
+    setFundingFile(null);
+    setAppliedMapping(null);
+    setUnrecognizedCsv(null);
+    setImportProfile(null);
+    setShowMappingWizard(false);
+    setError(null);
+    try {
+      const result = parseAmpRows(rows, undefined, contracts);
+      await applyParseResult("AMP", {
+        ...result,
+        skippedRows: result.skippedRows + uncertainRows,
+      });
+    } catch (parseError) {
+      setError(getErrorMessage(parseError));
+      setImportStatus("error");
+    }
+  };
+
+  const handleActivityFile = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file || !ampSource) return;
+    setError(null);
+    try {
+      const { headers, rows } = readCsv(await file.text());
+      if (!isAmpActivityHeaders(headers)) {
+        setError(
+          "That file has no trade number and fill time columns. Export Trade Activity or fill confirmations from AMP."
+        );
+        return;
+      }
+      const result = parseAmpRows(
+        ampSource.rows,
+        parseAmpFillTimes(rows),
+        contracts
+      );
+      const matched = result.executions.filter(
+        (execution) => !execution.timeEstimated
+      ).length;
+      setFillTimeSummary(
+        `Real fill times found for ${matched} of ${result.executions.length} fills.`
+      );
+      setActivityFile(file);
+      await applyParseResult("AMP", {
+        ...result,
+        skippedRows: result.skippedRows + ampSource.uncertainRows,
+      });
+    } catch (activityError) {
+      setError(
+        `Error reading Trade Activity export: ${getErrorMessage(activityError)}`
+      );
+    }
+  };
+
+  // Funding comes in a separate export, and is added to the trade history so
+  // payments on positions the statement opened and closed are counted too.
+  const handleFundingFile = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file || !tradeHistory || !broker) return;
+    setError(null);
+    try {
+      const result = addFundingHistory(tradeHistory, broker, await file.text());
+      const added =
+        (result.funding?.length ?? 0) - (tradeHistory.funding?.length ?? 0);
+      setFundingSummary(
+        `${added} funding payment${added === 1 ? "" : "s"} added.`
+      );
+      setFundingFile(file);
+      await applyParseResult(broker, result);
+    } catch (fundingError) {
+      setError(
+        `Error reading funding history: ${getErrorMessage(fundingError)}`
+      );
+    }
+  };
+
   const parseCSVData = async () => {
     if (!selectedFile) return;
     setImportStatus("parsing");
@@ -103,239 +496,205 @@ export default function ImportPage() {
     setError(null);
 
     try {
-      const text = await selectedFile.text();
-      Papa.parse<AmpCsvRow>(text, {
-        header: true,
-        skipEmptyLines: "greedy",
-        transformHeader: (header) => header.trim().toUpperCase(),
-        complete: (results) => {
-          try {
-            const requiredHeaders = [
-              "DATE",
-              "TRADE NUMBER",
-              "BUY",
-              "SELL",
-              "CONTRACT DESCRIPTION",
-              "TRADE PRICE",
-            ];
-            const headers = results.meta.fields ?? [];
-            const missingHeaders = requiredHeaders.filter(
-              (header) => !headers.includes(header)
-            );
-            if (missingHeaders.length > 0)
-              throw new Error(
-                `This does not look like an AMP broker statement. Missing: ${missingHeaders.join(
-                  ", "
-                )}`
-              );
-
-            const rows = results.data
-              .filter(
-                (row) =>
-                  row.DATE &&
-                  row["CONTRACT DESCRIPTION"] &&
-                  row["TRADE PRICE"] &&
-                  (row.BUY || row.SELL)
-              )
-              .reverse();
-            const openLots: OpenLot[] = [];
-            const trades: ParsedTrade[] = [];
-            const executionsPerDate = new Map<string, number>();
-            let skippedRows = 0;
-
-            for (const row of rows) {
-              const quantity = Number(row.BUY || row.SELL);
-              const price = Number(row["TRADE PRICE"]);
-              const dateAtMidnight = parseAmpDate(row.DATE);
-              if (
-                !Number.isFinite(quantity) ||
-                quantity <= 0 ||
-                !Number.isFinite(price) ||
-                !dateAtMidnight
-              ) {
-                skippedRows += 1;
-                continue;
-              }
-              const sequence = executionsPerDate.get(dateAtMidnight) ?? 0;
-              const time = withDefaultExecutionTime(dateAtMidnight, sequence);
-              executionsPerDate.set(dateAtMidnight, sequence + 1);
-
-              const side: "LONG" | "SHORT" = row.BUY ? "LONG" : "SHORT";
-              const contractKey = row["CONTRACT DESCRIPTION"]
-                .trim()
-                .toUpperCase();
-              const symbol = extractSymbol(row["CONTRACT DESCRIPTION"]);
-              let remaining = quantity;
-
-              // Close the oldest open lot for this exact contract first. The
-              // matched quantity is the lower of the entry and exit quantities,
-              // so a 2-lot exit against two 1-lot entries creates two trades,
-              // each with its own entry price and the shared exit price.
-              for (let index = 0; index < openLots.length && remaining > 0; ) {
-                const lot = openLots[index];
-                if (lot.contractKey !== contractKey || lot.side === side) {
-                  index += 1;
-                  continue;
-                }
-                const matchedQuantity = Math.min(remaining, lot.quantity);
-                trades.push({
-                  symbol: lot.symbol,
-                  side: lot.side,
-                  entryPrice: lot.price,
-                  exitPrice: price,
-                  quantity: matchedQuantity,
-                  entryTime: lot.time,
-                  exitTime: time,
-                  commission: 0,
-                  pnl: calculateFuturesPnL(
-                    lot.symbol,
-                    lot.price,
-                    price,
-                    matchedQuantity,
-                    lot.side
-                  ),
-                });
-                lot.quantity -= matchedQuantity;
-                remaining -= matchedQuantity;
-                if (lot.quantity === 0) openLots.splice(index, 1);
-                else index += 1;
-              }
-
-              if (remaining > 0)
-                openLots.push({
-                  contractKey,
-                  symbol,
-                  side,
-                  quantity: remaining,
-                  price,
-                  time,
-                });
-            }
-
-            setParsedTrades(trades);
-            setImportStatus("idle");
-            if (trades.length === 0)
-              setError(
-                "No closed trades were found. Open positions are not imported."
-              );
-            else if (skippedRows > 0)
-              setError(
-                `${skippedRows} invalid row${
-                  skippedRows === 1 ? " was" : "s were"
-                } skipped.`
-              );
-          } catch (parseError) {
-            setError(getErrorMessage(parseError));
-            setImportStatus("error");
-          } finally {
-            setParsing(false);
-          }
-        },
-        error: (parseError: Error) => {
-          setError(`CSV parsing error: ${getErrorMessage(parseError)}`);
-          setImportStatus("error");
-          setParsing(false);
-        },
+      const parsed = parseImportText(await selectedFile.text(), {
+        contracts,
       });
-    } catch (readError) {
-      setError(`Error reading file: ${getErrorMessage(readError)}`);
+      if (!parsed.broker) {
+        await handleUnrecognizedCsv(parsed.headers, parsed.rows);
+        return;
+      }
+      setAmpSource(
+        parsed.broker === "AMP" ? { rows: parsed.rows, uncertainRows: 0 } : null
+      );
+      setTradeHistory(
+        parsed.broker === "BINANCE" || parsed.broker === "BYBIT"
+          ? parsed.result
+          : null
+      );
+      await applyParseResult(parsed.broker, parsed.result);
+    } catch (parseError) {
+      setError(`Error reading file: ${getErrorMessage(parseError)}`);
       setImportStatus("error");
+    } finally {
       setParsing(false);
     }
   };
 
-  const updateDailyStats = async (
-    userId: string,
-    date: string,
-    pnl: number
-  ) => {
-    const statsDate = date.slice(0, 10);
-    const { data: existingStats, error: findError } = await supabase
-      .from("daily_stats")
-      .select("*")
-      .eq("user_id", userId)
-      .eq("date", statsDate)
-      .maybeSingle();
-    if (findError) throw findError;
-    if (existingStats) {
-      const totalTrades = existingStats.total_trades + 1;
-      const winningTrades = existingStats.winning_trades + (pnl > 0 ? 1 : 0);
-      const losingTrades = existingStats.losing_trades + (pnl < 0 ? 1 : 0);
-      const { error: updateError } = await supabase
-        .from("daily_stats")
-        .update({
-          total_trades: totalTrades,
-          winning_trades: winningTrades,
-          losing_trades: losingTrades,
-          total_pnl: existingStats.total_pnl + pnl,
-          win_rate: (winningTrades / totalTrades) * 100,
-        })
-        .eq("id", existingStats.id);
-      if (updateError) throw updateError;
-    } else {
-      const { error: insertError } = await supabase.from("daily_stats").insert({
-        user_id: userId,
-        date: statsDate,
-        total_trades: 1,
-        winning_trades: pnl > 0 ? 1 : 0,
-        losing_trades: pnl < 0 ? 1 : 0,
-        total_pnl: pnl,
-        win_rate: pnl > 0 ? 100 : 0,
-      });
-      if (insertError) throw insertError;
+  const unresolvedSymbols = unknownSymbols.filter(
+    (symbol) => !equitySymbols.includes(symbol)
+  );
+  // Statement fee lines with no fills of their contract that day.
+  const unallocatedFees = lastParse?.result.unallocatedFees ?? [];
+
+  // Prices as the contract is quoted, e.g. 32nds for Treasuries.
+  const formatPrice = (price: number, symbol: string) =>
+    formatContractPrice(
+      price,
+      equitySymbols.includes(symbol)
+        ? null
+        : getContractSpecs(symbol, contracts)
+    );
+
+  // Reloads the registry after a contract was defined from the preview and
+  // re-plans with it, so the new point value shows up in the P&L.
+  const handleContractDefined = async () => {
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) return;
+      const registry = await fetchContractRegistry(supabase, user.id);
+      setContracts(registry);
+      if (lastParse)
+        await applyParseResult(lastParse.broker, lastParse.result, registry);
+    } catch (contractsError) {
+      setError(getErrorMessage(contractsError));
     }
   };
 
-  const importTrades = async () => {
-    if (!parsedTrades.length) return;
-    setImportStatus("importing");
-    setImportProgress({ current: 0, total: parsedTrades.length * 2 });
+  // Reloads the rates after one was entered from the preview and re-plans, so
+  // the trades on that day are converted.
+  const handleFxRateSaved = async () => {
     try {
       const {
         data: { user },
       } = await supabase.auth.getUser();
-      if (!user) throw new Error("User not authenticated");
-      const now = new Date().toISOString();
-      const tradesToInsert = parsedTrades.map((trade) => ({
-        user_id: user.id,
-        symbol: trade.symbol,
-        side: trade.side,
-        entry_date: trade.entryTime,
-        exit_date: trade.exitTime,
-        entry_price: trade.entryPrice,
-        exit_price: trade.exitPrice,
-        quantity: trade.quantity,
-        commission: trade.commission,
-        pnl: trade.pnl,
-        percentage_gain:
-          ((trade.exitPrice - trade.entryPrice) / trade.entryPrice) *
-          (trade.side === "LONG" ? 100 : -100),
-        status: "CLOSED" as const,
-        notes: "Imported from AMP Futures",
-        created_at: now,
-        updated_at: now,
-      }));
-      for (let index = 0; index < tradesToInsert.length; index += 10) {
-        const { error: insertError } = await supabase
-          .from("trades")
-          .insert(tradesToInsert.slice(index, index + 10));
-        if (insertError) throw insertError;
-        setImportProgress({
-          current: Math.min(index + 10, parsedTrades.length),
-          total: parsedTrades.length * 2,
-        });
-      }
-      for (let index = 0; index < parsedTrades.length; index += 1) {
-        await updateDailyStats(
-          user.id,
-          parsedTrades[index].exitTime,
-          parsedTrades[index].pnl
+      if (!user) return;
+      const rates = await fetchFxRates(supabase, user.id, baseCurrency);
+      setFxRates(rates);
+      if (lastParse)
+        await applyParseResult(
+          lastParse.broker,
+          lastParse.result,
+          contracts,
+          applySchedule,
+          rates
         );
-        setImportProgress({
-          current: parsedTrades.length + index + 1,
-          total: parsedTrades.length * 2,
-        });
+    } catch (ratesError) {
+      setError(getErrorMessage(ratesError));
+    }
+  };
+
+  const handleApplyScheduleChange = async (checked: boolean) => {
+    setApplySchedule(checked);
+    if (!lastParse) return;
+    try {
+      await applyParseResult(
+        lastParse.broker,
+        lastParse.result,
+        contracts,
+        checked
+      );
+    } catch (scheduleError) {
+      setError(getErrorMessage(scheduleError));
+    }
+  };
+
+  const handleSkipDuplicatesChange = async (checked: boolean) => {
+    setSkipDuplicates(checked);
+    if (!lastParse) return;
+    try {
+      await applyParseResult(
+        lastParse.broker,
+        lastParse.result,
+        contracts,
+        applySchedule,
+        fxRates,
+        lotMatching,
+        checked
+      );
+    } catch (duplicatesError) {
+      setError(getErrorMessage(duplicatesError));
+    }
+  };
+
+  const handleLotMatchingChange = async (method: LotMatching) => {
+    setLotMatching(method);
+    if (!lastParse) return;
+    try {
+      await applyParseResult(
+        lastParse.broker,
+        lastParse.result,
+        contracts,
+        applySchedule,
+        fxRates,
+        method
+      );
+    } catch (matchingError) {
+      setError(getErrorMessage(matchingError));
+    }
+  };
+
+  const hasSchedule =
+    !!broker && schedules.some((schedule) => schedule.broker === broker);
+
+  const positionChanges = diffCarriedPositions(carriedPositions, openLots);
+  const hasPositionChanges =
+    positionChanges.opened.length > 0 || positionChanges.consumed.length > 0;
+
+  // The import runs in the import route; this only uploads the file and
+  // follows the progress it streams back.
+  const importTrades = async () => {
+    if (
+      (!parsedTrades.length && !hasPositionChanges) ||
+      !broker ||
+      unresolvedSymbols.length > 0 ||
+      missingFxRates.length > 0
+    )
+      return;
+    const file =
+      selectedFile ??
+      (ampSource &&
+        new File([Papa.unparse(ampSource.rows)], pdfFileName ?? "statement", {
+          type: "text/csv",
+        }));
+    if (!file) return;
+    setImportStatus("importing");
+    setImportProgress({ current: 0, total: 0 });
+
+    const body = new FormData();
+    body.append("file", file);
+    body.append("fileName", selectedFile?.name ?? pdfFileName ?? file.name);
+    body.append("skipDuplicates", String(skipDuplicates));
+    body.append("uncertainRows", String(ampSource?.uncertainRows ?? 0));
+    body.append("equitySymbols", JSON.stringify(equitySymbols));
+    body.append("applySchedule", String(applySchedule));
+    body.append("lotMatching", lotMatching);
+    if (activityFile) body.append("activity", activityFile);
+    if (fundingFile) body.append("funding", fundingFile);
+    if (appliedMapping) body.append("mapping", JSON.stringify(appliedMapping));
+    if (importProfile) body.append("source", importProfile.name);
+
+    try {
+      const response = await fetch("/api/import", { method: "POST", body });
+      if (!response.ok || !response.body) {
+        const { error: responseError } = await response
+          .json()
+          .catch(() => ({ error: response.statusText }));
+        throw new Error(responseError);
+      }
+      const reader = response.body
+        .pipeThrough(new TextDecoderStream())
+        .getReader();
+      let buffered = "";
+      let finished = false;
+      while (!finished) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        const lines = (buffered + value).split("\n");
+        buffered = lines.pop() ?? "";
+        for (const line of lines.filter(Boolean)) {
+          const event: ImportEvent = JSON.parse(line);
+          if (event.type === "progress") {
+            setImportProgress({ current: event.current, total: event.total });
+          } else if (event.type === "error") {
+            throw new Error(event.message);
+          } else {
+            finished = true;
+          }
+        }
       }
+      if (!finished) throw new Error("The import stopped before finishing.");
       setImportStatus("success");
       setTimeout(() => router.push("/dashboard/trades"), 2000);
     } catch (importError) {
@@ -348,42 +707,52 @@ export default function ImportPage() {
     <div className="max-w-4xl mx-auto space-y-6">
       <div className="flex items-start justify-between gap-4">
         <div>
-          <h1 className="text-3xl font-bold text-white">Import AMP Trades</h1>
+          <h1 className="text-3xl font-bold text-white">Import Trades</h1>
           <p className="text-neutral-400 mt-2">
-            Import an AMP broker statement CSV.
+            Import an AMP statement, a Tradovate Orders/Fills CSV, a NinjaTrader
+            8 Executions/Trades grid export, an IBKR Flex Query XML report, a
+            Binance, Bybit or Coinbase trade history, or any other broker CSV
+            through a column mapping.
           </p>
         </div>
-        <button
-          onClick={() => setShowPdfImporter((visible) => !visible)}
-          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg"
-        >
-          {showPdfImporter ? "Close PDF Import" : "PDF Import"}
-        </button>
+        <div className="flex gap-3 shrink-0">
+          <Link
+            href="/dashboard/import/history"
+            className="inline-flex items-center px-4 py-2 bg-neutral-800 hover:bg-neutral-700 text-white font-medium rounded-lg"
+          >
+            <History className="w-4 h-4 mr-2" />
+            Import History
+          </Link>
+          <button
+            onClick={() => setShowPdfImporter((visible) => !visible)}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg"
+          >
+            {showPdfImporter ? "Close PDF Import" : "PDF Import"}
+          </button>
+        </div>
       </div>
       {showPdfImporter && (
         <div className="bg-neutral-900 border border-neutral-800 rounded-xl p-6">
           <h2 className="text-lg font-semibold text-white mb-4">
             Import AMP statement PDF
           </h2>
-          <AmpPdfImporter />
+          <AmpPdfImporter onImport={handlePdfRows} />
         </div>
       )}
       <div className="bg-neutral-900 border border-neutral-800 rounded-xl p-6">
-        <h2 className="text-lg font-semibold text-white mb-4">
-          Upload CSV File
-        </h2>
+        <h2 className="text-lg font-semibold text-white mb-4">Upload File</h2>
         <div className="border-2 border-dashed border-neutral-700 rounded-lg p-8 text-center">
           <FileText className="w-12 h-12 text-neutral-400 mx-auto mb-4" />
           <p className="text-neutral-300 mb-4">
             {selectedFile
               ? selectedFile.name
-              : "Choose your AMP broker statement CSV"}
+              : "Choose a broker CSV or IBKR Flex Query XML"}
           </p>
           <input
             type="file"
             id="csv-upload"
             className="hidden"
-            accept=".csv,text/csv"
+            accept=".csv,text/csv,.xml,text/xml,application/xml"
             onChange={handleFileSelect}
             disabled={parsing || importStatus === "importing"}
           />
@@ -392,7 +761,7 @@ export default function ImportPage() {
             className="inline-flex items-center px-4 py-2 bg-white text-black font-medium rounded-lg cursor-pointer"
           >
             <Upload className="w-4 h-4 mr-2" />
-            Select CSV File
+            Select File
           </label>
         </div>
         {selectedFile && (
@@ -402,87 +771,387 @@ export default function ImportPage() {
               disabled={parsing || importStatus === "importing"}
               className="px-4 py-2 bg-white text-black font-medium rounded-lg"
             >
-              {parsing ? "Parsing..." : "Parse CSV"}
+              {parsing ? "Parsing..." : "Parse File"}
             </button>
           </div>
         )}
       </div>
+      {showMappingWizard && unrecognizedCsv && (
+        <div className="bg-neutral-900 border border-neutral-800 rounded-xl p-6">
+          <h2 className="text-lg font-semibold text-white mb-4">
+            Map CSV Columns
+          </h2>
+          <ImportMappingWizard
+            headers={unrecognizedCsv.headers}
+            sampleRows={unrecognizedCsv.rows}
+            initial={
+              importProfile
+                ? {
+                    name: importProfile.name,
+                    mapping: importProfile.column_mapping,
+                    dateFormat: importProfile.date_format,
+                  }
+                : undefined
+            }
+            onApply={handleApplyMapping}
+            onCancel={() => setShowMappingWizard(false)}
+          />
+        </div>
+      )}
       {error && (
         <div className="bg-red-500/10 border border-red-500 rounded-lg p-4 flex gap-3">
           <AlertCircle className="w-5 h-5 text-red-500 shrink-0" />
           <p className="text-red-400 text-sm">{error}</p>
         </div>
       )}
-      {parsedTrades.length > 0 && importStatus !== "success" && (
-        <div className="bg-neutral-900 border border-neutral-800 rounded-xl p-6">
-          <div className="flex items-center justify-between mb-4">
-            <h2 className="text-lg font-semibold text-white">
-              Found {parsedTrades.length} closed trade
-              {parsedTrades.length === 1 ? "" : "s"}
-            </h2>
-            <button
-              onClick={importTrades}
-              disabled={importStatus === "importing"}
-              className="px-4 py-2 bg-green-600 text-white font-medium rounded-lg"
-            >
-              {importStatus === "importing"
-                ? `Importing... (${importProgress.current}/${importProgress.total})`
-                : "Import All Trades"}
-            </button>
-          </div>
-          <div className="overflow-x-auto">
-            <table className="w-full text-sm">
-              <thead className="bg-neutral-800">
-                <tr>
-                  {[
-                    "Symbol",
-                    "Side",
-                    "Entry",
-                    "Exit",
-                    "Qty",
-                    "P&L",
-                    "Date",
-                  ].map((label) => (
-                    <th
-                      key={label}
-                      className="px-4 py-3 text-left text-xs font-medium text-neutral-400 uppercase"
-                    >
-                      {label}
-                    </th>
+      {(parsedTrades.length > 0 || hasPositionChanges) &&
+        importStatus !== "success" && (
+          <div className="bg-neutral-900 border border-neutral-800 rounded-xl p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold text-white">
+                Found {parsedTrades.length} closed trade
+                {parsedTrades.length === 1 ? "" : "s"}
+                {broker && (
+                  <span className="ml-2 text-sm font-normal text-neutral-400">
+                    from {importProfile?.name ?? BROKER_LABELS[broker]}
+                  </span>
+                )}
+                {broker === "CUSTOM" && unrecognizedCsv && (
+                  <button
+                    onClick={() => setShowMappingWizard(true)}
+                    className="ml-3 text-sm font-normal text-blue-400 hover:text-blue-300"
+                  >
+                    Edit column mapping
+                  </button>
+                )}
+              </h2>
+              <button
+                onClick={importTrades}
+                disabled={
+                  importStatus === "importing" ||
+                  unresolvedSymbols.length > 0 ||
+                  missingFxRates.length > 0 ||
+                  (parsedTrades.length === 0 && !hasPositionChanges)
+                }
+                className="px-4 py-2 bg-green-600 text-white font-medium rounded-lg disabled:opacity-50"
+              >
+                {importStatus === "importing"
+                  ? `Importing... (${importProgress.current}/${importProgress.total})`
+                  : duplicateCount > 0 && skipDuplicates
+                  ? `Import ${parsedTrades.length} New Trade${
+                      parsedTrades.length === 1 ? "" : "s"
+                    }`
+                  : "Import All Trades"}
+              </button>
+            </div>
+            {unresolvedSymbols.length > 0 && (
+              <div className="mb-4 space-y-3">
+                {unresolvedSymbols.map((symbol) => (
+                  <UnknownContractWarning
+                    key={symbol}
+                    symbol={symbol}
+                    onDefined={handleContractDefined}
+                    onMarkEquity={() =>
+                      setEquitySymbols([...equitySymbols, symbol])
+                    }
+                  />
+                ))}
+              </div>
+            )}
+            {missingFxRates.length > 0 && (
+              <div className="mb-4 space-y-3">
+                {missingFxRates.map(({ currency, date }) => (
+                  <FxRateWarning
+                    key={`${currency} ${date}`}
+                    currency={currency}
+                    baseCurrency={baseCurrency}
+                    date={date}
+                    onSaved={handleFxRateSaved}
+                  />
+                ))}
+              </div>
+            )}
+            {unallocatedFees.length > 0 && (
+              <div className="mb-4 rounded-lg border border-amber-500 bg-amber-500/10 p-4 text-sm text-amber-300">
+                <p>
+                  {unallocatedFees.length} fee line
+                  {unallocatedFees.length === 1 ? " has" : "s have"} no fills of{" "}
+                  {unallocatedFees.length === 1 ? "its" : "their"} contract that
+                  day and won&apos;t be charged to any trade:
+                </p>
+                <ul className="mt-1 list-disc list-inside text-neutral-300">
+                  {unallocatedFees.map((fee, index) => (
+                    <li key={index}>
+                      {fee.day} {fee.description}: {fee.amount.toFixed(2)}
+                    </li>
                   ))}
-                </tr>
-              </thead>
-              <tbody>
-                {parsedTrades.map((trade, index) => (
-                  <tr key={index} className="border-t border-neutral-700">
-                    <td className="px-4 py-3 text-white">{trade.symbol}</td>
-                    <td className="px-4 py-3 text-neutral-300">{trade.side}</td>
-                    <td className="px-4 py-3 text-neutral-300">
-                      ${trade.entryPrice}
-                    </td>
-                    <td className="px-4 py-3 text-neutral-300">
-                      ${trade.exitPrice}
-                    </td>
-                    <td className="px-4 py-3 text-neutral-300">
-                      {trade.quantity}
-                    </td>
-                    <td
-                      className={`px-4 py-3 ${
-                        trade.pnl >= 0 ? "text-green-500" : "text-red-500"
-                      }`}
-                    >
-                      ${trade.pnl.toFixed(2)}
-                    </td>
-                    <td className="px-4 py-3 text-neutral-400">
-                      {format(new Date(trade.exitTime), "MMM dd, yyyy")}
-                    </td>
+                </ul>
+              </div>
+            )}
+            {equitySymbols.length > 0 && (
+              <p className="mb-4 text-sm text-neutral-400">
+                {equitySymbols.join(", ")} will be imported as stock
+                {equitySymbols.length === 1 ? "" : "s"}, with P&L per share.{" "}
+                <button
+                  onClick={() => setEquitySymbols([])}
+                  className="text-blue-400 hover:text-blue-300"
+                >
+                  Undo
+                </button>
+              </p>
+            )}
+            {hasPositionChanges && (
+              <div className="mb-4 rounded-lg border border-blue-500/40 bg-blue-500/10 px-4 py-3 text-sm text-blue-300 space-y-1">
+                {positionChanges.consumed.length > 0 && (
+                  <p>
+                    Closes {positionChanges.consumed.length} position
+                    {positionChanges.consumed.length === 1 ? "" : "s"} carried
+                    over from an earlier import.
+                  </p>
+                )}
+                {positionChanges.opened.length > 0 && (
+                  <>
+                    <p>
+                      {positionChanges.opened.length} position
+                      {positionChanges.opened.length === 1
+                        ? " is"
+                        : "s are"}{" "}
+                      still open and will be saved as open trades until a later
+                      statement closes{" "}
+                      {positionChanges.opened.length === 1 ? "it" : "them"}:
+                    </p>
+                    <ul className="list-disc list-inside text-neutral-300">
+                      {positionChanges.opened.map((lot, index) => (
+                        <li key={index}>
+                          {lot.side} {lot.quantity}{" "}
+                          {contractCode(lot.symbol, lot.contractMonth)} @ $
+                          {formatPrice(lot.price, lot.symbol)}{" "}
+                          <span className="text-neutral-500">
+                            ({format(new Date(lot.time), "MMM dd, yyyy")})
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </>
+                )}
+              </div>
+            )}
+            {broker === "AMP" && ampSource && (
+              <div className="mb-4 flex flex-wrap items-center justify-between gap-3 rounded-lg border border-neutral-700 bg-neutral-800/50 px-4 py-3 text-sm">
+                <span className="text-neutral-300">
+                  {fillTimeSummary ??
+                    "AMP statements have no fill times, so these are estimated. Add a Trade Activity export to use the real times."}
+                </span>
+                <label className="inline-flex items-center px-3 py-1 bg-neutral-700 hover:bg-neutral-600 text-white text-xs font-medium rounded-lg cursor-pointer">
+                  <Upload className="w-3 h-3 mr-1" />
+                  Add Trade Activity CSV
+                  <input
+                    type="file"
+                    accept=".csv,text/csv"
+                    className="sr-only"
+                    onChange={handleActivityFile}
+                  />
+                </label>
+              </div>
+            )}
+            {tradeHistory && tradeHistory.executions.length > 0 && (
+              <div className="mb-4 flex flex-wrap items-center justify-between gap-3 rounded-lg border border-neutral-700 bg-neutral-800/50 px-4 py-3 text-sm">
+                <span className="text-neutral-300">
+                  {fundingSummary ??
+                    (broker === "BINANCE"
+                      ? "Add the futures Transaction History to count the funding paid on these positions."
+                      : "Add the Transaction Log to count the funding paid on these positions.")}
+                </span>
+                <label className="inline-flex items-center px-3 py-1 bg-neutral-700 hover:bg-neutral-600 text-white text-xs font-medium rounded-lg cursor-pointer">
+                  <Upload className="w-3 h-3 mr-1" />
+                  Add Funding History
+                  <input
+                    type="file"
+                    accept=".csv,text/csv"
+                    className="sr-only"
+                    onChange={handleFundingFile}
+                  />
+                </label>
+              </div>
+            )}
+            {hasSchedule && (
+              <label className="mb-4 flex items-center gap-2 rounded-lg border border-neutral-700 bg-neutral-800/50 px-4 py-3 text-sm text-neutral-300">
+                <input
+                  type="checkbox"
+                  checked={applySchedule}
+                  onChange={(e) => handleApplyScheduleChange(e.target.checked)}
+                />
+                Charge fills without fees on the statement at my{" "}
+                {BROKER_LABELS[broker!]} commission schedule
+              </label>
+            )}
+            {matchingComparison.length > 0 && (
+              <div className="mb-4 rounded-lg border border-neutral-700 bg-neutral-800/50 px-4 py-3 text-sm text-neutral-300">
+                <label className="flex flex-wrap items-center gap-2">
+                  Match fills into trades by
+                  <select
+                    value={lotMatching}
+                    onChange={(e) =>
+                      handleLotMatchingChange(e.target.value as LotMatching)
+                    }
+                    className="rounded border border-neutral-600 bg-neutral-700 px-2 py-1 text-white"
+                  >
+                    {Object.entries(LOT_MATCHING_LABELS).map(
+                      ([value, label]) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      )
+                    )}
+                  </select>
+                </label>
+                <table className="mt-3 w-full text-xs">
+                  <thead>
+                    <tr className="text-left uppercase text-neutral-400">
+                      <th className="py-1 pr-4 font-medium">Method</th>
+                      <th className="py-1 pr-4 font-medium">Trades</th>
+                      <th className="py-1 pr-4 font-medium">Win rate</th>
+                      <th className="py-1 font-medium">Net P&L</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {matchingComparison.map((summary) => (
+                      <tr
+                        key={summary.lotMatching}
+                        onClick={() =>
+                          handleLotMatchingChange(summary.lotMatching)
+                        }
+                        className={`cursor-pointer ${
+                          summary.lotMatching === lotMatching
+                            ? "text-white"
+                            : "text-neutral-400 hover:text-neutral-200"
+                        }`}
+                      >
+                        <td className="py-1 pr-4">
+                          {LOT_MATCHING_LABELS[summary.lotMatching]}
+                        </td>
+                        <td className="py-1 pr-4">{summary.tradeCount}</td>
+                        <td className="py-1 pr-4">
+                          {summary.winRate === null
+                            ? "-"
+                            : `${summary.winRate.toFixed(1)}%`}
+                        </td>
+                        <td
+                          className={`py-1 ${
+                            summary.pnl >= 0 ? "text-green-500" : "text-red-500"
+                          }`}
+                        >
+                          {formatMoney(summary.pnl, baseCurrency)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            {duplicateCount > 0 && (
+              <div className="mb-4 flex flex-wrap items-center justify-between gap-3 rounded-lg border border-yellow-500/40 bg-yellow-500/10 px-4 py-3 text-sm">
+                <span className="text-yellow-400">
+                  {duplicateCount} fill
+                  {duplicateCount === 1 ? " was" : "s were"} already imported
+                  from an earlier statement.
+                </span>
+                <label className="flex items-center gap-2 text-neutral-300">
+                  <input
+                    type="checkbox"
+                    checked={skipDuplicates}
+                    onChange={(e) =>
+                      handleSkipDuplicatesChange(e.target.checked)
+                    }
+                  />
+                  Leave out already imported fills
+                </label>
+              </div>
+            )}
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-neutral-800">
+                  <tr>
+                    {[
+                      "Symbol",
+                      "Side",
+                      "Entry",
+                      "Exit",
+                      "Qty",
+                      "Fees",
+                      "P&L",
+                      "Date",
+                    ].map((label) => (
+                      <th
+                        key={label}
+                        className="px-4 py-3 text-left text-xs font-medium text-neutral-400 uppercase"
+                      >
+                        {label}
+                      </th>
+                    ))}
                   </tr>
-                ))}
-              </tbody>
-            </table>
+                </thead>
+                <tbody>
+                  {parsedTrades.map((trade, index) => (
+                    <tr key={index} className="border-t border-neutral-700">
+                      <td className="px-4 py-3 text-white">
+                        {contractCode(trade.symbol, trade.contractMonth)}
+                      </td>
+                      <td className="px-4 py-3 text-neutral-300">
+                        {trade.side}
+                      </td>
+                      <td className="px-4 py-3 text-neutral-300">
+                        ${formatPrice(trade.entryPrice, trade.symbol)}
+                      </td>
+                      <td className="px-4 py-3 text-neutral-300">
+                        ${formatPrice(trade.exitPrice, trade.symbol)}
+                      </td>
+                      <td className="px-4 py-3 text-neutral-300">
+                        {trade.quantity}
+                        {trade.fills && trade.fills.length > 2 && (
+                          <span className="block text-xs text-neutral-500">
+                            {trade.fills.length} fills, max {trade.maxPosition}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-neutral-300">
+                        {formatMoney(
+                          trade.commission,
+                          trade.currency ?? DEFAULT_BASE_CURRENCY
+                        )}
+                      </td>
+                      <td
+                        className={`px-4 py-3 ${
+                          trade.pnl >= 0 ? "text-green-500" : "text-red-500"
+                        }`}
+                      >
+                        {trade.fxRateToBase === undefined
+                          ? "-"
+                          : formatMoney(
+                              trade.pnl * trade.fxRateToBase,
+                              baseCurrency
+                            )}
+                        {trade.currency && trade.currency !== baseCurrency && (
+                          <span className="block text-xs text-neutral-500">
+                            {formatMoney(trade.pnl, trade.currency)}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-neutral-400">
+                        {format(new Date(trade.exitTime), "MMM dd, yyyy")}
+                        {trade.timeEstimated && (
+                          <span className="ml-2 text-xs text-neutral-500">
+                            time estimated
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
           </div>
-        </div>
-      )}
+        )}
       {importStatus === "success" && (
         <div className="bg-green-500/10 border border-green-500 rounded-lg p-6 text-center">
           <Check className="w-12 h-12 text-green-500 mx-auto mb-4" />
@@ -508,8 +1177,96 @@ export default function ImportPage() {
           <li>Take a screenshot of the Purchase & Sale</li>
           <li>Import to AI & reformat to use commas</li>
           <li>Remove DEBIT/CREDIT column and TOTAL rows</li>
+          <li>
+            Keep the commission and fee lines, with the fee name before the
+            contract description and the amount under TRADE PRICE
+          </li>
           <li>Select &#34;Export to CSV&#34;</li>
           <li>Upload the downloaded CSV file here</li>
+          <li>
+            Optionally export the same days from AMP&#39;s Trade Activity screen
+            and add it to the preview for real fill times
+          </li>
+        </ol>
+
+        <h3 className="text-blue-400 font-semibold mt-4 mb-2">
+          How to Export from Tradovate
+        </h3>
+        <ol className="text-neutral-300 text-sm space-y-2 list-decimal list-inside">
+          <li>Open the Orders or Fills module</li>
+          <li>Choose the date range to export</li>
+          <li>Click the download icon to save the grid as CSV</li>
+          <li>
+            Upload the CSV file here; the broker is detected automatically
+          </li>
+        </ol>
+
+        <h3 className="text-blue-400 font-semibold mt-4 mb-2">
+          How to Export from NinjaTrader 8
+        </h3>
+        <ol className="text-neutral-300 text-sm space-y-2 list-decimal list-inside">
+          <li>
+            Open Trade Performance or the Executions tab of Control Center
+          </li>
+          <li>Right-click the Executions or Trades grid</li>
+          <li>Select &#34;Export&#34; and save as CSV</li>
+          <li>Upload the CSV file here</li>
+        </ol>
+
+        <h3 className="text-blue-400 font-semibold mt-4 mb-2">
+          How to Export from Interactive Brokers
+        </h3>
+        <ol className="text-neutral-300 text-sm space-y-2 list-decimal list-inside">
+          <li>
+            In Client Portal, open Performance &amp; Reports → Flex Queries
+          </li>
+          <li>
+            Create an Activity Flex Query with the Trades (Executions) and
+            Commission Details sections
+          </li>
+          <li>Run the query with XML as the output format</li>
+          <li>Upload the XML file here</li>
+        </ol>
+
+        <h3 className="text-blue-400 font-semibold mt-4 mb-2">
+          How to Export from Binance
+        </h3>
+        <ol className="text-neutral-300 text-sm space-y-2 list-decimal list-inside">
+          <li>
+            Open Orders → Spot Order → Trade History, or Futures Order → Trade
+            History for USDⓈ-M and COIN-M futures
+          </li>
+          <li>Click Export, choose the date range and download the CSV</li>
+          <li>
+            For funding, export the futures Transaction History for the same
+            dates and add it with Add Funding History once the trades are read
+          </li>
+        </ol>
+
+        <h3 className="text-blue-400 font-semibold mt-4 mb-2">
+          How to Export from Bybit
+        </h3>
+        <ol className="text-neutral-300 text-sm space-y-2 list-decimal list-inside">
+          <li>
+            Open Orders → Derivatives Order (or Spot Order) → Trade History
+          </li>
+          <li>Click Export and download the CSV</li>
+          <li>
+            Funding settlements come from the Unified Trading Account&#39;s
+            Transaction Log, added with Add Funding History once the trades are
+            read
+          </li>
+        </ol>
+
+        <h3 className="text-blue-400 font-semibold mt-4 mb-2">
+          How to Export from Coinbase
+        </h3>
+        <ol className="text-neutral-300 text-sm space-y-2 list-decimal list-inside">
+          <li>
+            Open Profile → Reports and generate a Transaction history CSV, or
+            download your fills from Advanced Trade → Orders → Fills
+          </li>
+          <li>Upload the CSV file here</li>
         </ol>
 
         <div className="mt-4 p-3 bg-neutral-800 rounded-lg">
@@ -519,7 +1276,15 @@ export default function ImportPage() {
           <ul className="text-neutral-500 text-xs mt-1 list-disc list-inside">
             <li>Market and Stop orders that were filled</li>
             <li>Matching Buy → Sell orders to create complete trades</li>
+            <li>
+              Positions left open at the end of a statement, which the next
+              import closes
+            </li>
             <li>Futures contracts (MGC, MES, MNQ, ES, NQ, CL, GC)</li>
+            <li>
+              Crypto spot and perpetuals quoted in USD, a stablecoin or a fiat
+              currency, with funding counted toward net P&amp;L
+            </li>
           </ul>
         </div>
       </div>
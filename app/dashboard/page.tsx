@@ -8,6 +8,21 @@ import {
   ChartDataPoint,
   AccountBalance,
 } from "@/types/database";
+import {
+  ContractRegistry,
+  FUTURES_CONTRACTS,
+  contractCode,
+  formatContractPrice,
+  getContractSpecs,
+} from "@/lib/futures-specs";
+import { fetchContractRegistry } from "@/lib/contract-specs";
+import { isFuture } from "@/lib/asset-classes";
+import { optionPositionLabel } from "@/lib/options";
+import {
+  DEFAULT_BASE_CURRENCY,
+  fetchBaseCurrency,
+  formatMoney,
+} from "@/lib/fx-rates";
 import {
   LineChart,
   Line,
@@ -59,6 +74,8 @@ type TimePeriod = "ALL" | "YTD" | "1Y" | "3M" | "7D";
 
 export default function DashboardPage() {
   const [trades, setTrades] = useState<Trade[]>([]);
+  const [contracts, setContracts] =
+    useState<ContractRegistry>(FUTURES_CONTRACTS);
   const [dailyStats, setDailyStats] = useState<DailyStats[]>([]);
   const [dashboardStats, setDashboardStats] = useState<DashboardStats>({
     totalPnL: 0,
@@ -76,6 +93,8 @@ export default function DashboardPage() {
     []
   );
   const [loading, setLoading] = useState(true);
+  // Trade P&L is stored converted into this currency, so totals add up.
+  const [baseCurrency, setBaseCurrency] = useState(DEFAULT_BASE_CURRENCY);
   const supabase = createClient();
 
   const filterTradesByPeriod = useCallback(
@@ -196,6 +215,15 @@ export default function DashboardPage() {
 
   const periodStats = calculatePeriodStats();
 
+  // Prices as the contract is quoted, e.g. 32nds for Treasuries.
+  const formatTradePrice = (trade: Trade, price: number) =>
+    formatContractPrice(
+      price,
+      isFuture(trade.asset_class)
+        ? getContractSpecs(trade.symbol, contracts)
+        : null
+    );
+
   const fetchDashboardData = useCallback(async () => {
     try {
       const {
@@ -223,6 +251,9 @@ export default function DashboardPage() {
         .eq("user_id", user.id)
         .single();
 
+      setContracts(await fetchContractRegistry(supabase, user.id));
+      setBaseCurrency(await fetchBaseCurrency(supabase, user.id));
+
       if (tradesData) {
         setTrades(tradesData);
         calculateDashboardStats(tradesData);
@@ -326,7 +357,7 @@ export default function DashboardPage() {
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6">
         <StatCard
           title="Total P&L"
-          value={`$${dashboardStats.totalPnL.toFixed(2)}`}
+          value={formatMoney(dashboardStats.totalPnL, baseCurrency)}
           subtitle="All time"
           icon={dashboardStats.totalPnL >= 0 ? ArrowUpRight : ArrowDownRight}
           trend={dashboardStats.totalPnL >= 0 ? "up" : "down"}
@@ -347,8 +378,11 @@ export default function DashboardPage() {
         />
         <StatCard
           title="Average Win"
-          value={`$${dashboardStats.avgWin.toFixed(2)}`}
-          subtitle={`Loss: $${dashboardStats.avgLoss.toFixed(2)}`}
+          value={formatMoney(dashboardStats.avgWin, baseCurrency)}
+          subtitle={`Loss: ${formatMoney(
+            dashboardStats.avgLoss,
+            baseCurrency
+          )}`}
           icon={TrendingUp}
           trend="neutral"
         />
@@ -370,7 +404,10 @@ export default function DashboardPage() {
           })()}
           subtitle={
             accountBalance
-              ? `Initial $${accountBalance.starting_balance.toFixed(2)}`
+              ? `Initial ${formatMoney(
+                  accountBalance.starting_balance,
+                  baseCurrency
+                )}`
               : "No starting balance set"
           }
           icon={TrendingUp}
@@ -401,7 +438,7 @@ export default function DashboardPage() {
                 tickFormatter={(num: number) => {
                   return new Intl.NumberFormat("en-US", {
                     style: "currency",
-                    currency: "USD",
+                    currency: baseCurrency,
                     maximumFractionDigits: 0,
                     minimumFractionDigits: 0,
                   }).format(num);
@@ -416,7 +453,7 @@ export default function DashboardPage() {
                 formatter={(num: number) => {
                   return new Intl.NumberFormat("en-US", {
                     style: "currency",
-                    currency: "USD",
+                    currency: baseCurrency,
                   }).format(num);
                 }}
               />
@@ -434,16 +471,20 @@ export default function DashboardPage() {
             <div>
               <p className="text-neutral-400">Period Start</p>
               <p className="text-white font-medium">
-                ${filteredChartData[0]?.cumulativePnL.toFixed(2) || 0}
+                {formatMoney(
+                  filteredChartData[0]?.cumulativePnL || 0,
+                  baseCurrency
+                )}
               </p>
             </div>
             <div>
               <p className="text-neutral-400">Period End</p>
               <p className="text-white font-medium">
-                $
-                {filteredChartData[
-                  filteredChartData.length - 1
-                ]?.cumulativePnL.toFixed(2) || 0}
+                {formatMoney(
+                  filteredChartData[filteredChartData.length - 1]
+                    ?.cumulativePnL || 0,
+                  baseCurrency
+                )}
               </p>
             </div>
             <div>
@@ -503,7 +544,7 @@ export default function DashboardPage() {
                 formatter={(num: number) => {
                   return new Intl.NumberFormat("en-US", {
                     style: "currency",
-                    currency: "USD",
+                    currency: baseCurrency,
                   }).format(num);
                 }}
               />
@@ -543,7 +584,11 @@ export default function DashboardPage() {
                   <td className="py-3 px-4">
                     {format(parseISO(trade.entry_date), "MMM dd, yyyy")}
                   </td>
-                  <td className="py-3 px-4 font-medium">{trade.symbol}</td>
+                  <td className="py-3 px-4 font-medium">
+                    {contractCode(trade.symbol, trade.contract_month)}
+                    {trade.asset_class === "OPTION" &&
+                      ` ${optionPositionLabel(trade)}`}
+                  </td>
                   <td className="py-3 px-4">
                     <span
                       className={`px-2 py-1 rounded text-xs font-medium ${
@@ -555,9 +600,13 @@ export default function DashboardPage() {
                       {trade.side}
                     </span>
                   </td>
-                  <td className="py-3 px-4">${trade.entry_price}</td>
                   <td className="py-3 px-4">
-                    {trade.exit_price ? `$${trade.exit_price}` : "-"}
+                    ${formatTradePrice(trade, trade.entry_price)}
+                  </td>
+                  <td className="py-3 px-4">
+                    {trade.exit_price
+                      ? `$${formatTradePrice(trade, trade.exit_price)}`
+                      : "-"}
                   </td>
                   <td className="py-3 px-4">
                     {trade.pnl ? (
@@ -566,7 +615,7 @@ export default function DashboardPage() {
                           trade.pnl >= 0 ? "text-green-500" : "text-red-500"
                         }
                       >
-                        ${trade.pnl.toFixed(2)}
+                        {formatMoney(trade.pnl, baseCurrency)}
                       </span>
                     ) : (
                       "-"
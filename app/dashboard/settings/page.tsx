@@ -5,8 +5,25 @@ import { createClient } from "@/lib/supabase/client";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { User, Bell, Shield, Save, Check, X } from "lucide-react";
+import {
+  User,
+  Bell,
+  Shield,
+  Save,
+  Check,
+  X,
+  Layers,
+  Receipt,
+  Coins,
+  GitMerge,
+  BookOpen,
+} from "lucide-react";
 import { Profile } from "@/types/database";
+import ContractSpecsSettings from "@/components/ContractSpecsSettings";
+import CommissionSchedulesSettings from "@/components/CommissionSchedulesSettings";
+import CurrencySettings from "@/components/CurrencySettings";
+import LotMatchingSettings from "@/components/LotMatchingSettings";
+import PlaybookSettings from "@/components/PlaybookSettings";
 
 const profileSchema = z.object({
   full_name: z.string().min(1, "Full name is required"),
@@ -33,7 +50,15 @@ type PasswordFormData = z.infer<typeof passwordSchema>;
 
 export default function SettingsPage() {
   const [activeTab, setActiveTab] = useState<
-    "profile" | "notifications" | "security" | "billing"
+    | "profile"
+    | "notifications"
+    | "security"
+    | "contracts"
+    | "commissions"
+    | "currencies"
+    | "matching"
+    | "playbook"
+    | "billing"
   >("profile");
   const [loading, setLoading] = useState(false);
   const [message, setMessage] = useState<{
@@ -194,6 +219,11 @@ export default function SettingsPage() {
     { id: "profile", label: "Profile", icon: User },
     { id: "notifications", label: "Notifications", icon: Bell },
     { id: "security", label: "Security", icon: Shield },
+    { id: "contracts", label: "Contracts", icon: Layers },
+    { id: "commissions", label: "Commissions", icon: Receipt },
+    { id: "currencies", label: "Currencies", icon: Coins },
+    { id: "matching", label: "Matching", icon: GitMerge },
+    { id: "playbook", label: "Playbook", icon: BookOpen },
     //{ id: "billing", label: "Billing", icon: CreditCard },
   ];
 
@@ -218,6 +248,11 @@ export default function SettingsPage() {
                       | "profile"
                       | "notifications"
                       | "security"
+                      | "contracts"
+                      | "commissions"
+                      | "currencies"
+                      | "matching"
+                      | "playbook"
                       | "billing"
                   )
                 }
@@ -537,6 +572,21 @@ export default function SettingsPage() {
           </div>
         )}
 
+        {/* Contracts Tab */}
+        {activeTab === "contracts" && <ContractSpecsSettings />}
+
+        {/* Commissions Tab */}
+        {activeTab === "commissions" && <CommissionSchedulesSettings />}
+
+        {/* Currencies Tab */}
+        {activeTab === "currencies" && <CurrencySettings />}
+
+        {/* Matching Tab */}
+        {activeTab === "matching" && <LotMatchingSettings />}
+
+        {/* Playbook Tab */}
+        {activeTab === "playbook" && <PlaybookSettings />}
+
         {/* Billing Tab */}
         {/* {activeTab === "billing" && (
           <div className="bg-gray-800 border border-gray-700 rounded-xl p-6">
@@ -1,24 +1,88 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { createClient } from "@/lib/supabase/client";
-import { useForm } from "react-hook-form";
+import { Controller, useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { ArrowLeft } from "lucide-react";
 import {
-  calculateFuturesPnL,
   getContractSpecs,
+  ContractRegistry,
   FuturesContract,
+  FUTURES_CONTRACTS,
+  formatTicks,
+  isOnTick,
+  pnlInTicks,
 } from "@/lib/futures-specs";
+import { fetchContractRegistry } from "@/lib/contract-specs";
+import {
+  ASSET_CLASS_LABELS,
+  calculateTradePnL,
+  isFuture,
+  percentageGain,
+  quantityUnit,
+} from "@/lib/asset-classes";
+import {
+  fetchCommissionSchedules,
+  tradeFees,
+} from "@/lib/commission-schedules";
+import { BROKER_LABELS, Broker } from "@/lib/import";
+import {
+  DEFAULT_BASE_CURRENCY,
+  fetchBaseCurrency,
+  fetchFxRates,
+  findFxRate,
+  formatMoney,
+} from "@/lib/fx-rates";
+import {
+  OPTION_STRATEGY_LABELS,
+  OptionLegDraft,
+  defaultMultiplier,
+  legsFromDrafts,
+  optionRealizedPnL,
+  saveOptionLegs,
+  strategyLegDrafts,
+  summarizeOptionPosition,
+  validateOptionLegDrafts,
+} from "@/lib/options";
+import {
+  ExecutionDraft,
+  emptyExecutionDraft,
+  executionsFromDrafts,
+  saveTradeExecutions,
+  summarizeExecutions,
+  validateExecutionDrafts,
+} from "@/lib/executions";
+import {
+  CRYPTO_CONTRACT_LABELS,
+  DEFAULT_INVERSE_CONTRACT_SIZE,
+} from "@/lib/crypto";
+import {
+  AssetClass,
+  CommissionSchedule,
+  CryptoContract,
+  FxRate,
+  OptionStrategy,
+  Setup,
+  Tag,
+} from "@/types/database";
+import { EMPTY_TRADE_LABELS, TradeLabels, fetchSetups } from "@/lib/setups";
+import { fetchTags, saveTradeTags } from "@/lib/tags";
+import PriceInput from "@/components/PriceInput";
+import OptionLegsEditor from "@/components/OptionLegsEditor";
+import ExecutionsEditor from "@/components/ExecutionsEditor";
+import UnknownContractWarning from "@/components/UnknownContractWarning";
+import FxRateWarning from "@/components/FxRateWarning";
+import TradeLabelsEditor from "@/components/TradeLabelsEditor";
 
 const tradeSchema = z.object({
   symbol: z.string().min(1, "Symbol is required"),
   side: z.enum(["LONG", "SHORT"]),
   entry_date: z.string().min(1, "Entry date is required"),
   entry_price: z.number().positive("Entry price must be positive"),
-  quantity: z.number().int().positive("Quantity must be positive"),
+  quantity: z.number().positive("Quantity must be positive"),
   commission: z.number().min(0, "Commission must be non-negative").optional(),
   notes: z.string().optional(),
   exit_date: z.string().optional(),
@@ -33,6 +97,35 @@ export default function NewTradePage() {
   const [contractInfo, setContractInfo] = useState<FuturesContract | null>(
     null
   );
+  const [contracts, setContracts] =
+    useState<ContractRegistry>(FUTURES_CONTRACTS);
+  const [assetClass, setAssetClass] = useState<AssetClass>("FUTURE");
+  const [schedules, setSchedules] = useState<CommissionSchedule[]>([]);
+  const [broker, setBroker] = useState<Broker | "">("");
+  // Set once the commission is typed in, which stops the schedule from
+  // filling it.
+  const [commissionOverridden, setCommissionOverridden] = useState(false);
+  const [baseCurrency, setBaseCurrency] = useState(DEFAULT_BASE_CURRENCY);
+  const [fxRates, setFxRates] = useState<FxRate[]>([]);
+  const [strategy, setStrategy] = useState<OptionStrategy>("VERTICAL");
+  const [optionLegs, setOptionLegs] = useState<OptionLegDraft[]>(
+    strategyLegDrafts("VERTICAL")
+  );
+  // Blank uses the underlying's default.
+  const [multiplier, setMultiplier] = useState("");
+  const [optionError, setOptionError] = useState<string | null>(null);
+  const [cryptoContract, setCryptoContract] = useState<CryptoContract>("SPOT");
+  // US dollars per inverse contract. Blank uses the default.
+  const [contractSize, setContractSize] = useState("");
+  // A position scaled into or out of is entered fill by fill.
+  const [scaled, setScaled] = useState(false);
+  const [executionDrafts, setExecutionDrafts] = useState<ExecutionDraft[]>([
+    emptyExecutionDraft("BUY"),
+  ]);
+  const [executionError, setExecutionError] = useState<string | null>(null);
+  const [labels, setLabels] = useState<TradeLabels>(EMPTY_TRADE_LABELS);
+  const [setups, setSetups] = useState<Setup[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
   const router = useRouter();
   const supabase = createClient();
 
@@ -41,6 +134,10 @@ export default function NewTradePage() {
     handleSubmit,
     formState: { errors },
     watch,
+    control,
+    setError,
+    setValue,
+    getValues,
   } = useForm<TradeFormData>({
     resolver: zodResolver(tradeSchema),
     defaultValues: {
@@ -54,17 +151,109 @@ export default function NewTradePage() {
   const watchQuantity = watch("quantity");
   const watchSymbol = watch("symbol");
   const watchCommission = watch("commission");
+  const watchExitDate = watch("exit_date");
+  const isOption = assetClass === "OPTION";
+  const isCrypto = assetClass === "CRYPTO";
+  const isInverse = isCrypto && cryptoContract === "INVERSE";
+  const inverseContractSize =
+    Number(contractSize) || DEFAULT_INVERSE_CONTRACT_SIZE;
+  const unknownContract =
+    !!watchSymbol && !contractInfo && assetClass === "FUTURE";
+  // The contract whose tick size prices have to sit on. Stocks have none.
+  const tickContract = isFuture(assetClass) ? contractInfo : null;
+  // Round-turn fees from the schedule, or the entry side's for an open trade.
+  const scheduledCommission = tradeFees(schedules, {
+    broker: broker || null,
+    asset_class: assetClass,
+    symbol: watchSymbol?.toUpperCase() ?? "",
+    side: watchSide,
+    quantity: watchQuantity,
+    status: tradeStatus,
+  });
+
+  // Prices, fees and P&L are in the contract's currency, or the underlying
+  // contract's for options on futures. Stocks are taken to be in USD.
+  const tradeCurrency =
+    ((assetClass === "FUTURE" || isOption) && contractInfo?.currency) ||
+    DEFAULT_BASE_CURRENCY;
+  const optionMultiplier =
+    Number(multiplier) || defaultMultiplier(watchSymbol ?? "", contracts);
+  // The legs rolled up into one position, once they are filled in.
+  const optionLegInputs =
+    isOption &&
+    validateOptionLegDrafts(optionLegs, tradeStatus === "CLOSED") === null
+      ? legsFromDrafts(optionLegs)
+      : null;
+  const optionPosition = optionLegInputs
+    ? summarizeOptionPosition(optionLegInputs)
+    : null;
+  // Fees typed against the legs' fills, or the form's commission when there
+  // are none.
+  const optionCommission =
+    optionPosition && optionPosition.commission > 0
+      ? optionPosition.commission
+      : watchCommission || 0;
+  const isScaled = scaled && !isOption;
+  // The fills rolled up into one position, once they are filled in.
+  const scaledPosition =
+    isScaled && validateExecutionDrafts(executionDrafts) === null
+      ? summarizeExecutions(executionsFromDrafts(executionDrafts))
+      : null;
+  // Fees typed against the fills, or the form's commission when there are
+  // none.
+  const scaledCommission =
+    scaledPosition && scaledPosition.commission > 0
+      ? scaledPosition.commission
+      : watchCommission || 0;
+  const exitDate = isScaled
+    ? scaledPosition?.exit_date
+    : isOption
+    ? optionPosition?.exit_date
+    : watchExitDate;
+  // The rate into the base currency on the exit day, null when the user has
+  // none for it.
+  const fxRate =
+    tradeStatus === "CLOSED" && exitDate
+      ? findFxRate(fxRates, tradeCurrency, baseCurrency, exitDate)
+      : 1;
+  const missingFxRate = fxRate === null;
 
   const calculatePnL = () => {
+    if (isOption) {
+      if (!optionLegInputs || !optionPosition?.closed) return 0;
+      return (
+        optionRealizedPnL(optionLegInputs, optionMultiplier) - optionCommission
+      );
+    }
+    if (isScaled) {
+      if (!scaledPosition || scaledPosition.exit_price === null) return 0;
+      return (
+        calculateTradePnL(
+          watchSymbol ?? "",
+          scaledPosition.entry_price,
+          scaledPosition.exit_price,
+          scaledPosition.quantity,
+          scaledPosition.side,
+          assetClass,
+          contracts,
+          isInverse ? inverseContractSize : undefined,
+          isCrypto ? cryptoContract : undefined
+        ) - scaledCommission
+      );
+    }
     if (!watchEntryPrice || !watchExitPrice || !watchQuantity || !watchSymbol)
       return 0;
 
-    const grossPnL = calculateFuturesPnL(
+    const grossPnL = calculateTradePnL(
       watchSymbol,
       watchEntryPrice,
       watchExitPrice,
       watchQuantity,
-      watchSide
+      watchSide,
+      assetClass,
+      contracts,
+      isInverse ? inverseContractSize : undefined,
+      isCrypto ? cryptoContract : undefined
     );
     const fees = watchCommission || 0;
 
@@ -72,17 +261,60 @@ export default function NewTradePage() {
   };
 
   const calculatePercentageGain = () => {
-    if (!watchEntryPrice || !watchExitPrice) return 0;
-
-    const percentage =
-      watchSide === "LONG"
-        ? ((watchExitPrice - watchEntryPrice) / watchEntryPrice) * 100
-        : ((watchEntryPrice - watchExitPrice) / watchEntryPrice) * 100;
-
-    return percentage;
+    if (isOption)
+      return optionPosition && optionPosition.exit_price !== null
+        ? percentageGain(
+            optionPosition.entry_price,
+            optionPosition.exit_price,
+            optionPosition.side,
+            assetClass
+          )
+        : null;
+    if (isScaled)
+      return scaledPosition && scaledPosition.exit_price !== null
+        ? percentageGain(
+            scaledPosition.entry_price,
+            scaledPosition.exit_price,
+            scaledPosition.side,
+            assetClass
+          )
+        : null;
+    if (!watchEntryPrice || !watchExitPrice) return null;
+    return percentageGain(
+      watchEntryPrice,
+      watchExitPrice,
+      watchSide,
+      assetClass
+    );
   };
 
   const onSubmit = async (data: TradeFormData) => {
+    if (unknownContract || fxRate === null) return;
+    if (isFuture(assetClass) && !Number.isInteger(data.quantity)) {
+      setError("quantity", {
+        message: "Futures are traded in whole contracts",
+      });
+      return;
+    }
+    if (isInverse && !Number.isInteger(data.quantity)) {
+      setError("quantity", {
+        message: "Inverse perpetuals are traded in whole contracts",
+      });
+      return;
+    }
+    if (tickContract) {
+      const offTick = (["entry_price", "exit_price"] as const).filter(
+        (field) =>
+          Number.isFinite(data[field]) &&
+          !isOnTick(data[field]!, tickContract.tickSize)
+      );
+      offTick.forEach((field) =>
+        setError(field, {
+          message: `Must be a multiple of the ${tickContract.symbol} tick size (${tickContract.tickSize})`,
+        })
+      );
+      if (offTick.length > 0) return;
+    }
     setLoading(true);
 
     try {
@@ -105,26 +337,43 @@ export default function NewTradePage() {
         entry_price: data.entry_price,
         quantity: data.quantity,
         commission: data.commission || 0,
+        currency: tradeCurrency,
+        broker: broker || null,
+        commission_overridden: commissionOverridden,
         notes: data.notes || "",
+        setup_id: labels.setup_id,
+        rules_followed: labels.rules_followed,
         status: tradeStatus,
+        asset_class: assetClass,
+        ...(isCrypto && {
+          crypto_contract: cryptoContract,
+          multiplier: isInverse ? inverseContractSize : null,
+        }),
         ...(tradeStatus === "CLOSED" && {
           exit_date: localExitDate,
           exit_price: data.exit_price,
-          pnl: calculatePnL(),
+          pnl_native: calculatePnL(),
+          pnl: calculatePnL() * fxRate,
+          fx_rate: fxRate,
           percentage_gain: calculatePercentageGain(),
         }),
       };
 
-      const { error } = await supabase.from("trades").insert([tradeData]);
+      const { data: trade, error } = await supabase
+        .from("trades")
+        .insert([tradeData])
+        .select()
+        .single();
 
       if (error) throw error;
+      await saveTradeTags(supabase, user.id, trade.id, labels.tags);
 
       // Update daily stats
       if (tradeStatus === "CLOSED" && data.exit_date) {
         await updateDailyStats(
           user.id,
           data.exit_date,
-          calculatePnL()
+          calculatePnL() * fxRate
           //- (data.commission || 0)
         );
       }
@@ -139,6 +388,170 @@ export default function NewTradePage() {
     }
   };
 
+  // Options skip the form's side, price, quantity and date fields, which
+  // come from the legs' fills instead.
+  const onSubmitOption = async () => {
+    const { symbol, notes } = getValues();
+    const closed = tradeStatus === "CLOSED";
+    const problem = !symbol?.trim()
+      ? "Underlying is required."
+      : validateOptionLegDrafts(optionLegs, closed);
+    setOptionError(problem);
+    if (problem || fxRate === null) return;
+    const legs = legsFromDrafts(optionLegs);
+    const position = summarizeOptionPosition(legs);
+    setLoading(true);
+
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const pnl = calculatePnL();
+      const { data: trade, error } = await supabase
+        .from("trades")
+        .insert([
+          {
+            user_id: user.id,
+            symbol: symbol.toUpperCase(),
+            asset_class: assetClass,
+            strategy,
+            multiplier: optionMultiplier,
+            side: position.side,
+            entry_date: position.entry_date,
+            entry_price: position.entry_price,
+            quantity: position.quantity,
+            commission: optionCommission,
+            currency: tradeCurrency,
+            broker: broker || null,
+            commission_overridden: commissionOverridden,
+            notes: notes || "",
+            setup_id: labels.setup_id,
+            rules_followed: labels.rules_followed,
+            status: tradeStatus,
+            ...(closed && {
+              exit_date: position.exit_date,
+              exit_price: position.exit_price,
+              pnl_native: pnl,
+              pnl: pnl * fxRate,
+              fx_rate: fxRate,
+              percentage_gain: calculatePercentageGain(),
+            }),
+          },
+        ])
+        .select()
+        .single();
+
+      if (error) throw error;
+      await saveOptionLegs(supabase, user.id, trade.id, legs);
+      await saveTradeTags(supabase, user.id, trade.id, labels.tags);
+
+      if (closed && position.exit_date) {
+        await updateDailyStats(user.id, position.exit_date, pnl * fxRate);
+      }
+
+      router.push("/dashboard/trades");
+      router.refresh();
+    } catch (error) {
+      console.error("Error adding trade:", error);
+      alert("Error adding trade. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Scaled positions take their side, prices, size and dates from the fills.
+  const onSubmitScaled = async () => {
+    const { symbol, notes } = getValues();
+    const closed = tradeStatus === "CLOSED";
+    const problem = !symbol?.trim()
+      ? "Symbol is required."
+      : validateExecutionDrafts(executionDrafts) ??
+        (scaledPosition!.closed !== closed
+          ? closed
+            ? "The fills leave the position open. Add the closing fills or mark the trade open."
+            : "The fills close the position. Mark the trade closed."
+          : isFuture(assetClass) &&
+            executionsFromDrafts(executionDrafts).some(
+              (execution) => !Number.isInteger(execution.quantity)
+            )
+          ? "Futures are traded in whole contracts."
+          : null);
+    setExecutionError(problem);
+    if (problem || !scaledPosition || fxRate === null) return;
+    setLoading(true);
+
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const pnl = calculatePnL();
+      const { data: trade, error } = await supabase
+        .from("trades")
+        .insert([
+          {
+            user_id: user.id,
+            symbol: symbol.toUpperCase(),
+            asset_class: assetClass,
+            ...(isCrypto && {
+              crypto_contract: cryptoContract,
+              multiplier: isInverse ? inverseContractSize : null,
+            }),
+            side: scaledPosition.side,
+            entry_date: new Date(scaledPosition.entry_date).toISOString(),
+            entry_price: scaledPosition.entry_price,
+            quantity: scaledPosition.quantity,
+            max_position: scaledPosition.max_position,
+            commission: scaledCommission,
+            currency: tradeCurrency,
+            broker: broker || null,
+            commission_overridden: commissionOverridden,
+            notes: notes || "",
+            setup_id: labels.setup_id,
+            rules_followed: labels.rules_followed,
+            status: tradeStatus,
+            ...(closed && {
+              exit_date: new Date(scaledPosition.exit_date!).toISOString(),
+              exit_price: scaledPosition.exit_price,
+              pnl_native: pnl,
+              pnl: pnl * fxRate,
+              fx_rate: fxRate,
+              percentage_gain: calculatePercentageGain(),
+            }),
+          },
+        ])
+        .select()
+        .single();
+
+      if (error) throw error;
+      await saveTradeExecutions(
+        supabase,
+        user.id,
+        trade.id,
+        executionsFromDrafts(executionDrafts).map((execution) => ({
+          ...execution,
+          executed_at: new Date(execution.executed_at).toISOString(),
+        }))
+      );
+      await saveTradeTags(supabase, user.id, trade.id, labels.tags);
+
+      if (closed && scaledPosition.exit_date) {
+        await updateDailyStats(user.id, scaledPosition.exit_date, pnl * fxRate);
+      }
+
+      router.push("/dashboard/trades");
+      router.refresh();
+    } catch (error) {
+      console.error("Error adding trade:", error);
+      alert("Error adding trade. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const updateDailyStats = async (
     userId: string,
     date: string,
@@ -192,27 +605,93 @@ export default function NewTradePage() {
     }
   };
 
-  const getPriceStep = (symbol: string) => {
-    if (
-      symbol.includes("6") ||
-      symbol.includes("/") ||
-      ["EUR", "GBP", "JPY", "AUD"].some((curr) => symbol.includes(curr))
-    ) {
-      return "0.00001";
-    }
-    return "0.01";
-  };
-
   const handleGoBack = () => {
     router.back();
   };
 
+  const loadContracts = useCallback(async () => {
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) return;
+      setContracts(await fetchContractRegistry(supabase, user.id));
+    } catch (error) {
+      console.error("Error loading contract specs:", error);
+    }
+  }, [supabase]);
+
   useEffect(() => {
-    if (watchSymbol) {
-      const specs = getContractSpecs(watchSymbol);
-      setContractInfo(specs);
+    loadContracts();
+  }, [loadContracts]);
+
+  const loadFxRates = useCallback(async () => {
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) return;
+      const base = await fetchBaseCurrency(supabase, user.id);
+      setBaseCurrency(base);
+      setFxRates(await fetchFxRates(supabase, user.id, base));
+    } catch (error) {
+      console.error("Error loading FX rates:", error);
     }
-  }, [watchSymbol]);
+  }, [supabase]);
+
+  useEffect(() => {
+    loadFxRates();
+  }, [loadFxRates]);
+
+  // Starts on the broker the user has schedules for, when there is only one.
+  useEffect(() => {
+    const loadSchedules = async () => {
+      try {
+        const {
+          data: { user },
+        } = await supabase.auth.getUser();
+        if (!user) return;
+        const userSchedules = await fetchCommissionSchedules(supabase, user.id);
+        setSchedules(userSchedules);
+        const brokers = new Set(
+          userSchedules.map((schedule) => schedule.broker)
+        );
+        if (brokers.size === 1) setBroker([...brokers][0]);
+      } catch (error) {
+        console.error("Error loading commission schedules:", error);
+      }
+    };
+    loadSchedules();
+  }, [supabase]);
+
+  useEffect(() => {
+    const loadLabels = async () => {
+      try {
+        const {
+          data: { user },
+        } = await supabase.auth.getUser();
+        if (!user) return;
+        setSetups(await fetchSetups(supabase, user.id));
+        setTags(await fetchTags(supabase, user.id));
+      } catch (error) {
+        console.error("Error loading setups and tags:", error);
+      }
+    };
+    loadLabels();
+  }, [supabase]);
+
+  useEffect(() => {
+    if (commissionOverridden || scheduledCommission === null) return;
+    setValue("commission", scheduledCommission, {
+      shouldValidate: true,
+    });
+  }, [scheduledCommission, commissionOverridden, setValue]);
+
+  useEffect(() => {
+    setContractInfo(
+      watchSymbol ? getContractSpecs(watchSymbol, contracts) : null
+    );
+  }, [watchSymbol, contracts]);
 
   return (
     <div className="max-w-2xl mx-auto">
@@ -229,7 +708,22 @@ export default function NewTradePage() {
       </div>
 
       <div className="bg-gray-800 border border-gray-700 rounded-xl p-6">
-        <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+        <form
+          onSubmit={
+            isOption
+              ? (e) => {
+                  e.preventDefault();
+                  onSubmitOption();
+                }
+              : isScaled
+              ? (e) => {
+                  e.preventDefault();
+                  onSubmitScaled();
+                }
+              : handleSubmit(onSubmit)
+          }
+          className="space-y-6"
+        >
           {/* Trade Status Toggle */}
           <div>
             <label className="block text-gray-300 text-sm font-medium mb-2">
@@ -261,38 +755,54 @@ export default function NewTradePage() {
             </div>
           </div>
 
-          {/* Symbol and Side */}
-          <div className="grid grid-cols-2 gap-6">
+          {/* Asset Class, Symbol and Side */}
+          <div className="grid grid-cols-3 gap-6">
             <div>
               <label className="block text-gray-300 text-sm font-medium mb-2">
-                Symbol
+                Asset Class
+              </label>
+              <select
+                value={assetClass}
+                onChange={(e) => setAssetClass(e.target.value as AssetClass)}
+                className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-blue-500 transition-colors"
+              >
+                {Object.entries(ASSET_CLASS_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-gray-300 text-sm font-medium mb-2">
+                {isOption ? "Underlying" : "Symbol"}
               </label>
               <input
                 type="text"
                 {...register("symbol")}
-                list="futures-symbols"
-                onChange={(e) => {
-                  const specs = getContractSpecs(e.target.value);
-                  setContractInfo(specs);
-                }}
+                list={
+                  isFuture(assetClass) || isOption
+                    ? "futures-symbols"
+                    : undefined
+                }
                 className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-blue-500 transition-colors"
-                placeholder="e.g., ES, NQ"
+                placeholder={
+                  isFuture(assetClass)
+                    ? "e.g., ES, NQ"
+                    : isOption
+                    ? "e.g., SPY, ES"
+                    : assetClass === "CRYPTO"
+                    ? "e.g., BTC"
+                    : "e.g., AAPL, SPY"
+                }
               />
               <datalist id="futures-symbols">
-                <option value="ES">ES - E-mini S&P 500</option>
-                <option value="MES">MES - Micro E-mini S&P</option>
-                <option value="NQ">NQ - E-mini Nasdaq</option>
-                <option value="MNQ">MNQ - Micro E-mini Nasdaq</option>
-                <option value="RTY">RTY - E-mini Russell</option>
-                <option value="M2K">M2K - Micro E-mini Russell</option>
-                <option value="YM">YM - E-mini Dow</option>
-                <option value="GC">GC - Gold</option>
-                <option value="MGC">MGC - Micro Gold</option>
-                <option value="CL">CL - Crude Oil</option>
-                <option value="MCL">MCL - Micro Crude Oil</option>
-                <option value="NG">NG - Natural Gas</option>
-                <option value="6E">6E - Euro FX</option>
-                <option value="M6E">M6E - Micro Euro FX</option>
+                {Object.values(contracts).map((contract) => (
+                  <option key={contract.symbol} value={contract.symbol}>
+                    {contract.symbol} - {contract.name}
+                  </option>
+                ))}
               </datalist>
               {errors.symbol && (
                 <p className="text-red-500 text-sm mt-1">
@@ -301,32 +811,185 @@ export default function NewTradePage() {
               )}
             </div>
 
+            {isOption ? (
+              <div>
+                <label className="block text-gray-300 text-sm font-medium mb-2">
+                  Strategy
+                </label>
+                <select
+                  value={strategy}
+                  onChange={(e) => {
+                    const next = e.target.value as OptionStrategy;
+                    setStrategy(next);
+                    setOptionLegs(strategyLegDrafts(next));
+                  }}
+                  className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-blue-500 transition-colors"
+                >
+                  {Object.entries(OPTION_STRATEGY_LABELS).map(
+                    ([value, label]) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    )
+                  )}
+                </select>
+              </div>
+            ) : (
+              <div className={isScaled ? "hidden" : ""}>
+                <label className="block text-gray-300 text-sm font-medium mb-2">
+                  Side
+                </label>
+                <select
+                  {...register("side")}
+                  className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-blue-500 transition-colors"
+                >
+                  <option value="LONG">Long</option>
+                  <option value="SHORT">Short</option>
+                </select>
+              </div>
+            )}
+          </div>
+
+          {isCrypto && (
+            <div className="grid grid-cols-3 gap-6">
+              <div>
+                <label className="block text-gray-300 text-sm font-medium mb-2">
+                  Contract
+                </label>
+                <select
+                  value={cryptoContract}
+                  onChange={(e) =>
+                    setCryptoContract(e.target.value as CryptoContract)
+                  }
+                  className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-blue-500 transition-colors"
+                >
+                  {Object.entries(CRYPTO_CONTRACT_LABELS).map(
+                    ([value, label]) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    )
+                  )}
+                </select>
+              </div>
+              {isInverse && (
+                <div>
+                  <label className="block text-gray-300 text-sm font-medium mb-2">
+                    Contract Size (USD)
+                  </label>
+                  <input
+                    type="number"
+                    step="any"
+                    min="0"
+                    value={contractSize}
+                    onChange={(e) => setContractSize(e.target.value)}
+                    className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-blue-500 transition-colors"
+                    placeholder={String(DEFAULT_INVERSE_CONTRACT_SIZE)}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          {unknownContract && (
+            <UnknownContractWarning
+              symbol={watchSymbol.toUpperCase()}
+              onDefined={loadContracts}
+              onMarkEquity={() => setAssetClass("STOCK")}
+            />
+          )}
+
+          {/* Option Legs */}
+          {isOption && (
             <div>
               <label className="block text-gray-300 text-sm font-medium mb-2">
-                Side
+                Legs
               </label>
-              <select
-                {...register("side")}
-                className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-blue-500 transition-colors"
-              >
-                <option value="LONG">Long</option>
-                <option value="SHORT">Short</option>
-              </select>
+              <OptionLegsEditor legs={optionLegs} onChange={setOptionLegs} />
+              {optionPosition && (
+                <p className="text-gray-400 text-xs mt-2">
+                  {optionPosition.quantity} spread
+                  {optionPosition.quantity === 1 ? "" : "s"} for a net{" "}
+                  {optionPosition.side === "LONG" ? "debit" : "credit"} of{" "}
+                  {optionPosition.entry_price.toFixed(2)}
+                  {optionPosition.exit_price !== null &&
+                    `, closed at ${optionPosition.exit_price.toFixed(2)}`}
+                </p>
+              )}
+              {optionError && (
+                <p className="text-red-500 text-sm mt-1">{optionError}</p>
+              )}
             </div>
-          </div>
+          )}
+
+          {/* Fills */}
+          {!isOption && (
+            <div>
+              <label className="flex items-center gap-2 text-gray-300 text-sm font-medium">
+                <input
+                  type="checkbox"
+                  checked={scaled}
+                  onChange={(e) => setScaled(e.target.checked)}
+                  className="rounded border-gray-600 bg-gray-700"
+                />
+                Scaled in or out: enter each fill
+              </label>
+              {isScaled && (
+                <div className="mt-3">
+                  <ExecutionsEditor
+                    executions={executionDrafts}
+                    onChange={setExecutionDrafts}
+                  />
+                  {scaledPosition && (
+                    <p className="text-gray-400 text-xs mt-2">
+                      {scaledPosition.side === "LONG" ? "Long" : "Short"}{" "}
+                      {scaledPosition.quantity} at an average of{" "}
+                      {scaledPosition.entry_price.toFixed(2)}
+                      {scaledPosition.average_exit_price !== null &&
+                        `, ${
+                          scaledPosition.exited_quantity
+                        } out at an average of ${scaledPosition.average_exit_price.toFixed(
+                          2
+                        )}`}
+                      . Max position {scaledPosition.max_position}
+                      {!scaledPosition.closed &&
+                        `, ${scaledPosition.open_quantity} still open`}
+                      .
+                    </p>
+                  )}
+                  {executionError && (
+                    <p className="text-red-500 text-sm mt-1">
+                      {executionError}
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
 
           {/* Price Details */}
-          <div className="grid grid-cols-2 gap-6">
+          <div
+            className={`grid grid-cols-2 gap-6 ${
+              isOption || isScaled ? "hidden" : ""
+            }`}
+          >
             <div>
               <label className="block text-gray-300 text-sm font-medium mb-2">
                 Entry Price
               </label>
-              <input
-                type="number"
-                step={getPriceStep(watch("symbol") || "")}
-                {...register("entry_price", { valueAsNumber: true })}
-                className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-blue-500 transition-colors"
-                placeholder="0.00"
+              <Controller
+                name="entry_price"
+                control={control}
+                render={({ field }) => (
+                  <PriceInput
+                    value={field.value}
+                    onChange={field.onChange}
+                    onBlur={field.onBlur}
+                    contract={tickContract}
+                    className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-blue-500 transition-colors"
+                    placeholder="0.00"
+                  />
+                )}
               />
               {errors.entry_price && (
                 <p className="text-red-500 text-sm mt-1">
@@ -340,19 +1003,35 @@ export default function NewTradePage() {
                 <label className="block text-gray-300 text-sm font-medium mb-2">
                   Exit Price
                 </label>
-                <input
-                  type="number"
-                  step={getPriceStep(watch("symbol") || "")}
-                  {...register("exit_price", { valueAsNumber: true })}
-                  className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-blue-500 transition-colors"
-                  placeholder="0.00"
+                <Controller
+                  name="exit_price"
+                  control={control}
+                  render={({ field }) => (
+                    <PriceInput
+                      value={field.value}
+                      onChange={field.onChange}
+                      onBlur={field.onBlur}
+                      contract={tickContract}
+                      className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-blue-500 transition-colors"
+                      placeholder="0.00"
+                    />
+                  )}
                 />
+                {errors.exit_price && (
+                  <p className="text-red-500 text-sm mt-1">
+                    {errors.exit_price.message}
+                  </p>
+                )}
               </div>
             )}
           </div>
 
           {/* Date Details */}
-          <div className="grid grid-cols-2 gap-6">
+          <div
+            className={`grid grid-cols-2 gap-6 ${
+              isOption || isScaled ? "hidden" : ""
+            }`}
+          >
             <div>
               <label className="block text-gray-300 text-sm font-medium mb-2">
                 Entry Date & Time
@@ -382,23 +1061,62 @@ export default function NewTradePage() {
             )}
           </div>
 
-          {/* Quantity and Commission */}
-          <div className="grid grid-cols-2 gap-6">
+          {/* Quantity, Broker and Commission */}
+          <div className="grid grid-cols-3 gap-6">
+            {isOption ? (
+              <div>
+                <label className="block text-gray-300 text-sm font-medium mb-2">
+                  Multiplier
+                </label>
+                <input
+                  type="number"
+                  step="any"
+                  min="0"
+                  value={multiplier}
+                  onChange={(e) => setMultiplier(e.target.value)}
+                  className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-blue-500 transition-colors"
+                  placeholder={String(
+                    defaultMultiplier(watchSymbol ?? "", contracts)
+                  )}
+                />
+              </div>
+            ) : (
+              <div className={isScaled ? "hidden" : ""}>
+                <label className="block text-gray-300 text-sm font-medium mb-2">
+                  Quantity (
+                  {quantityUnit(assetClass, isCrypto ? cryptoContract : null)})
+                </label>
+                <input
+                  type="number"
+                  step="any"
+                  {...register("quantity", { valueAsNumber: true })}
+                  className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-blue-500 transition-colors"
+                  placeholder="1"
+                />
+                {errors.quantity && (
+                  <p className="text-red-500 text-sm mt-1">
+                    {errors.quantity.message}
+                  </p>
+                )}
+              </div>
+            )}
+
             <div>
               <label className="block text-gray-300 text-sm font-medium mb-2">
-                Quantity (Contracts)
+                Broker
               </label>
-              <input
-                type="number"
-                {...register("quantity", { valueAsNumber: true })}
-                className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-blue-500 transition-colors"
-                placeholder="1"
-              />
-              {errors.quantity && (
-                <p className="text-red-500 text-sm mt-1">
-                  {errors.quantity.message}
-                </p>
-              )}
+              <select
+                value={broker}
+                onChange={(e) => setBroker(e.target.value as Broker | "")}
+                className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-blue-500 transition-colors"
+              >
+                <option value="">None</option>
+                {Object.entries(BROKER_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
             </div>
 
             <div>
@@ -408,13 +1126,44 @@ export default function NewTradePage() {
               <input
                 type="number"
                 step="0.01"
-                {...register("commission", { valueAsNumber: true })}
+                {...register("commission", {
+                  valueAsNumber: true,
+                  onChange: () => setCommissionOverridden(true),
+                })}
                 className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-blue-500 transition-colors"
                 placeholder="0.00"
               />
+              {scheduledCommission !== null &&
+                (commissionOverridden ? (
+                  <button
+                    type="button"
+                    onClick={() => setCommissionOverridden(false)}
+                    className="text-blue-400 hover:text-blue-300 text-xs mt-1"
+                  >
+                    Use schedule (
+                    {formatMoney(scheduledCommission, tradeCurrency)})
+                  </button>
+                ) : (
+                  <p className="text-gray-400 text-xs mt-1">
+                    From your {BROKER_LABELS[broker as Broker]} schedule
+                  </p>
+                ))}
             </div>
           </div>
 
+          {/* Setup and Tags */}
+          <div>
+            <label className="block text-gray-300 text-sm font-medium mb-2">
+              Setup and Tags
+            </label>
+            <TradeLabelsEditor
+              labels={labels}
+              setups={setups}
+              tags={tags}
+              onChange={setLabels}
+            />
+          </div>
+
           {/* Notes */}
           <div>
             <label className="block text-gray-300 text-sm font-medium mb-2">
@@ -428,11 +1177,22 @@ export default function NewTradePage() {
             />
           </div>
 
+          {missingFxRate && exitDate && (
+            <FxRateWarning
+              currency={tradeCurrency}
+              baseCurrency={baseCurrency}
+              date={exitDate.split("T")[0]}
+              onSaved={loadFxRates}
+            />
+          )}
+
           {/* P&L Preview for closed trades */}
           {tradeStatus === "CLOSED" &&
-            watchEntryPrice &&
-            watchExitPrice &&
-            watchQuantity && (
+            (isOption
+              ? optionPosition?.exit_price != null
+              : isScaled
+              ? scaledPosition?.exit_price != null
+              : !!(watchEntryPrice && watchExitPrice && watchQuantity)) && (
               <div className="bg-gray-700 rounded-lg p-4">
                 <h3 className="text-white font-medium mb-2">Trade Summary</h3>
                 <div className="space-y-2 text-sm">
@@ -443,21 +1203,52 @@ export default function NewTradePage() {
                         calculatePnL() >= 0 ? "text-green-500" : "text-red-500"
                       }`}
                     >
-                      ${calculatePnL().toFixed(2)}
-                    </span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-gray-400">Percentage:</span>
-                    <span
-                      className={`font-medium ${
-                        calculatePercentageGain() >= 0
-                          ? "text-green-500"
-                          : "text-red-500"
-                      }`}
-                    >
-                      {calculatePercentageGain().toFixed(2)}%
+                      {formatMoney(calculatePnL(), tradeCurrency)}
                     </span>
                   </div>
+                  {tradeCurrency !== baseCurrency && fxRate !== null && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-400">In {baseCurrency}:</span>
+                      <span
+                        className={`font-medium ${
+                          calculatePnL() >= 0
+                            ? "text-green-500"
+                            : "text-red-500"
+                        }`}
+                      >
+                        {formatMoney(calculatePnL() * fxRate, baseCurrency)}
+                      </span>
+                    </div>
+                  )}
+                  {calculatePercentageGain() !== null && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-400">Percentage:</span>
+                      <span
+                        className={`font-medium ${
+                          calculatePercentageGain()! >= 0
+                            ? "text-green-500"
+                            : "text-red-500"
+                        }`}
+                      >
+                        {calculatePercentageGain()!.toFixed(2)}%
+                      </span>
+                    </div>
+                  )}
+                  {tickContract && watchExitPrice !== undefined && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-400">Per contract:</span>
+                      <span className="font-medium text-gray-300">
+                        {formatTicks(
+                          pnlInTicks(
+                            watchEntryPrice,
+                            watchExitPrice,
+                            watchSide,
+                            tickContract.tickSize
+                          )
+                        )}
+                      </span>
+                    </div>
+                  )}
                 </div>
               </div>
             )}
@@ -465,7 +1256,7 @@ export default function NewTradePage() {
           {/* Submit Button */}
           <button
             type="submit"
-            disabled={loading}
+            disabled={loading || unknownContract || missingFxRate}
             className="w-full py-3 px-4 bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 text-white font-medium rounded-lg transition-all duration-200 transform hover:scale-[1.02] disabled:opacity-50 disabled:cursor-not-allowed"
           >
             {loading ? "Adding Trade..." : "Add Trade"}
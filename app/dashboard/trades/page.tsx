@@ -3,7 +3,16 @@
 import React from "react";
 import { useEffect, useState, useCallback } from "react";
 import { createClient } from "@/lib/supabase/client";
-import { Trade } from "@/types/database";
+import {
+  AssetClass,
+  CommissionSchedule,
+  CryptoContract,
+  FxRate,
+  OptionStrategy,
+  Setup,
+  Tag,
+  Trade,
+} from "@/types/database";
 import { parseISO } from "date-fns";
 import { formatInTimeZone } from "date-fns-tz";
 import Link from "next/link";
@@ -15,10 +24,85 @@ import {
   Save,
   X,
   Search,
+  ChevronDown,
   ChevronLeft,
   ChevronRight,
 } from "lucide-react";
-import { calculateFuturesPnL } from "@/lib/futures-specs";
+import {
+  ContractRegistry,
+  FUTURES_CONTRACTS,
+  contractCode,
+  formatContractPrice,
+  formatTicks,
+  getContractSpecs,
+  isOnTick,
+  pnlInTicks,
+} from "@/lib/futures-specs";
+import { fetchContractRegistry } from "@/lib/contract-specs";
+import {
+  ASSET_CLASS_LABELS,
+  calculateTradePnL,
+  isFuture,
+  percentageGain,
+} from "@/lib/asset-classes";
+import {
+  fetchCommissionSchedules,
+  tradeFees,
+} from "@/lib/commission-schedules";
+import { BROKER_LABELS, Broker } from "@/lib/import";
+import { recalculateDailyStats } from "@/lib/daily-stats";
+import {
+  DEFAULT_BASE_CURRENCY,
+  fetchBaseCurrency,
+  fetchFxRates,
+  findFxRate,
+  formatMoney,
+} from "@/lib/fx-rates";
+import {
+  OPTION_STRATEGY_LABELS,
+  OptionLegDraft,
+  defaultMultiplier,
+  draftFromLeg,
+  formatOptionLeg,
+  legsFromDrafts,
+  optionPositionLabel,
+  optionRealizedPnL,
+  saveOptionLegs,
+  sortedLegs,
+  summarizeOptionPosition,
+  validateOptionLegDrafts,
+} from "@/lib/options";
+import {
+  CRYPTO_CONTRACT_LABELS,
+  DEFAULT_INVERSE_CONTRACT_SIZE,
+  isPerpetual,
+} from "@/lib/crypto";
+import {
+  ExecutionDraft,
+  draftFromExecution,
+  executionsFromDrafts,
+  saveTradeExecutions,
+  sortedExecutions,
+  summarizeExecutions,
+  toDateTimeLocal,
+  validateExecutionDrafts,
+} from "@/lib/executions";
+import {
+  EMPTY_TRADE_LABELS,
+  TradeLabels,
+  assignSetup,
+  fetchSetups,
+  labelsFromTrade,
+} from "@/lib/setups";
+import { addTradeTags, fetchTags, saveTradeTags } from "@/lib/tags";
+import PriceInput from "@/components/PriceInput";
+import OptionLegsEditor from "@/components/OptionLegsEditor";
+import ExecutionsEditor from "@/components/ExecutionsEditor";
+import TradeExecutions from "@/components/TradeExecutions";
+import TradeLabelsEditor from "@/components/TradeLabelsEditor";
+import UnknownContractWarning from "@/components/UnknownContractWarning";
+import FxRateWarning from "@/components/FxRateWarning";
+import FundingPayments from "@/components/FundingPayments";
 
 type PageSize = 10 | 50 | "ALL";
 type MetricsSize = 50 | 100 | 200 | 500 | "ALL";
@@ -30,13 +114,41 @@ export default function TradesPage() {
   const [filteredTrades, setFilteredTrades] = useState<Trade[]>([]);
   const [loading, setLoading] = useState(true);
   const [filter, setFilter] = useState<"ALL" | "OPEN" | "CLOSED">("ALL");
+  // Narrows the table and the performance metrics to one asset class.
+  const [assetClassFilter, setAssetClassFilter] = useState<AssetClass | "ALL">(
+    "ALL"
+  );
+  // A setup id, or NONE for trades without one.
+  const [setupFilter, setSetupFilter] = useState<string>("ALL");
+  // Tag names a trade must all have to be shown.
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
   const [sortBy, setSortBy] = useState<SortBy>("date");
   const [searchSymbol, setSearchSymbol] = useState("");
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editedTrade, setEditedTrade] = useState<Partial<Trade>>({});
+  const [editedLegs, setEditedLegs] = useState<OptionLegDraft[]>([]);
+  const [editedExecutions, setEditedExecutions] = useState<ExecutionDraft[]>(
+    []
+  );
+  const [editedLabels, setEditedLabels] =
+    useState<TradeLabels>(EMPTY_TRADE_LABELS);
+  // Trades ticked for a bulk change of setup or tags.
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [bulkSetupId, setBulkSetupId] = useState("");
+  const [bulkTags, setBulkTags] = useState("");
+  const [bulkSaving, setBulkSaving] = useState(false);
+  // The position whose fills are shown under its row.
+  const [expandedId, setExpandedId] = useState<string | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
   const [pageSize, setPageSize] = useState<PageSize>(10);
   const [metricsSize, setMetricsSize] = useState<MetricsSize>("ALL");
+  const [contracts, setContracts] =
+    useState<ContractRegistry>(FUTURES_CONTRACTS);
+  const [schedules, setSchedules] = useState<CommissionSchedule[]>([]);
+  const [baseCurrency, setBaseCurrency] = useState(DEFAULT_BASE_CURRENCY);
+  const [fxRates, setFxRates] = useState<FxRate[]>([]);
+  const [setups, setSetups] = useState<Setup[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
   const supabase = createClient();
 
   const totalPages =
@@ -59,12 +171,21 @@ export default function TradesPage() {
 
       const { data, error } = await supabase
         .from("trades")
-        .select("*")
+        .select(
+          "*, option_legs(*, fills:option_leg_fills(*)), executions(*), tags(*)"
+        )
         .eq("user_id", user.id)
         .order("entry_date", { ascending: false });
 
       if (error) throw error;
       if (data) setTrades(data);
+      setContracts(await fetchContractRegistry(supabase, user.id));
+      setSchedules(await fetchCommissionSchedules(supabase, user.id));
+      const base = await fetchBaseCurrency(supabase, user.id);
+      setBaseCurrency(base);
+      setFxRates(await fetchFxRates(supabase, user.id, base));
+      setSetups(await fetchSetups(supabase, user.id));
+      setTags(await fetchTags(supabase, user.id));
     } catch (error) {
       console.error("Error fetching trades:", error);
     } finally {
@@ -83,10 +204,30 @@ export default function TradesPage() {
       filtered = filtered.filter((trade) => trade.status === filter);
     }
 
+    if (assetClassFilter !== "ALL") {
+      filtered = filtered.filter(
+        (trade) => (trade.asset_class ?? "FUTURE") === assetClassFilter
+      );
+    }
+
+    if (setupFilter !== "ALL") {
+      filtered = filtered.filter(
+        (trade) => (trade.setup_id ?? "NONE") === setupFilter
+      );
+    }
+
+    if (tagFilter.length > 0) {
+      filtered = filtered.filter((trade) =>
+        tagFilter.every((name) => trade.tags?.some((tag) => tag.name === name))
+      );
+    }
+
     // Apply symbol search
     if (searchSymbol.trim()) {
       filtered = filtered.filter((trade) =>
-        trade.symbol.toLowerCase().includes(searchSymbol.toLowerCase())
+        contractCode(trade.symbol, trade.contract_month)
+          .toLowerCase()
+          .includes(searchSymbol.toLowerCase())
       );
     }
 
@@ -104,7 +245,15 @@ export default function TradesPage() {
     });
 
     setFilteredTrades(filtered);
-  }, [trades, filter, sortBy, searchSymbol]);
+  }, [
+    trades,
+    filter,
+    assetClassFilter,
+    setupFilter,
+    tagFilter,
+    sortBy,
+    searchSymbol,
+  ]);
 
   useEffect(() => {
     filterAndSortTrades();
@@ -112,6 +261,9 @@ export default function TradesPage() {
   }, [
     trades,
     filter,
+    assetClassFilter,
+    setupFilter,
+    tagFilter,
     sortBy,
     searchSymbol,
     filterAndSortTrades,
@@ -129,50 +281,314 @@ export default function TradesPage() {
       exit_price: trade.exit_price,
       quantity: trade.quantity,
       commission: trade.commission,
+      broker: trade.broker ?? null,
+      commission_overridden: trade.commission_overridden ?? false,
+      fees_from_statement: trade.fees_from_statement ?? false,
       notes: trade.notes,
       status: trade.status,
+      asset_class: trade.asset_class ?? "FUTURE",
+      funding: trade.funding ?? 0,
+      // A point value the broker reported, kept through the edit.
+      ...(isFuture(trade.asset_class) && { multiplier: trade.multiplier }),
+      ...(trade.asset_class === "OPTION" && {
+        strategy: trade.strategy ?? "CUSTOM",
+        multiplier: trade.multiplier,
+      }),
+      ...(trade.asset_class === "CRYPTO" && {
+        crypto_contract: trade.crypto_contract ?? "SPOT",
+        multiplier: trade.multiplier,
+        currency: trade.currency,
+      }),
     });
+    setEditedLegs(sortedLegs(trade).map(draftFromLeg));
+    setEditedExecutions(sortedExecutions(trade).map(draftFromExecution));
+    setEditedLabels(labelsFromTrade(trade));
   };
 
+  // An options position is closed once every leg is. Its side, size,
+  // prices and fees follow the legs' fills.
+  const editingOption = editedTrade.asset_class === "OPTION";
+  const editingInverse =
+    editedTrade.asset_class === "CRYPTO" &&
+    editedTrade.crypto_contract === "INVERSE";
+  const editedLegsError = editingOption
+    ? validateOptionLegDrafts(editedLegs, editedTrade.status === "CLOSED")
+    : null;
+  const editedLegInputs =
+    editingOption && editedLegsError === null
+      ? legsFromDrafts(editedLegs)
+      : null;
+  const editedPosition = editedLegInputs
+    ? summarizeOptionPosition(editedLegInputs)
+    : null;
+  const editedTradeWithLegs: Partial<Trade> = editedPosition
+    ? {
+        ...editedTrade,
+        side: editedPosition.side,
+        quantity: editedPosition.quantity,
+        entry_price: editedPosition.entry_price,
+        exit_price: editedPosition.exit_price ?? undefined,
+        ...(editedPosition.commission > 0 && {
+          commission: editedPosition.commission,
+        }),
+      }
+    : editedTrade;
+
+  // A position entered fill by fill takes its side, size, prices and dates
+  // from the fills, and is closed once they bring it back to flat.
+  const editingFills = !editingOption && editedExecutions.length > 0;
+  const editingDerived = editingOption || editingFills;
+  const editedExecutionsError = editingFills
+    ? validateExecutionDrafts(editedExecutions)
+    : null;
+  const editedFillPosition =
+    editingFills && editedExecutionsError === null
+      ? summarizeExecutions(executionsFromDrafts(editedExecutions))
+      : null;
+  const editedTradeWithFills: Partial<Trade> = editedFillPosition
+    ? {
+        ...editedTradeWithLegs,
+        side: editedFillPosition.side,
+        quantity: editedFillPosition.quantity,
+        max_position: editedFillPosition.max_position,
+        entry_price: editedFillPosition.entry_price,
+        exit_price: editedFillPosition.exit_price ?? undefined,
+        ...(editedFillPosition.commission > 0 && {
+          commission: editedFillPosition.commission,
+        }),
+      }
+    : editedTradeWithLegs;
+
+  const handleLegsChange = (legs: OptionLegDraft[]) => {
+    setEditedLegs(legs);
+    if (
+      legs.length === 0 ||
+      legs.some((leg) => validateExecutionDrafts(leg.fills) !== null)
+    )
+      return;
+    const position = summarizeOptionPosition(legsFromDrafts(legs));
+    setEditedTrade({
+      ...editedTrade,
+      status: position.closed ? "CLOSED" : "OPEN",
+      entry_date: position.entry_date,
+      exit_date: position.exit_date ?? undefined,
+    });
+  };
+
+  const handleExecutionsChange = (executions: ExecutionDraft[]) => {
+    setEditedExecutions(executions);
+    if (validateExecutionDrafts(executions) !== null) return;
+    const position = summarizeExecutions(executionsFromDrafts(executions));
+    setEditedTrade({
+      ...editedTrade,
+      status: position.closed ? "CLOSED" : "OPEN",
+      entry_date: new Date(position.entry_date).toISOString(),
+      exit_date: position.exit_date
+        ? new Date(position.exit_date).toISOString()
+        : undefined,
+    });
+  };
+
+  // Starts the fills from the trade's own entry and exit, to scale from.
+  const handleEnterFills = () => {
+    const entrySide = editedTrade.side === "SHORT" ? "SELL" : "BUY";
+    const fill = (
+      side: ExecutionDraft["side"],
+      price: number | null | undefined,
+      time: string | null | undefined
+    ): ExecutionDraft => ({
+      side,
+      quantity: editedTrade.quantity ? String(editedTrade.quantity) : "",
+      price: price === null || price === undefined ? "" : String(price),
+      executed_at: time ? toDateTimeLocal(time) : "",
+      commission: "",
+    });
+    setEditedExecutions([
+      fill(entrySide, editedTrade.entry_price, editedTrade.entry_date),
+      ...(editedTrade.status === "CLOSED"
+        ? [
+            fill(
+              entrySide === "BUY" ? "SELL" : "BUY",
+              editedTrade.exit_price,
+              editedTrade.exit_date
+            ),
+          ]
+        : []),
+    ]);
+  };
+
+  // Fees from the schedule for the trade being edited, unless its commission
+  // was typed in by hand.
+  const editedSize = editingFills ? editedTradeWithFills : editedTrade;
+  const editedScheduledCommission =
+    !editedTrade.symbol || !editedSize.side || !editedTrade.status
+      ? null
+      : tradeFees(schedules, {
+          broker: editedTrade.broker,
+          asset_class: editedTrade.asset_class,
+          symbol: editedTrade.symbol,
+          side: editedSize.side,
+          quantity: editedSize.quantity ?? 0,
+          status: editedTrade.status,
+        });
+
+  // A changed quantity or status changes the scheduled fees too. Fees typed
+  // against the fills replace both.
+  const editedTradeWithFees =
+    editedTrade.commission_overridden ||
+    editedTrade.fees_from_statement ||
+    editedScheduledCommission === null ||
+    (editedFillPosition?.commission ?? 0) > 0 ||
+    (editedPosition?.commission ?? 0) > 0
+      ? editedTradeWithFills
+      : { ...editedTradeWithFills, commission: editedScheduledCommission };
+
+  const editedContractUnknown =
+    !!editedTrade.symbol &&
+    isFuture(editedTrade.asset_class) &&
+    !editedTrade.multiplier &&
+    !getContractSpecs(editedTrade.symbol, contracts);
+
+  // The edited trade's currency follows its contract, or the underlying
+  // contract's for options on futures. Crypto keeps its pair's quote
+  // currency; other assets are in USD.
+  const editedCurrency =
+    ((isFuture(editedTrade.asset_class) || editingOption) &&
+      editedTrade.symbol &&
+      getContractSpecs(editedTrade.symbol, contracts)?.currency) ||
+    (editedTrade.asset_class === "CRYPTO" && editedTrade.currency) ||
+    DEFAULT_BASE_CURRENCY;
+  // Null when there is no rate into the base currency on the exit day.
+  const editedFxRate =
+    editedTrade.status === "CLOSED" && editedTrade.exit_date
+      ? findFxRate(fxRates, editedCurrency, baseCurrency, editedTrade.exit_date)
+      : 1;
+
   const handleCancelEdit = () => {
     setEditingId(null);
     setEditedTrade({});
+    setEditedLegs([]);
+    setEditedExecutions([]);
+    setEditedLabels(EMPTY_TRADE_LABELS);
+  };
+
+  // Funding payments are saved straight away, so the trade is reloaded and
+  // the edit picks up its new total.
+  const handleFundingChanged = async (tradeId: string) => {
+    const { data, error } = await supabase
+      .from("trades")
+      .select(
+        "*, option_legs(*, fills:option_leg_fills(*)), executions(*), tags(*)"
+      )
+      .eq("id", tradeId)
+      .single();
+    if (error) {
+      console.error("Error fetching trade:", error);
+      return;
+    }
+    setTrades((current) =>
+      current.map((trade) => (trade.id === tradeId ? data : trade))
+    );
+    setEditedTrade((current) => ({ ...current, funding: data.funding }));
   };
 
   const calculatePnL = (trade: Partial<Trade>) => {
+    // An options position sums what each leg made on its own fills.
+    if (editedLegInputs && editedPosition?.closed)
+      return (
+        optionRealizedPnL(
+          editedLegInputs,
+          trade.multiplier || defaultMultiplier(trade.symbol ?? "", contracts)
+        ) - (trade.commission || 0)
+      );
+    // An option can close at zero.
     if (
       !trade.entry_price ||
-      !trade.exit_price ||
+      trade.exit_price === undefined ||
+      trade.exit_price === null ||
       !trade.quantity ||
       !trade.symbol
     )
       return 0;
 
-    const grossPnL = calculateFuturesPnL(
+    const grossPnL = calculateTradePnL(
       trade.symbol,
       trade.entry_price,
       trade.exit_price,
       trade.quantity,
-      trade.side!
+      trade.side!,
+      trade.asset_class,
+      contracts,
+      trade.multiplier,
+      trade.crypto_contract
     );
     const fees = trade.commission || 0;
 
-    return grossPnL - fees;
+    return grossPnL - fees + Number(trade.funding ?? 0);
   };
 
   const calculatePercentageGain = (trade: Partial<Trade>) => {
-    if (!trade.entry_price || !trade.exit_price) return 0;
-
-    const percentage =
-      trade.side === "LONG"
-        ? ((trade.exit_price - trade.entry_price) / trade.entry_price) * 100
-        : ((trade.entry_price - trade.exit_price) / trade.entry_price) * 100;
-
-    return percentage;
+    if (
+      !trade.entry_price ||
+      trade.exit_price === undefined ||
+      trade.exit_price === null ||
+      !trade.side
+    )
+      return null;
+    return percentageGain(
+      trade.entry_price,
+      trade.exit_price,
+      trade.side,
+      trade.asset_class
+    );
   };
 
   const handleSaveEdit = async () => {
-    if (!editingId) return;
+    if (!editingId || editedContractUnknown || editedFxRate === null) return;
+    if (editedLegsError || editedExecutionsError) {
+      alert(editedLegsError ?? editedExecutionsError);
+      return;
+    }
+    // Fill times are typed in local time and stored in UTC.
+    const fills = editingFills
+      ? executionsFromDrafts(editedExecutions).map((execution) => ({
+          ...execution,
+          executed_at: new Date(execution.executed_at).toISOString(),
+        }))
+      : [];
+    const quantities = editingFills
+      ? fills.map((fill) => fill.quantity)
+      : [editedTrade.quantity];
+    if (
+      isFuture(editedTrade.asset_class) &&
+      !quantities.every(Number.isInteger)
+    ) {
+      alert("Futures are traded in whole contracts.");
+      return;
+    }
+    if (editingInverse && !quantities.every(Number.isInteger)) {
+      alert("Inverse perpetuals are traded in whole contracts.");
+      return;
+    }
+    // Average prices needn't be on a tick, but each fill's must.
+    const tickContract = tickContractFor(editedTrade);
+    if (
+      tickContract &&
+      (editingFills
+        ? fills.map((fill) => fill.price)
+        : [editedTrade.entry_price, editedTrade.exit_price]
+      ).some(
+        (price) =>
+          price !== undefined &&
+          Number.isFinite(price) &&
+          !isOnTick(price, tickContract.tickSize)
+      )
+    ) {
+      alert(
+        `Prices must be a multiple of the ${tickContract.symbol} tick size (${tickContract.tickSize}).`
+      );
+      return;
+    }
 
     try {
       // Get the original trade before updating
@@ -186,24 +602,55 @@ export default function TradesPage() {
 
       // Calculate P&L values
       const pnl =
-        editedTrade.status === "CLOSED" ? calculatePnL(editedTrade) : null;
+        editedTradeWithFees.status === "CLOSED"
+          ? calculatePnL(editedTradeWithFees)
+          : null;
       const percentage_gain =
-        editedTrade.status === "CLOSED"
-          ? calculatePercentageGain(editedTrade)
+        editedTradeWithFees.status === "CLOSED"
+          ? calculatePercentageGain(editedTradeWithFees)
           : null;
 
       const updatedTrade = {
-        ...editedTrade,
-        pnl,
+        ...editedTradeWithFees,
+        ...(!editingOption && {
+          crypto_contract:
+            editedTrade.asset_class === "CRYPTO"
+              ? editedTrade.crypto_contract ?? "SPOT"
+              : null,
+          multiplier: editingInverse
+            ? editedTrade.multiplier || DEFAULT_INVERSE_CONTRACT_SIZE
+            : isFuture(editedTrade.asset_class)
+            ? editedTrade.multiplier ?? null
+            : null,
+        }),
+        currency: editedCurrency,
+        pnl_native: pnl,
+        pnl: pnl === null ? null : pnl * editedFxRate,
+        fx_rate: pnl === null ? null : editedFxRate,
         percentage_gain,
+        setup_id: editedLabels.setup_id,
+        rules_followed: editedLabels.rules_followed,
         updated_at: new Date().toISOString(),
       };
 
+      // Legs, fills and tags first, so the updated trade comes back with them.
+      if (editedLegInputs)
+        await saveOptionLegs(supabase, user.id, editingId, editedLegInputs);
+      // Deleting every fill row leaves a plain trade without its fills.
+      if (
+        editingFills ||
+        (!editingOption && !!originalTrade.executions?.length)
+      )
+        await saveTradeExecutions(supabase, user.id, editingId, fills);
+      await saveTradeTags(supabase, user.id, editingId, editedLabels.tags);
+
       const { data, error } = await supabase
         .from("trades")
         .update(updatedTrade)
         .eq("id", editingId)
-        .select()
+        .select(
+          "*, option_legs(*, fills:option_leg_fills(*)), executions(*), tags(*)"
+        )
         .single();
 
       if (error) throw error;
@@ -214,74 +661,33 @@ export default function TradesPage() {
           trades.map((trade) => (trade.id === editingId ? data : trade))
         );
       }
+      setTags(await fetchTags(supabase, user.id));
 
       // Handle daily stats updates
       // If the original trade was closed, recalculate stats for its date
       if (originalTrade.status === "CLOSED" && originalTrade.exit_date) {
-        await recalculateDailyStats(user.id, originalTrade.exit_date);
+        await recalculateDailyStats(supabase, user.id, originalTrade.exit_date);
       }
 
       // If the updated trade is closed, recalculate stats for its date
       if (updatedTrade.status === "CLOSED" && editedTrade.exit_date) {
         // Only recalculate if it's a different date
         if (originalTrade.exit_date !== editedTrade.exit_date) {
-          await recalculateDailyStats(user.id, editedTrade.exit_date);
+          await recalculateDailyStats(supabase, user.id, editedTrade.exit_date);
         }
       }
 
       setEditingId(null);
       setEditedTrade({});
+      setEditedLegs([]);
+      setEditedExecutions([]);
+      setEditedLabels(EMPTY_TRADE_LABELS);
     } catch (error) {
       console.error("Error updating trade:", error);
       alert("Error updating trade");
     }
   };
 
-  const recalculateDailyStats = async (userId: string, date: string) => {
-    const statsDate = date.split("T")[0];
-
-    // Fetch all trades for that day
-    const { data: dayTrades } = await supabase
-      .from("trades")
-      .select("*")
-      .eq("user_id", userId)
-      .eq("status", "CLOSED")
-      .gte("exit_date", `${statsDate}T00:00:00`)
-      .lt("exit_date", `${statsDate}T23:59:59`);
-
-    if (dayTrades && dayTrades.length > 0) {
-      // Calculate stats for the day
-      const totalTrades = dayTrades.length;
-      const winningTrades = dayTrades.filter((t) => t.pnl && t.pnl > 0).length;
-      const losingTrades = dayTrades.filter((t) => t.pnl && t.pnl < 0).length;
-      const totalPnl = dayTrades.reduce((sum, t) => sum + (t.pnl || 0), 0);
-      const winRate = totalTrades > 0 ? (winningTrades / totalTrades) * 100 : 0;
-
-      // Update or insert the daily stats
-      await supabase.from("daily_stats").upsert(
-        {
-          user_id: userId,
-          date: statsDate,
-          total_trades: totalTrades,
-          winning_trades: winningTrades,
-          losing_trades: losingTrades,
-          total_pnl: totalPnl,
-          win_rate: winRate,
-        },
-        {
-          onConflict: "user_id,date",
-        }
-      );
-    } else {
-      // No trades for this day, delete the daily stats entry
-      await supabase
-        .from("daily_stats")
-        .delete()
-        .eq("user_id", userId)
-        .eq("date", statsDate);
-    }
-  };
-
   const handleDelete = async (id: string) => {
     if (!confirm("Are you sure you want to delete this trade?")) return;
 
@@ -301,10 +707,11 @@ export default function TradesPage() {
 
       // Update local state
       setTrades(trades.filter((trade) => trade.id !== id));
+      setSelectedIds(selectedIds.filter((selectedId) => selectedId !== id));
 
       // If the deleted trade was closed, recalculate stats for that day
       if (tradeToDelete.status === "CLOSED" && tradeToDelete.exit_date) {
-        await recalculateDailyStats(user.id, tradeToDelete.exit_date);
+        await recalculateDailyStats(supabase, user.id, tradeToDelete.exit_date);
       }
     } catch (error) {
       console.error("Error deleting trade:", error);
@@ -362,6 +769,74 @@ export default function TradesPage() {
     }
   };
 
+  const handleBulkSetup = async () => {
+    setBulkSaving(true);
+    try {
+      const setupId = bulkSetupId || null;
+      await assignSetup(supabase, selectedIds, setupId);
+      setTrades(
+        trades.map((trade) =>
+          selectedIds.includes(trade.id)
+            ? { ...trade, setup_id: setupId, rules_followed: null }
+            : trade
+        )
+      );
+    } catch (error) {
+      console.error("Error setting setup:", error);
+      alert("Error setting the setup. Please try again.");
+    } finally {
+      setBulkSaving(false);
+    }
+  };
+
+  // Tags are typed comma-separated and added to the ones trades already have.
+  const handleBulkTags = async () => {
+    const names = bulkTags.split(",");
+    setBulkSaving(true);
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) return;
+      await addTradeTags(supabase, user.id, selectedIds, names);
+      setBulkTags("");
+      await fetchTrades();
+    } catch (error) {
+      console.error("Error adding tags:", error);
+      alert("Error adding tags. Please try again.");
+    } finally {
+      setBulkSaving(false);
+    }
+  };
+
+  const toggleSelected = (id: string) =>
+    setSelectedIds(
+      selectedIds.includes(id)
+        ? selectedIds.filter((selectedId) => selectedId !== id)
+        : [...selectedIds, id]
+    );
+
+  const pageSelected =
+    paginatedTrades.length > 0 &&
+    paginatedTrades.every((trade) => selectedIds.includes(trade.id));
+
+  const togglePageSelected = () =>
+    setSelectedIds(
+      pageSelected
+        ? selectedIds.filter(
+            (id) => !paginatedTrades.some((trade) => trade.id === id)
+          )
+        : [
+            ...new Set([
+              ...selectedIds,
+              ...paginatedTrades.map((trade) => trade.id),
+            ]),
+          ]
+    );
+
+  const setupName = (setupId: string) =>
+    setups.find((setup) => setup.id === setupId)?.name;
+
   const handlePageSizeChange = (newSize: PageSize) => {
     setPageSize(newSize);
     setCurrentPage(1);
@@ -373,23 +848,22 @@ export default function TradesPage() {
     setEditedTrade({});
   };
 
-  const getPriceStep = (symbol: string) => {
-    if (
-      symbol.includes("6") ||
-      symbol.includes("/") ||
-      ["EUR", "GBP", "JPY", "AUD"].some((curr) => symbol.includes(curr))
-    ) {
-      return "0.00001";
-    }
-    return "0.01";
-  };
-
-  const formatPrice = (price: number, symbol: string) => {
-    const isFX =
-      symbol.includes("6") ||
-      symbol.includes("/") ||
-      ["EUR", "GBP", "JPY", "AUD"].some((curr) => symbol.includes(curr));
-    return isFX ? price.toFixed(5) : price.toFixed(2);
+  // Only futures have a contract, so other prices aren't held to a tick.
+  const tickContractFor = (trade: Partial<Trade>) =>
+    !isFuture(trade.asset_class) || !trade.symbol
+      ? null
+      : getContractSpecs(trade.symbol, contracts);
+
+  const ticksFor = (trade: Partial<Trade>) => {
+    const contract = tickContractFor(trade);
+    return contract && trade.entry_price && trade.exit_price && trade.side
+      ? pnlInTicks(
+          trade.entry_price,
+          trade.exit_price,
+          trade.side,
+          contract.tickSize
+        )
+      : null;
   };
 
   // const calculateTotals = () => {
@@ -416,7 +890,12 @@ export default function TradesPage() {
   // const { totalPnL, winningTrades, losingTrades, winRate } = calculateTotals();
 
   const metricTrades = [...trades]
-    .filter((trade) => trade.status === "CLOSED")
+    .filter(
+      (trade) =>
+        trade.status === "CLOSED" &&
+        (assetClassFilter === "ALL" ||
+          (trade.asset_class ?? "FUTURE") === assetClassFilter)
+    )
     .sort(
       (a, b) =>
         new Date(b.entry_date).getTime() - new Date(a.entry_date).getTime()
@@ -510,7 +989,7 @@ export default function TradesPage() {
               totalPnL >= 0 ? "text-green-500" : "text-red-500"
             }`}
           >
-            ${totalPnL.toFixed(2)}
+            {formatMoney(totalPnL, baseCurrency)}
           </p>
         </div>
         <div className="bg-gray-800 border border-gray-700 rounded-lg p-4">
@@ -563,6 +1042,45 @@ export default function TradesPage() {
             </div>
           </div>
 
+          {/* Asset Class Filter */}
+          <div className="flex items-center gap-2">
+            <span className="text-neutral-400 text-sm">Asset:</span>
+            <select
+              value={assetClassFilter}
+              onChange={(e) =>
+                setAssetClassFilter(e.target.value as AssetClass | "ALL")
+              }
+              className="px-3 py-1 bg-gray-700 text-white text-sm rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="ALL">All</option>
+              {Object.entries(ASSET_CLASS_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Setup Filter */}
+          {setups.length > 0 && (
+            <div className="flex items-center gap-2">
+              <span className="text-neutral-400 text-sm">Setup:</span>
+              <select
+                value={setupFilter}
+                onChange={(e) => setSetupFilter(e.target.value)}
+                className="px-3 py-1 bg-gray-700 text-white text-sm rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="ALL">All</option>
+                <option value="NONE">No setup</option>
+                {setups.map((setup) => (
+                  <option key={setup.id} value={setup.id}>
+                    {setup.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {/* Sort By */}
           <div className="flex items-center gap-2">
             <span className="text-neutral-400 text-sm">Sort by:</span>
@@ -592,6 +1110,40 @@ export default function TradesPage() {
           </div>
         </div>
 
+        {/* Tag Filter */}
+        {tags.length > 0 && (
+          <div className="mt-4 flex flex-wrap items-center gap-2">
+            <span className="text-neutral-400 text-sm">Tags:</span>
+            {tags.map((tag) => (
+              <button
+                key={tag.id}
+                onClick={() =>
+                  setTagFilter(
+                    tagFilter.includes(tag.name)
+                      ? tagFilter.filter((name) => name !== tag.name)
+                      : [...tagFilter, tag.name]
+                  )
+                }
+                className={`px-2 py-0.5 text-xs rounded-full transition-colors ${
+                  tagFilter.includes(tag.name)
+                    ? "bg-blue-600 text-white"
+                    : "bg-gray-700 text-gray-400 hover:text-white"
+                }`}
+              >
+                {tag.name}
+              </button>
+            ))}
+            {tagFilter.length > 0 && (
+              <button
+                onClick={() => setTagFilter([])}
+                className="text-xs text-gray-400 hover:text-white"
+              >
+                Clear
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Results count */}
         <div className="mt-2 text-sm text-neutral-500 flex justify-between items-center">
           <span>
@@ -608,12 +1160,78 @@ export default function TradesPage() {
         </div>
       </div>
 
+      {/* Bulk Labels */}
+      {selectedIds.length > 0 && (
+        <div className="bg-gray-800 border border-blue-500/50 rounded-lg p-4 flex flex-wrap items-center gap-4">
+          <span className="text-white text-sm font-medium">
+            {selectedIds.length} selected
+          </span>
+          <div className="flex items-center gap-2">
+            <select
+              value={bulkSetupId}
+              onChange={(e) => setBulkSetupId(e.target.value)}
+              className="px-3 py-1 bg-gray-700 text-white text-sm rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">No setup</option>
+              {setups.map((setup) => (
+                <option key={setup.id} value={setup.id}>
+                  {setup.name}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={handleBulkSetup}
+              disabled={bulkSaving}
+              className="px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded-lg disabled:opacity-50"
+            >
+              Set setup
+            </button>
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={bulkTags}
+              onChange={(e) => setBulkTags(e.target.value)}
+              placeholder="Tags, comma-separated"
+              list="bulk-tag-suggestions"
+              className="px-3 py-1 bg-gray-700 text-white text-sm rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 placeholder-neutral-500"
+            />
+            <datalist id="bulk-tag-suggestions">
+              {tags.map((tag) => (
+                <option key={tag.id} value={tag.name} />
+              ))}
+            </datalist>
+            <button
+              onClick={handleBulkTags}
+              disabled={bulkSaving || !bulkTags.trim()}
+              className="px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded-lg disabled:opacity-50"
+            >
+              Add tags
+            </button>
+          </div>
+          <button
+            onClick={() => setSelectedIds([])}
+            className="text-sm text-gray-400 hover:text-white"
+          >
+            Clear selection
+          </button>
+        </div>
+      )}
+
       {/* Trades Table */}
       <div className="bg-gray-800 border border-gray-700 rounded-xl overflow-hidden">
         <div className="overflow-x-auto">
           <table className="w-full">
             <thead className="bg-gray-700">
               <tr>
+                <th className="pl-6 py-3 text-left">
+                  <input
+                    type="checkbox"
+                    checked={pageSelected}
+                    onChange={togglePageSelected}
+                    title="Select the trades on this page"
+                  />
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
                   Date
                 </th>
@@ -650,8 +1268,15 @@ export default function TradesPage() {
                 return (
                   <React.Fragment key={trade.id}>
                     <tr className="hover:bg-gray-700/50 transition-colors">
+                      <td className="pl-6 py-4">
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.includes(trade.id)}
+                          onChange={() => toggleSelected(trade.id)}
+                        />
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
-                        {isEditing ? (
+                        {isEditing && !editingDerived ? (
                           <input
                             type="datetime-local"
                             value={editedTrade.entry_date?.slice(0, 16)}
@@ -685,11 +1310,71 @@ export default function TradesPage() {
                             className="bg-gray-700 text-white rounded px-2 py-1 w-20 text-sm"
                           />
                         ) : (
-                          trade.symbol
+                          <>
+                            {!!trade.executions?.length && (
+                              <button
+                                type="button"
+                                onClick={() =>
+                                  setExpandedId(
+                                    expandedId === trade.id ? null : trade.id
+                                  )
+                                }
+                                className="mr-1 align-middle text-gray-400 hover:text-white"
+                                title={
+                                  expandedId === trade.id
+                                    ? "Hide fills"
+                                    : "Show fills"
+                                }
+                              >
+                                {expandedId === trade.id ? (
+                                  <ChevronDown className="w-4 h-4" />
+                                ) : (
+                                  <ChevronRight className="w-4 h-4" />
+                                )}
+                              </button>
+                            )}
+                            {contractCode(trade.symbol, trade.contract_month)}
+                            {!isFuture(trade.asset_class) && (
+                              <span className="ml-2 px-1.5 py-0.5 rounded text-xs bg-gray-700 text-gray-300">
+                                {trade.asset_class === "OPTION"
+                                  ? optionPositionLabel(trade)
+                                  : isPerpetual(trade.crypto_contract)
+                                  ? CRYPTO_CONTRACT_LABELS[
+                                      trade.crypto_contract!
+                                    ]
+                                  : ASSET_CLASS_LABELS[trade.asset_class!]}
+                              </span>
+                            )}
+                            {sortedLegs(trade).map((leg) => (
+                              <span
+                                key={leg.id}
+                                className="block text-xs font-normal text-gray-500"
+                              >
+                                {formatOptionLeg(leg)}
+                              </span>
+                            ))}
+                            {trade.setup_id && (
+                              <span className="block text-xs font-normal text-blue-400">
+                                {setupName(trade.setup_id)}
+                              </span>
+                            )}
+                            {!!trade.tags?.length && (
+                              <span className="mt-1 flex flex-wrap gap-1">
+                                {trade.tags.map((tag) => (
+                                  <span
+                                    key={tag.id}
+                                    className="px-1.5 py-0.5 rounded-full text-xs font-normal bg-blue-900/50 text-blue-300"
+                                  >
+                                    {tag.name}
+                                  </span>
+                                ))}
+                              </span>
+                            )}
+                          </>
                         )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm">
-                        {isEditing ? (
+                        {isEditing && !editingDerived ? (
                           <select
                             value={editedTrade.side}
                             onChange={(e) =>
@@ -716,62 +1401,62 @@ export default function TradesPage() {
                         )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
-                        {isEditing ? (
-                          <input
-                            type="number"
-                            step={getPriceStep(
-                              editedTrade.symbol || trade.symbol
-                            )}
+                        {isEditing && !editingDerived ? (
+                          <PriceInput
                             value={editedTrade.entry_price}
-                            onChange={(e) =>
+                            onChange={(price) =>
                               setEditedTrade({
                                 ...editedTrade,
-                                entry_price: parseFloat(e.target.value),
+                                entry_price: price,
                               })
                             }
+                            contract={tickContractFor(editedTrade)}
                             className="bg-gray-700 text-white rounded px-2 py-1 w-24 text-sm"
                           />
                         ) : (
-                          `$${formatPrice(trade.entry_price, trade.symbol)}`
+                          `$${formatContractPrice(
+                            trade.entry_price,
+                            tickContractFor(trade)
+                          )}`
                         )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
-                        {isEditing ? (
-                          <input
-                            type="number"
-                            step={getPriceStep(
-                              editedTrade.symbol || trade.symbol
-                            )}
-                            value={editedTrade.exit_price || ""}
-                            onChange={(e) =>
+                        {isEditing && !editingDerived ? (
+                          <PriceInput
+                            value={editedTrade.exit_price}
+                            onChange={(price) =>
                               setEditedTrade({
                                 ...editedTrade,
-                                exit_price: e.target.value
-                                  ? parseFloat(e.target.value)
-                                  : undefined,
+                                exit_price: price,
                               })
                             }
+                            contract={tickContractFor(editedTrade)}
                             className="bg-gray-700 text-white rounded px-2 py-1 w-24 text-sm"
                             placeholder="-"
                           />
-                        ) : trade.exit_price ? (
-                          `$${formatPrice(trade.exit_price, trade.symbol)}`
+                        ) : trade.exit_price !== undefined &&
+                          trade.exit_price !== null ? (
+                          `$${formatContractPrice(
+                            trade.exit_price,
+                            tickContractFor(trade)
+                          )}`
                         ) : (
                           "-"
                         )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
-                        {isEditing ? (
+                        {isEditing && !editingDerived ? (
                           <input
                             type="number"
+                            step="any"
                             value={editedTrade.quantity}
                             onChange={(e) =>
                               setEditedTrade({
                                 ...editedTrade,
-                                quantity: parseInt(e.target.value),
+                                quantity: parseFloat(e.target.value),
                               })
                             }
-                            className="bg-gray-700 text-white rounded px-2 py-1 w-16 text-sm"
+                            className="bg-gray-700 text-white rounded px-2 py-1 w-20 text-sm"
                           />
                         ) : (
                           trade.quantity
@@ -780,16 +1465,24 @@ export default function TradesPage() {
                       <td className="px-6 py-4 whitespace-nowrap text-sm">
                         {isEditing &&
                         editedTrade.status === "CLOSED" &&
-                        editedTrade.entry_price &&
-                        editedTrade.exit_price ? (
+                        !!editedTradeWithFills.entry_price &&
+                        editedTradeWithFills.exit_price !== undefined ? (
                           <span
                             className={
-                              calculatePnL(editedTrade) >= 0
+                              calculatePnL(editedTradeWithFees) >= 0
                                 ? "text-green-500"
                                 : "text-red-500"
                             }
                           >
-                            ${calculatePnL(editedTrade).toFixed(2)}
+                            {formatMoney(
+                              calculatePnL(editedTradeWithFees),
+                              editedCurrency
+                            )}
+                            {ticksFor(editedTradeWithFills) !== null && (
+                              <span className="block text-xs text-gray-500">
+                                {formatTicks(ticksFor(editedTradeWithFills)!)}
+                              </span>
+                            )}
                           </span>
                         ) : trade.pnl !== undefined && trade.pnl !== null ? (
                           <span
@@ -797,14 +1490,50 @@ export default function TradesPage() {
                               trade.pnl >= 0 ? "text-green-500" : "text-red-500"
                             }
                           >
-                            ${trade.pnl.toFixed(2)}
+                            {formatMoney(trade.pnl, baseCurrency)}
+                            {trade.currency &&
+                              trade.currency !== baseCurrency &&
+                              trade.pnl_native !== undefined &&
+                              trade.pnl_native !== null && (
+                                <span className="block text-xs text-gray-500">
+                                  {formatMoney(
+                                    trade.pnl_native,
+                                    trade.currency
+                                  )}
+                                </span>
+                              )}
+                            {ticksFor(trade) !== null && (
+                              <span className="block text-xs text-gray-500">
+                                {formatTicks(ticksFor(trade)!)}
+                              </span>
+                            )}
+                            {!!trade.funding && (
+                              <span className="block text-xs text-gray-500">
+                                incl. funding{" "}
+                                {formatMoney(
+                                  Number(trade.funding),
+                                  trade.currency ?? baseCurrency
+                                )}
+                              </span>
+                            )}
                           </span>
                         ) : (
-                          "-"
+                          <>
+                            -{/* Funding on an open position, paid so far. */}
+                            {!!trade.funding && (
+                              <span className="block text-xs text-gray-500">
+                                Funding{" "}
+                                {formatMoney(
+                                  Number(trade.funding),
+                                  trade.currency ?? baseCurrency
+                                )}
+                              </span>
+                            )}
+                          </>
                         )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm">
-                        {isEditing ? (
+                        {isEditing && !editingDerived ? (
                           <select
                             value={editedTrade.status}
                             onChange={(e) => {
@@ -848,8 +1577,17 @@ export default function TradesPage() {
                             <>
                               <button
                                 onClick={handleSaveEdit}
-                                className="text-green-500 hover:text-green-400"
-                                title="Save"
+                                disabled={
+                                  editedContractUnknown || editedFxRate === null
+                                }
+                                className="text-green-500 hover:text-green-400 disabled:opacity-50 disabled:cursor-not-allowed"
+                                title={
+                                  editedContractUnknown
+                                    ? "Define the contract or mark the trade as a stock first"
+                                    : editedFxRate === null
+                                    ? "Enter the exchange rate for the exit day first"
+                                    : "Save"
+                                }
                               >
                                 <Save className="w-4 h-4" />
                               </button>
@@ -883,37 +1621,231 @@ export default function TradesPage() {
                       </td>
                     </tr>
 
+                    {/* Fills */}
+                    {!isEditing &&
+                      expandedId === trade.id &&
+                      !!trade.executions?.length && (
+                        <tr>
+                          <td colSpan={10} className="bg-gray-800/50 px-6 py-4">
+                            <TradeExecutions
+                              trade={trade}
+                              contracts={contracts}
+                              currency={trade.currency ?? baseCurrency}
+                            />
+                          </td>
+                        </tr>
+                      )}
+
                     {/* Inline Edit Form */}
                     {isEditing && (
                       <tr>
-                        <td colSpan={9} className="bg-gray-800/50 p-6">
+                        <td colSpan={10} className="bg-gray-800/50 p-6">
                           <div className="space-y-4">
                             <h3 className="text-lg font-semibold text-white mb-4">
                               Edit Trade Details
                             </h3>
 
+                            {editedContractUnknown && editedTrade.symbol && (
+                              <UnknownContractWarning
+                                symbol={editedTrade.symbol}
+                                onDefined={fetchTrades}
+                                onMarkEquity={() =>
+                                  setEditedTrade({
+                                    ...editedTrade,
+                                    asset_class: "STOCK",
+                                  })
+                                }
+                              />
+                            )}
+                            {editedFxRate === null && editedTrade.exit_date && (
+                              <FxRateWarning
+                                currency={editedCurrency}
+                                baseCurrency={baseCurrency}
+                                date={editedTrade.exit_date.split("T")[0]}
+                                onSaved={fetchTrades}
+                              />
+                            )}
+
                             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                              {editedTrade.status === "CLOSED" && (
+                              {editedTrade.status === "CLOSED" &&
+                                !editingDerived && (
+                                  <div>
+                                    <label className="block text-neutral-300 text-sm font-medium mb-2">
+                                      Exit Date & Time
+                                    </label>
+                                    <input
+                                      type="datetime-local"
+                                      value={
+                                        editedTrade.exit_date?.slice(0, 16) ||
+                                        ""
+                                      }
+                                      onChange={(e) =>
+                                        setEditedTrade({
+                                          ...editedTrade,
+                                          exit_date: e.target.value,
+                                        })
+                                      }
+                                      className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-white"
+                                    />
+                                  </div>
+                                )}
+
+                              {editingOption ? (
+                                <>
+                                  <div>
+                                    <label className="block text-neutral-300 text-sm font-medium mb-2">
+                                      Strategy
+                                    </label>
+                                    <select
+                                      value={editedTrade.strategy ?? "CUSTOM"}
+                                      onChange={(e) =>
+                                        setEditedTrade({
+                                          ...editedTrade,
+                                          strategy: e.target
+                                            .value as OptionStrategy,
+                                        })
+                                      }
+                                      className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-white"
+                                    >
+                                      {Object.entries(
+                                        OPTION_STRATEGY_LABELS
+                                      ).map(([value, label]) => (
+                                        <option key={value} value={value}>
+                                          {label}
+                                        </option>
+                                      ))}
+                                    </select>
+                                  </div>
+                                  <div>
+                                    <label className="block text-neutral-300 text-sm font-medium mb-2">
+                                      Multiplier
+                                    </label>
+                                    <input
+                                      type="number"
+                                      step="any"
+                                      min="0"
+                                      value={editedTrade.multiplier ?? ""}
+                                      onChange={(e) =>
+                                        setEditedTrade({
+                                          ...editedTrade,
+                                          multiplier: e.target.value
+                                            ? parseFloat(e.target.value)
+                                            : null,
+                                        })
+                                      }
+                                      className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-white"
+                                    />
+                                  </div>
+                                </>
+                              ) : (
                                 <div>
                                   <label className="block text-neutral-300 text-sm font-medium mb-2">
-                                    Exit Date & Time
+                                    Asset Class
                                   </label>
-                                  <input
-                                    type="datetime-local"
+                                  <select
+                                    value={editedTrade.asset_class ?? "FUTURE"}
+                                    onChange={(e) =>
+                                      setEditedTrade({
+                                        ...editedTrade,
+                                        asset_class: e.target
+                                          .value as AssetClass,
+                                      })
+                                    }
+                                    className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-white"
+                                  >
+                                    {/* A trade can't become an options position without legs. */}
+                                    {Object.entries(ASSET_CLASS_LABELS)
+                                      .filter(([value]) => value !== "OPTION")
+                                      .map(([value, label]) => (
+                                        <option key={value} value={value}>
+                                          {label}
+                                        </option>
+                                      ))}
+                                  </select>
+                                </div>
+                              )}
+
+                              {editedTrade.asset_class === "CRYPTO" && (
+                                <div>
+                                  <label className="block text-neutral-300 text-sm font-medium mb-2">
+                                    Contract
+                                  </label>
+                                  <select
                                     value={
-                                      editedTrade.exit_date?.slice(0, 16) || ""
+                                      editedTrade.crypto_contract ?? "SPOT"
                                     }
                                     onChange={(e) =>
                                       setEditedTrade({
                                         ...editedTrade,
-                                        exit_date: e.target.value,
+                                        crypto_contract: e.target
+                                          .value as CryptoContract,
                                       })
                                     }
                                     className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-white"
+                                  >
+                                    {Object.entries(CRYPTO_CONTRACT_LABELS).map(
+                                      ([value, label]) => (
+                                        <option key={value} value={value}>
+                                          {label}
+                                        </option>
+                                      )
+                                    )}
+                                  </select>
+                                </div>
+                              )}
+
+                              {editingInverse && (
+                                <div>
+                                  <label className="block text-neutral-300 text-sm font-medium mb-2">
+                                    Contract Size (USD)
+                                  </label>
+                                  <input
+                                    type="number"
+                                    step="any"
+                                    min="0"
+                                    value={editedTrade.multiplier ?? ""}
+                                    onChange={(e) =>
+                                      setEditedTrade({
+                                        ...editedTrade,
+                                        multiplier: e.target.value
+                                          ? parseFloat(e.target.value)
+                                          : null,
+                                      })
+                                    }
+                                    className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-white"
+                                    placeholder={String(
+                                      DEFAULT_INVERSE_CONTRACT_SIZE
+                                    )}
                                   />
                                 </div>
                               )}
 
+                              <div>
+                                <label className="block text-neutral-300 text-sm font-medium mb-2">
+                                  Broker
+                                </label>
+                                <select
+                                  value={editedTrade.broker ?? ""}
+                                  onChange={(e) =>
+                                    setEditedTrade({
+                                      ...editedTrade,
+                                      broker: (e.target.value ||
+                                        null) as Broker | null,
+                                    })
+                                  }
+                                  className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-white"
+                                >
+                                  <option value="">None</option>
+                                  {Object.entries(BROKER_LABELS).map(
+                                    ([value, label]) => (
+                                      <option key={value} value={value}>
+                                        {label}
+                                      </option>
+                                    )
+                                  )}
+                                </select>
+                              </div>
+
                               <div>
                                 <label className="block text-neutral-300 text-sm font-medium mb-2">
                                   Commission
@@ -921,19 +1853,131 @@ export default function TradesPage() {
                                 <input
                                   type="number"
                                   step="0.01"
-                                  value={editedTrade.commission || ""}
+                                  value={editedTradeWithFees.commission || ""}
                                   onChange={(e) =>
                                     setEditedTrade({
                                       ...editedTrade,
                                       commission: e.target.value
                                         ? parseFloat(e.target.value)
                                         : 0,
+                                      commission_overridden: true,
                                     })
                                   }
                                   className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-white"
                                   placeholder="0.00"
                                 />
+                                {editedScheduledCommission !== null &&
+                                  (editedTrade.commission_overridden ||
+                                  editedTrade.fees_from_statement ? (
+                                    <button
+                                      type="button"
+                                      onClick={() =>
+                                        setEditedTrade({
+                                          ...editedTrade,
+                                          commission_overridden: false,
+                                          fees_from_statement: false,
+                                        })
+                                      }
+                                      className="text-blue-400 hover:text-blue-300 text-xs mt-1"
+                                    >
+                                      Use schedule (
+                                      {formatMoney(
+                                        editedScheduledCommission,
+                                        editedCurrency
+                                      )}
+                                      )
+                                    </button>
+                                  ) : (
+                                    <p className="text-neutral-400 text-xs mt-1">
+                                      From your{" "}
+                                      {BROKER_LABELS[editedTrade.broker!]}{" "}
+                                      schedule
+                                    </p>
+                                  ))}
+                              </div>
+                            </div>
+
+                            {editingOption && (
+                              <div>
+                                <label className="block text-neutral-300 text-sm font-medium mb-2">
+                                  Legs
+                                </label>
+                                <OptionLegsEditor
+                                  legs={editedLegs}
+                                  onChange={handleLegsChange}
+                                />
+                                <p
+                                  className={`text-xs mt-2 ${
+                                    editedLegsError
+                                      ? "text-red-500"
+                                      : "text-neutral-400"
+                                  }`}
+                                >
+                                  {editedLegsError ??
+                                    "The position closes once every leg's fills bring it back to flat."}
+                                </p>
+                              </div>
+                            )}
+
+                            {editingFills ? (
+                              <div>
+                                <label className="block text-neutral-300 text-sm font-medium mb-2">
+                                  Fills
+                                </label>
+                                <ExecutionsEditor
+                                  executions={editedExecutions}
+                                  onChange={handleExecutionsChange}
+                                />
+                                <p
+                                  className={`text-xs mt-2 ${
+                                    editedExecutionsError
+                                      ? "text-red-500"
+                                      : "text-neutral-400"
+                                  }`}
+                                >
+                                  {editedExecutionsError ??
+                                    "The position closes once the fills bring it back to flat."}
+                                </p>
                               </div>
+                            ) : (
+                              !editingOption && (
+                                <button
+                                  type="button"
+                                  onClick={handleEnterFills}
+                                  className="inline-flex items-center px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white text-xs font-medium rounded-lg"
+                                >
+                                  <Plus className="w-3 h-3 mr-1" />
+                                  Enter fills to scale in or out
+                                </button>
+                              )
+                            )}
+
+                            {editedTrade.asset_class === "CRYPTO" &&
+                              isPerpetual(editedTrade.crypto_contract) && (
+                                <div>
+                                  <label className="block text-neutral-300 text-sm font-medium mb-2">
+                                    Funding Payments
+                                  </label>
+                                  <FundingPayments
+                                    trade={trade}
+                                    currency={editedCurrency}
+                                    onChanged={() =>
+                                      handleFundingChanged(trade.id)
+                                    }
+                                  />
+                                </div>
+                              )}
+
+                            <div>
+                              <label className="block text-neutral-300 text-sm font-medium mb-2">
+                                Setup and Tags
+                              </label>
+                              <TradeLabelsEditor
+                                labels={editedLabels}
+                                setups={setups}
+                                tags={tags}
+                                onChange={setEditedLabels}
+                              />
                             </div>
 
                             <div>
@@ -955,9 +1999,9 @@ export default function TradesPage() {
                             </div>
 
                             {editedTrade.status === "CLOSED" &&
-                              editedTrade.entry_price &&
-                              editedTrade.exit_price &&
-                              editedTrade.quantity && (
+                              !!editedTradeWithFills.entry_price &&
+                              editedTradeWithFills.exit_price !== undefined &&
+                              !!editedTradeWithFills.quantity && (
                                 <div className="bg-gray-700 rounded-lg p-4">
                                   <h4 className="text-white font-medium mb-2">
                                     Trade Summary
@@ -969,33 +2013,40 @@ export default function TradesPage() {
                                       </p>
                                       <p
                                         className={`font-medium ${
-                                          calculatePnL(editedTrade) >= 0
-                                            ? "text-green-500"
-                                            : "text-red-500"
-                                        }`}
-                                      >
-                                        ${calculatePnL(editedTrade).toFixed(2)}
-                                      </p>
-                                    </div>
-                                    <div>
-                                      <p className="text-gray-400">
-                                        Percentage:
-                                      </p>
-                                      <p
-                                        className={`font-medium ${
-                                          calculatePercentageGain(
-                                            editedTrade
-                                          ) >= 0
+                                          calculatePnL(editedTradeWithFees) >= 0
                                             ? "text-green-500"
                                             : "text-red-500"
                                         }`}
                                       >
-                                        {calculatePercentageGain(
-                                          editedTrade
-                                        ).toFixed(2)}
-                                        %
+                                        {formatMoney(
+                                          calculatePnL(editedTradeWithFees),
+                                          editedCurrency
+                                        )}
                                       </p>
                                     </div>
+                                    {calculatePercentageGain(
+                                      editedTradeWithFills
+                                    ) !== null && (
+                                      <div>
+                                        <p className="text-gray-400">
+                                          Percentage:
+                                        </p>
+                                        <p
+                                          className={`font-medium ${
+                                            calculatePercentageGain(
+                                              editedTradeWithFills
+                                            )! >= 0
+                                              ? "text-green-500"
+                                              : "text-red-500"
+                                          }`}
+                                        >
+                                          {calculatePercentageGain(
+                                            editedTradeWithFills
+                                          )!.toFixed(2)}
+                                          %
+                                        </p>
+                                      </div>
+                                    )}
                                   </div>
                                 </div>
                               )}
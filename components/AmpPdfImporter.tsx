@@ -2,6 +2,8 @@
 
 import { useState } from "react";
 import { createWorker } from "tesseract.js";
+import { AMP_FEE_NAME } from "@/lib/import";
+import { parseContractPrice } from "@/lib/futures-specs";
 
 let pdfjsPromise: Promise<
   typeof import("pdfjs-dist/legacy/build/pdf.mjs")
@@ -39,16 +41,76 @@ export type AmpTradeRow = {
   "TRADE PRICE": string;
   CCY: string;
 };
-type SkippedRow = { page: number; line: string; reason: string };
+type AmpField = keyof AmpTradeRow;
+// Where a line is in the statement, so a corrected row can be put back in
+// its place. AMP lists the newest fills first and the parser relies on it.
+type StatementLine = { page: number; lineIndex: number };
+type StatementRow = StatementLine & { row: AmpTradeRow };
+// guess is the best reading of the line, for the user to correct.
+type SkippedRow = StatementLine & {
+  line: string;
+  reason: string;
+  guess: AmpTradeRow;
+};
 
 const HEADER =
   "DATE,TRADE NUMBER,MARKET,BUY,SELL,CONTRACT DESCRIPTION,TRADE PRICE,CCY";
 const DATE = /^\d{2}-[A-Z]{3}-\d{2}$/;
+const AMOUNT = /\d[\d,]*\.\d{2}/g;
 
 const normalize = (value: string) =>
   value.replace(/[^A-Z&]/gi, "").toUpperCase();
 const csvCell = (value: string) => `"${value.replace(/"/g, '""')}"`;
 
+const FIELDS = HEADER.split(",") as AmpField[];
+
+function invalidFields(row: AmpTradeRow): AmpField[] {
+  const invalid: AmpField[] = [];
+  if (!DATE.test(row.DATE.trim())) invalid.push("DATE");
+  if (!/^\d+$/.test(row["TRADE NUMBER"].trim())) invalid.push("TRADE NUMBER");
+  if (!row.MARKET.trim()) invalid.push("MARKET");
+  if (!row.BUY.trim() === !row.SELL.trim()) invalid.push("BUY", "SELL");
+  if (!row["CONTRACT DESCRIPTION"].trim()) invalid.push("CONTRACT DESCRIPTION");
+  if (parseContractPrice(row["TRADE PRICE"]) === null)
+    invalid.push("TRADE PRICE");
+  if (!/^[A-Z]{3}$/.test(row.CCY.trim())) invalid.push("CCY");
+  return invalid;
+}
+
+// Reads whatever fields it can from a line parseTradeLine rejected, working
+// inwards from both ends the same way parseTradeLine does. Leading and
+// trailing tokens are kept even when malformed, since OCR misreads such as
+// "2O-NOV-25" are easier to fix in place than to retype.
+function guessTradeRow(line: string): AmpTradeRow {
+  let rest = line.trim().toUpperCase();
+  const take = (pattern: RegExp) => {
+    const match = rest.match(pattern);
+    if (!match) return "";
+    rest =
+      match.index === 0
+        ? rest.slice(match[0].length)
+        : rest.slice(0, match.index);
+    return match[1];
+  };
+  const date = take(/^(\S+)/);
+  const tradeNumber = take(/^\s+(\S+)/);
+  const market = take(/^\s+(\S+)/);
+  const gap = rest.match(/^\s*/)?.[0].length ?? 0;
+  const quantity = take(/^\s*(\d+(?:\.\d+)?)(?=\s)/);
+  const ccy = take(/\s(\S{3})\s*$/);
+  const price = take(/\s(-?[\d,]+(?:['-]\d+(?:\.\d+)?|\.\d+)?)\s*$/);
+  return {
+    DATE: date,
+    "TRADE NUMBER": tradeNumber,
+    MARKET: market,
+    BUY: quantity && gap < 18 ? quantity : "",
+    SELL: quantity && gap >= 18 ? quantity : "",
+    "CONTRACT DESCRIPTION": rest.trim(),
+    "TRADE PRICE": price.replace(/,/g, ""),
+    CCY: ccy,
+  };
+}
+
 function parseTradeLine(line: string): { row?: AmpTradeRow; reason?: string } {
   if (!DATE.test(line.slice(0, 9))) return { reason: "Not a trade row" };
   if (
@@ -61,7 +123,7 @@ function parseTradeLine(line: string): { row?: AmpTradeRow; reason?: string } {
   if (!start) return { reason: "Missing date, trade number, or market" };
   const [, date, tradeNumber, market, gap, rest] = start;
   const tail = rest.match(
-    /^(\d+(?:\.\d+)?)\s+(.+?)\s+(-?[\d,]+(?:\.\d+)?)\s+([A-Z]{3})\s*$/
+    /^(\d+(?:\.\d+)?)\s+(.+?)\s+(-?[\d,]+(?:['-]\d+(?:\.\d+)?|\.\d+)?)\s+([A-Z]{3})\s*$/
   );
   if (!tail)
     return {
@@ -82,17 +144,35 @@ function parseTradeLine(line: string): { row?: AmpTradeRow; reason?: string } {
     "TRADE PRICE": price.replace(/,/g, ""),
     CCY: ccy,
   };
-  if (
-    !DATE.test(row.DATE) ||
-    !/^\d+$/.test(row["TRADE NUMBER"]) ||
-    (!row.BUY && !row.SELL) ||
-    !Number.isFinite(Number(row["TRADE PRICE"])) ||
-    !row.CCY
-  )
-    return { reason: "Failed validation" };
+  if (invalidFields(row).length > 0) return { reason: "Failed validation" };
   return { row };
 }
 
+// Fee lines follow the fills of the contract they were charged on. They are
+// written out as rows with the fee name in front of the contract description
+// and the amount in the price column, which is how the CSV importer reads
+// them.
+function parseFeeLine(
+  line: string,
+  previous?: AmpTradeRow
+): AmpTradeRow | null {
+  const fee = line.match(AMP_FEE_NAME);
+  const amount = line.match(AMOUNT)?.pop();
+  if (!fee || !amount || !previous || /\bTOTAL\b/.test(line)) return null;
+  const date = line.slice(0, 9);
+  return {
+    ...previous,
+    DATE: DATE.test(date) ? date : previous.DATE,
+    "TRADE NUMBER": "",
+    BUY: "",
+    SELL: "",
+    "CONTRACT DESCRIPTION": `${fee[0].toUpperCase()} ${
+      previous["CONTRACT DESCRIPTION"]
+    }`,
+    "TRADE PRICE": amount.replace(/,/g, ""),
+  };
+}
+
 function extractSection(text: string, page: number) {
   const lines = text.split(/\r?\n/).map((line) => line.trim());
   const heading = lines.findIndex((line) =>
@@ -100,21 +180,33 @@ function extractSection(text: string, page: number) {
   );
   if (heading === -1)
     return {
-      rows: [] as AmpTradeRow[],
+      rows: [] as StatementRow[],
       skipped: [] as SkippedRow[],
       found: false,
     };
-  const rows: AmpTradeRow[] = [],
+  const rows: StatementRow[] = [],
     skipped: SkippedRow[] = [];
-  for (const rawLine of lines.slice(heading + 1)) {
-    if (!DATE.test(rawLine.slice(0, 9))) continue;
-    const parsed = parseTradeLine(rawLine);
-    if (parsed.row) rows.push(parsed.row);
-    else
+  let lastTrade: AmpTradeRow | undefined;
+  for (let lineIndex = heading + 1; lineIndex < lines.length; lineIndex += 1) {
+    const rawLine = lines[lineIndex];
+    const isDated = DATE.test(rawLine.slice(0, 9));
+    const parsed: ReturnType<typeof parseTradeLine> = isDated
+      ? parseTradeLine(rawLine)
+      : {};
+    if (parsed.row) {
+      rows.push({ page, lineIndex, row: parsed.row });
+      lastTrade = parsed.row;
+      continue;
+    }
+    const feeRow = parseFeeLine(rawLine, lastTrade);
+    if (feeRow) rows.push({ page, lineIndex, row: feeRow });
+    else if (isDated)
       skipped.push({
         page,
+        lineIndex,
         line: rawLine,
         reason: parsed.reason ?? "Uncertain row",
+        guess: guessTradeRow(rawLine),
       });
   }
   return { rows, skipped, found: true };
@@ -191,21 +283,66 @@ async function getOcrText(page: PdfPage) {
   return data.text;
 }
 
-export default function AmpPdfImporter() {
-  const [rows, setRows] = useState<AmpTradeRow[]>([]);
+type Props = {
+  // Hands the extracted rows to the import page's preview. uncertainRows is
+  // how many lines are still unresolved and will be left out.
+  onImport: (
+    rows: AmpTradeRow[],
+    fileName: string,
+    uncertainRows: number
+  ) => void;
+};
+
+export default function AmpPdfImporter({ onImport }: Props) {
+  const [statementRows, setStatementRows] = useState<StatementRow[]>([]);
   const [skipped, setSkipped] = useState<SkippedRow[]>([]);
   const [loading, setLoading] = useState(false);
   const [message, setMessage] = useState<string | null>(null);
+  const [fileName, setFileName] = useState("");
+
+  const updateGuess = (index: number, field: AmpField, value: string) =>
+    setSkipped((current) =>
+      current.map((item, i) =>
+        i === index
+          ? { ...item, guess: { ...item.guess, [field]: value } }
+          : item
+      )
+    );
+
+  const dismissSkipped = (index: number) =>
+    setSkipped((current) => current.filter((_, i) => i !== index));
+
+  const promoteSkipped = (index: number) => {
+    const { page, lineIndex, guess } = skipped[index];
+    const row = Object.fromEntries(
+      FIELDS.map((field) => [field, guess[field].trim()])
+    ) as AmpTradeRow;
+    setStatementRows((current) => {
+      const after = current.findIndex(
+        (other) =>
+          other.page > page ||
+          (other.page === page && other.lineIndex > lineIndex)
+      );
+      const position = after === -1 ? current.length : after;
+      return [
+        ...current.slice(0, position),
+        { page, lineIndex, row },
+        ...current.slice(position),
+      ];
+    });
+    dismissSkipped(index);
+  };
 
   const parsePdf = async (file: File) => {
     setLoading(true);
-    setRows([]);
+    setFileName(file.name);
+    setStatementRows([]);
     setSkipped([]);
     setMessage(null);
     try {
       const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() })
         .promise;
-      const extracted: AmpTradeRow[] = [],
+      const extracted: StatementRow[] = [],
         uncertain: SkippedRow[] = [];
       for (let number = 1; number <= pdf.numPages; number += 1) {
         const page = (await pdf.getPage(number)) as PdfPage & {
@@ -229,11 +366,16 @@ export default function AmpPdfImporter() {
         extracted.push(...section.rows);
         uncertain.push(...section.skipped);
       }
-      setRows(extracted);
+      setStatementRows(extracted);
       setSkipped(uncertain);
+      const feeLines = extracted.filter(({ row }) => !row.BUY && !row.SELL);
       setMessage(
         extracted.length
-          ? `Found ${extracted.length} valid PURCHASE & SALE rows.`
+          ? `Found ${
+              extracted.length - feeLines.length
+            } valid PURCHASE & SALE rows and ${feeLines.length} fee line${
+              feeLines.length === 1 ? "" : "s"
+            }.`
           : "No valid PURCHASE & SALE rows found."
       );
     } catch (error) {
@@ -245,6 +387,7 @@ export default function AmpPdfImporter() {
     }
   };
 
+  const rows = statementRows.map(({ row }) => row);
   const csv = [
     HEADER,
     ...rows.map((row) =>
@@ -317,6 +460,12 @@ export default function AmpPdfImporter() {
             </table>
           </div>
           <div className="flex flex-wrap gap-3">
+            <button
+              onClick={() => onImport(rows, fileName, skipped.length)}
+              className="rounded-lg bg-green-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-green-700"
+            >
+              Review &amp; Import
+            </button>
             <button
               onClick={download}
               className="rounded-lg border border-gray-600 bg-gray-800 px-4 py-2 text-sm font-medium text-gray-200 transition-colors hover:border-blue-400 hover:bg-blue-600 hover:text-white"
@@ -327,16 +476,82 @@ export default function AmpPdfImporter() {
         </>
       )}
       {skipped.length > 0 && (
-        <details>
-          <summary>{skipped.length} skipped or uncertain row(s)</summary>
-          <ul>
-            {skipped.map((item, index) => (
-              <li key={index}>
-                Page {item.page}: {item.reason}
-              </li>
-            ))}
-          </ul>
-        </details>
+        <div className="space-y-3">
+          <h3 className="text-sm font-semibold text-gray-200">
+            Review {skipped.length} uncertain row
+            {skipped.length === 1 ? "" : "s"}
+          </h3>
+          <p className="text-xs text-gray-400">
+            Correct the highlighted fields and add the row to the import, or
+            dismiss lines that are not trades.
+          </p>
+          <div className="overflow-auto">
+            <table className="text-xs">
+              <thead>
+                <tr>
+                  <th className="px-2 py-1 text-left">LINE</th>
+                  {FIELDS.map((field) => (
+                    <th key={field} className="px-2 py-1 text-left">
+                      {field}
+                    </th>
+                  ))}
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {skipped.map((item, index) => {
+                  const invalid = invalidFields(item.guess);
+                  return (
+                    <tr
+                      key={`${item.page}-${index}`}
+                      className="border-t border-gray-700 align-top"
+                    >
+                      <td className="px-2 py-2 min-w-64">
+                        <p className="font-mono text-gray-300 whitespace-pre-wrap">
+                          {item.line}
+                        </p>
+                        <p className="mt-1 text-gray-500">
+                          Page {item.page}: {item.reason}
+                        </p>
+                      </td>
+                      {FIELDS.map((field) => (
+                        <td key={field} className="px-1 py-2">
+                          <input
+                            type="text"
+                            value={item.guess[field]}
+                            onChange={(e) =>
+                              updateGuess(index, field, e.target.value)
+                            }
+                            className={`w-full min-w-16 rounded border px-2 py-1 text-white ${
+                              invalid.includes(field)
+                                ? "border-amber-500 bg-amber-500/10"
+                                : "border-gray-700 bg-gray-800"
+                            }`}
+                          />
+                        </td>
+                      ))}
+                      <td className="px-2 py-2 whitespace-nowrap">
+                        <button
+                          onClick={() => promoteSkipped(index)}
+                          disabled={invalid.length > 0}
+                          className="rounded-lg border border-gray-600 bg-gray-800 px-3 py-1 font-medium text-gray-200 hover:border-blue-400 hover:bg-blue-600 hover:text-white disabled:opacity-50"
+                        >
+                          Add
+                        </button>
+                        <button
+                          onClick={() => dismissSkipped(index)}
+                          className="ml-2 text-gray-400 hover:text-white"
+                        >
+                          Dismiss
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
       )}
     </div>
   );
@@ -0,0 +1,508 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Pencil, Plus, RefreshCw, Save, Trash2, X } from "lucide-react";
+import { format, startOfMonth } from "date-fns";
+import { createClient } from "@/lib/supabase/client";
+import {
+  CommissionScheduleDraft,
+  EMPTY_COMMISSION_SCHEDULE_DRAFT,
+  FEE_ASSET_CLASS_LABELS,
+  FEE_FIELDS,
+  draftFromSchedule,
+  fetchCommissionSchedules,
+  reapplyCommissionSchedules,
+  saveCommissionSchedule,
+  scheduleFeePerContract,
+  validateCommissionScheduleDraft,
+} from "@/lib/commission-schedules";
+import { BROKER_LABELS, Broker } from "@/lib/import";
+import { CommissionSchedule, FeeAssetClass, FeeSide } from "@/types/database";
+
+const SIDE_LABELS: Record<FeeSide | "", string> = {
+  "": "Both",
+  BUY: "Buy",
+  SELL: "Sell",
+};
+
+// Per-share fees run to fractions of a cent.
+const formatFee = (amount: number) =>
+  `$${amount.toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 4,
+  })}`;
+
+const inputClassName =
+  "w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm focus:outline-none focus:border-blue-500";
+
+export default function CommissionSchedulesSettings() {
+  const [schedules, setSchedules] = useState<CommissionSchedule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<CommissionScheduleDraft>(
+    EMPTY_COMMISSION_SCHEDULE_DRAFT
+  );
+  const [newSchedule, setNewSchedule] = useState<CommissionScheduleDraft>(
+    EMPTY_COMMISSION_SCHEDULE_DRAFT
+  );
+  const [reapply, setReapply] = useState<{
+    broker: Broker;
+    from: string;
+    to: string;
+    includeOverridden: boolean;
+  }>({
+    broker: "AMP",
+    from: format(startOfMonth(new Date()), "yyyy-MM-dd"),
+    to: format(new Date(), "yyyy-MM-dd"),
+    includeOverridden: false,
+  });
+  const [reapplying, setReapplying] = useState(false);
+  const [reapplyMessage, setReapplyMessage] = useState<string | null>(null);
+  const supabase = createClient();
+
+  const fetchSchedules = useCallback(async () => {
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) return;
+      const loaded = await fetchCommissionSchedules(supabase, user.id);
+      setSchedules(loaded);
+      setReapply((current) =>
+        loaded.length === 0 ||
+        loaded.some((schedule) => schedule.broker === current.broker)
+          ? current
+          : { ...current, broker: loaded[0].broker }
+      );
+    } catch (fetchError) {
+      console.error("Error fetching commission schedules:", fetchError);
+      setError("Error loading commission schedules.");
+    } finally {
+      setLoading(false);
+    }
+  }, [supabase]);
+
+  useEffect(() => {
+    fetchSchedules();
+  }, [fetchSchedules]);
+
+  const saveSchedule = async (schedule: CommissionScheduleDraft) => {
+    const validationError = validateCommissionScheduleDraft(schedule);
+    if (validationError) {
+      setError(validationError);
+      return false;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) return false;
+      await saveCommissionSchedule(supabase, user.id, schedule);
+      await fetchSchedules();
+      // Offer to bring existing trades in line with the new fees.
+      setReapply({ ...reapply, broker: schedule.broker });
+      setReapplyMessage(null);
+      return true;
+    } catch (saveError) {
+      console.error("Error saving commission schedule:", saveError);
+      setError("Error saving commission schedule. Please try again.");
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveEdit = async () => {
+    if (await saveSchedule(draft)) setEditingId(null);
+  };
+
+  const handleAdd = async () => {
+    if (await saveSchedule(newSchedule))
+      setNewSchedule({
+        ...EMPTY_COMMISSION_SCHEDULE_DRAFT,
+        broker: newSchedule.broker,
+        asset_class: newSchedule.asset_class,
+      });
+  };
+
+  const handleDelete = async (schedule: CommissionSchedule) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const { error: deleteError } = await supabase
+        .from("commission_schedules")
+        .delete()
+        .eq("id", schedule.id);
+      if (deleteError) throw deleteError;
+      await fetchSchedules();
+    } catch (deleteError) {
+      console.error("Error deleting commission schedule:", deleteError);
+      setError("Error deleting commission schedule. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReapply = async () => {
+    if (!reapply.from || !reapply.to || reapply.from > reapply.to) {
+      setError("Choose a start date on or before the end date.");
+      return;
+    }
+    setReapplying(true);
+    setError(null);
+    setReapplyMessage(null);
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) return;
+      const updated = await reapplyCommissionSchedules(
+        supabase,
+        user.id,
+        reapply
+      );
+      setReapplyMessage(
+        `Updated the fees on ${updated} trade${updated === 1 ? "" : "s"}.`
+      );
+    } catch (reapplyError) {
+      console.error("Error re-applying commission schedules:", reapplyError);
+      setError("Error re-applying fees. Please try again.");
+    } finally {
+      setReapplying(false);
+    }
+  };
+
+  // Broker, asset class, contract and side identify a row, so they are only
+  // editable when adding one.
+  const renderDraftInputs = (
+    value: CommissionScheduleDraft,
+    onChange: (value: CommissionScheduleDraft) => void,
+    editableKey: boolean
+  ) => (
+    <>
+      <td className="px-2 py-2">
+        {editableKey ? (
+          <select
+            value={value.broker}
+            onChange={(e) =>
+              onChange({ ...value, broker: e.target.value as Broker })
+            }
+            className={inputClassName}
+          >
+            {Object.entries(BROKER_LABELS).map(([broker, label]) => (
+              <option key={broker} value={broker}>
+                {label}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <span className="text-white">{BROKER_LABELS[value.broker]}</span>
+        )}
+      </td>
+      <td className="px-2 py-2">
+        {editableKey ? (
+          <select
+            value={value.asset_class}
+            onChange={(e) =>
+              onChange({
+                ...value,
+                asset_class: e.target.value as FeeAssetClass,
+              })
+            }
+            className={inputClassName}
+          >
+            {Object.entries(FEE_ASSET_CLASS_LABELS).map(
+              ([assetClass, label]) => (
+                <option key={assetClass} value={assetClass}>
+                  {label}
+                </option>
+              )
+            )}
+          </select>
+        ) : (
+          <span className="text-white">
+            {FEE_ASSET_CLASS_LABELS[value.asset_class]}
+          </span>
+        )}
+      </td>
+      <td className="px-2 py-2">
+        {editableKey ? (
+          <input
+            type="text"
+            value={value.symbol}
+            placeholder="All"
+            onChange={(e) => onChange({ ...value, symbol: e.target.value })}
+            className={inputClassName}
+          />
+        ) : (
+          <span className="text-white">{value.symbol || "All"}</span>
+        )}
+      </td>
+      <td className="px-2 py-2">
+        {editableKey ? (
+          <select
+            value={value.side}
+            onChange={(e) =>
+              onChange({ ...value, side: e.target.value as FeeSide | "" })
+            }
+            className={inputClassName}
+          >
+            {Object.entries(SIDE_LABELS).map(([side, label]) => (
+              <option key={side} value={side}>
+                {label}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <span className="text-white">{SIDE_LABELS[value.side]}</span>
+        )}
+      </td>
+      {[...FEE_FIELDS.map(({ key }) => key), "minimum_fee" as const].map(
+        (key) => (
+          <td key={key} className="px-2 py-2">
+            <input
+              type="number"
+              step="any"
+              min="0"
+              value={value[key]}
+              placeholder="0"
+              onChange={(e) => onChange({ ...value, [key]: e.target.value })}
+              className={inputClassName}
+            />
+          </td>
+        )
+      )}
+      <td className="px-2 py-2 text-gray-400">
+        {formatFee(
+          FEE_FIELDS.reduce(
+            (sum, { key }) => sum + (Number(value[key]) || 0),
+            0
+          )
+        )}
+      </td>
+    </>
+  );
+
+  if (loading) {
+    return <div className="text-gray-400">Loading commission schedules...</div>;
+  }
+
+  const scheduleBrokers = [
+    ...new Set(schedules.map((schedule) => schedule.broker)),
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-gray-800 border border-gray-700 rounded-xl p-6">
+        <h2 className="text-lg font-semibold text-white mb-2">
+          Commission Schedules
+        </h2>
+        <p className="text-gray-400 text-sm mb-6">
+          Fees are per contract, or per share for stocks and ETFs, for one side
+          of a round turn, and never less than the minimum. They fill in the
+          commission on new trades and on imported fills the statement has no
+          fees for. Leave the symbol blank to cover all of a broker&apos;s
+          contracts or stocks; a symbol&apos;s own row takes precedence.
+        </p>
+
+        {error && (
+          <div className="mb-4 p-3 rounded-lg bg-red-500/10 border border-red-500 text-red-500 text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-400 uppercase">
+                {[
+                  "Broker",
+                  "Asset",
+                  "Symbol",
+                  "Side",
+                  ...FEE_FIELDS.map(({ label }) => label),
+                  "Minimum",
+                  "Per Unit",
+                  "",
+                ].map((label) => (
+                  <th key={label} className="px-2 py-2 font-medium">
+                    {label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {schedules.map((schedule) => (
+                <tr key={schedule.id} className="border-t border-gray-700">
+                  {editingId === schedule.id ? (
+                    <>
+                      {renderDraftInputs(draft, setDraft, false)}
+                      <td className="px-2 py-2 whitespace-nowrap text-right">
+                        <button
+                          onClick={handleSaveEdit}
+                          disabled={saving}
+                          className="text-green-500 hover:text-green-400 mr-2 disabled:opacity-50"
+                          title="Save"
+                        >
+                          <Save className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => setEditingId(null)}
+                          className="text-gray-400 hover:text-white"
+                          title="Cancel"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </>
+                  ) : (
+                    <>
+                      <td className="px-2 py-2 text-white">
+                        {BROKER_LABELS[schedule.broker]}
+                      </td>
+                      <td className="px-2 py-2 text-gray-300">
+                        {FEE_ASSET_CLASS_LABELS[schedule.asset_class]}
+                      </td>
+                      <td className="px-2 py-2 text-white font-medium">
+                        {schedule.symbol ?? "All"}
+                      </td>
+                      <td className="px-2 py-2 text-gray-300">
+                        {SIDE_LABELS[schedule.side ?? ""]}
+                      </td>
+                      {FEE_FIELDS.map(({ key }) => (
+                        <td key={key} className="px-2 py-2 text-gray-300">
+                          {formatFee(Number(schedule[key]))}
+                        </td>
+                      ))}
+                      <td className="px-2 py-2 text-gray-300">
+                        {formatFee(Number(schedule.minimum_fee))}
+                      </td>
+                      <td className="px-2 py-2 text-gray-300">
+                        {formatFee(scheduleFeePerContract(schedule))}
+                      </td>
+                      <td className="px-2 py-2 whitespace-nowrap text-right">
+                        <button
+                          onClick={() => {
+                            setEditingId(schedule.id);
+                            setDraft(draftFromSchedule(schedule));
+                            setError(null);
+                          }}
+                          disabled={saving}
+                          className="text-blue-500 hover:text-blue-400 mr-2 disabled:opacity-50"
+                          title="Edit"
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(schedule)}
+                          disabled={saving}
+                          className="text-red-500 hover:text-red-400 disabled:opacity-50"
+                          title="Delete"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </>
+                  )}
+                </tr>
+              ))}
+              <tr className="border-t border-gray-700">
+                {renderDraftInputs(newSchedule, setNewSchedule, true)}
+                <td className="px-2 py-2 text-right">
+                  <button
+                    onClick={handleAdd}
+                    disabled={saving}
+                    className="inline-flex items-center px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white text-xs font-medium rounded-lg disabled:opacity-50"
+                  >
+                    <Plus className="w-3 h-3 mr-1" />
+                    Add
+                  </button>
+                </td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {scheduleBrokers.length > 0 && (
+        <div className="bg-gray-800 border border-gray-700 rounded-xl p-6">
+          <h2 className="text-lg font-semibold text-white mb-2">
+            Re-apply Fees
+          </h2>
+          <p className="text-gray-400 text-sm mb-4">
+            Recalculate the fees and net P&L of existing trades from the
+            schedules above, for trades entered between the two dates. Fees an
+            imported statement reported are kept.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <label className="block text-sm text-gray-300">
+              Broker
+              <select
+                value={reapply.broker}
+                onChange={(e) =>
+                  setReapply({ ...reapply, broker: e.target.value as Broker })
+                }
+                className={`mt-1 ${inputClassName}`}
+              >
+                {scheduleBrokers.map((broker) => (
+                  <option key={broker} value={broker}>
+                    {BROKER_LABELS[broker]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="block text-sm text-gray-300">
+              From
+              <input
+                type="date"
+                value={reapply.from}
+                onChange={(e) =>
+                  setReapply({ ...reapply, from: e.target.value })
+                }
+                className={`mt-1 ${inputClassName}`}
+              />
+            </label>
+            <label className="block text-sm text-gray-300">
+              To
+              <input
+                type="date"
+                value={reapply.to}
+                onChange={(e) => setReapply({ ...reapply, to: e.target.value })}
+                className={`mt-1 ${inputClassName}`}
+              />
+            </label>
+          </div>
+          <label className="mt-4 flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={reapply.includeOverridden}
+              onChange={(e) =>
+                setReapply({ ...reapply, includeOverridden: e.target.checked })
+              }
+            />
+            Also replace fees I entered by hand
+          </label>
+          <div className="mt-4 flex items-center gap-4">
+            <button
+              onClick={handleReapply}
+              disabled={reapplying || !scheduleBrokers.includes(reapply.broker)}
+              className="inline-flex items-center px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg disabled:opacity-50"
+            >
+              <RefreshCw
+                className={`w-4 h-4 mr-2 ${reapplying ? "animate-spin" : ""}`}
+              />
+              {reapplying ? "Re-applying..." : "Re-apply fees"}
+            </button>
+            {reapplyMessage && (
+              <span className="text-sm text-green-500">{reapplyMessage}</span>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,360 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Pencil, Plus, RotateCcw, Save, Trash2, X } from "lucide-react";
+import { createClient } from "@/lib/supabase/client";
+import {
+  ContractSpecDraft,
+  EMPTY_CONTRACT_SPEC_DRAFT,
+  draftFromSpec,
+  draftPointValue,
+  fetchContractSpecs,
+  saveContractSpec,
+  validateContractSpecDraft,
+} from "@/lib/contract-specs";
+import { ContractSpec } from "@/types/database";
+import { PRICE_FORMAT_LABELS, PriceFormat } from "@/lib/futures-specs";
+
+type ContractRow = {
+  spec: ContractSpec;
+  shared: ContractSpec | null;
+  own: ContractSpec | null;
+};
+
+// Shared specs with the user's own rows laid over them, by symbol.
+const buildRows = (specs: ContractSpec[]): ContractRow[] => {
+  const rows = new Map<string, ContractRow>();
+  for (const spec of specs) {
+    const row = rows.get(spec.symbol) ?? { spec, shared: null, own: null };
+    if (spec.user_id) {
+      row.own = spec;
+      row.spec = spec;
+    } else {
+      row.shared = spec;
+      if (!row.own) row.spec = spec;
+    }
+    rows.set(spec.symbol, row);
+  }
+  return [...rows.values()].sort((a, b) =>
+    a.spec.symbol.localeCompare(b.spec.symbol)
+  );
+};
+
+const inputClassName =
+  "w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm focus:outline-none focus:border-blue-500";
+
+export default function ContractSpecsSettings() {
+  const [rows, setRows] = useState<ContractRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [editingSymbol, setEditingSymbol] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ContractSpecDraft>(
+    EMPTY_CONTRACT_SPEC_DRAFT
+  );
+  const [newContract, setNewContract] = useState<ContractSpecDraft>(
+    EMPTY_CONTRACT_SPEC_DRAFT
+  );
+  const supabase = createClient();
+
+  const fetchSpecs = useCallback(async () => {
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) return;
+      setRows(buildRows(await fetchContractSpecs(supabase, user.id)));
+    } catch (fetchError) {
+      console.error("Error fetching contract specs:", fetchError);
+      setError("Error loading contract specs.");
+    } finally {
+      setLoading(false);
+    }
+  }, [supabase]);
+
+  useEffect(() => {
+    fetchSpecs();
+  }, [fetchSpecs]);
+
+  const saveSpec = async (spec: ContractSpecDraft) => {
+    const validationError = validateContractSpecDraft(spec);
+    if (validationError) {
+      setError(validationError);
+      return false;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) return false;
+      await saveContractSpec(supabase, user.id, spec);
+      await fetchSpecs();
+      return true;
+    } catch (saveError) {
+      console.error("Error saving contract spec:", saveError);
+      setError("Error saving contract. Please try again.");
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveEdit = async () => {
+    if (await saveSpec(draft)) setEditingSymbol(null);
+  };
+
+  const handleAdd = async () => {
+    const symbol = newContract.symbol.trim().toUpperCase();
+    if (rows.some((row) => row.spec.symbol === symbol)) {
+      setError(`${symbol} is already listed. Edit it in the table instead.`);
+      return;
+    }
+    if (await saveSpec(newContract)) setNewContract(EMPTY_CONTRACT_SPEC_DRAFT);
+  };
+
+  // Deleting the user's row brings back the shared default, if there is one.
+  const handleRemove = async (row: ContractRow) => {
+    if (!row.own) return;
+    if (
+      !row.shared &&
+      !confirm(
+        `Delete ${row.own.symbol}? Its trades will fall back to a point value of 1.`
+      )
+    )
+      return;
+    setSaving(true);
+    setError(null);
+    try {
+      const { error: deleteError } = await supabase
+        .from("contract_specs")
+        .delete()
+        .eq("id", row.own.id);
+      if (deleteError) throw deleteError;
+      await fetchSpecs();
+    } catch (deleteError) {
+      console.error("Error removing contract spec:", deleteError);
+      setError("Error removing contract. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderDraftInputs = (
+    value: ContractSpecDraft,
+    onChange: (value: ContractSpecDraft) => void,
+    editableSymbol: boolean
+  ) =>
+    (
+      [
+        "symbol",
+        "name",
+        "exchange",
+        "currency",
+        "tick_size",
+        "tick_value",
+        "point_value",
+        "initial_margin",
+        "maintenance_margin",
+        "price_format",
+      ] as const
+    ).map((field) => (
+      <td key={field} className="px-2 py-2">
+        {field === "price_format" ? (
+          <select
+            value={value.price_format}
+            onChange={(e) =>
+              onChange({
+                ...value,
+                price_format: e.target.value as PriceFormat,
+              })
+            }
+            className={inputClassName}
+          >
+            {Object.entries(PRICE_FORMAT_LABELS).map(([format, label]) => (
+              <option key={format} value={format}>
+                {label}
+              </option>
+            ))}
+          </select>
+        ) : field === "point_value" ? (
+          <span className="text-gray-400">
+            {Number.isFinite(draftPointValue(value))
+              ? draftPointValue(value)
+              : "-"}
+          </span>
+        ) : field === "symbol" && !editableSymbol ? (
+          <span className="text-white font-medium">{value.symbol}</span>
+        ) : (
+          <input
+            type={
+              ["symbol", "name", "exchange", "currency"].includes(field)
+                ? "text"
+                : "number"
+            }
+            step="any"
+            value={value[field]}
+            onChange={(e) => onChange({ ...value, [field]: e.target.value })}
+            className={inputClassName}
+          />
+        )}
+      </td>
+    ));
+
+  if (loading) {
+    return <div className="text-gray-400">Loading contracts...</div>;
+  }
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-xl p-6">
+      <h2 className="text-lg font-semibold text-white mb-2">
+        Futures Contracts
+      </h2>
+      <p className="text-gray-400 text-sm mb-6">
+        Point values here are used to calculate P&L for manual and imported
+        trades, in the contract&apos;s currency. Values and margins are in that
+        currency too. Add contracts that aren&apos;t listed, or change a
+        contract&apos;s specs and margins for your account. Your changes only
+        apply to you.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 rounded-lg bg-red-500/10 border border-red-500 text-red-500 text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-400 uppercase">
+              {[
+                "Symbol",
+                "Name",
+                "Exchange",
+                "Currency",
+                "Tick Size",
+                "Tick Value",
+                "Point Value",
+                "Initial Margin",
+                "Maint. Margin",
+                "Quoted In",
+                "",
+              ].map((label) => (
+                <th key={label} className="px-2 py-2 font-medium">
+                  {label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.spec.symbol} className="border-t border-gray-700">
+                {editingSymbol === row.spec.symbol ? (
+                  <>
+                    {renderDraftInputs(draft, setDraft, false)}
+                    <td className="px-2 py-2 whitespace-nowrap text-right">
+                      <button
+                        onClick={handleSaveEdit}
+                        disabled={saving}
+                        className="text-green-500 hover:text-green-400 mr-2 disabled:opacity-50"
+                        title="Save"
+                      >
+                        <Save className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => setEditingSymbol(null)}
+                        className="text-gray-400 hover:text-white"
+                        title="Cancel"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </>
+                ) : (
+                  <>
+                    <td className="px-2 py-2 text-white font-medium">
+                      {row.spec.symbol}
+                      {row.own && (
+                        <span className="ml-2 px-1.5 py-0.5 rounded text-xs bg-blue-500/10 text-blue-400">
+                          {row.shared ? "Custom" : "Added"}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-2 py-2 text-gray-300">{row.spec.name}</td>
+                    <td className="px-2 py-2 text-gray-300">
+                      {row.spec.exchange}
+                    </td>
+                    <td className="px-2 py-2 text-gray-300">
+                      {row.spec.currency}
+                    </td>
+                    <td className="px-2 py-2 text-gray-300">
+                      {row.spec.tick_size}
+                    </td>
+                    <td className="px-2 py-2 text-gray-300">
+                      {row.spec.tick_value}
+                    </td>
+                    <td className="px-2 py-2 text-gray-300">
+                      {row.spec.point_value}
+                    </td>
+                    <td className="px-2 py-2 text-gray-300">
+                      {Number(row.spec.initial_margin).toLocaleString()}
+                    </td>
+                    <td className="px-2 py-2 text-gray-300">
+                      {Number(row.spec.maintenance_margin).toLocaleString()}
+                    </td>
+                    <td className="px-2 py-2 text-gray-300 whitespace-nowrap">
+                      {PRICE_FORMAT_LABELS[row.spec.price_format]}
+                    </td>
+                    <td className="px-2 py-2 whitespace-nowrap text-right">
+                      <button
+                        onClick={() => {
+                          setEditingSymbol(row.spec.symbol);
+                          setDraft(draftFromSpec(row.spec));
+                          setError(null);
+                        }}
+                        disabled={saving}
+                        className="text-blue-500 hover:text-blue-400 mr-2 disabled:opacity-50"
+                        title="Edit"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      {row.own && (
+                        <button
+                          onClick={() => handleRemove(row)}
+                          disabled={saving}
+                          className="text-red-500 hover:text-red-400 disabled:opacity-50"
+                          title={row.shared ? "Reset to default" : "Delete"}
+                        >
+                          {row.shared ? (
+                            <RotateCcw className="w-4 h-4" />
+                          ) : (
+                            <Trash2 className="w-4 h-4" />
+                          )}
+                        </button>
+                      )}
+                    </td>
+                  </>
+                )}
+              </tr>
+            ))}
+            <tr className="border-t border-gray-700">
+              {renderDraftInputs(newContract, setNewContract, true)}
+              <td className="px-2 py-2 text-right">
+                <button
+                  onClick={handleAdd}
+                  disabled={saving}
+                  className="inline-flex items-center px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white text-xs font-medium rounded-lg disabled:opacity-50"
+                >
+                  <Plus className="w-3 h-3 mr-1" />
+                  Add
+                </button>
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
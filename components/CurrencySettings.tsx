@@ -0,0 +1,316 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Plus, Trash2, Upload } from "lucide-react";
+import { format } from "date-fns";
+import { createClient } from "@/lib/supabase/client";
+import {
+  CURRENCIES,
+  DEFAULT_BASE_CURRENCY,
+  fetchBaseCurrency,
+  fetchFxRates,
+  parseFxRatesCsv,
+  reconvertTradePnL,
+  saveFxRates,
+  uniqueMissingRates,
+} from "@/lib/fx-rates";
+import { FxRate } from "@/types/database";
+
+const inputClassName =
+  "w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm focus:outline-none focus:border-blue-500";
+
+export default function CurrencySettings() {
+  const [baseCurrency, setBaseCurrency] = useState(DEFAULT_BASE_CURRENCY);
+  const [rates, setRates] = useState<FxRate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [newRate, setNewRate] = useState({
+    date: format(new Date(), "yyyy-MM-dd"),
+    currency: "EUR",
+    rate: "",
+  });
+  const supabase = createClient();
+
+  const fetchRates = useCallback(async () => {
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) return;
+      const base = await fetchBaseCurrency(supabase, user.id);
+      setBaseCurrency(base);
+      setRates(await fetchFxRates(supabase, user.id, base));
+    } catch (fetchError) {
+      console.error("Error fetching FX rates:", fetchError);
+      setError("Error loading exchange rates.");
+    } finally {
+      setLoading(false);
+    }
+  }, [supabase]);
+
+  useEffect(() => {
+    fetchRates();
+  }, [fetchRates]);
+
+  // Runs a change, then converts every trade's P&L again with the base
+  // currency and rates it leaves behind.
+  const updateAndReconvert = async (
+    update: (userId: string) => Promise<string | void>
+  ) => {
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) return;
+      const note = await update(user.id);
+      const { updated, missing } = await reconvertTradePnL(supabase, user.id);
+      await fetchRates();
+      setMessage(
+        [
+          note,
+          `Converted ${updated} trade${updated === 1 ? "" : "s"}.`,
+          missing.length > 0 &&
+            `${missing.length} trade${
+              missing.length === 1 ? " has" : "s have"
+            } no rate for the day ${
+              missing.length === 1 ? "it" : "they"
+            } closed and ${
+              missing.length === 1 ? "is" : "are"
+            } left out of totals until one is added: ${uniqueMissingRates(
+              missing
+            )
+              .map(({ currency, date }) => `${currency} on ${date}`)
+              .join(", ")}.`,
+        ]
+          .filter(Boolean)
+          .join(" ")
+      );
+    } catch (updateError) {
+      console.error("Error updating currencies:", updateError);
+      setError("Error saving. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleBaseCurrencyChange = (currency: string) =>
+    updateAndReconvert(async (userId) => {
+      const { error: updateError } = await supabase
+        .from("profiles")
+        .update({
+          base_currency: currency,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", userId);
+      if (updateError) throw updateError;
+    });
+
+  const handleAdd = () => {
+    if (!newRate.date || !(Number(newRate.rate) > 0)) {
+      setError("Enter a date and a rate greater than 0.");
+      return;
+    }
+    if (newRate.currency === baseCurrency) {
+      setError(`${baseCurrency} is your base currency.`);
+      return;
+    }
+    return updateAndReconvert(async (userId) => {
+      await saveFxRates(supabase, userId, baseCurrency, [
+        { ...newRate, rate: Number(newRate.rate) },
+      ]);
+      setNewRate({ ...newRate, rate: "" });
+    });
+  };
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    const { rates: uploaded, skippedRows } = parseFxRatesCsv(await file.text());
+    const usable = uploaded.filter((rate) => rate.currency !== baseCurrency);
+    if (usable.length === 0) {
+      setError(
+        "No rates were found. The file needs date, currency and rate columns."
+      );
+      return;
+    }
+    return updateAndReconvert(async (userId) => {
+      await saveFxRates(supabase, userId, baseCurrency, usable);
+      const skipped = skippedRows + uploaded.length - usable.length;
+      return `Saved ${usable.length} rate${usable.length === 1 ? "" : "s"}${
+        skipped > 0 ? `, skipped ${skipped} row${skipped === 1 ? "" : "s"}` : ""
+      }.`;
+    });
+  };
+
+  const handleDelete = (rate: FxRate) =>
+    updateAndReconvert(async () => {
+      const { error: deleteError } = await supabase
+        .from("fx_rates")
+        .delete()
+        .eq("id", rate.id);
+      if (deleteError) throw deleteError;
+    });
+
+  if (loading) {
+    return <div className="text-gray-400">Loading currencies...</div>;
+  }
+
+  const currencyOptions = CURRENCIES.includes(baseCurrency)
+    ? CURRENCIES
+    : [baseCurrency, ...CURRENCIES];
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-gray-800 border border-gray-700 rounded-xl p-6">
+        <h2 className="text-lg font-semibold text-white mb-2">Base Currency</h2>
+        <p className="text-gray-400 text-sm mb-4">
+          Trades keep their P&L in the contract&apos;s currency and are
+          converted into this one for totals, the calendar and your wallet.
+          Changing it converts every trade again with the rates below. Trades
+          without one are left out of totals until it is added.
+        </p>
+        <select
+          value={baseCurrency}
+          onChange={(e) => handleBaseCurrencyChange(e.target.value)}
+          disabled={saving}
+          className={`max-w-xs ${inputClassName}`}
+        >
+          {currencyOptions.map((currency) => (
+            <option key={currency} value={currency}>
+              {currency}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="bg-gray-800 border border-gray-700 rounded-xl p-6">
+        <div className="flex flex-wrap items-start justify-between gap-4 mb-2">
+          <h2 className="text-lg font-semibold text-white">Exchange Rates</h2>
+          <label className="inline-flex items-center px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white text-xs font-medium rounded-lg cursor-pointer">
+            <Upload className="w-3 h-3 mr-1" />
+            Upload CSV
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              className="sr-only"
+              onChange={handleUpload}
+              disabled={saving}
+            />
+          </label>
+        </div>
+        <p className="text-gray-400 text-sm mb-6">
+          How many {baseCurrency} one unit of a currency was worth at the end of
+          a day. A trade uses the rate for the day it closed, or the latest one
+          from the week before. A CSV needs date (YYYY-MM-DD), currency and rate
+          columns.
+        </p>
+
+        {error && (
+          <div className="mb-4 p-3 rounded-lg bg-red-500/10 border border-red-500 text-red-500 text-sm">
+            {error}
+          </div>
+        )}
+        {message && (
+          <div className="mb-4 p-3 rounded-lg bg-green-500/10 border border-green-500 text-green-500 text-sm">
+            {message}
+          </div>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-400 uppercase">
+                {["Date", "Currency", `Rate (${baseCurrency})`, ""].map(
+                  (label) => (
+                    <th key={label} className="px-2 py-2 font-medium">
+                      {label}
+                    </th>
+                  )
+                )}
+              </tr>
+            </thead>
+            <tbody>
+              {rates.map((rate) => (
+                <tr key={rate.id} className="border-t border-gray-700">
+                  <td className="px-2 py-2 text-white">{rate.date}</td>
+                  <td className="px-2 py-2 text-gray-300">{rate.currency}</td>
+                  <td className="px-2 py-2 text-gray-300">
+                    {Number(rate.rate)}
+                  </td>
+                  <td className="px-2 py-2 text-right">
+                    <button
+                      onClick={() => handleDelete(rate)}
+                      disabled={saving}
+                      className="text-red-500 hover:text-red-400 disabled:opacity-50"
+                      title="Delete"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              <tr className="border-t border-gray-700">
+                <td className="px-2 py-2">
+                  <input
+                    type="date"
+                    value={newRate.date}
+                    onChange={(e) =>
+                      setNewRate({ ...newRate, date: e.target.value })
+                    }
+                    className={inputClassName}
+                  />
+                </td>
+                <td className="px-2 py-2">
+                  <select
+                    value={newRate.currency}
+                    onChange={(e) =>
+                      setNewRate({ ...newRate, currency: e.target.value })
+                    }
+                    className={inputClassName}
+                  >
+                    {CURRENCIES.filter(
+                      (currency) => currency !== baseCurrency
+                    ).map((currency) => (
+                      <option key={currency} value={currency}>
+                        {currency}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                <td className="px-2 py-2">
+                  <input
+                    type="number"
+                    step="any"
+                    min="0"
+                    value={newRate.rate}
+                    placeholder="e.g. 1.0850"
+                    onChange={(e) =>
+                      setNewRate({ ...newRate, rate: e.target.value })
+                    }
+                    className={inputClassName}
+                  />
+                </td>
+                <td className="px-2 py-2 text-right">
+                  <button
+                    onClick={handleAdd}
+                    disabled={saving}
+                    className="inline-flex items-center px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white text-xs font-medium rounded-lg disabled:opacity-50"
+                  >
+                    <Plus className="w-3 h-3 mr-1" />
+                    Add
+                  </button>
+                </td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
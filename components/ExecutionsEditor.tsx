@@ -0,0 +1,138 @@
+"use client";
+
+import { Plus, Trash2 } from "lucide-react";
+import { ExecutionDraft, emptyExecutionDraft } from "@/lib/executions";
+import { TradeExecution } from "@/types/database";
+
+const inputClassName =
+  "w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm focus:outline-none focus:border-blue-500";
+
+type Props = {
+  executions: ExecutionDraft[];
+  onChange: (executions: ExecutionDraft[]) => void;
+};
+
+// The fills of a position scaled into or out of, one row each.
+export default function ExecutionsEditor({ executions, onChange }: Props) {
+  const updateExecution = (index: number, changes: Partial<ExecutionDraft>) =>
+    onChange(
+      executions.map((execution, executionIndex) =>
+        executionIndex === index ? { ...execution, ...changes } : execution
+      )
+    );
+
+  // A new fill starts on the same side as the last one.
+  const addExecution = () =>
+    onChange([
+      ...executions,
+      emptyExecutionDraft(executions[executions.length - 1]?.side ?? "BUY"),
+    ]);
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-400 uppercase">
+            {["Side", "Time", "Qty", "Price", "Fees", ""].map((label) => (
+              <th key={label} className="px-2 py-2 font-medium">
+                {label}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {executions.map((execution, index) => (
+            <tr key={index} className="border-t border-gray-700">
+              <td className="px-2 py-2">
+                <select
+                  value={execution.side}
+                  onChange={(e) =>
+                    updateExecution(index, {
+                      side: e.target.value as TradeExecution["side"],
+                    })
+                  }
+                  className={inputClassName}
+                >
+                  <option value="BUY">Buy</option>
+                  <option value="SELL">Sell</option>
+                </select>
+              </td>
+              <td className="px-2 py-2">
+                <input
+                  type="datetime-local"
+                  value={execution.executed_at}
+                  onChange={(e) =>
+                    updateExecution(index, { executed_at: e.target.value })
+                  }
+                  className={inputClassName}
+                />
+              </td>
+              <td className="px-2 py-2">
+                <input
+                  type="number"
+                  step="any"
+                  min="0"
+                  value={execution.quantity}
+                  onChange={(e) =>
+                    updateExecution(index, { quantity: e.target.value })
+                  }
+                  className={`w-20 ${inputClassName}`}
+                />
+              </td>
+              <td className="px-2 py-2">
+                <input
+                  type="number"
+                  step="any"
+                  value={execution.price}
+                  placeholder="0.00"
+                  onChange={(e) =>
+                    updateExecution(index, { price: e.target.value })
+                  }
+                  className={inputClassName}
+                />
+              </td>
+              <td className="px-2 py-2">
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={execution.commission}
+                  placeholder="0.00"
+                  onChange={(e) =>
+                    updateExecution(index, { commission: e.target.value })
+                  }
+                  className={`w-20 ${inputClassName}`}
+                />
+              </td>
+              <td className="px-2 py-2 text-right">
+                <button
+                  type="button"
+                  onClick={() =>
+                    onChange(
+                      executions.filter(
+                        (_, executionIndex) => executionIndex !== index
+                      )
+                    )
+                  }
+                  disabled={executions.length === 1}
+                  className="text-red-500 hover:text-red-400 disabled:opacity-50"
+                  title="Remove fill"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <button
+        type="button"
+        onClick={addExecution}
+        className="mt-2 inline-flex items-center px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white text-xs font-medium rounded-lg"
+      >
+        <Plus className="w-3 h-3 mr-1" />
+        Add fill
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Plus, Trash2 } from "lucide-react";
+import { createClient } from "@/lib/supabase/client";
+import {
+  FundingPaymentDraft,
+  addFundingPayment,
+  deleteFundingPayment,
+  fetchFundingPayments,
+  validateFundingPaymentDraft,
+} from "@/lib/crypto";
+import { formatMoney } from "@/lib/fx-rates";
+import { FundingPayment, Trade } from "@/types/database";
+
+const inputClassName =
+  "w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm focus:outline-none focus:border-blue-500";
+
+const EMPTY_DRAFT: FundingPaymentDraft = { amount: "", rate: "", paid_at: "" };
+
+type Props = {
+  trade: Trade;
+  // The trade's currency, which payments are entered in.
+  currency: string;
+  // Called after a payment is added or removed, which changes the trade's
+  // funding and, once closed, its P&L.
+  onChanged: () => void | Promise<void>;
+};
+
+// Funding entered by hand against a perpetual position. Funding an import
+// attributed to the position is already in its total and isn't listed.
+export default function FundingPayments({ trade, currency, onChanged }: Props) {
+  const [payments, setPayments] = useState<FundingPayment[]>([]);
+  const [draft, setDraft] = useState<FundingPaymentDraft>(EMPTY_DRAFT);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const supabase = createClient();
+
+  const loadPayments = useCallback(async () => {
+    try {
+      setPayments(await fetchFundingPayments(supabase, trade.id));
+    } catch (loadError) {
+      console.error("Error fetching funding payments:", loadError);
+    }
+  }, [supabase, trade.id]);
+
+  useEffect(() => {
+    loadPayments();
+  }, [loadPayments]);
+
+  const handleAdd = async () => {
+    const validationError = validateFundingPaymentDraft(draft);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) return;
+      await addFundingPayment(supabase, user.id, trade, {
+        ...draft,
+        paid_at: new Date(draft.paid_at).toISOString(),
+      });
+      setDraft(EMPTY_DRAFT);
+      await loadPayments();
+      await onChanged();
+    } catch (saveError) {
+      console.error("Error adding funding payment:", saveError);
+      setError("Error adding payment. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (payment: FundingPayment) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) return;
+      await deleteFundingPayment(supabase, user.id, trade, payment);
+      await loadPayments();
+      await onChanged();
+    } catch (deleteError) {
+      console.error("Error deleting funding payment:", deleteError);
+      setError("Error deleting payment. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const funding = Number(trade.funding ?? 0);
+
+  return (
+    <div>
+      <p className="text-neutral-400 text-xs mb-2">
+        Total funding{" "}
+        <span className={funding >= 0 ? "text-green-500" : "text-red-500"}>
+          {formatMoney(funding, currency)}
+        </span>
+        , included in net P&L. Enter payments made as negative amounts.
+      </p>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-400 uppercase">
+            <th className="px-2 py-2 font-medium">Paid</th>
+            <th className="px-2 py-2 font-medium">Rate</th>
+            <th className="px-2 py-2 font-medium">Amount</th>
+            <th className="px-2 py-2 font-medium" />
+          </tr>
+        </thead>
+        <tbody>
+          {payments.map((payment) => (
+            <tr key={payment.id} className="border-t border-gray-700">
+              <td className="px-2 py-2 text-gray-300">
+                {format(parseISO(payment.paid_at), "MMM dd, yyyy HH:mm")}
+              </td>
+              <td className="px-2 py-2 text-gray-300">
+                {payment.rate === null
+                  ? "-"
+                  : `${(Number(payment.rate) * 100).toFixed(4)}%`}
+              </td>
+              <td
+                className={`px-2 py-2 ${
+                  Number(payment.amount) >= 0
+                    ? "text-green-500"
+                    : "text-red-500"
+                }`}
+              >
+                {formatMoney(Number(payment.amount), currency)}
+              </td>
+              <td className="px-2 py-2 text-right">
+                <button
+                  type="button"
+                  onClick={() => handleDelete(payment)}
+                  disabled={saving}
+                  className="text-red-500 hover:text-red-400 disabled:opacity-50"
+                  title="Remove payment"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </td>
+            </tr>
+          ))}
+          <tr className="border-t border-gray-700">
+            <td className="px-2 py-2">
+              <input
+                type="datetime-local"
+                value={draft.paid_at}
+                onChange={(e) =>
+                  setDraft({ ...draft, paid_at: e.target.value })
+                }
+                className={inputClassName}
+              />
+            </td>
+            <td className="px-2 py-2">
+              <input
+                type="number"
+                step="any"
+                value={draft.rate}
+                placeholder="0.0001"
+                onChange={(e) => setDraft({ ...draft, rate: e.target.value })}
+                className={inputClassName}
+              />
+            </td>
+            <td className="px-2 py-2">
+              <input
+                type="number"
+                step="any"
+                value={draft.amount}
+                placeholder="0.00"
+                onChange={(e) => setDraft({ ...draft, amount: e.target.value })}
+                className={inputClassName}
+              />
+            </td>
+            <td className="px-2 py-2 text-right">
+              <button
+                type="button"
+                onClick={handleAdd}
+                disabled={saving}
+                className="inline-flex items-center px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white text-xs font-medium rounded-lg disabled:opacity-50"
+              >
+                <Plus className="w-3 h-3 mr-1" />
+                Add
+              </button>
+            </td>
+          </tr>
+        </tbody>
+      </table>
+      {error && <p className="text-red-500 text-xs mt-2">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { AlertTriangle } from "lucide-react";
+import { createClient } from "@/lib/supabase/client";
+import { saveFxRates } from "@/lib/fx-rates";
+
+type Props = {
+  currency: string;
+  baseCurrency: string;
+  // "YYYY-MM-DD"
+  date: string;
+  // Called once the rate has been saved, to reload the rates.
+  onSaved: () => void | Promise<void>;
+};
+
+// Shown when a trade closed in another currency on a day without an FX rate.
+// Its P&L can't be converted into the base currency until the user enters
+// one.
+export default function FxRateWarning({
+  currency,
+  baseCurrency,
+  date,
+  onSaved,
+}: Props) {
+  const [rate, setRate] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const supabase = createClient();
+
+  const handleSave = async () => {
+    if (!(Number(rate) > 0)) {
+      setError("Rate must be greater than 0.");
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) return;
+      await saveFxRates(supabase, user.id, baseCurrency, [
+        { date, currency, rate: Number(rate) },
+      ]);
+      setRate("");
+      await onSaved();
+    } catch (saveError) {
+      console.error("Error saving FX rate:", saveError);
+      setError("Error saving rate. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-amber-500 bg-amber-500/10 p-4 text-sm text-amber-300">
+      <div className="flex items-start">
+        <AlertTriangle className="w-5 h-5 mr-2 flex-shrink-0 text-amber-400" />
+        <div className="flex-1">
+          <p>
+            There&apos;s no{" "}
+            <span className="font-semibold text-amber-200">
+              {currency}/{baseCurrency}
+            </span>{" "}
+            rate for {format(parseISO(date), "MMM dd, yyyy")}, so P&L in{" "}
+            {currency} can&apos;t be converted to {baseCurrency}. Enter the rate
+            for that day.
+          </p>
+          <div className="mt-3 flex flex-wrap items-center gap-2">
+            <span className="text-xs text-gray-300">1 {currency} =</span>
+            <input
+              type="number"
+              step="any"
+              min="0"
+              value={rate}
+              placeholder="e.g. 1.0850"
+              onChange={(e) => setRate(e.target.value)}
+              className="w-32 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm focus:outline-none focus:border-blue-500"
+            />
+            <span className="text-xs text-gray-300">{baseCurrency}</span>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saving}
+              className="px-3 py-1 bg-amber-600 hover:bg-amber-500 text-white text-xs font-medium rounded-lg disabled:opacity-50"
+            >
+              {saving ? "Saving..." : "Save rate"}
+            </button>
+          </div>
+          {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+        </div>
+      </div>
+    </div>
+  );
+}
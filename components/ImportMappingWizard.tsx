@@ -0,0 +1,197 @@
+"use client";
+
+import { useState } from "react";
+import {
+  ColumnMapping,
+  CsvRow,
+  DATE_FORMATS,
+  MAPPING_FIELDS,
+  missingMappingFields,
+} from "@/lib/import";
+import { ImportField } from "@/types/database";
+
+export type MappingDraft = {
+  name: string;
+  mapping: ColumnMapping;
+  dateFormat: string;
+};
+
+type Props = {
+  headers: string[];
+  sampleRows: CsvRow[];
+  initial?: MappingDraft;
+  onApply: (draft: MappingDraft, saveProfile: boolean) => void;
+  onCancel: () => void;
+};
+
+// Header names brokers commonly use for each field, for a first guess.
+const HEADER_HINTS: Record<ImportField, string[]> = {
+  date: ["DATE", "TRADE DATE", "EXECUTION DATE", "DATE/TIME", "TIMESTAMP"],
+  time: ["TIME", "EXECUTION TIME", "TRADE TIME", "FILL TIME"],
+  symbol: ["SYMBOL", "CONTRACT", "INSTRUMENT", "TICKER", "MARKET"],
+  side: ["SIDE", "ACTION", "BUY/SELL", "B/S", "TYPE"],
+  quantity: ["QUANTITY", "QTY", "SIZE", "FILLED QTY", "CONTRACTS"],
+  price: ["PRICE", "FILL PRICE", "AVG PRICE", "EXECUTION PRICE", "TRADE PRICE"],
+  commission: ["COMMISSION", "COMMISSIONS", "FEES", "COMM"],
+  tradeId: ["TRADE ID", "EXECUTION ID", "FILL ID", "ORDER ID", "ID"],
+};
+
+const guessMapping = (headers: string[]): ColumnMapping =>
+  Object.fromEntries(
+    MAPPING_FIELDS.map(({ key }) => [
+      key,
+      HEADER_HINTS[key].find((hint) => headers.includes(hint)) ?? "",
+    ])
+  );
+
+export default function ImportMappingWizard({
+  headers,
+  sampleRows,
+  initial,
+  onApply,
+  onCancel,
+}: Props) {
+  const [name, setName] = useState(initial?.name ?? "");
+  const [mapping, setMapping] = useState<ColumnMapping>(
+    initial?.mapping ?? guessMapping(headers)
+  );
+  const [dateFormat, setDateFormat] = useState(
+    initial?.dateFormat ?? DATE_FORMATS[0]
+  );
+  const [saveProfile, setSaveProfile] = useState(true);
+
+  const missing = missingMappingFields(mapping);
+  const canApply = missing.length === 0 && (!saveProfile || name.trim());
+
+  return (
+    <div className="space-y-5">
+      <p className="text-sm text-neutral-400">
+        This file&#39;s format wasn&#39;t recognized. Tell us which column holds
+        each field and we&#39;ll remember it for the next upload with the same
+        headers.
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {MAPPING_FIELDS.map((field) => (
+          <label key={field.key} className="block text-sm">
+            <span className="block text-neutral-300 font-medium mb-1">
+              {field.label}
+              {field.required && <span className="text-red-400"> *</span>}
+            </span>
+            <select
+              value={mapping[field.key] ?? ""}
+              onChange={(e) =>
+                setMapping({ ...mapping, [field.key]: e.target.value })
+              }
+              className="w-full px-3 py-2 bg-neutral-800 border border-neutral-700 rounded-lg text-white"
+            >
+              <option value="">— Not in file —</option>
+              {headers.map((header) => (
+                <option key={header} value={header}>
+                  {header}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+        <label className="block text-sm">
+          <span className="block text-neutral-300 font-medium mb-1">
+            Date format
+          </span>
+          <select
+            value={dateFormat}
+            onChange={(e) => setDateFormat(e.target.value)}
+            className="w-full px-3 py-2 bg-neutral-800 border border-neutral-700 rounded-lg text-white"
+          >
+            {DATE_FORMATS.map((pattern) => (
+              <option key={pattern} value={pattern}>
+                {pattern.replace(/'/g, "")}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      {!mapping.side && (
+        <p className="text-xs text-neutral-500">
+          Without a side column, negative quantities are treated as sells.
+        </p>
+      )}
+      {sampleRows.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead className="bg-neutral-800">
+              <tr>
+                {MAPPING_FIELDS.filter((field) => mapping[field.key]).map(
+                  (field) => (
+                    <th
+                      key={field.key}
+                      className="px-3 py-2 text-left font-medium text-neutral-400 uppercase"
+                    >
+                      {field.label}
+                    </th>
+                  )
+                )}
+              </tr>
+            </thead>
+            <tbody>
+              {sampleRows.slice(0, 3).map((row, index) => (
+                <tr key={index} className="border-t border-neutral-700">
+                  {MAPPING_FIELDS.filter((field) => mapping[field.key]).map(
+                    (field) => (
+                      <td
+                        key={field.key}
+                        className="px-3 py-2 text-neutral-300"
+                      >
+                        {row[mapping[field.key]!]}
+                      </td>
+                    )
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2 text-sm text-neutral-300">
+          <input
+            type="checkbox"
+            checked={saveProfile}
+            onChange={(e) => setSaveProfile(e.target.checked)}
+          />
+          Save as import profile
+        </label>
+        {saveProfile && (
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Profile name, e.g. Rithmic fills"
+            className="flex-1 min-w-48 px-3 py-2 bg-neutral-800 border border-neutral-700 rounded-lg text-white text-sm placeholder-neutral-500"
+          />
+        )}
+      </div>
+      {missing.length > 0 && (
+        <p className="text-sm text-red-400">
+          Map the required fields: {missing.join(", ")}
+        </p>
+      )}
+      <div className="flex justify-end gap-3">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 bg-neutral-800 text-white font-medium rounded-lg"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() =>
+            onApply({ name: name.trim(), mapping, dateFormat }, saveProfile)
+          }
+          disabled={!canApply}
+          className="px-4 py-2 bg-white text-black font-medium rounded-lg disabled:opacity-50"
+        >
+          Apply Mapping
+        </button>
+      </div>
+    </div>
+  );
+}
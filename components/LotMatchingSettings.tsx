@@ -0,0 +1,124 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { createClient } from "@/lib/supabase/client";
+import {
+  DEFAULT_LOT_MATCHING,
+  LOT_MATCHING_LABELS,
+  LotMatching,
+  fetchLotMatching,
+} from "@/lib/import";
+
+const DESCRIPTIONS: Record<LotMatching, string> = {
+  FIFO: "Each exit closes the oldest open lot first, one trade per lot.",
+  LIFO: "Each exit closes the newest open lot first, one trade per lot.",
+  AVERAGE:
+    "Lots are held at the position's average price, and each exit is one trade.",
+  FLAT_TO_FLAT:
+    "A position is one trade from flat back to flat, with every fill it was scaled in and out with.",
+};
+
+export default function LotMatchingSettings() {
+  const [lotMatching, setLotMatching] =
+    useState<LotMatching>(DEFAULT_LOT_MATCHING);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const supabase = createClient();
+
+  const loadLotMatching = useCallback(async () => {
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) return;
+      setLotMatching(await fetchLotMatching(supabase, user.id));
+    } catch (loadError) {
+      console.error("Error fetching lot matching:", loadError);
+      setError("Error loading your matching method.");
+    } finally {
+      setLoading(false);
+    }
+  }, [supabase]);
+
+  useEffect(() => {
+    loadLotMatching();
+  }, [loadLotMatching]);
+
+  const handleChange = async (method: LotMatching) => {
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) return;
+      const { error: updateError } = await supabase
+        .from("profiles")
+        .update({ lot_matching: method, updated_at: new Date().toISOString() })
+        .eq("id", user.id);
+      if (updateError) throw updateError;
+      setLotMatching(method);
+      setMessage("Saved. New imports will be matched this way.");
+    } catch (updateError) {
+      console.error("Error updating lot matching:", updateError);
+      setError("Error saving. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-gray-400">Loading matching method...</div>;
+  }
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-xl p-6">
+      <h2 className="text-lg font-semibold text-white mb-2">Trade Matching</h2>
+      <p className="text-gray-400 text-sm mb-4">
+        How an import pairs a statement&apos;s buys and sells into trades. You
+        can still pick another method for a single import. Trades already
+        imported keep the grouping they were imported with.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 rounded-lg bg-red-500/10 border border-red-500 text-red-500 text-sm">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="mb-4 p-3 rounded-lg bg-green-500/10 border border-green-500 text-green-500 text-sm">
+          {message}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {(Object.keys(LOT_MATCHING_LABELS) as LotMatching[]).map((method) => (
+          <label
+            key={method}
+            className="flex items-start gap-3 p-3 rounded-lg border border-gray-700 hover:border-gray-600 cursor-pointer"
+          >
+            <input
+              type="radio"
+              name="lot-matching"
+              checked={lotMatching === method}
+              onChange={() => handleChange(method)}
+              disabled={saving}
+              className="mt-1"
+            />
+            <span>
+              <span className="block text-white text-sm font-medium">
+                {LOT_MATCHING_LABELS[method]}
+              </span>
+              <span className="block text-gray-400 text-xs">
+                {DESCRIPTIONS[method]}
+              </span>
+            </span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
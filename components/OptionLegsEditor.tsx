@@ -0,0 +1,137 @@
+"use client";
+
+import { Plus, Trash2 } from "lucide-react";
+import ExecutionsEditor from "@/components/ExecutionsEditor";
+import { emptyExecutionDraft, validateExecutionDrafts } from "@/lib/executions";
+import {
+  OptionLegDraft,
+  legsFromDrafts,
+  strategyLegDrafts,
+} from "@/lib/options";
+import { OptionRight } from "@/types/database";
+
+const inputClassName =
+  "w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm focus:outline-none focus:border-blue-500";
+
+type Props = {
+  legs: OptionLegDraft[];
+  onChange: (legs: OptionLegDraft[]) => void;
+};
+
+// The legs of an options position, each with its own fills. Prices are per
+// contract, before the multiplier. Rolling a leg is closing it with a fill
+// and adding the new strike or expiry as another leg.
+export default function OptionLegsEditor({ legs, onChange }: Props) {
+  const updateLeg = (index: number, changes: Partial<OptionLegDraft>) =>
+    onChange(
+      legs.map((leg, legIndex) =>
+        legIndex === index ? { ...leg, ...changes } : leg
+      )
+    );
+
+  // A new leg starts as a copy of the last one, opened the same way but
+  // without its strike or prices.
+  const addLeg = () => {
+    const last = legs[legs.length - 1] ?? strategyLegDrafts("SINGLE")[0];
+    const opening = last.fills[0];
+    onChange([
+      ...legs,
+      {
+        ...last,
+        strike: "",
+        fills: [
+          {
+            ...emptyExecutionDraft(opening?.side ?? "BUY"),
+            quantity: opening?.quantity ?? "1",
+          },
+        ],
+      },
+    ]);
+  };
+
+  // Open or closed, once the leg's fills add up.
+  const legStatus = (leg: OptionLegDraft) =>
+    validateExecutionDrafts(leg.fills) === null
+      ? legsFromDrafts([leg])[0].status
+      : null;
+
+  return (
+    <div className="space-y-3">
+      {legs.map((leg, index) => (
+        <div key={index} className="p-3 rounded-lg border border-gray-600">
+          <div className="flex items-end gap-3 mb-2">
+            <label className="block text-xs text-gray-400 uppercase">
+              Right
+              <select
+                value={leg.option_right}
+                onChange={(e) =>
+                  updateLeg(index, {
+                    option_right: e.target.value as OptionRight,
+                  })
+                }
+                className={`mt-1 ${inputClassName}`}
+              >
+                <option value="CALL">Call</option>
+                <option value="PUT">Put</option>
+              </select>
+            </label>
+            <label className="block text-xs text-gray-400 uppercase">
+              Strike
+              <input
+                type="number"
+                step="any"
+                min="0"
+                value={leg.strike}
+                onChange={(e) => updateLeg(index, { strike: e.target.value })}
+                className={`mt-1 ${inputClassName}`}
+              />
+            </label>
+            <label className="block text-xs text-gray-400 uppercase">
+              Expiry
+              <input
+                type="date"
+                value={leg.expiry}
+                onChange={(e) => updateLeg(index, { expiry: e.target.value })}
+                className={`mt-1 ${inputClassName}`}
+              />
+            </label>
+            {legStatus(leg) && (
+              <span
+                className={`mb-1 px-2 py-0.5 rounded text-xs ${
+                  legStatus(leg) === "CLOSED"
+                    ? "bg-gray-700 text-gray-300"
+                    : "bg-blue-900/50 text-blue-300"
+                }`}
+              >
+                {legStatus(leg) === "CLOSED" ? "Closed" : "Open"}
+              </span>
+            )}
+            <button
+              type="button"
+              onClick={() =>
+                onChange(legs.filter((_, legIndex) => legIndex !== index))
+              }
+              disabled={legs.length === 1}
+              className="ml-auto mb-1 text-red-500 hover:text-red-400 disabled:opacity-50"
+              title="Remove leg"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+          <ExecutionsEditor
+            executions={leg.fills}
+            onChange={(fills) => updateLeg(index, { fills })}
+          />
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={addLeg}
+        className="inline-flex items-center px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white text-xs font-medium rounded-lg"
+      >
+        <Plus className="w-3 h-3 mr-1" />
+        Add leg
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,386 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Pencil, Plus, Save, Trash2, X } from "lucide-react";
+import { createClient } from "@/lib/supabase/client";
+import {
+  EMPTY_SETUP_DRAFT,
+  SetupDraft,
+  deleteSetup,
+  draftFromSetup,
+  fetchSetups,
+  saveSetup,
+  validateSetupDraft,
+} from "@/lib/setups";
+import { deleteTag, fetchTags, normalizeTagName, renameTag } from "@/lib/tags";
+import { Setup, Tag } from "@/types/database";
+
+const inputClassName =
+  "w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm focus:outline-none focus:border-blue-500";
+
+// The setups trades are labeled with, and the tags they have been given.
+export default function PlaybookSettings() {
+  const [setups, setSetups] = useState<Setup[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // The setup being edited, "new" for one being added.
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<SetupDraft>(EMPTY_SETUP_DRAFT);
+  const [editingTagId, setEditingTagId] = useState<string | null>(null);
+  const [tagName, setTagName] = useState("");
+  const supabase = createClient();
+
+  const fetchPlaybook = useCallback(async () => {
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) return;
+      const [loadedSetups, loadedTags] = await Promise.all([
+        fetchSetups(supabase, user.id),
+        fetchTags(supabase, user.id),
+      ]);
+      setSetups(loadedSetups);
+      setTags(loadedTags);
+    } catch (fetchError) {
+      console.error("Error fetching setups and tags:", fetchError);
+      setError("Error loading setups and tags.");
+    } finally {
+      setLoading(false);
+    }
+  }, [supabase]);
+
+  useEffect(() => {
+    fetchPlaybook();
+  }, [fetchPlaybook]);
+
+  const handleSaveSetup = async () => {
+    const id = editingId === "new" ? undefined : editingId ?? undefined;
+    const validationError = validateSetupDraft(draft, setups, id);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) return;
+      await saveSetup(supabase, user.id, draft, id);
+      await fetchPlaybook();
+      setEditingId(null);
+    } catch (saveError) {
+      console.error("Error saving setup:", saveError);
+      setError("Error saving setup. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteSetup = async (setup: Setup) => {
+    if (
+      !confirm(
+        `Delete ${setup.name}? Trades labeled with it will have no setup.`
+      )
+    )
+      return;
+    setSaving(true);
+    setError(null);
+    try {
+      await deleteSetup(supabase, setup.id);
+      await fetchPlaybook();
+    } catch (deleteError) {
+      console.error("Error deleting setup:", deleteError);
+      setError("Error deleting setup. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRenameTag = async (tag: Tag) => {
+    const name = normalizeTagName(tagName);
+    if (!name) {
+      setError("Tag name is required.");
+      return;
+    }
+    if (tags.some((t) => t.id !== tag.id && t.name === name)) {
+      setError(`There is already a tag called ${name}.`);
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      await renameTag(supabase, tag.id, name);
+      await fetchPlaybook();
+      setEditingTagId(null);
+    } catch (renameError) {
+      console.error("Error renaming tag:", renameError);
+      setError("Error renaming tag. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteTag = async (tag: Tag) => {
+    if (!confirm(`Delete the tag ${tag.name}? It comes off every trade.`))
+      return;
+    setSaving(true);
+    setError(null);
+    try {
+      await deleteTag(supabase, tag.id);
+      await fetchPlaybook();
+    } catch (deleteError) {
+      console.error("Error deleting tag:", deleteError);
+      setError("Error deleting tag. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-gray-400">Loading setups and tags...</div>;
+  }
+
+  const setupForm = (
+    <div className="p-4 rounded-lg border border-gray-600 space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <label className="block text-sm text-gray-300 md:col-span-2">
+          Name
+          <input
+            type="text"
+            value={draft.name}
+            placeholder="e.g. Opening range breakout"
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            className={`mt-1 ${inputClassName}`}
+          />
+        </label>
+        <label className="block text-sm text-gray-300">
+          Target R
+          <input
+            type="number"
+            step="any"
+            min="0"
+            value={draft.target_r}
+            placeholder="e.g. 2"
+            onChange={(e) => setDraft({ ...draft, target_r: e.target.value })}
+            className={`mt-1 ${inputClassName}`}
+          />
+        </label>
+      </div>
+      <label className="block text-sm text-gray-300">
+        Description
+        <textarea
+          rows={2}
+          value={draft.description}
+          onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+          className={`mt-1 ${inputClassName}`}
+        />
+      </label>
+      <label className="block text-sm text-gray-300">
+        Rules, one per line
+        <textarea
+          rows={4}
+          value={draft.rules}
+          placeholder={"Above VWAP\nVolume above average\nStop under the range"}
+          onChange={(e) => setDraft({ ...draft, rules: e.target.value })}
+          className={`mt-1 ${inputClassName}`}
+        />
+      </label>
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={() => setEditingId(null)}
+          className="inline-flex items-center px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white text-xs font-medium rounded-lg"
+        >
+          <X className="w-3 h-3 mr-1" />
+          Cancel
+        </button>
+        <button
+          onClick={handleSaveSetup}
+          disabled={saving}
+          className="inline-flex items-center px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white text-xs font-medium rounded-lg disabled:opacity-50"
+        >
+          <Save className="w-3 h-3 mr-1" />
+          Save
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-gray-800 border border-gray-700 rounded-xl p-6">
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-lg font-semibold text-white">Setups</h2>
+          <button
+            onClick={() => {
+              setEditingId("new");
+              setDraft(EMPTY_SETUP_DRAFT);
+              setError(null);
+            }}
+            disabled={editingId === "new"}
+            className="inline-flex items-center px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white text-xs font-medium rounded-lg disabled:opacity-50"
+          >
+            <Plus className="w-3 h-3 mr-1" />
+            Add setup
+          </button>
+        </div>
+        <p className="text-gray-400 text-sm mb-6">
+          The trades you take again and again. Label trades with a setup and
+          tick the rules they kept to, and the analytics page breaks your
+          results down by setup.
+        </p>
+
+        {error && (
+          <div className="mb-4 p-3 rounded-lg bg-red-500/10 border border-red-500 text-red-500 text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="space-y-3">
+          {editingId === "new" && setupForm}
+          {setups.length === 0 && editingId !== "new" && (
+            <p className="text-gray-500 text-sm">No setups yet.</p>
+          )}
+          {setups.map((setup) =>
+            editingId === setup.id ? (
+              <div key={setup.id}>{setupForm}</div>
+            ) : (
+              <div
+                key={setup.id}
+                className="p-4 rounded-lg border border-gray-700"
+              >
+                <div className="flex items-start justify-between">
+                  <div>
+                    <p className="text-white font-medium">
+                      {setup.name}
+                      {setup.target_r !== null && (
+                        <span className="ml-2 text-xs text-gray-400">
+                          Target {setup.target_r}R
+                        </span>
+                      )}
+                    </p>
+                    {setup.description && (
+                      <p className="text-gray-400 text-sm mt-1">
+                        {setup.description}
+                      </p>
+                    )}
+                  </div>
+                  <div className="whitespace-nowrap">
+                    <button
+                      onClick={() => {
+                        setEditingId(setup.id);
+                        setDraft(draftFromSetup(setup));
+                        setError(null);
+                      }}
+                      disabled={saving}
+                      className="text-blue-500 hover:text-blue-400 mr-2 disabled:opacity-50"
+                      title="Edit"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDeleteSetup(setup)}
+                      disabled={saving}
+                      className="text-red-500 hover:text-red-400 disabled:opacity-50"
+                      title="Delete"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+                {setup.rules.length > 0 && (
+                  <ul className="mt-2 list-disc list-inside text-sm text-gray-300">
+                    {setup.rules.map((rule) => (
+                      <li key={rule}>{rule}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )
+          )}
+        </div>
+      </div>
+
+      <div className="bg-gray-800 border border-gray-700 rounded-xl p-6">
+        <h2 className="text-lg font-semibold text-white mb-2">Tags</h2>
+        <p className="text-gray-400 text-sm mb-6">
+          Tags are added as you label trades. Renaming a tag renames it on every
+          trade that has it.
+        </p>
+        {tags.length === 0 ? (
+          <p className="text-gray-500 text-sm">No tags yet.</p>
+        ) : (
+          <div className="divide-y divide-gray-700">
+            {tags.map((tag) => (
+              <div
+                key={tag.id}
+                className="flex items-center justify-between py-2"
+              >
+                {editingTagId === tag.id ? (
+                  <input
+                    type="text"
+                    value={tagName}
+                    onChange={(e) => setTagName(e.target.value)}
+                    className={`max-w-xs ${inputClassName}`}
+                  />
+                ) : (
+                  <span className="inline-flex items-center px-2 py-0.5 bg-blue-900/50 text-blue-300 text-xs rounded-full">
+                    {tag.name}
+                  </span>
+                )}
+                <div className="whitespace-nowrap">
+                  {editingTagId === tag.id ? (
+                    <>
+                      <button
+                        onClick={() => handleRenameTag(tag)}
+                        disabled={saving}
+                        className="text-green-500 hover:text-green-400 mr-2 disabled:opacity-50"
+                        title="Save"
+                      >
+                        <Save className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => setEditingTagId(null)}
+                        className="text-gray-400 hover:text-white"
+                        title="Cancel"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <button
+                        onClick={() => {
+                          setEditingTagId(tag.id);
+                          setTagName(tag.name);
+                          setError(null);
+                        }}
+                        disabled={saving}
+                        className="text-blue-500 hover:text-blue-400 mr-2 disabled:opacity-50"
+                        title="Rename"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDeleteTag(tag)}
+                        disabled={saving}
+                        className="text-red-500 hover:text-red-400 disabled:opacity-50"
+                        title="Delete"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  FuturesContract,
+  formatContractPrice,
+  isOnTick,
+  parseContractPrice,
+  snapToTick,
+} from "@/lib/futures-specs";
+
+type Props = {
+  value: number | undefined;
+  onChange: (price: number | undefined) => void;
+  onBlur?: () => void;
+  // The contract whose tick and quote format the price follows. Stocks and
+  // unknown symbols have none and are left as typed.
+  contract: FuturesContract | null;
+  className?: string;
+  placeholder?: string;
+};
+
+const displayPrice = (
+  value: number | undefined,
+  contract: FuturesContract | null
+) =>
+  value === undefined || !Number.isFinite(value)
+    ? ""
+    : contract
+    ? formatContractPrice(value, contract)
+    : String(value);
+
+// Takes decimals or 32nds ("110'16.5"). On blur the price is snapped to the
+// nearest tick and shown the way the contract is quoted.
+export default function PriceInput({
+  value,
+  onChange,
+  onBlur,
+  contract,
+  className,
+  placeholder,
+}: Props) {
+  const [text, setText] = useState(() => displayPrice(value, contract));
+
+  // Follow changes made outside the field, such as a reset, without
+  // rewriting what is being typed.
+  useEffect(() => {
+    setText((current) =>
+      parseContractPrice(current) === (value ?? null)
+        ? current
+        : displayPrice(value, contract)
+    );
+  }, [value, contract]);
+
+  const handleBlur = () => {
+    const price = parseContractPrice(text);
+    if (price !== null && contract) {
+      const snapped = isOnTick(price, contract.tickSize)
+        ? price
+        : snapToTick(price, contract.tickSize);
+      setText(formatContractPrice(snapped, contract));
+      if (snapped !== price) onChange(snapped);
+    }
+    onBlur?.();
+  };
+
+  return (
+    <input
+      type="text"
+      inputMode="decimal"
+      value={text}
+      onChange={(e) => {
+        setText(e.target.value);
+        onChange(parseContractPrice(e.target.value) ?? undefined);
+      }}
+      onBlur={handleBlur}
+      className={className}
+      placeholder={placeholder}
+    />
+  );
+}
@@ -0,0 +1,121 @@
+"use client";
+
+import { parseISO } from "date-fns";
+import { formatInTimeZone } from "date-fns-tz";
+import {
+  ContractRegistry,
+  formatContractPrice,
+  getContractSpecs,
+} from "@/lib/futures-specs";
+import { isFuture } from "@/lib/asset-classes";
+import {
+  realizedPnL,
+  runningPositions,
+  sortedExecutions,
+  summarizeExecutions,
+} from "@/lib/executions";
+import { formatMoney } from "@/lib/fx-rates";
+import { Trade } from "@/types/database";
+
+type Props = {
+  trade: Trade;
+  contracts: ContractRegistry;
+  // The trade's currency, which its prices and P&L are in.
+  currency: string;
+};
+
+// The fills of a position, with the size it reached after each one.
+export default function TradeExecutions({ trade, contracts, currency }: Props) {
+  const executions = sortedExecutions(trade);
+  const position = summarizeExecutions(executions);
+  const positions = runningPositions(executions);
+  const realized = realizedPnL(trade, contracts);
+  const contract = isFuture(trade.asset_class)
+    ? getContractSpecs(trade.symbol, contracts)
+    : null;
+  const price = (value: number) => `$${formatContractPrice(value, contract)}`;
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm mb-3">
+        <p className="text-gray-400">
+          Avg entry{" "}
+          <span className="text-white">{price(position.entry_price)}</span>
+        </p>
+        <p className="text-gray-400">
+          Avg exit{" "}
+          <span className="text-white">
+            {position.average_exit_price === null
+              ? "-"
+              : price(position.average_exit_price)}
+          </span>
+        </p>
+        <p className="text-gray-400">
+          Max position{" "}
+          <span className="text-white">{position.max_position}</span>
+        </p>
+        {!position.closed && (
+          <p className="text-gray-400">
+            Open <span className="text-white">{position.open_quantity}</span>
+          </p>
+        )}
+        <p className="text-gray-400">
+          Realized P&L (gross){" "}
+          {realized === null ? (
+            <span className="text-white">-</span>
+          ) : (
+            <span className={realized >= 0 ? "text-green-500" : "text-red-500"}>
+              {formatMoney(realized, currency)}
+            </span>
+          )}
+        </p>
+      </div>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-400 uppercase">
+            {["Time", "Side", "Qty", "Price", "Fees", "Position"].map(
+              (label) => (
+                <th key={label} className="px-2 py-2 font-medium">
+                  {label}
+                </th>
+              )
+            )}
+          </tr>
+        </thead>
+        <tbody>
+          {executions.map((execution, index) => (
+            <tr key={execution.id} className="border-t border-gray-700">
+              <td className="px-2 py-2 text-gray-300">
+                {formatInTimeZone(
+                  parseISO(execution.executed_at),
+                  timeZone,
+                  "MMM dd, yyyy HH:mm"
+                )}
+              </td>
+              <td
+                className={`px-2 py-2 ${
+                  execution.side === "BUY" ? "text-green-500" : "text-red-500"
+                }`}
+              >
+                {execution.side}
+              </td>
+              <td className="px-2 py-2 text-gray-300">{execution.quantity}</td>
+              <td className="px-2 py-2 text-gray-300">
+                {price(Number(execution.price))}
+              </td>
+              <td className="px-2 py-2 text-gray-300">
+                {Number(execution.commission)
+                  ? formatMoney(Number(execution.commission), currency)
+                  : "-"}
+              </td>
+              <td className="px-2 py-2 text-gray-300">
+                {Math.abs(positions[index])}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
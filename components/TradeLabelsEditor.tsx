@@ -0,0 +1,153 @@
+"use client";
+
+import { useState } from "react";
+import { Plus, X } from "lucide-react";
+import { TradeLabels } from "@/lib/setups";
+import { normalizeTagName } from "@/lib/tags";
+import { Setup, Tag } from "@/types/database";
+
+const inputClassName =
+  "w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm focus:outline-none focus:border-blue-500";
+
+type Props = {
+  labels: TradeLabels;
+  setups: Setup[];
+  // The user's tags, suggested while typing.
+  tags: Tag[];
+  onChange: (labels: TradeLabels) => void;
+};
+
+// The setup a trade was taken on, the setup's rules it kept to, and its tags.
+export default function TradeLabelsEditor({
+  labels,
+  setups,
+  tags,
+  onChange,
+}: Props) {
+  const [tagInput, setTagInput] = useState("");
+  const setup = setups.find((s) => s.id === labels.setup_id);
+
+  const addTag = () => {
+    const name = normalizeTagName(tagInput);
+    setTagInput("");
+    if (!name || labels.tags.includes(name)) return;
+    onChange({ ...labels, tags: [...labels.tags, name] });
+  };
+
+  const toggleRule = (rule: string) =>
+    onChange({
+      ...labels,
+      rules_followed: labels.rules_followed.includes(rule)
+        ? labels.rules_followed.filter((r) => r !== rule)
+        : [...labels.rules_followed, rule],
+    });
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">Setup</label>
+        <select
+          value={labels.setup_id ?? ""}
+          onChange={(e) =>
+            onChange({
+              ...labels,
+              setup_id: e.target.value || null,
+              rules_followed: [],
+            })
+          }
+          className={inputClassName}
+        >
+          <option value="">No setup</option>
+          {setups.map((s) => (
+            <option key={s.id} value={s.id}>
+              {s.name}
+            </option>
+          ))}
+        </select>
+        {setup?.target_r && (
+          <p className="mt-1 text-xs text-gray-500">
+            Targets {setup.target_r}R
+          </p>
+        )}
+        {setup && setup.rules.length > 0 && (
+          <div className="mt-2 space-y-1">
+            <p className="text-xs text-gray-400">Rules followed</p>
+            {setup.rules.map((rule) => (
+              <label
+                key={rule}
+                className="flex items-center gap-2 text-sm text-gray-300"
+              >
+                <input
+                  type="checkbox"
+                  checked={labels.rules_followed.includes(rule)}
+                  onChange={() => toggleRule(rule)}
+                  className="rounded border-gray-600 bg-gray-700"
+                />
+                {rule}
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">Tags</label>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={tagInput}
+            list="trade-tag-suggestions"
+            placeholder="e.g. Revenge trade"
+            onChange={(e) => setTagInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" || e.key === ",") {
+                e.preventDefault();
+                addTag();
+              }
+            }}
+            className={inputClassName}
+          />
+          <button
+            type="button"
+            onClick={addTag}
+            className="inline-flex items-center px-2 py-1 bg-gray-700 hover:bg-gray-600 text-white text-xs font-medium rounded"
+            title="Add tag"
+          >
+            <Plus className="w-3 h-3" />
+          </button>
+          <datalist id="trade-tag-suggestions">
+            {tags
+              .filter((tag) => !labels.tags.includes(tag.name))
+              .map((tag) => (
+                <option key={tag.id} value={tag.name} />
+              ))}
+          </datalist>
+        </div>
+        {labels.tags.length > 0 && (
+          <div className="mt-2 flex flex-wrap gap-1">
+            {labels.tags.map((name) => (
+              <span
+                key={name}
+                className="inline-flex items-center px-2 py-0.5 bg-blue-900/50 text-blue-300 text-xs rounded-full"
+              >
+                {name}
+                <button
+                  type="button"
+                  onClick={() =>
+                    onChange({
+                      ...labels,
+                      tags: labels.tags.filter((t) => t !== name),
+                    })
+                  }
+                  className="ml-1 hover:text-white"
+                  title="Remove tag"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+"use client";
+
+import { useState } from "react";
+import { AlertTriangle } from "lucide-react";
+import { createClient } from "@/lib/supabase/client";
+import {
+  ContractSpecDraft,
+  EMPTY_CONTRACT_SPEC_DRAFT,
+  draftPointValue,
+  saveContractSpec,
+  validateContractSpecDraft,
+} from "@/lib/contract-specs";
+import { PRICE_FORMAT_LABELS, PriceFormat } from "@/lib/futures-specs";
+
+type Props = {
+  symbol: string;
+  // Called once the contract has been saved, to reload the registry.
+  onDefined: () => void | Promise<void>;
+  onMarkEquity: () => void;
+};
+
+const FIELDS: {
+  key: Exclude<keyof ContractSpecDraft, "symbol" | "price_format">;
+  label: string;
+  placeholder: string;
+}[] = [
+  { key: "name", label: "Name", placeholder: "e.g. Micro E-mini Dow" },
+  { key: "exchange", label: "Exchange", placeholder: "e.g. CBOT" },
+  { key: "currency", label: "Currency", placeholder: "USD" },
+  { key: "tick_size", label: "Tick size", placeholder: "e.g. 1" },
+  { key: "tick_value", label: "Tick value", placeholder: "e.g. 0.5" },
+  { key: "initial_margin", label: "Initial margin", placeholder: "0" },
+  { key: "maintenance_margin", label: "Maint. margin", placeholder: "0" },
+];
+
+// Shown wherever a trade's symbol has no contract spec. Without one its P&L
+// is worked out with a point value of 1, so the user has to either define the
+// contract or say the trade is a stock.
+export default function UnknownContractWarning({
+  symbol,
+  onDefined,
+  onMarkEquity,
+}: Props) {
+  const [defining, setDefining] = useState(false);
+  const [draft, setDraft] = useState<ContractSpecDraft>(
+    EMPTY_CONTRACT_SPEC_DRAFT
+  );
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const supabase = createClient();
+
+  const handleSave = async () => {
+    const spec = { ...draft, symbol };
+    const validationError = validateContractSpecDraft(spec);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) return;
+      await saveContractSpec(supabase, user.id, spec);
+      setDefining(false);
+      setDraft(EMPTY_CONTRACT_SPEC_DRAFT);
+      await onDefined();
+    } catch (saveError) {
+      console.error("Error saving contract spec:", saveError);
+      setError("Error saving contract. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const pointValue = draftPointValue(draft);
+
+  return (
+    <div className="rounded-lg border border-amber-500 bg-amber-500/10 p-4 text-sm text-amber-300">
+      <div className="flex items-start">
+        <AlertTriangle className="w-5 h-5 mr-2 flex-shrink-0 text-amber-400" />
+        <div className="flex-1">
+          <p>
+            <span className="font-semibold text-amber-200">{symbol}</span>{" "}
+            isn&apos;t in your contract list. Its P&L would be calculated with a
+            point value of 1, as if it were a stock. Define the contract or mark
+            the trade as a stock.
+          </p>
+          {!defining && (
+            <div className="mt-3 flex space-x-2">
+              <button
+                type="button"
+                onClick={() => setDefining(true)}
+                className="px-3 py-1 bg-amber-600 hover:bg-amber-500 text-white text-xs font-medium rounded-lg"
+              >
+                Define {symbol}
+              </button>
+              <button
+                type="button"
+                onClick={onMarkEquity}
+                className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white text-xs font-medium rounded-lg"
+              >
+                It&apos;s a stock
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {defining && (
+        <div className="mt-4 space-y-3">
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            {FIELDS.map(({ key, label, placeholder }) => (
+              <label key={key} className="block text-xs text-gray-300">
+                {label}
+                <input
+                  type={
+                    ["name", "exchange", "currency"].includes(key)
+                      ? "text"
+                      : "number"
+                  }
+                  step="any"
+                  value={draft[key]}
+                  placeholder={placeholder}
+                  onChange={(e) =>
+                    setDraft({ ...draft, [key]: e.target.value })
+                  }
+                  className="mt-1 w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm focus:outline-none focus:border-blue-500"
+                />
+              </label>
+            ))}
+            <label className="block text-xs text-gray-300">
+              Quoted in
+              <select
+                value={draft.price_format}
+                onChange={(e) =>
+                  setDraft({
+                    ...draft,
+                    price_format: e.target.value as PriceFormat,
+                  })
+                }
+                className="mt-1 w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm focus:outline-none focus:border-blue-500"
+              >
+                {Object.entries(PRICE_FORMAT_LABELS).map(([format, label]) => (
+                  <option key={format} value={format}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          {Number.isFinite(pointValue) && pointValue > 0 && (
+            <p className="text-xs text-gray-400">
+              Point value: {pointValue} {draft.currency || "USD"}
+            </p>
+          )}
+          {error && <p className="text-xs text-red-400">{error}</p>}
+          <div className="flex space-x-2">
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saving}
+              className="px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white text-xs font-medium rounded-lg disabled:opacity-50"
+            >
+              {saving ? "Saving..." : "Save contract"}
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setDefining(false);
+                setError(null);
+              }}
+              className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white text-xs font-medium rounded-lg"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import { calculateFuturesPnL } from '@/lib/futures-specs';
+import type { ContractRegistry } from '@/lib/futures-specs';
+import { DEFAULT_INVERSE_CONTRACT_SIZE, inversePnL } from '@/lib/crypto';
+import type {
+  AssetClass,
+  CryptoContract,
+  FeeAssetClass,
+} from '@/types/database';
+
+export const ASSET_CLASS_LABELS: Record<AssetClass, string> = {
+  FUTURE: 'Futures',
+  STOCK: 'Stocks',
+  ETF: 'ETFs',
+  CRYPTO: 'Crypto',
+  OPTION: 'Options',
+};
+
+export const ASSET_CLASSES = Object.keys(ASSET_CLASS_LABELS) as AssetClass[];
+
+// Equity options are on 100 shares. Options on futures use the contract's
+// point value instead.
+export const DEFAULT_OPTION_MULTIPLIER = 100;
+
+// Trades saved before asset classes existed are futures.
+export const isFuture = (assetClass?: AssetClass | null) =>
+  (assetClass ?? 'FUTURE') === 'FUTURE';
+
+export const quantityUnit = (
+  assetClass?: AssetClass | null,
+  cryptoContract?: CryptoContract | null
+) =>
+  isFuture(assetClass) ||
+  (assetClass === 'CRYPTO' && cryptoContract === 'INVERSE')
+    ? 'Contracts'
+    : assetClass === 'OPTION'
+    ? 'Spreads'
+    : assetClass === 'CRYPTO'
+    ? 'Coins'
+    : 'Shares';
+
+// ETFs are charged like stocks. Crypto and options have no schedules.
+export const feeAssetClass = (
+  assetClass?: AssetClass | null
+): FeeAssetClass | null =>
+  isFuture(assetClass)
+    ? 'FUTURE'
+    : assetClass === 'STOCK' || assetClass === 'ETF'
+    ? 'STOCK'
+    : null;
+
+// Gross P&L. Futures use the point value the broker reported, or else the
+// contract's, and options their multiplier, on the net premium per spread.
+// Inverse perpetuals use their contract size in dollars. Everything else is
+// per share or coin.
+export function calculateTradePnL(
+  symbol: string,
+  entryPrice: number,
+  exitPrice: number,
+  quantity: number,
+  side: 'LONG' | 'SHORT',
+  assetClass?: AssetClass | null,
+  contracts?: ContractRegistry,
+  multiplier?: number | null,
+  cryptoContract?: CryptoContract | null
+): number {
+  const priceDiff =
+    side === 'LONG' ? exitPrice - entryPrice : entryPrice - exitPrice;
+  if (isFuture(assetClass))
+    return multiplier
+      ? priceDiff * quantity * multiplier
+      : calculateFuturesPnL(
+          symbol,
+          entryPrice,
+          exitPrice,
+          quantity,
+          side,
+          contracts
+        );
+  if (assetClass === 'CRYPTO' && cryptoContract === 'INVERSE')
+    return inversePnL(
+      entryPrice,
+      exitPrice,
+      quantity,
+      side,
+      multiplier ?? DEFAULT_INVERSE_CONTRACT_SIZE
+    );
+  return (
+    priceDiff *
+    quantity *
+    (assetClass === 'OPTION' ? multiplier ?? DEFAULT_OPTION_MULTIPLIER : 1)
+  );
+}
+
+// Return on the price paid. Only meaningful where the whole price is paid up
+// front, so futures have none.
+export function percentageGain(
+  entryPrice: number,
+  exitPrice: number,
+  side: 'LONG' | 'SHORT',
+  assetClass?: AssetClass | null
+): number | null {
+  if (isFuture(assetClass) || !entryPrice) return null;
+  return (
+    ((side === 'LONG' ? exitPrice - entryPrice : entryPrice - exitPrice) /
+      entryPrice) *
+    100
+  );
+}
+
+// Fractional shares and coins are kept to 8 decimal places, which also clears
+// the floating-point noise left by adding and subtracting them.
+export const roundQuantity = (quantity: number) =>
+  Math.round(quantity * 1e8) / 1e8;
@@ -0,0 +1,275 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { feeAssetClass } from '@/lib/asset-classes';
+import { recalculateDailyStats } from '@/lib/daily-stats';
+import { pnlAtTradeRate } from '@/lib/fx-rates';
+import type { Broker } from '@/lib/import';
+import type {
+  CommissionSchedule,
+  FeeAssetClass,
+  FeeSide,
+  Trade,
+} from '@/types/database';
+
+export const FEE_ASSET_CLASS_LABELS: Record<FeeAssetClass, string> = {
+  FUTURE: 'Futures',
+  STOCK: 'Stocks & ETFs',
+};
+
+export const FEE_FIELDS = [
+  { key: 'commission', label: 'Commission' },
+  { key: 'exchange_fee', label: 'Exchange' },
+  { key: 'clearing_fee', label: 'Clearing' },
+  { key: 'nfa_fee', label: 'NFA' },
+] as const;
+
+export type FeeField = (typeof FEE_FIELDS)[number]['key'];
+
+export async function fetchCommissionSchedules(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<CommissionSchedule[]> {
+  const { data, error } = await supabase
+    .from('commission_schedules')
+    .select('*')
+    .eq('user_id', userId)
+    .order('broker', { ascending: true })
+    .order('asset_class', { ascending: true })
+    .order('symbol', { ascending: true, nullsFirst: true })
+    .order('side', { ascending: true, nullsFirst: true });
+  if (error) throw error;
+  return data ?? [];
+}
+
+// The most specific row for the fill: the contract's own row before the
+// broker's catch-all, and a row for the side before one for both sides.
+export function findCommissionSchedule(
+  schedules: CommissionSchedule[],
+  broker: Broker,
+  assetClass: FeeAssetClass,
+  symbol: string,
+  side: FeeSide
+): CommissionSchedule | null {
+  const root = symbol.toUpperCase();
+  const candidates = schedules.filter(
+    (schedule) =>
+      schedule.broker === broker &&
+      (schedule.asset_class ?? 'FUTURE') === assetClass &&
+      (schedule.symbol === null || schedule.symbol === root) &&
+      (schedule.side === null || schedule.side === side)
+  );
+  const rank = (schedule: CommissionSchedule) =>
+    (schedule.symbol ? 2 : 0) + (schedule.side ? 1 : 0);
+  return candidates.sort((a, b) => rank(b) - rank(a))[0] ?? null;
+}
+
+const roundToCents = (amount: number) => Math.round(amount * 100) / 100;
+
+export const scheduleFeePerContract = (schedule: CommissionSchedule) =>
+  FEE_FIELDS.reduce((sum, { key }) => sum + Number(schedule[key]), 0);
+
+// Fees for filling this many contracts or shares on one side, but no less
+// than the row's minimum. Null when the broker has no schedule for it.
+export function sideFees(
+  schedules: CommissionSchedule[],
+  broker: Broker,
+  assetClass: FeeAssetClass,
+  symbol: string,
+  side: FeeSide,
+  quantity: number
+): number | null {
+  const schedule = findCommissionSchedule(
+    schedules,
+    broker,
+    assetClass,
+    symbol,
+    side
+  );
+  return schedule
+    ? roundToCents(
+        Math.max(
+          scheduleFeePerContract(schedule) * quantity,
+          Number(schedule.minimum_fee ?? 0)
+        )
+      )
+    : null;
+}
+
+export const entryFeeSide = (side: Trade['side']): FeeSide =>
+  side === 'LONG' ? 'BUY' : 'SELL';
+
+// Round-turn fees for a closed trade and the entry side for an open one.
+// Returns null when no schedule covers the trade.
+export function tradeFees(
+  schedules: CommissionSchedule[],
+  trade: Pick<Trade, 'symbol' | 'side' | 'quantity' | 'status'> & {
+    broker?: Broker | null;
+    asset_class?: Trade['asset_class'];
+  }
+): number | null {
+  const assetClass = feeAssetClass(trade.asset_class);
+  if (!trade.broker || !assetClass || !trade.symbol || !(trade.quantity > 0))
+    return null;
+  const sides: FeeSide[] =
+    trade.status === 'CLOSED' ? ['BUY', 'SELL'] : [entryFeeSide(trade.side)];
+  const fees = sides.map((side) =>
+    sideFees(
+      schedules,
+      trade.broker!,
+      assetClass,
+      trade.symbol,
+      side,
+      trade.quantity
+    )
+  );
+  if (fees.every((fee) => fee === null)) return null;
+  return roundToCents(fees.reduce<number>((sum, fee) => sum + (fee ?? 0), 0));
+}
+
+// A schedule row as typed into a form.
+export type CommissionScheduleDraft = {
+  broker: Broker;
+  asset_class: FeeAssetClass;
+  symbol: string;
+  side: FeeSide | '';
+  minimum_fee: string;
+} & Record<FeeField, string>;
+
+export const EMPTY_COMMISSION_SCHEDULE_DRAFT: CommissionScheduleDraft = {
+  broker: 'AMP',
+  asset_class: 'FUTURE',
+  symbol: '',
+  side: '',
+  commission: '',
+  exchange_fee: '',
+  clearing_fee: '',
+  nfa_fee: '',
+  minimum_fee: '',
+};
+
+export const draftFromSchedule = (
+  schedule: CommissionSchedule
+): CommissionScheduleDraft => ({
+  broker: schedule.broker,
+  asset_class: schedule.asset_class ?? 'FUTURE',
+  symbol: schedule.symbol ?? '',
+  side: schedule.side ?? '',
+  commission: String(schedule.commission),
+  exchange_fee: String(schedule.exchange_fee),
+  clearing_fee: String(schedule.clearing_fee),
+  nfa_fee: String(schedule.nfa_fee),
+  minimum_fee: String(schedule.minimum_fee ?? 0),
+});
+
+export function validateCommissionScheduleDraft(
+  draft: CommissionScheduleDraft
+): string | null {
+  if (
+    draft.symbol.trim() &&
+    !(
+      draft.asset_class === 'FUTURE'
+        ? /^[A-Z0-9]{1,6}$/i
+        : /^[A-Z0-9][A-Z0-9.-]{0,9}$/i
+    ).test(draft.symbol.trim())
+  )
+    return draft.asset_class === 'FUTURE'
+      ? 'Symbol must be a root of 1-6 letters or digits, e.g. MNQ, or blank for every contract.'
+      : 'Symbol must be a ticker, e.g. AAPL or BRK.B, or blank for every stock and ETF.';
+  if (
+    [...FEE_FIELDS.map(({ key }) => key), 'minimum_fee' as const].some(
+      (key) => !(Number(draft[key] || 0) >= 0)
+    )
+  )
+    return "Fees can't be negative.";
+  return null;
+}
+
+// One row per broker, asset class, contract and side, so saving the same
+// combination again replaces its fees.
+export async function saveCommissionSchedule(
+  supabase: SupabaseClient,
+  userId: string,
+  draft: CommissionScheduleDraft
+) {
+  const { error } = await supabase.from('commission_schedules').upsert(
+    {
+      user_id: userId,
+      broker: draft.broker,
+      asset_class: draft.asset_class,
+      symbol: draft.symbol.trim().toUpperCase() || null,
+      side: draft.side || null,
+      commission: Number(draft.commission || 0),
+      exchange_fee: Number(draft.exchange_fee || 0),
+      clearing_fee: Number(draft.clearing_fee || 0),
+      nfa_fee: Number(draft.nfa_fee || 0),
+      minimum_fee: Number(draft.minimum_fee || 0),
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: 'user_id,broker,asset_class,symbol,side' }
+  );
+  if (error) throw error;
+}
+
+// Recomputes the fees of the broker's trades entered between the two dates
+// (inclusive, "YYYY-MM-DD") from the current schedules. Hand-entered fees
+// are kept unless includeOverridden is set; fees from an imported statement
+// always are. Net P&L moves with the fees and
+// the affected days' stats are rebuilt. Returns how many trades changed.
+export async function reapplyCommissionSchedules(
+  supabase: SupabaseClient,
+  userId: string,
+  {
+    broker,
+    from,
+    to,
+    includeOverridden,
+  }: { broker: Broker; from: string; to: string; includeOverridden: boolean }
+): Promise<number> {
+  const schedules = await fetchCommissionSchedules(supabase, userId);
+  let query = supabase
+    .from('trades')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('broker', broker)
+    .eq('fees_from_statement', false)
+    .gte('entry_date', `${from}T00:00:00`)
+    .lte('entry_date', `${to}T23:59:59`);
+  if (!includeOverridden) query = query.eq('commission_overridden', false);
+  const { data: trades, error } = await query;
+  if (error) throw error;
+
+  const now = new Date().toISOString();
+  const statsDates = new Set<string>();
+  let updated = 0;
+  for (const trade of (trades ?? []) as Trade[]) {
+    const commission = tradeFees(schedules, trade);
+    if (commission === null || Math.abs(commission - trade.commission) < 1e-9)
+      continue;
+    const pnlNative = trade.pnl_native ?? trade.pnl;
+    const { error: updateError } = await supabase
+      .from('trades')
+      .update({
+        commission,
+        commission_overridden: false,
+        // Fees are in the trade's currency, like pnl_native.
+        ...(trade.status === 'CLOSED' &&
+          pnlNative !== undefined &&
+          pnlNative !== null && {
+            pnl_native: pnlNative + trade.commission - commission,
+            pnl: pnlAtTradeRate(
+              trade,
+              pnlNative + trade.commission - commission
+            ),
+          }),
+        updated_at: now,
+      })
+      .eq('id', trade.id);
+    if (updateError) throw updateError;
+    if (trade.status === 'CLOSED' && trade.exit_date)
+      statsDates.add(trade.exit_date.split('T')[0]);
+    updated += 1;
+  }
+
+  for (const date of statsDates)
+    await recalculateDailyStats(supabase, userId, date);
+  return updated;
+}
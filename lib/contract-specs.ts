@@ -0,0 +1,138 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  ContractRegistry,
+  FuturesContract,
+  PriceFormat,
+} from '@/lib/futures-specs';
+import type { ContractSpec } from '@/types/database';
+
+export const contractFromSpec = (spec: ContractSpec): FuturesContract => ({
+  symbol: spec.symbol,
+  name: spec.name,
+  exchange: spec.exchange,
+  tickSize: Number(spec.tick_size),
+  tickValue: Number(spec.tick_value),
+  pointValue: Number(spec.point_value),
+  initialMargin: Number(spec.initial_margin),
+  maintenanceMargin: Number(spec.maintenance_margin),
+  priceFormat: spec.price_format,
+  currency: spec.currency,
+});
+
+// The shared specs and the user's own rows, which row-level security limits
+// to their own.
+export async function fetchContractSpecs(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<ContractSpec[]> {
+  const { data, error } = await supabase
+    .from('contract_specs')
+    .select('*')
+    .or(`user_id.is.null,user_id.eq.${userId}`)
+    .order('symbol', { ascending: true });
+  if (error) throw error;
+  return data ?? [];
+}
+
+// A user's own row for a symbol takes precedence over the shared default.
+export function buildContractRegistry(specs: ContractSpec[]): ContractRegistry {
+  const registry: ContractRegistry = {};
+  for (const spec of specs.filter((spec) => !spec.user_id))
+    registry[spec.symbol.toUpperCase()] = contractFromSpec(spec);
+  for (const spec of specs.filter((spec) => spec.user_id))
+    registry[spec.symbol.toUpperCase()] = contractFromSpec(spec);
+  return registry;
+}
+
+export async function fetchContractRegistry(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<ContractRegistry> {
+  return buildContractRegistry(await fetchContractSpecs(supabase, userId));
+}
+
+// A spec as typed into a form. The point value is derived from the tick size
+// and tick value so the three can never disagree.
+export type ContractSpecDraft = {
+  symbol: string;
+  name: string;
+  exchange: string;
+  tick_size: string;
+  tick_value: string;
+  initial_margin: string;
+  maintenance_margin: string;
+  price_format: PriceFormat;
+  currency: string;
+};
+
+export const EMPTY_CONTRACT_SPEC_DRAFT: ContractSpecDraft = {
+  symbol: '',
+  name: '',
+  exchange: '',
+  tick_size: '',
+  tick_value: '',
+  initial_margin: '',
+  maintenance_margin: '',
+  price_format: 'DECIMAL',
+  currency: 'USD',
+};
+
+export const draftFromSpec = (spec: ContractSpec): ContractSpecDraft => ({
+  symbol: spec.symbol,
+  name: spec.name,
+  exchange: spec.exchange,
+  tick_size: String(spec.tick_size),
+  tick_value: String(spec.tick_value),
+  initial_margin: String(spec.initial_margin),
+  maintenance_margin: String(spec.maintenance_margin),
+  price_format: spec.price_format,
+  currency: spec.currency,
+});
+
+export const draftPointValue = (draft: ContractSpecDraft) =>
+  Number(draft.tick_value) / Number(draft.tick_size);
+
+export function validateContractSpecDraft(
+  draft: ContractSpecDraft
+): string | null {
+  if (!/^[A-Z0-9]{1,6}$/.test(draft.symbol.trim().toUpperCase()))
+    return 'Symbol must be 1-6 letters or digits, e.g. SI or 6J.';
+  if (!draft.name.trim()) return 'Name is required.';
+  if (!(Number(draft.tick_size) > 0) || !(Number(draft.tick_value) > 0))
+    return 'Tick size and tick value must be greater than zero.';
+  if (
+    !(Number(draft.initial_margin || 0) >= 0) ||
+    !(Number(draft.maintenance_margin || 0) >= 0)
+  )
+    return "Margins can't be negative.";
+  if (!/^[A-Z]{3}$/.test(draft.currency.trim().toUpperCase()))
+    return 'Currency must be a 3-letter code, e.g. USD or EUR.';
+  return null;
+}
+
+// Saves the user's own row for the symbol, which replaces any shared default
+// for them.
+export async function saveContractSpec(
+  supabase: SupabaseClient,
+  userId: string,
+  draft: ContractSpecDraft
+) {
+  const { error } = await supabase.from('contract_specs').upsert(
+    {
+      user_id: userId,
+      symbol: draft.symbol.trim().toUpperCase(),
+      name: draft.name.trim(),
+      exchange: draft.exchange.trim().toUpperCase(),
+      tick_size: Number(draft.tick_size),
+      tick_value: Number(draft.tick_value),
+      point_value: draftPointValue(draft),
+      initial_margin: Number(draft.initial_margin || 0),
+      maintenance_margin: Number(draft.maintenance_margin || 0),
+      price_format: draft.price_format,
+      currency: draft.currency.trim().toUpperCase(),
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: 'user_id,symbol' }
+  );
+  if (error) throw error;
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { calculateTradePnL } from './asset-classes';
+import { inversePnL, quoteCurrency, splitCryptoPair } from './crypto';
+
+describe('inversePnL', () => {
+  it('earns coins on a long and values them at the exit price', () => {
+    // 1,000 × (1/50,000 − 1/60,000) = 0.00333 BTC.
+    expect(inversePnL(50000, 60000, 1000, 'LONG', 1)).toBeCloseTo(200);
+    expect(inversePnL(50000, 60000, 10, 'LONG', 100)).toBeCloseTo(200);
+  });
+
+  it('mirrors the long for a short', () => {
+    expect(inversePnL(50000, 60000, 1000, 'SHORT', 1)).toBeCloseTo(-200);
+    // 0.00333 BTC, now worth less at $50,000.
+    expect(inversePnL(60000, 50000, 1000, 'SHORT', 1)).toBeCloseTo(166.67);
+  });
+
+  it('differs from the linear P&L of the same size', () => {
+    expect(
+      calculateTradePnL(
+        'BTC',
+        60000,
+        50000,
+        1000,
+        'LONG',
+        'CRYPTO',
+        undefined,
+        1,
+        'INVERSE'
+      )
+    ).toBeCloseTo(-166.67);
+    expect(
+      calculateTradePnL('BTC', 60000, 50000, 0.02, 'LONG', 'CRYPTO')
+    ).toBeCloseTo(-200);
+  });
+});
+
+describe('splitCryptoPair', () => {
+  it('reads the pair formats exchanges use', () => {
+    expect(splitCryptoPair('BTCUSDT')).toEqual({ base: 'BTC', quote: 'USDT' });
+    expect(splitCryptoPair('BTC-USD')).toEqual({ base: 'BTC', quote: 'USD' });
+    expect(splitCryptoPair('BTCUSD_PERP')).toEqual({
+      base: 'BTC',
+      quote: 'USD',
+    });
+    expect(splitCryptoPair('ETHFDUSD')).toEqual({
+      base: 'ETH',
+      quote: 'FDUSD',
+    });
+    expect(splitCryptoPair('ETHPERP')).toEqual({ base: 'ETH', quote: 'USDC' });
+  });
+
+  it('values stablecoins as US dollars and coins not at all', () => {
+    expect(quoteCurrency('USDT')).toBe('USD');
+    expect(quoteCurrency('EUR')).toBe('EUR');
+    expect(quoteCurrency('BTC')).toBeNull();
+  });
+});
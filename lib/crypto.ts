@@ -0,0 +1,160 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { recalculateDailyStats } from '@/lib/daily-stats';
+import { CURRENCIES, pnlAtTradeRate } from '@/lib/fx-rates';
+import type { CryptoContract, FundingPayment, Trade } from '@/types/database';
+
+export const CRYPTO_CONTRACT_LABELS: Record<CryptoContract, string> = {
+  SPOT: 'Spot',
+  LINEAR: 'Linear perpetual',
+  INVERSE: 'Inverse perpetual',
+};
+
+// Bybit's inverse contracts are worth one US dollar each. Other exchanges
+// report their own size.
+export const DEFAULT_INVERSE_CONTRACT_SIZE = 1;
+
+export const isPerpetual = (contract?: CryptoContract | null) =>
+  contract === 'LINEAR' || contract === 'INVERSE';
+
+// Stablecoins are taken to be worth one US dollar.
+const USD_STABLECOINS = ['USDT', 'USDC', 'FDUSD', 'BUSD', 'TUSD', 'DAI'];
+
+// Longest first, so "FDUSD" is tried before "USD".
+const QUOTES = [...USD_STABLECOINS, ...CURRENCIES, 'BTC', 'ETH', 'BNB'].sort(
+  (a, b) => b.length - a.length
+);
+
+// "BTCUSDT", "BTC-USD", "ETH/EUR", "BTCUSD_PERP" and Bybit's USDC-margined
+// "BTCPERP" into base and quote. Null when the quote isn't one we know.
+export function splitCryptoPair(
+  pair: string
+): { base: string; quote: string } | null {
+  const upper = pair.trim().toUpperCase();
+  const cleaned = upper.replace(/[-_/ ]?(PERP|SWAP|\d{6})$/, '');
+  const separated = cleaned.match(/^([A-Z0-9]+)[-_/ ]([A-Z]+)$/);
+  if (separated) return { base: separated[1], quote: separated[2] };
+  const quote = QUOTES.find(
+    (code) => cleaned.endsWith(code) && cleaned.length > code.length
+  );
+  if (quote) return { base: cleaned.slice(0, -quote.length), quote };
+  if (upper.endsWith('PERP') && cleaned)
+    return { base: cleaned, quote: 'USDC' };
+  return null;
+}
+
+// The currency a pair's P&L is in. Null for pairs quoted in another coin,
+// whose P&L can't be valued without that coin's price.
+export const quoteCurrency = (quote: string): string | null =>
+  USD_STABLECOINS.includes(quote)
+    ? 'USD'
+    : CURRENCIES.includes(quote)
+    ? quote
+    : null;
+
+// Inverse contracts are each worth contractSize US dollars, so P&L accrues in
+// the coin: contracts × size × (1/entry − 1/exit) for a long. It is valued in
+// dollars at the exit price.
+export function inversePnL(
+  entryPrice: number,
+  exitPrice: number,
+  contracts: number,
+  side: Trade['side'],
+  contractSize: number
+): number {
+  const coins = contracts * contractSize * (1 / entryPrice - 1 / exitPrice);
+  return (side === 'LONG' ? coins : -coins) * exitPrice;
+}
+
+export async function fetchFundingPayments(
+  supabase: SupabaseClient,
+  tradeId: string
+): Promise<FundingPayment[]> {
+  const { data, error } = await supabase
+    .from('funding_payments')
+    .select('*')
+    .eq('trade_id', tradeId)
+    .order('paid_at', { ascending: true });
+  if (error) throw error;
+  return data ?? [];
+}
+
+// A payment as typed into a form. Amounts are positive when received.
+export type FundingPaymentDraft = {
+  amount: string;
+  rate: string;
+  paid_at: string;
+};
+
+export function validateFundingPaymentDraft(
+  draft: FundingPaymentDraft
+): string | null {
+  if (draft.amount.trim() === '' || !Number.isFinite(Number(draft.amount)))
+    return 'Amount is required, negative when funding was paid.';
+  if (draft.rate.trim() !== '' && !Number.isFinite(Number(draft.rate)))
+    return 'Rate must be a number.';
+  if (!draft.paid_at) return 'Payment time is required.';
+  return null;
+}
+
+// Moves the trade's funding, and its net P&L once closed, by amount in the
+// trade's currency.
+async function adjustTradeFunding(
+  supabase: SupabaseClient,
+  userId: string,
+  trade: Trade,
+  amount: number
+) {
+  const pnlNative = trade.pnl_native ?? trade.pnl;
+  const closed =
+    trade.status === 'CLOSED' && pnlNative !== undefined && pnlNative !== null;
+  const { error } = await supabase
+    .from('trades')
+    .update({
+      funding: Number(trade.funding ?? 0) + amount,
+      ...(closed && {
+        pnl_native: pnlNative + amount,
+        pnl: pnlAtTradeRate(trade, pnlNative + amount),
+      }),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', trade.id);
+  if (error) throw error;
+  if (closed && trade.exit_date)
+    await recalculateDailyStats(
+      supabase,
+      userId,
+      trade.exit_date.split('T')[0]
+    );
+}
+
+export async function addFundingPayment(
+  supabase: SupabaseClient,
+  userId: string,
+  trade: Trade,
+  draft: FundingPaymentDraft
+) {
+  const amount = Number(draft.amount);
+  const { error } = await supabase.from('funding_payments').insert({
+    user_id: userId,
+    trade_id: trade.id,
+    amount,
+    rate: draft.rate.trim() === '' ? null : Number(draft.rate),
+    paid_at: draft.paid_at,
+  });
+  if (error) throw error;
+  await adjustTradeFunding(supabase, userId, trade, amount);
+}
+
+export async function deleteFundingPayment(
+  supabase: SupabaseClient,
+  userId: string,
+  trade: Trade,
+  payment: FundingPayment
+) {
+  const { error } = await supabase
+    .from('funding_payments')
+    .delete()
+    .eq('id', payment.id);
+  if (error) throw error;
+  await adjustTradeFunding(supabase, userId, trade, -Number(payment.amount));
+}
@@ -0,0 +1,52 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+// Rebuilds the daily_stats row for one day from the closed trades that exited
+// on it, deleting the row when none are left.
+export async function recalculateDailyStats(
+  supabase: SupabaseClient,
+  userId: string,
+  date: string
+) {
+  const statsDate = date.split('T')[0];
+
+  // Fetch all trades for that day
+  const { data: dayTrades } = await supabase
+    .from('trades')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('status', 'CLOSED')
+    .gte('exit_date', `${statsDate}T00:00:00`)
+    .lt('exit_date', `${statsDate}T23:59:59`);
+
+  if (dayTrades && dayTrades.length > 0) {
+    // Calculate stats for the day
+    const totalTrades = dayTrades.length;
+    const winningTrades = dayTrades.filter((t) => t.pnl && t.pnl > 0).length;
+    const losingTrades = dayTrades.filter((t) => t.pnl && t.pnl < 0).length;
+    const totalPnl = dayTrades.reduce((sum, t) => sum + (t.pnl || 0), 0);
+    const winRate = totalTrades > 0 ? (winningTrades / totalTrades) * 100 : 0;
+
+    // Update or insert the daily stats
+    await supabase.from('daily_stats').upsert(
+      {
+        user_id: userId,
+        date: statsDate,
+        total_trades: totalTrades,
+        winning_trades: winningTrades,
+        losing_trades: losingTrades,
+        total_pnl: totalPnl,
+        win_rate: winRate,
+      },
+      {
+        onConflict: 'user_id,date',
+      }
+    );
+  } else {
+    // No trades for this day, delete the daily stats entry
+    await supabase
+      .from('daily_stats')
+      .delete()
+      .eq('user_id', userId)
+      .eq('date', statsDate);
+  }
+}
@@ -0,0 +1,215 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { format, isValid, parseISO } from 'date-fns';
+import { calculateTradePnL, roundQuantity } from '@/lib/asset-classes';
+import type { ContractRegistry } from '@/lib/futures-specs';
+import type { Trade, TradeExecution } from '@/types/database';
+
+// A fill as typed into a form.
+export type ExecutionDraft = {
+  side: TradeExecution['side'];
+  quantity: string;
+  price: string;
+  executed_at: string;
+  commission: string;
+  // The broker's id for an imported fill, kept through edits.
+  trade_number?: string | null;
+};
+
+export const emptyExecutionDraft = (
+  side: TradeExecution['side']
+): ExecutionDraft => ({
+  side,
+  quantity: '',
+  price: '',
+  executed_at: '',
+  commission: '',
+});
+
+// A stored time as a datetime-local input shows it, in the user's time zone.
+export const toDateTimeLocal = (value: string) =>
+  format(parseISO(value), "yyyy-MM-dd'T'HH:mm");
+
+export const draftFromExecution = (
+  execution: Pick<
+    TradeExecution,
+    | 'side'
+    | 'quantity'
+    | 'price'
+    | 'executed_at'
+    | 'commission'
+    | 'trade_number'
+  >
+): ExecutionDraft => ({
+  side: execution.side,
+  quantity: String(execution.quantity),
+  price: String(execution.price),
+  executed_at: toDateTimeLocal(execution.executed_at),
+  commission: execution.commission ? String(execution.commission) : '',
+  trade_number: execution.trade_number,
+});
+
+export const sortedExecutions = (trade: Pick<Trade, 'executions'>) =>
+  [...(trade.executions ?? [])].sort((a, b) =>
+    a.executed_at.localeCompare(b.executed_at)
+  );
+
+export type ExecutionInput = Pick<
+  TradeExecution,
+  'side' | 'quantity' | 'price' | 'executed_at' | 'commission'
+> & { trade_number?: string | null };
+
+// In time order. Fills at the same time keep the order they were entered in.
+export const executionsFromDrafts = (
+  drafts: ExecutionDraft[]
+): ExecutionInput[] =>
+  drafts
+    .map((draft) => ({
+      side: draft.side,
+      quantity: Number(draft.quantity),
+      price: Number(draft.price),
+      executed_at: draft.executed_at,
+      commission: Number(draft.commission || 0),
+      trade_number: draft.trade_number ?? null,
+    }))
+    .sort((a, b) => a.executed_at.localeCompare(b.executed_at));
+
+const signedQuantity = (execution: Pick<ExecutionInput, 'side' | 'quantity'>) =>
+  execution.side === 'BUY' ? execution.quantity : -execution.quantity;
+
+// The size of the position after each fill, short positions negative.
+export const runningPositions = (
+  executions: Pick<ExecutionInput, 'side' | 'quantity'>[]
+): number[] => {
+  let position = 0;
+  return executions.map(
+    (execution) =>
+      (position = roundQuantity(position + signedQuantity(execution)))
+  );
+};
+
+// The first fill opens the position. Later fills can add to it or take it
+// down, but not through flat: a position that closes and reopens is two
+// trades.
+export function validateExecutionDrafts(
+  drafts: ExecutionDraft[]
+): string | null {
+  if (drafts.length === 0) return 'Add at least one fill.';
+  for (const [index, draft] of drafts.entries()) {
+    const fill = `Fill ${index + 1}`;
+    if (!(Number(draft.quantity) > 0))
+      return `${fill}: quantity must be greater than 0.`;
+    if (draft.price.trim() === '' || !Number.isFinite(Number(draft.price)))
+      return `${fill}: price is required.`;
+    if (!draft.executed_at || !isValid(parseISO(draft.executed_at)))
+      return `${fill}: time is required.`;
+    if (draft.commission.trim() !== '' && !(Number(draft.commission) >= 0))
+      return `${fill}: fees can't be negative.`;
+  }
+  let position = 0;
+  for (const [index, execution] of executionsFromDrafts(drafts).entries()) {
+    if (index > 0 && position === 0)
+      return 'The position is flat before its last fill. Record the rest as a new trade.';
+    const next = roundQuantity(position + signedQuantity(execution));
+    if (position !== 0 && Math.sign(next) === -Math.sign(position))
+      return 'A fill takes the position through flat. Split it into a closing fill and a new trade.';
+    position = next;
+  }
+  return null;
+}
+
+// Averages, sizes and dates of a position from its fills, which must be in
+// time order. Exit price and date are null until the position is flat.
+export function summarizeExecutions(executions: ExecutionInput[]) {
+  const side: Trade['side'] = executions[0].side === 'BUY' ? 'LONG' : 'SHORT';
+  const entrySide = side === 'LONG' ? 'BUY' : 'SELL';
+  const entries = executions.filter(
+    (execution) => execution.side === entrySide
+  );
+  const exits = executions.filter((execution) => execution.side !== entrySide);
+  const total = (fills: ExecutionInput[]) =>
+    roundQuantity(fills.reduce((sum, fill) => sum + fill.quantity, 0));
+  const average = (fills: ExecutionInput[]) =>
+    fills.reduce((sum, fill) => sum + fill.price * fill.quantity, 0) /
+    total(fills);
+
+  let position = 0;
+  let maxPosition = 0;
+  for (const execution of executions) {
+    position = roundQuantity(
+      position +
+        (execution.side === entrySide
+          ? execution.quantity
+          : -execution.quantity)
+    );
+    maxPosition = Math.max(maxPosition, position);
+  }
+
+  const quantity = total(entries);
+  const exitedQuantity = total(exits);
+  const closed = exitedQuantity > 0 && position === 0;
+  return {
+    side,
+    quantity,
+    entry_price: average(entries),
+    // The average of the exits so far, for the realized part.
+    average_exit_price: exits.length > 0 ? average(exits) : null,
+    exit_price: closed ? average(exits) : null,
+    exited_quantity: exitedQuantity,
+    open_quantity: position,
+    max_position: maxPosition,
+    commission: executions.reduce((sum, fill) => sum + fill.commission, 0),
+    entry_date: executions[0].executed_at,
+    exit_date: closed ? executions[executions.length - 1].executed_at : null,
+    closed,
+  };
+}
+
+// Gross P&L on what has been exited so far, at the average prices, in the
+// trade's currency. Null before the first exit.
+export function realizedPnL(
+  trade: Pick<
+    Trade,
+    'symbol' | 'asset_class' | 'multiplier' | 'crypto_contract' | 'executions'
+  >,
+  contracts?: ContractRegistry
+): number | null {
+  const executions = sortedExecutions(trade);
+  if (executions.length === 0) return null;
+  const position = summarizeExecutions(executions);
+  if (position.average_exit_price === null) return null;
+  return calculateTradePnL(
+    trade.symbol,
+    position.entry_price,
+    position.average_exit_price,
+    position.exited_quantity,
+    position.side,
+    trade.asset_class,
+    contracts,
+    trade.multiplier,
+    trade.crypto_contract
+  );
+}
+
+// Replaces a position's fills with these, or removes them when there are
+// none.
+export async function saveTradeExecutions(
+  supabase: SupabaseClient,
+  userId: string,
+  tradeId: string,
+  executions: ExecutionInput[]
+) {
+  const { error: deleteError } = await supabase
+    .from('executions')
+    .delete()
+    .eq('trade_id', tradeId);
+  if (deleteError) throw deleteError;
+  if (executions.length === 0) return;
+  const { error } = await supabase.from('executions').insert(
+    executions.map((execution) => ({
+      ...execution,
+      trade_id: tradeId,
+      user_id: userId,
+    }))
+  );
+  if (error) throw error;
+}
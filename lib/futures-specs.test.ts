@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import {
+  FUTURES_CONTRACTS,
+  calculateFuturesPnL,
+  formatContractPrice,
+  isOnTick,
+  parseContractPrice,
+} from './futures-specs';
+
+describe('parseContractPrice', () => {
+  it('reads Treasury prices in 32nds', () => {
+    expect(parseContractPrice("110'16.5")).toBe(110.515625);
+    expect(parseContractPrice("110'16")).toBe(110.5);
+    expect(parseContractPrice('110-16')).toBe(110.5);
+    expect(parseContractPrice("110'16.25")).toBe(110.5078125);
+    expect(parseContractPrice("110'05")).toBe(110.15625);
+  });
+
+  it('reads decimals with thousands separators', () => {
+    expect(parseContractPrice('6,001.25')).toBe(6001.25);
+    expect(parseContractPrice(' 0.6512 ')).toBe(0.6512);
+  });
+
+  it('rejects 32nds past 31 and text that is not a price', () => {
+    expect(parseContractPrice("110'32")).toBeNull();
+    expect(parseContractPrice('')).toBeNull();
+    expect(parseContractPrice('abc')).toBeNull();
+  });
+});
+
+describe('formatContractPrice', () => {
+  it('quotes Treasuries the way they trade', () => {
+    expect(formatContractPrice(110.515625, FUTURES_CONTRACTS.ZN)).toBe(
+      "110'16.5"
+    );
+    expect(formatContractPrice(110.5, FUTURES_CONTRACTS.ZN)).toBe("110'16");
+    expect(formatContractPrice(118.15625, FUTURES_CONTRACTS.ZB)).toBe("118'05");
+  });
+
+  it('round-trips with parseContractPrice', () => {
+    const price = parseContractPrice("110'16.5") ?? NaN;
+    expect(isOnTick(price, FUTURES_CONTRACTS.ZN.tickSize)).toBe(true);
+    expect(formatContractPrice(price, FUTURES_CONTRACTS.ZN)).toBe("110'16.5");
+  });
+
+  it('uses the tick decimals for other contracts', () => {
+    expect(formatContractPrice(6001.5, FUTURES_CONTRACTS.ES)).toBe('6001.50');
+    expect(formatContractPrice(1.2, null)).toBe('1.20');
+  });
+});
+
+describe('calculateFuturesPnL', () => {
+  it('values a half-32nd move in ZN at $15.625 a contract', () => {
+    const entry = parseContractPrice("110'16") ?? NaN;
+    const exit = parseContractPrice("110'16.5") ?? NaN;
+    expect(calculateFuturesPnL('ZN', entry, exit, 2, 'LONG')).toBeCloseTo(
+      31.25
+    );
+    expect(calculateFuturesPnL('ZN', entry, exit, 1, 'SHORT')).toBeCloseTo(
+      -15.625
+    );
+  });
+});
@@ -1,3 +1,26 @@
+// How a contract's prices are quoted. Treasury futures trade in 32nds of a
+// point, some in halves or quarters of a 32nd: 110'16.5 is 110 + 16.5/32.
+export type PriceFormat =
+  | 'DECIMAL'
+  | 'THIRTY_SECONDS'
+  | 'HALF_THIRTY_SECONDS'
+  | 'QUARTER_THIRTY_SECONDS';
+
+export const PRICE_FORMAT_LABELS: Record<PriceFormat, string> = {
+  DECIMAL: 'Decimal',
+  THIRTY_SECONDS: "32nds (110'16)",
+  HALF_THIRTY_SECONDS: "Half 32nds (110'16.5)",
+  QUARTER_THIRTY_SECONDS: "Quarter 32nds (110'16.25)",
+};
+
+// The smallest fraction of a 32nd each format shows.
+const THIRTY_SECOND_STEPS: Record<PriceFormat, number | null> = {
+  DECIMAL: null,
+  THIRTY_SECONDS: 1,
+  HALF_THIRTY_SECONDS: 0.5,
+  QUARTER_THIRTY_SECONDS: 0.25,
+};
+
 export interface FuturesContract {
   symbol: string;
   name: string;
@@ -7,9 +30,19 @@ export interface FuturesContract {
   pointValue: number;
   initialMargin: number;
   maintenanceMargin: number;
+  // Defaults to DECIMAL.
+  priceFormat?: PriceFormat;
+  // ISO code the contract is priced and settled in, and of its tick value
+  // and margins. Defaults to USD.
+  currency?: string;
 }
 
-export const FUTURES_CONTRACTS: Record<string, FuturesContract> = {
+// Specs by upper-case symbol.
+export type ContractRegistry = Record<string, FuturesContract>;
+
+// The built-in specs, which also seed the shared rows of contract_specs. They
+// are used until a user's registry has been loaded from the database.
+export const FUTURES_CONTRACTS: ContractRegistry = {
   // E-mini S&P 500
   ES: {
     symbol: 'ES',
@@ -174,6 +207,7 @@ export const FUTURES_CONTRACTS: Record<string, FuturesContract> = {
     pointValue: 1000,
     initialMargin: 1650,
     maintenanceMargin: 1500,
+    priceFormat: 'HALF_THIRTY_SECONDS',
   },
   // 30-Year T-Bond
   ZB: {
@@ -185,6 +219,55 @@ export const FUTURES_CONTRACTS: Record<string, FuturesContract> = {
     pointValue: 1000,
     initialMargin: 3850,
     maintenanceMargin: 3500,
+    priceFormat: 'THIRTY_SECONDS',
+  },
+  // DAX
+  FDAX: {
+    symbol: 'FDAX',
+    name: 'DAX',
+    exchange: 'EUREX',
+    tickSize: 1,
+    tickValue: 25,
+    pointValue: 25,
+    initialMargin: 41000,
+    maintenanceMargin: 37000,
+    currency: 'EUR',
+  },
+  // Mini-DAX
+  FDXM: {
+    symbol: 'FDXM',
+    name: 'Mini-DAX',
+    exchange: 'EUREX',
+    tickSize: 1,
+    tickValue: 5,
+    pointValue: 5,
+    initialMargin: 8200,
+    maintenanceMargin: 7400,
+    currency: 'EUR',
+  },
+  // Euro Stoxx 50
+  FESX: {
+    symbol: 'FESX',
+    name: 'Euro Stoxx 50',
+    exchange: 'EUREX',
+    tickSize: 1,
+    tickValue: 10,
+    pointValue: 10,
+    initialMargin: 3600,
+    maintenanceMargin: 3300,
+    currency: 'EUR',
+  },
+  // Nikkei 225 (yen-denominated)
+  NIY: {
+    symbol: 'NIY',
+    name: 'Nikkei 225 Yen',
+    exchange: 'CME',
+    tickSize: 5,
+    tickValue: 2500,
+    pointValue: 500,
+    initialMargin: 1650000,
+    maintenanceMargin: 1500000,
+    currency: 'JPY',
   },
 };
 
@@ -193,9 +276,10 @@ export function calculateFuturesPnL(
   entryPrice: number,
   exitPrice: number,
   quantity: number,
-  side: 'LONG' | 'SHORT'
+  side: 'LONG' | 'SHORT',
+  contracts: ContractRegistry = FUTURES_CONTRACTS
 ): number {
-  const contract = FUTURES_CONTRACTS[symbol.toUpperCase()];
+  const contract = contracts[symbol.toUpperCase()];
 
   if (!contract) {
     // If contract not found, use a default point value of 1 (like for stocks)
@@ -212,6 +296,206 @@ export function calculateFuturesPnL(
   return priceDiff * contract.pointValue * quantity;
 }
 
-export function getContractSpecs(symbol: string): FuturesContract | null {
-  return FUTURES_CONTRACTS[symbol.toUpperCase()] || null;
+export function getContractSpecs(
+  symbol: string,
+  contracts: ContractRegistry = FUTURES_CONTRACTS
+): FuturesContract | null {
+  return contracts[symbol.toUpperCase()] || null;
+}
+
+// The currency a symbol's P&L comes out in before conversion to the user's
+// base currency. Symbols without a spec are taken to be in USD.
+export const contractCurrency = (
+  symbol: string,
+  contracts: ContractRegistry = FUTURES_CONTRACTS
+) => getContractSpecs(symbol, contracts)?.currency ?? 'USD';
+
+// Decimal places that show a tick exactly, e.g. 0.25 -> 2 and 1/64 -> 6.
+export function tickDecimals(tickSize: number): number {
+  for (let decimals = 0; decimals < 10; decimals += 1)
+    if (Math.abs(Number(tickSize.toFixed(decimals)) - tickSize) < 1e-12)
+      return decimals;
+  return 10;
+}
+
+// Prices carry floating point error, so anything within a millionth of a
+// tick counts as on it.
+export function isOnTick(price: number, tickSize: number): boolean {
+  const ticks = price / tickSize;
+  return Math.abs(ticks - Math.round(ticks)) < 1e-6;
+}
+
+export function snapToTick(price: number, tickSize: number): number {
+  return Number(
+    (Math.round(price / tickSize) * tickSize).toFixed(tickDecimals(tickSize))
+  );
+}
+
+// Ticks made per contract; negative for a loss.
+export function pnlInTicks(
+  entryPrice: number,
+  exitPrice: number,
+  side: 'LONG' | 'SHORT',
+  tickSize: number
+): number {
+  const priceDiff =
+    side === 'LONG' ? exitPrice - entryPrice : entryPrice - exitPrice;
+  return Math.round((priceDiff / tickSize) * 100) / 100;
+}
+
+export const formatTicks = (ticks: number) =>
+  `${ticks > 0 ? '+' : ''}${ticks} tick${Math.abs(ticks) === 1 ? '' : 's'}`;
+
+// 110.515625 in half 32nds -> "110'16.5".
+const formatThirtySeconds = (price: number, step: number): string => {
+  const thirtySeconds = Math.round((Math.abs(price) * 32) / step) * step;
+  const whole = Math.floor(thirtySeconds / 32);
+  const [units, fraction] = (thirtySeconds - whole * 32)
+    .toFixed(step === 1 ? 0 : step === 0.5 ? 1 : 2)
+    .split('.');
+  const decimals = fraction?.replace(/0+$/, '');
+  return `${price < 0 ? '-' : ''}${whole}'${units.padStart(2, '0')}${
+    decimals ? `.${decimals}` : ''
+  }`;
+};
+
+// Quotes a price the way the contract trades: in 32nds for Treasuries, and
+// otherwise with as many decimals as the tick needs, so 6E keeps all five.
+// Symbols without a contract get two.
+export function formatContractPrice(
+  price: number,
+  contract: FuturesContract | null
+): string {
+  const step = THIRTY_SECOND_STEPS[contract?.priceFormat ?? 'DECIMAL'];
+  if (step) return formatThirtySeconds(price, step);
+  return price.toFixed(contract ? tickDecimals(contract.tickSize) : 2);
+}
+
+// Reads a typed or exported price, either as a decimal or in 32nds with an
+// apostrophe or dash ("110'16.5", "110-16"). Returns null when it is neither.
+export function parseContractPrice(text: string): number | null {
+  const trimmed = text.trim().replace(/,/g, '');
+  const fractional = trimmed.match(/^(\d+)['-](\d{1,2}(?:\.\d+)?)$/);
+  if (fractional) {
+    const thirtySeconds = Number(fractional[2]);
+    return thirtySeconds < 32
+      ? Number(fractional[1]) + thirtySeconds / 32
+      : null;
+  }
+  if (!trimmed) return null;
+  const value = Number(trimmed);
+  return Number.isFinite(value) ? value : null;
+}
+
+// CME month codes, January through December.
+const MONTH_CODES = 'FGHJKMNQUVXZ';
+const MONTH_NAMES = [
+  'JAN',
+  'FEB',
+  'MAR',
+  'APR',
+  'MAY',
+  'JUN',
+  'JUL',
+  'AUG',
+  'SEP',
+  'OCT',
+  'NOV',
+  'DEC',
+];
+const EXCHANGES = ['CME', 'CBOT', 'NYMEX', 'COMEX', 'GLOBEX', 'ICE', 'EUREX'];
+
+export interface ParsedContract {
+  // The product, e.g. "ES", shared by every expiry.
+  root: string;
+  // The expiry as "YYYY-MM", or null when the description has none.
+  contractMonth: string | null;
+}
+
+// Single-digit years ("ESZ5") are taken as the nearest matching year, since
+// contracts are never listed more than a few years out.
+const expandYear = (year: string): number => {
+  if (year.length === 4) return Number(year);
+  if (year.length === 2) return 2000 + Number(year);
+  const currentYear = new Date().getFullYear();
+  const candidate = currentYear - (currentYear % 10) + Number(year);
+  return candidate < currentYear - 5 ? candidate + 10 : candidate;
+};
+
+const toContractMonth = (monthIndex: number, year: string) =>
+  `${expandYear(year)}-${String(monthIndex + 1).padStart(2, '0')}`;
+
+const compact = (value: string) =>
+  value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+// Picks the root out of the words left once the expiry is removed: a known
+// symbol, then the longest known contract name ("MICRO E-MINI NASDAQ", with
+// or without the index number), then the first word.
+const rootFromWords = (
+  words: string[],
+  contracts: ContractRegistry
+): string => {
+  const known = words.find((word) => contracts[word]);
+  if (known) return known;
+  const text = compact(words.join(' '));
+  const byName = Object.values(contracts)
+    .filter((contract) =>
+      text.includes(compact(contract.name).replace(/\d+$/, ''))
+    )
+    .sort((a, b) => b.name.length - a.name.length)[0];
+  return byName?.symbol ?? words[0] ?? '';
+};
+
+// Reads the formats brokers use for a futures contract: CME codes ("ESZ25",
+// "MNQH6"), NinjaTrader's "ES 12-25" and AMP descriptions such as
+// "MAR 26 MES", "MES MAR26" or "MICRO E-MINI NASDAQ DEC25".
+export function parseContractDescription(
+  description: string,
+  contracts: ContractRegistry = FUTURES_CONTRACTS
+): ParsedContract {
+  const text = description.trim().toUpperCase().replace(/\s+/g, ' ');
+
+  const code = text.match(/^([A-Z0-9]{1,4}?)([FGHJKMNQUVXZ])(\d{1,2})$/);
+  if (code)
+    return {
+      root: code[1],
+      contractMonth: toContractMonth(MONTH_CODES.indexOf(code[2]), code[3]),
+    };
+
+  const numeric = text.match(/^(.+?) (\d{2})-(\d{2}|\d{4})$/);
+  if (numeric && Number(numeric[2]) >= 1 && Number(numeric[2]) <= 12)
+    return {
+      root: rootFromWords(numeric[1].split(' '), contracts),
+      contractMonth: toContractMonth(Number(numeric[2]) - 1, numeric[3]),
+    };
+
+  const words = text.split(' ').filter((word) => !EXCHANGES.includes(word));
+  for (let index = 0; index < words.length; index += 1) {
+    const month = words[index].match(
+      /^(JAN|FEB|MAR|APR|MAY|JUN|JUL|AUG|SEP|OCT|NOV|DEC)(\d{2})?$/
+    );
+    if (!month) continue;
+    const year = month[2] ?? words[index + 1]?.match(/^(\d{2}|\d{4})$/)?.[1];
+    if (!year) continue;
+    const rest = words.filter(
+      (_, position) =>
+        position !== index && (month[2] || position !== index + 1)
+    );
+    return {
+      root: rootFromWords(rest, contracts),
+      contractMonth: toContractMonth(MONTH_NAMES.indexOf(month[1]), year),
+    };
+  }
+
+  return {
+    root: rootFromWords(words, contracts) || text,
+    contractMonth: null,
+  };
+}
+
+// "ES" and "2025-12" -> "ESZ25", the way the exact contract is displayed.
+export function contractCode(root: string, contractMonth?: string | null) {
+  if (!contractMonth) return root;
+  const [year, month] = contractMonth.split('-');
+  return `${root}${MONTH_CODES[Number(month) - 1]}${year.slice(-2)}`;
 }
@@ -0,0 +1,237 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import Papa from 'papaparse';
+import { format, isValid, parseISO, subDays } from 'date-fns';
+import { recalculateDailyStats } from '@/lib/daily-stats';
+import type { FxRate, Trade } from '@/types/database';
+
+export const DEFAULT_BASE_CURRENCY = 'USD';
+
+// Offered in currency pickers. Any 3-letter code can still be typed into a
+// contract spec.
+export const CURRENCIES = [
+  'USD',
+  'EUR',
+  'GBP',
+  'JPY',
+  'CHF',
+  'CAD',
+  'AUD',
+  'HKD',
+  'SGD',
+];
+
+// A rate is reused for up to this many days after it was entered, to cover
+// weekends and exchange holidays.
+const RATE_LOOKBACK_DAYS = 7;
+
+export const formatMoney = (amount: number, currency: string) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+
+export async function fetchBaseCurrency(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<string> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('base_currency')
+    .eq('id', userId)
+    .maybeSingle();
+  if (error) throw error;
+  return data?.base_currency ?? DEFAULT_BASE_CURRENCY;
+}
+
+export async function fetchFxRates(
+  supabase: SupabaseClient,
+  userId: string,
+  baseCurrency: string
+): Promise<FxRate[]> {
+  const { data, error } = await supabase
+    .from('fx_rates')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('base_currency', baseCurrency)
+    .order('date', { ascending: false });
+  if (error) throw error;
+  return data ?? [];
+}
+
+// Units of the base currency for one unit of currency on the day, falling
+// back to the latest rate from the week before. Null when there is none.
+export function findFxRate(
+  rates: FxRate[],
+  currency: string,
+  baseCurrency: string,
+  date: string
+): number | null {
+  if (currency === baseCurrency) return 1;
+  const day = date.split('T')[0];
+  const earliest = format(
+    subDays(parseISO(day), RATE_LOOKBACK_DAYS),
+    'yyyy-MM-dd'
+  );
+  const rate = rates
+    .filter(
+      (rate) =>
+        rate.currency === currency &&
+        rate.base_currency === baseCurrency &&
+        rate.date <= day &&
+        rate.date >= earliest
+    )
+    .sort((a, b) => b.date.localeCompare(a.date))[0];
+  return rate ? Number(rate.rate) : null;
+}
+
+// A currency and day a rate is needed for.
+export interface MissingFxRate {
+  currency: string;
+  date: string;
+}
+
+export const uniqueMissingRates = (missing: MissingFxRate[]) =>
+  [
+    ...new Map(
+      missing.map((rate) => [`${rate.currency} ${rate.date}`, rate])
+    ).values(),
+  ].sort(
+    (a, b) =>
+      a.date.localeCompare(b.date) || a.currency.localeCompare(b.currency)
+  );
+
+export async function saveFxRates(
+  supabase: SupabaseClient,
+  userId: string,
+  baseCurrency: string,
+  rates: { date: string; currency: string; rate: number }[]
+) {
+  if (rates.length === 0) return;
+  const now = new Date().toISOString();
+  const { error } = await supabase.from('fx_rates').upsert(
+    rates.map((rate) => ({
+      user_id: userId,
+      date: rate.date,
+      currency: rate.currency.toUpperCase(),
+      base_currency: baseCurrency,
+      rate: rate.rate,
+      updated_at: now,
+    })),
+    { onConflict: 'user_id,date,currency,base_currency' }
+  );
+  if (error) throw error;
+}
+
+// Reads a "date,currency,rate" CSV, one rate into the base currency per line.
+// Dates are YYYY-MM-DD. Returns the rows it could read and how many it
+// skipped.
+export function parseFxRatesCsv(text: string) {
+  const { data } = Papa.parse<Record<string, string | undefined>>(text, {
+    header: true,
+    skipEmptyLines: 'greedy',
+    transformHeader: (header) => header.trim().toLowerCase(),
+  });
+  const rates: { date: string; currency: string; rate: number }[] = [];
+  let skippedRows = 0;
+  for (const row of data) {
+    const date = row.date?.trim() ?? '';
+    const currency = row.currency?.trim().toUpperCase() ?? '';
+    const rate = Number(row.rate?.trim());
+    if (
+      !/^\d{4}-\d{2}-\d{2}$/.test(date) ||
+      !isValid(parseISO(date)) ||
+      !/^[A-Z]{3}$/.test(currency) ||
+      !(rate > 0)
+    ) {
+      skippedRows += 1;
+      continue;
+    }
+    rates.push({ date, currency, rate });
+  }
+  return { rates, skippedRows };
+}
+
+// Net P&L in the base currency for a trade's native P&L, or null without a
+// rate for its exit day.
+export function toBaseCurrency(
+  rates: FxRate[],
+  baseCurrency: string,
+  {
+    currency,
+    pnlNative,
+    date,
+  }: { currency: string; pnlNative: number; date: string }
+) {
+  const fxRate = findFxRate(rates, currency, baseCurrency, date);
+  return fxRate === null ? null : { pnl: pnlNative * fxRate, fxRate };
+}
+
+// The base-currency P&L for a new native P&L, at the rate the trade was last
+// converted at. Null while the trade waits for a rate.
+export const pnlAtTradeRate = (trade: Trade, pnlNative: number) =>
+  trade.pnl === undefined || trade.pnl === null
+    ? null
+    : pnlNative * (trade.fx_rate ?? 1);
+
+// Converts every closed trade's native P&L into the current base currency,
+// after the base currency changed or rates were added. Trades without a rate
+// lose their base-currency P&L, which is in a base currency no longer used,
+// and are left out of totals until one is added. Returns how many trades
+// changed and the rates the others need.
+export async function reconvertTradePnL(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<{ updated: number; missing: MissingFxRate[] }> {
+  const baseCurrency = await fetchBaseCurrency(supabase, userId);
+  const rates = await fetchFxRates(supabase, userId, baseCurrency);
+  const { data: trades, error } = await supabase
+    .from('trades')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('status', 'CLOSED')
+    .or('pnl.not.is.null,pnl_native.not.is.null');
+  if (error) throw error;
+
+  const now = new Date().toISOString();
+  const statsDates = new Set<string>();
+  let updated = 0;
+  const missing: MissingFxRate[] = [];
+  for (const trade of (trades ?? []) as Trade[]) {
+    const pnlNative = trade.pnl_native ?? trade.pnl!;
+    const currency = trade.currency ?? DEFAULT_BASE_CURRENCY;
+    const date = trade.exit_date ?? trade.entry_date;
+    const converted = toBaseCurrency(rates, baseCurrency, {
+      currency,
+      pnlNative,
+      date,
+    });
+    if (!converted) missing.push({ currency, date: date.split('T')[0] });
+    if (
+      converted
+        ? trade.pnl !== undefined &&
+          trade.pnl !== null &&
+          Math.abs(converted.pnl - trade.pnl) < 1e-9 &&
+          trade.fx_rate === converted.fxRate
+        : trade.pnl === null
+    )
+      continue;
+    const { error: updateError } = await supabase
+      .from('trades')
+      .update({
+        pnl: converted?.pnl ?? null,
+        pnl_native: pnlNative,
+        fx_rate: converted?.fxRate ?? null,
+        updated_at: now,
+      })
+      .eq('id', trade.id);
+    if (updateError) throw updateError;
+    if (trade.exit_date) statsDates.add(trade.exit_date.split('T')[0]);
+    if (converted) updated += 1;
+  }
+
+  for (const date of statsDates)
+    await recalculateDailyStats(supabase, userId, date);
+  return { updated, missing };
+}
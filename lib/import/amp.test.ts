@@ -0,0 +1,80 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import {
+  isAmpActivityHeaders,
+  parseAmpFillTimes,
+  parseImportText,
+  readCsv,
+} from './index';
+
+const fixture = (name: string) =>
+  readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url), 'utf8');
+
+describe('parseAmpRows', () => {
+  it('reads fills oldest first and charges fee lines to them', () => {
+    const parsed = parseImportText(fixture('amp-statement.csv'));
+    expect(parsed.broker).toBe('AMP');
+    if (!parsed.broker) return;
+    const { executions, unallocatedFees, skippedRows } = parsed.result;
+
+    expect(executions.map((execution) => execution.tradeNumber)).toEqual([
+      'T1',
+      'T2',
+      'T3',
+    ]);
+    expect(executions[0]).toMatchObject({
+      symbol: 'MES',
+      contractMonth: '2025-12',
+      contractKey: 'MESZ25',
+      currency: 'USD',
+      side: 'LONG',
+      quantity: 2,
+      price: 6001.5,
+    });
+    // $1.00 commission, $1.40 exchange and $0.08 NFA fees over 4 contracts.
+    expect(executions[0].commission).toBeCloseTo(1.24);
+    expect(executions[1].commission).toBeCloseTo(0.62);
+    expect(executions[2].commission).toBeCloseTo(0.62);
+
+    // There were no MNQ fills to charge its fee line to.
+    expect(unallocatedFees).toEqual([
+      {
+        day: '2025-11-20',
+        description: 'CLEARING FEES MNQ DEC25',
+        amount: 0.5,
+      },
+    ]);
+    expect(skippedRows).toBe(1);
+  });
+
+  it('reads fill times from a Trade Activity export', () => {
+    const { headers, rows } = readCsv(fixture('amp-activity.csv'));
+    expect(isAmpActivityHeaders(headers)).toBe(true);
+    expect(parseAmpFillTimes(rows)).toEqual(
+      new Map([
+        ['T1', '2025-11-20T09:31:05'],
+        ['T3', '2025-11-20T13:15:30'],
+      ])
+    );
+  });
+
+  it('uses the real fill times where the activity export has them', () => {
+    const parsed = parseImportText(fixture('amp-statement.csv'), {
+      fillTimes: parseAmpFillTimes(readCsv(fixture('amp-activity.csv')).rows),
+    });
+    if (!parsed.broker) throw new Error('Expected an AMP statement');
+    const { executions } = parsed.result;
+
+    expect(executions[0]).toMatchObject({
+      tradeNumber: 'T1',
+      time: '2025-11-20T09:31:05',
+      timeEstimated: false,
+    });
+    // T2 is missing from the activity export, so keeps a made-up time.
+    expect(executions[1]).toMatchObject({
+      tradeNumber: 'T2',
+      time: '2025-11-20T07:01:00',
+      timeEstimated: true,
+    });
+  });
+});
@@ -0,0 +1,277 @@
+import { format, isValid, parse } from 'date-fns';
+import { parseContractPrice } from '@/lib/futures-specs';
+import type { ContractRegistry } from '@/lib/futures-specs';
+import { contractFields } from './matching';
+import type { Execution } from './matching';
+import type { BrokerParseResult, CsvRow, UnallocatedFee } from './types';
+
+export interface AmpCsvRow {
+  DATE: string;
+  'TRADE NUMBER': string;
+  MARKET: string;
+  BUY: string;
+  SELL: string;
+  'CONTRACT DESCRIPTION': string;
+  'TRADE PRICE': string;
+  CCY: string;
+  // Optional per-fill fee columns, for statements reformatted that way.
+  COMMISSION?: string;
+  'CLEARING FEES'?: string;
+  'NFA FEES'?: string;
+  'EXCHANGE FEES'?: string;
+  FEES?: string;
+}
+
+export const AMP_REQUIRED_HEADERS = [
+  'DATE',
+  'TRADE NUMBER',
+  'BUY',
+  'SELL',
+  'CONTRACT DESCRIPTION',
+  'TRADE PRICE',
+];
+
+const FEE_COLUMNS = [
+  'COMMISSION',
+  'CLEARING FEES',
+  'NFA FEES',
+  'EXCHANGE FEES',
+  'FEES',
+] as const;
+
+// AMP prints commission and fees as separate lines per contract and day, e.g.
+// "EXCHANGE FEES MICRO E-MINI NASDAQ DEC25" with the amount in the price
+// column.
+const FEE_NAMES =
+  'COMMISSIONS?|CLEARING(?: FEES?)?|NFA(?: FEES?)?|EXCH(?:ANGE)?(?: FEES?)?';
+export const AMP_FEE_NAME = new RegExp(`\\b(?:${FEE_NAMES})\\b`, 'i');
+const FEE_PREFIX = new RegExp(`^(?:${FEE_NAMES})\\b\\s*`, 'i');
+
+const feeAmount = (value: string | undefined) => {
+  const amount = Number(value?.replace(/[,$]|DR|CR/gi, '').trim());
+  return Number.isFinite(amount) ? Math.abs(amount) : 0;
+};
+
+const parseAmpDate = (value: string): string | null => {
+  const parsed = parse(value.trim(), 'dd-MMM-yy', new Date());
+  return isValid(parsed) ? format(parsed, "yyyy-MM-dd'T'00:00:00") : null;
+};
+
+const withDefaultExecutionTime = (
+  dateAtMidnight: string,
+  sequence: number
+): string => {
+  const timestamp = new Date(dateAtMidnight);
+  timestamp.setHours(7, sequence * 1, 0, 0);
+  return format(timestamp, "yyyy-MM-dd'T'HH:mm:ss");
+};
+
+// AMP's intraday Trade Activity and fill-confirmation exports carry the real
+// fill times that the statement leaves out. Header names vary between the
+// platforms AMP offers, so the first match in each list is used.
+const ACTIVITY_TRADE_NUMBER_HEADERS = [
+  'TRADE NUMBER',
+  'TRADE #',
+  'TRADE NO',
+  'TRADE ID',
+  'FILL ID',
+  'EXECUTION ID',
+];
+const ACTIVITY_TIME_HEADERS = [
+  'FILL TIME',
+  'EXECUTION TIME',
+  'TRADE TIME',
+  'DATE/TIME',
+  'TIMESTAMP',
+  'TIME',
+];
+const ACTIVITY_DATE_HEADERS = ['TRADE DATE', 'DATE'];
+const ACTIVITY_TIME_FORMATS = [
+  'MM/dd/yyyy HH:mm:ss',
+  'M/d/yyyy h:mm:ss a',
+  'M/d/yyyy H:mm:ss',
+  'yyyy-MM-dd HH:mm:ss',
+  "yyyy-MM-dd'T'HH:mm:ss",
+  'dd-MMM-yy HH:mm:ss',
+  'dd-MMM-yyyy HH:mm:ss',
+];
+
+const findHeader = (headers: string[], candidates: string[]) =>
+  candidates.find((candidate) => headers.includes(candidate));
+
+export const isAmpActivityHeaders = (headers: string[]): boolean =>
+  !!findHeader(headers, ACTIVITY_TRADE_NUMBER_HEADERS) &&
+  !!findHeader(headers, ACTIVITY_TIME_HEADERS);
+
+const parseActivityTime = (value: string): string | null => {
+  const text = value
+    .trim()
+    .replace(/\.\d+$/, '')
+    .replace(/\s+/g, ' ');
+  for (const pattern of ACTIVITY_TIME_FORMATS) {
+    const parsed = parse(text, pattern, new Date());
+    if (isValid(parsed)) return format(parsed, "yyyy-MM-dd'T'HH:mm:ss");
+  }
+  return null;
+};
+
+// Returns fill times keyed by trade number.
+export function parseAmpFillTimes(data: CsvRow[]): Map<string, string> {
+  const headers = Object.keys(data[0] ?? {});
+  const numberHeader = findHeader(headers, ACTIVITY_TRADE_NUMBER_HEADERS);
+  const timeHeader = findHeader(headers, ACTIVITY_TIME_HEADERS);
+  const dateHeader = findHeader(headers, ACTIVITY_DATE_HEADERS);
+  const fillTimes = new Map<string, string>();
+  if (!numberHeader || !timeHeader) return fillTimes;
+
+  for (const row of data) {
+    const tradeNumber = row[numberHeader]?.trim();
+    const value = row[timeHeader]?.trim();
+    if (!tradeNumber || !value) continue;
+    // Some exports split the date and the time of day into two columns.
+    const time =
+      parseActivityTime(value) ??
+      (dateHeader && row[dateHeader]
+        ? parseActivityTime(`${row[dateHeader]} ${value}`)
+        : null);
+    if (time) fillTimes.set(tradeNumber, time);
+  }
+  return fillTimes;
+}
+
+interface AmpFee {
+  day: string;
+  description: string;
+  // Undefined when the line names no contract.
+  contractKey?: string;
+  amount: number;
+}
+
+// Spreads each fee line over the fills of its contract on that day by
+// quantity, or over every fill that day when the contract is not named. A
+// line for a contract with no fills that day is not moved onto other
+// contracts' fills. Returns the fee lines that had no fills to go to.
+function allocateFees(
+  executions: Execution[],
+  fees: AmpFee[]
+): UnallocatedFee[] {
+  const unallocated: UnallocatedFee[] = [];
+  for (const fee of fees) {
+    const sameDay = executions.filter((execution) =>
+      execution.time.startsWith(fee.day)
+    );
+    const targets = fee.contractKey
+      ? sameDay.filter((execution) => execution.contractKey === fee.contractKey)
+      : sameDay;
+    const quantity = targets.reduce((sum, { quantity }) => sum + quantity, 0);
+    if (quantity === 0) {
+      unallocated.push({
+        day: fee.day,
+        description: fee.description,
+        amount: fee.amount,
+      });
+      continue;
+    }
+    for (const execution of targets)
+      execution.commission =
+        (execution.commission ?? 0) +
+        (fee.amount * execution.quantity) / quantity;
+  }
+  return unallocated;
+}
+
+// Fills found in fillTimes get their real time; the rest keep a made-up time
+// in statement order and are flagged as estimated.
+export function parseAmpRows(
+  data: CsvRow[],
+  fillTimes?: Map<string, string>,
+  contracts?: ContractRegistry
+): BrokerParseResult {
+  const fees: AmpFee[] = [];
+  for (const row of data as unknown as AmpCsvRow[]) {
+    const description = row['CONTRACT DESCRIPTION']?.trim() ?? '';
+    const label = description.match(FEE_PREFIX);
+    if (!label || row.BUY || row.SELL) continue;
+    const day = row.DATE && parseAmpDate(row.DATE);
+    const amount = feeAmount(row['TRADE PRICE']);
+    const contract = description.slice(label[0].length).trim();
+    if (day && amount > 0)
+      fees.push({
+        day: day.slice(0, 10),
+        description,
+        contractKey: contract
+          ? contractFields(contract, contracts).contractKey
+          : undefined,
+        amount,
+      });
+  }
+
+  // AMP lists the newest fills first.
+  const rows = (data as unknown as AmpCsvRow[])
+    .filter(
+      (row) =>
+        row.DATE &&
+        row['CONTRACT DESCRIPTION'] &&
+        row['TRADE PRICE'] &&
+        (row.BUY || row.SELL)
+    )
+    .reverse();
+  const executions: Execution[] = [];
+  const executionsPerDate = new Map<string, number>();
+  let skippedRows = 0;
+
+  for (const row of rows) {
+    const quantity = Number(row.BUY || row.SELL);
+    const price = parseContractPrice(row['TRADE PRICE']) ?? NaN;
+    const dateAtMidnight = parseAmpDate(row.DATE);
+    if (
+      !Number.isFinite(quantity) ||
+      quantity <= 0 ||
+      !Number.isFinite(price) ||
+      !dateAtMidnight
+    ) {
+      skippedRows += 1;
+      continue;
+    }
+    const sequence = executionsPerDate.get(dateAtMidnight) ?? 0;
+    executionsPerDate.set(dateAtMidnight, sequence + 1);
+
+    const commission = FEE_COLUMNS.reduce(
+      (sum, column) => sum + feeAmount(row[column]),
+      0
+    );
+    const fields = contractFields(row['CONTRACT DESCRIPTION'], contracts);
+    const currency = row.CCY?.trim().toUpperCase();
+
+    executions.push({
+      ...fields,
+      // The statement's currency column wins over the contract spec's.
+      currency: /^[A-Z]{3}$/.test(currency ?? '') ? currency : fields.currency,
+      side: row.BUY ? 'LONG' : 'SHORT',
+      quantity,
+      price,
+      time: withDefaultExecutionTime(dateAtMidnight, sequence),
+      tradeNumber: row['TRADE NUMBER']?.trim() || undefined,
+      commission: commission || undefined,
+      timeEstimated: true,
+    });
+  }
+
+  // Fees are charged per statement date, so allocate them before real times
+  // move evening fills onto the previous calendar day.
+  const unallocatedFees = allocateFees(executions, fees);
+  skippedRows += unallocatedFees.length;
+
+  for (const execution of executions) {
+    const time = execution.tradeNumber && fillTimes?.get(execution.tradeNumber);
+    if (!time) continue;
+    execution.time = time;
+    execution.timeEstimated = false;
+  }
+  // Statement order is kept while any time is made up, since mixing real and
+  // made-up times would scramble it.
+  if (executions.every((execution) => !execution.timeEstimated))
+    executions.sort((a, b) => a.time.localeCompare(b.time));
+
+  return { executions, unallocatedFees, skippedRows };
+}
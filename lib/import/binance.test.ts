@@ -0,0 +1,120 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { addFundingHistory, matchExecutions, parseImportText } from './index';
+
+const fixture = (name: string) =>
+  readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url), 'utf8');
+
+const parse = (name: string) => {
+  const parsed = parseImportText(fixture(name));
+  expect(parsed.broker).toBe('BINANCE');
+  if (!parsed.broker) throw new Error('Expected a Binance export');
+  return parsed.result;
+};
+
+describe('parseBinanceRows', () => {
+  it('reads COIN-M fills as inverse contracts with fees in the coin', () => {
+    const { executions, skippedRows } = parse('binance-coinm-trades.csv');
+
+    expect(skippedRows).toBe(1);
+    expect(executions).toHaveLength(2);
+    expect(executions[0]).toMatchObject({
+      contractKey: 'BTCUSD_PERP',
+      symbol: 'BTC',
+      currency: 'USD',
+      assetClass: 'CRYPTO',
+      cryptoContract: 'INVERSE',
+      side: 'LONG',
+      quantity: 10,
+      price: 50000,
+      time: '2025-11-20T08:00:00',
+      multiplier: 100,
+    });
+    // 0.00002 BTC at $50,000.
+    expect(executions[0].commission).toBeCloseTo(1);
+    expect(executions[1].commission).toBeCloseTo(0.6);
+  });
+
+  it('keeps only funding fees from the transaction history', () => {
+    const { executions, funding } = parse('binance-coinm-income.csv');
+
+    expect(executions).toEqual([]);
+    expect(funding).toEqual([
+      {
+        contractKey: 'BTCUSD_PERP',
+        amount: 0.0001,
+        time: '2025-11-20T16:00:00',
+        inCoin: true,
+      },
+      {
+        contractKey: 'ETHUSDT',
+        amount: -1.25,
+        time: '2025-11-20T16:00:00',
+        inCoin: false,
+      },
+    ]);
+  });
+
+  it('values coin funding and P&L at the exit price', () => {
+    const { executions } = parse('binance-coinm-trades.csv');
+    const { funding } = parse('binance-coinm-income.csv');
+    const { trades, openLots } = matchExecutions(
+      executions,
+      [],
+      undefined,
+      funding,
+      'FIFO'
+    );
+
+    expect(openLots).toEqual([]);
+    expect(trades).toHaveLength(1);
+    // 10 contracts of $100 earn 1000 × (1/50,000 − 1/60,000) BTC, and the
+    // funding 0.0001 BTC, both at $60,000.
+    expect(trades[0].funding).toBeCloseTo(6);
+    expect(trades[0].pnl).toBeCloseTo(200 - 1.6 + 6);
+  });
+
+  it('adds a transaction history to the trades imported with it', () => {
+    const income = fixture('binance-coinm-income.csv');
+    const result = addFundingHistory(
+      parse('binance-coinm-trades.csv'),
+      'BINANCE',
+      income
+    );
+
+    // Adding the same history again doesn't count its payments twice.
+    expect(addFundingHistory(result, 'BINANCE', income).funding).toEqual(
+      result.funding
+    );
+    const { trades } = matchExecutions(
+      result.executions,
+      [],
+      undefined,
+      result.funding,
+      'FIFO'
+    );
+    expect(trades[0].funding).toBeCloseTo(6);
+    expect(() =>
+      addFundingHistory(result, 'BINANCE', fixture('binance-spot.csv'))
+    ).toThrow('no funding payments');
+  });
+
+  it('reads spot fills by pair, valuing fees paid in the coin', () => {
+    const { executions, skippedRows } = parse('binance-spot.csv');
+
+    // ETHBTC is quoted in a coin, so can't be valued.
+    expect(skippedRows).toBe(1);
+    expect(executions).toMatchObject([
+      {
+        contractKey: 'BTC/USDT',
+        cryptoContract: 'SPOT',
+        side: 'LONG',
+        quantity: 0.5,
+        price: 60000,
+        commission: 30,
+        multiplier: undefined,
+      },
+      { side: 'SHORT', quantity: 0.5, price: 62000, commission: 31 },
+    ]);
+  });
+});
@@ -0,0 +1,123 @@
+import { quoteCurrency } from '@/lib/crypto';
+import {
+  cryptoFields,
+  feeInQuote,
+  hasAny,
+  parseAmount,
+  parseCryptoTimestamp,
+  pick,
+  sideFromText,
+} from './crypto';
+import type { Execution, FundingEvent } from './matching';
+import type { BrokerParseResult, CsvRow } from './types';
+
+// Binance's spot Trade History names the pair "Pair" (older exports
+// "Market"), its futures Trade History "Symbol", and its futures Transaction
+// History lists funding fees by symbol.
+const PAIR_HEADERS = ['PAIR', 'MARKET'];
+const SYMBOL_HEADERS = ['SYMBOL'];
+const SIDE_HEADERS = ['SIDE', 'TYPE'];
+const PRICE_HEADERS = ['PRICE', 'AVG PRICE'];
+// The newer spot export puts the filled quantity in "Executed" and the
+// quote total in "Amount".
+const QUANTITY_HEADERS = ['EXECUTED', 'QUANTITY', 'QTY', 'AMOUNT'];
+const FEE_HEADERS = ['FEE'];
+const FEE_UNIT_HEADERS = ['FEE COIN', 'FEE ASSET'];
+const TIME_HEADERS = ['DATE(UTC)', 'TIME(UTC)', 'TIME', 'DATE'];
+const ID_HEADERS = ['TRADE ID', 'ID', 'ORDER ID', 'ORDER NO'];
+const INCOME_TYPE_HEADERS = ['INCOME TYPE', 'TYPE'];
+const INCOME_HEADERS = ['INCOME', 'AMOUNT'];
+const ASSET_HEADERS = ['ASSET', 'COIN'];
+
+// COIN-M contracts: BTC's are worth 100 US dollars and every other coin's 10.
+const isCoinMargined = (symbol: string) => /USD_(PERP|\d{6})$/.test(symbol);
+const coinMarginedContractSize = (symbol: string) =>
+  symbol.startsWith('BTCUSD_') ? 100 : 10;
+
+export const isBinanceHeaders = (headers: string[]): boolean =>
+  (hasAny(headers, ['DATE(UTC)', 'TIME(UTC)']) &&
+    hasAny(headers, [...PAIR_HEADERS, ...SYMBOL_HEADERS])) ||
+  (headers.includes('INCOME TYPE') && hasAny(headers, SYMBOL_HEADERS));
+
+export function parseBinanceRows(data: CsvRow[]): BrokerParseResult {
+  const executions: Execution[] = [];
+  const funding: FundingEvent[] = [];
+  let skippedRows = 0;
+
+  for (const row of data) {
+    const spotPair = pick(row, PAIR_HEADERS).toUpperCase();
+    const symbol = spotPair || pick(row, SYMBOL_HEADERS).toUpperCase();
+    const time = parseCryptoTimestamp(pick(row, TIME_HEADERS));
+
+    // Transaction History rows have no price. Only funding fees are kept;
+    // realized P&L, commission and transfer rows repeat what the trade
+    // history already says.
+    if (!pick(row, PRICE_HEADERS)) {
+      const incomeType = pick(row, INCOME_TYPE_HEADERS)
+        .toUpperCase()
+        .replace(/[\s-]+/g, '_');
+      if (incomeType !== 'FUNDING_FEE') continue;
+      const amount = parseAmount(pick(row, INCOME_HEADERS)).amount;
+      if (!symbol || !time || !Number.isFinite(amount)) {
+        skippedRows += 1;
+        continue;
+      }
+      // COIN-M funding is paid in the coin.
+      const asset = pick(row, ASSET_HEADERS).toUpperCase();
+      funding.push({
+        contractKey: symbol,
+        amount,
+        time,
+        inCoin: !!asset && quoteCurrency(asset) === null,
+      });
+      continue;
+    }
+
+    const cryptoContract = spotPair
+      ? 'SPOT'
+      : isCoinMargined(symbol)
+      ? 'INVERSE'
+      : 'LINEAR';
+    const fields = symbol ? cryptoFields(symbol, cryptoContract) : null;
+    const side = sideFromText(pick(row, SIDE_HEADERS));
+    const quantity = parseAmount(pick(row, QUANTITY_HEADERS)).amount;
+    const price = parseAmount(pick(row, PRICE_HEADERS)).amount;
+    if (
+      !fields ||
+      !side ||
+      !Number.isFinite(quantity) ||
+      quantity <= 0 ||
+      !Number.isFinite(price) ||
+      price <= 0 ||
+      !time
+    ) {
+      skippedRows += 1;
+      continue;
+    }
+
+    const fee = parseAmount(pick(row, FEE_HEADERS));
+    const feeUnit = pick(row, FEE_UNIT_HEADERS).toUpperCase();
+    const { quote, ...execution } = fields;
+    executions.push({
+      ...execution,
+      side,
+      quantity,
+      price,
+      time,
+      commission: feeInQuote(
+        { amount: fee.amount, unit: fee.unit || feeUnit },
+        { base: fields.symbol, quote, price }
+      ),
+      multiplier:
+        cryptoContract === 'INVERSE'
+          ? coinMarginedContractSize(symbol)
+          : undefined,
+      tradeNumber: pick(row, ID_HEADERS) || undefined,
+    });
+  }
+
+  // Binance lists the newest fills first.
+  executions.sort((a, b) => a.time.localeCompare(b.time));
+  funding.sort((a, b) => a.time.localeCompare(b.time));
+  return { executions, funding, skippedRows };
+}
@@ -0,0 +1,79 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { matchExecutions, parseImportText } from './index';
+
+const fixture = (name: string) =>
+  readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url), 'utf8');
+
+describe('parseBybitRows', () => {
+  const parse = () => {
+    const parsed = parseImportText(fixture('bybit-derivatives.csv'));
+    expect(parsed.broker).toBe('BYBIT');
+    if (!parsed.broker) throw new Error('Expected a Bybit export');
+    return parsed.result;
+  };
+
+  it('reads linear and inverse fills and their funding', () => {
+    const { executions, funding, skippedRows } = parse();
+
+    // The transfer is not a trade.
+    expect(skippedRows).toBe(0);
+    expect(executions.map((execution) => execution.tradeNumber)).toEqual([
+      'b1',
+      'b3',
+      'b4',
+    ]);
+    expect(executions[0]).toMatchObject({
+      contractKey: 'BTCUSDT',
+      cryptoContract: 'LINEAR',
+      side: 'LONG',
+      quantity: 0.1,
+      price: 60000,
+      commission: 3.3,
+      multiplier: undefined,
+    });
+    // Inverse fees are in the coin: 0.00001 BTC at $60,000.
+    expect(executions[2]).toMatchObject({
+      contractKey: 'BTCUSD',
+      cryptoContract: 'INVERSE',
+      side: 'SHORT',
+      quantity: 1000,
+      multiplier: 1,
+    });
+    expect(executions[2].commission).toBeCloseTo(0.6);
+    expect(funding).toEqual([
+      {
+        contractKey: 'BTCUSDT',
+        amount: -0.5,
+        time: '2025-11-20T16:00:00',
+        inCoin: false,
+      },
+      {
+        contractKey: 'BTCUSD',
+        amount: 0.00002,
+        time: '2025-11-21T16:00:00',
+        inCoin: true,
+      },
+    ]);
+  });
+
+  it('charges funding to the positions open when it was paid', () => {
+    const { executions, funding } = parse();
+    const { trades, openLots } = matchExecutions(
+      executions,
+      [],
+      undefined,
+      funding,
+      'FIFO'
+    );
+
+    expect(trades).toHaveLength(1);
+    expect(trades[0]).toMatchObject({ symbol: 'BTC', funding: -0.5 });
+    expect(trades[0].pnl).toBeCloseTo(100 - 6.655 - 0.5);
+    // Coin funding on the open short is kept in coins until it closes.
+    expect(openLots).toHaveLength(1);
+    expect(openLots[0]).toMatchObject({ contractKey: 'BTCUSD' });
+    expect(openLots[0].funding).toBeUndefined();
+    expect(openLots[0].fundingCoins).toBeCloseTo(0.00002);
+  });
+});
@@ -0,0 +1,135 @@
+import {
+  cryptoFields,
+  feeInQuote,
+  hasAny,
+  parseAmount,
+  parseCryptoTimestamp,
+  pick,
+  sideFromText,
+} from './crypto';
+import type { Execution, FundingEvent } from './matching';
+import type { BrokerParseResult, CsvRow } from './types';
+
+// Bybit's derivatives Trade History, its spot Trade History and the unified
+// account's Transaction Log, which also lists funding settlements.
+const SPOT_PAIR_HEADERS = ['SPOT PAIRS', 'SPOT PAIR'];
+const SYMBOL_HEADERS = ['CONTRACTS', 'CONTRACT', 'SYMBOL'];
+const SIDE_HEADERS = ['DIRECTION', 'SIDE', 'TRADE TYPE'];
+const QUANTITY_HEADERS = ['FILLED QTY', 'EXEC QTY', 'FILLED QUANTITY', 'QTY'];
+const PRICE_HEADERS = ['FILLED PRICE', 'EXEC PRICE', 'PRICE'];
+const FEE_HEADERS = ['TRADING FEE', 'EXEC FEE', 'FEES', 'FEE'];
+const FEE_UNIT_HEADERS = ['FEE CURRENCY', 'FEE COIN'];
+const TIME_HEADERS = [
+  'TRADE TIME(UTC+0)',
+  'FILLED TIME(UTC+0)',
+  'TRANSACTION TIME(UTC+0)',
+  'TRADE TIME',
+  'FILLED TIME',
+  'TIME(UTC)',
+  'TIME',
+];
+const ID_HEADERS = ['EXEC ID', 'TRANSACTION ID', 'TRADE ID', 'ORDER ID'];
+const TYPE_HEADERS = ['EXEC TYPE', 'TYPE'];
+// The wallet change, negative when funding was paid.
+const CASH_FLOW_HEADERS = ['CASH FLOW', 'CHANGE'];
+
+// Inverse perpetuals are quoted in dollars, e.g. "BTCUSD", and are worth one
+// dollar each.
+const isInverse = (symbol: string) => symbol.endsWith('USD');
+
+export const isBybitHeaders = (headers: string[]): boolean =>
+  hasAny(headers, [...SPOT_PAIR_HEADERS, ...SYMBOL_HEADERS]) &&
+  hasAny(headers, [
+    'EXEC TYPE',
+    'FILLED PRICE',
+    'FILLED QTY',
+    'TRADE TIME(UTC+0)',
+    'TRANSACTION TIME(UTC+0)',
+    'TRADING FEE',
+    'CASH FLOW',
+  ]);
+
+export function parseBybitRows(data: CsvRow[]): BrokerParseResult {
+  const executions: Execution[] = [];
+  const funding: FundingEvent[] = [];
+  let skippedRows = 0;
+
+  for (const row of data) {
+    const spotPair = pick(row, SPOT_PAIR_HEADERS).toUpperCase();
+    const symbol =
+      spotPair || pick(row, SYMBOL_HEADERS).replace(/\s+/g, '').toUpperCase();
+    const time = parseCryptoTimestamp(pick(row, TIME_HEADERS));
+    const type = pick(row, TYPE_HEADERS).toUpperCase();
+
+    if (type === 'FUNDING' || type === 'SETTLEMENT') {
+      const cashFlow = pick(row, CASH_FLOW_HEADERS);
+      // Trade History reports funding as a fee, positive when paid.
+      const amount = cashFlow
+        ? parseAmount(cashFlow).amount
+        : -parseAmount(pick(row, FEE_HEADERS)).amount;
+      if (!symbol || !time || !Number.isFinite(amount)) {
+        skippedRows += 1;
+        continue;
+      }
+      funding.push({
+        contractKey: symbol,
+        amount,
+        time,
+        inCoin: isInverse(symbol),
+      });
+      continue;
+    }
+    // Liquidations fill as "BUST". Transfers, interest and other log entries
+    // aren't trades.
+    if (type && type !== 'TRADE' && type !== 'BUST') continue;
+
+    const cryptoContract = spotPair
+      ? 'SPOT'
+      : isInverse(symbol)
+      ? 'INVERSE'
+      : 'LINEAR';
+    const fields = symbol ? cryptoFields(symbol, cryptoContract) : null;
+    const side = sideFromText(pick(row, SIDE_HEADERS));
+    const quantity = parseAmount(pick(row, QUANTITY_HEADERS)).amount;
+    const price = parseAmount(pick(row, PRICE_HEADERS)).amount;
+    if (
+      !fields ||
+      !side ||
+      !Number.isFinite(quantity) ||
+      quantity <= 0 ||
+      !Number.isFinite(price) ||
+      price <= 0 ||
+      !time
+    ) {
+      skippedRows += 1;
+      continue;
+    }
+
+    const fee = parseAmount(pick(row, FEE_HEADERS));
+    const { quote, ...execution } = fields;
+    executions.push({
+      ...execution,
+      side,
+      quantity,
+      price,
+      time,
+      // Inverse contracts pay fees in the coin.
+      commission: feeInQuote(
+        {
+          amount: fee.amount,
+          unit:
+            fee.unit ||
+            pick(row, FEE_UNIT_HEADERS).toUpperCase() ||
+            (cryptoContract === 'INVERSE' ? fields.symbol : ''),
+        },
+        { base: fields.symbol, quote, price }
+      ),
+      multiplier: cryptoContract === 'INVERSE' ? 1 : undefined,
+      tradeNumber: pick(row, ID_HEADERS) || undefined,
+    });
+  }
+
+  executions.sort((a, b) => a.time.localeCompare(b.time));
+  funding.sort((a, b) => a.time.localeCompare(b.time));
+  return { executions, funding, skippedRows };
+}
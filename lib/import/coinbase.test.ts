@@ -0,0 +1,75 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { matchExecutions, parseImportText } from './index';
+
+const fixture = (name: string) =>
+  readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url), 'utf8');
+
+const parse = (name: string) => {
+  const parsed = parseImportText(fixture(name));
+  expect(parsed.broker).toBe('COINBASE');
+  if (!parsed.broker) throw new Error('Expected a Coinbase export');
+  return parsed.result;
+};
+
+describe('parseCoinbaseRows', () => {
+  it('reads buys and sells from the Transaction History report', () => {
+    const { executions, skippedRows } = parse('coinbase-transactions.csv');
+
+    // The send moves coins without a trade.
+    expect(skippedRows).toBe(0);
+    expect(executions).toEqual([
+      {
+        contractKey: 'BTC/USD',
+        symbol: 'BTC',
+        currency: 'USD',
+        assetClass: 'CRYPTO',
+        cryptoContract: 'SPOT',
+        side: 'LONG',
+        quantity: 0.01,
+        price: 60000,
+        time: '2025-11-20T10:00:00',
+        commission: 5.99,
+        tradeNumber: 't1',
+      },
+      expect.objectContaining({
+        side: 'SHORT',
+        quantity: 0.008,
+        price: 62000,
+        time: '2025-11-22T10:00:00',
+        commission: 3.1,
+      }),
+    ]);
+
+    const { trades, openLots } = matchExecutions(
+      executions,
+      [],
+      undefined,
+      [],
+      'FIFO'
+    );
+    expect(trades).toHaveLength(1);
+    // 80% of the buy's fee goes with the coins sold.
+    expect(trades[0].pnl).toBeCloseTo(16 - 5.99 * 0.8 - 3.1);
+    expect(openLots[0].quantity).toBeCloseTo(0.002);
+  });
+
+  it('reads Advanced Trade fills sized in either currency', () => {
+    const { executions, skippedRows } = parse('coinbase-fills.csv');
+
+    expect(skippedRows).toBe(0);
+    expect(executions).toMatchObject([
+      {
+        contractKey: 'ETH/USD',
+        side: 'LONG',
+        price: 2500,
+        time: '2025-11-20T10:00:00',
+        commission: 0.6,
+        tradeNumber: 'f1',
+      },
+      { side: 'SHORT', quantity: 0.04, price: 2600, commission: 0.62 },
+    ]);
+    // $100 at $2,500.
+    expect(executions[0].quantity).toBeCloseTo(0.04);
+  });
+});
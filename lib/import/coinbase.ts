@@ -0,0 +1,129 @@
+import {
+  cryptoFields,
+  feeInQuote,
+  hasAny,
+  parseAmount,
+  parseCryptoTimestamp,
+  pick,
+} from './crypto';
+import type { Execution } from './matching';
+import type { BrokerParseResult, CsvRow } from './types';
+
+// Coinbase's Transaction History report lists every account movement, one
+// asset per row. Advanced Trade's fills export lists one fill per row by
+// product, e.g. "BTC-USD".
+const TRANSACTION_TYPE_HEADERS = ['TRANSACTION TYPE'];
+const ASSET_HEADERS = ['ASSET'];
+const TRANSACTION_QUANTITY_HEADERS = ['QUANTITY TRANSACTED'];
+const PRICE_CURRENCY_HEADERS = ['PRICE CURRENCY', 'SPOT PRICE CURRENCY'];
+const TRANSACTION_PRICE_HEADERS = [
+  'PRICE AT TRANSACTION',
+  'SPOT PRICE AT TRANSACTION',
+];
+const TRANSACTION_FEE_HEADERS = ['FEES AND/OR SPREAD', 'FEES'];
+const PRODUCT_HEADERS = ['PRODUCT'];
+const SIZE_HEADERS = ['SIZE'];
+const SIZE_UNIT_HEADERS = ['SIZE UNIT'];
+const FILL_PRICE_HEADERS = ['PRICE'];
+const FILL_FEE_HEADERS = ['FEE'];
+const TIME_HEADERS = ['TIMESTAMP', 'CREATED AT', 'TIME'];
+const ID_HEADERS = ['TRADE ID', 'ID'];
+
+// The Transaction History report opens with a few lines about the account
+// before its header row.
+const TRANSACTION_HEADER_LINE = /^"?(ID,)?"?TIMESTAMP"?,"?TRANSACTION TYPE"?,/i;
+
+export const skipCoinbasePreamble = (text: string): string => {
+  const lines = text.split(/\r?\n/);
+  const headerIndex = lines.findIndex((line) =>
+    TRANSACTION_HEADER_LINE.test(line.trim())
+  );
+  return headerIndex > 0 ? lines.slice(headerIndex).join('\n') : text;
+};
+
+export const isCoinbaseHeaders = (headers: string[]): boolean =>
+  (hasAny(headers, TRANSACTION_TYPE_HEADERS) &&
+    hasAny(headers, TRANSACTION_QUANTITY_HEADERS)) ||
+  (hasAny(headers, PRODUCT_HEADERS) &&
+    hasAny(headers, SIZE_UNIT_HEADERS) &&
+    headers.includes('CREATED AT'));
+
+// Buys and sells, including Advanced Trade ones. Converts, sends, rewards and
+// staking move coins without a price to match against.
+const transactionSide = (type: string) =>
+  /^(ADVANCED TRADE )?BUY$/.test(type)
+    ? 'LONG'
+    : /^(ADVANCED TRADE )?SELL$/.test(type)
+    ? 'SHORT'
+    : null;
+
+export function parseCoinbaseRows(data: CsvRow[]): BrokerParseResult {
+  const executions: Execution[] = [];
+  let skippedRows = 0;
+
+  for (const row of data) {
+    const time = parseCryptoTimestamp(pick(row, TIME_HEADERS));
+    const product = pick(row, PRODUCT_HEADERS).toUpperCase();
+
+    let pair: string;
+    let side: Execution['side'] | null;
+    let quantity: number;
+    let price: number;
+    let fee: { amount: number; unit: string };
+    if (product) {
+      pair = product;
+      side = transactionSide(pick(row, ['SIDE']).toUpperCase());
+      price = parseAmount(pick(row, FILL_PRICE_HEADERS)).amount;
+      const size = parseAmount(pick(row, SIZE_HEADERS)).amount;
+      // Market buys can be sized in the quote currency.
+      const sizeUnit = pick(row, SIZE_UNIT_HEADERS).toUpperCase();
+      quantity =
+        sizeUnit && !product.startsWith(`${sizeUnit}-`) ? size / price : size;
+      fee = {
+        ...parseAmount(pick(row, FILL_FEE_HEADERS)),
+        unit: pick(row, ['PRICE/FEE/TOTAL UNIT']).toUpperCase(),
+      };
+    } else {
+      side = transactionSide(pick(row, TRANSACTION_TYPE_HEADERS).toUpperCase());
+      if (!side) continue;
+      const priceCurrency = pick(row, PRICE_CURRENCY_HEADERS).toUpperCase();
+      pair = `${pick(row, ASSET_HEADERS).toUpperCase()}-${priceCurrency}`;
+      quantity = Math.abs(
+        parseAmount(pick(row, TRANSACTION_QUANTITY_HEADERS)).amount
+      );
+      price = parseAmount(pick(row, TRANSACTION_PRICE_HEADERS)).amount;
+      fee = {
+        ...parseAmount(pick(row, TRANSACTION_FEE_HEADERS)),
+        unit: priceCurrency,
+      };
+    }
+
+    const fields = cryptoFields(pair, 'SPOT');
+    if (
+      !fields ||
+      !side ||
+      !Number.isFinite(quantity) ||
+      quantity <= 0 ||
+      !Number.isFinite(price) ||
+      price <= 0 ||
+      !time
+    ) {
+      skippedRows += 1;
+      continue;
+    }
+
+    const { quote, ...execution } = fields;
+    executions.push({
+      ...execution,
+      side,
+      quantity,
+      price,
+      time,
+      commission: feeInQuote(fee, { base: fields.symbol, quote, price }),
+      tradeNumber: pick(row, ID_HEADERS) || undefined,
+    });
+  }
+
+  executions.sort((a, b) => a.time.localeCompare(b.time));
+  return { executions, skippedRows };
+}
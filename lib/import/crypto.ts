@@ -0,0 +1,107 @@
+import { format, isValid, parse, parseISO } from 'date-fns';
+import { quoteCurrency, splitCryptoPair } from '@/lib/crypto';
+import type { CryptoContract } from '@/types/database';
+import type { TradeSide } from './matching';
+import type { CsvRow } from './types';
+
+// Shared by the Binance, Bybit and Coinbase parsers. Exchange exports are in
+// UTC and are stored as written.
+
+const TIMESTAMP_FORMATS = [
+  'yyyy-MM-dd HH:mm:ss',
+  'yyyy-MM-dd HH:mm',
+  'yyyy/MM/dd HH:mm:ss',
+  'MM/dd/yyyy HH:mm:ss',
+  'dd/MM/yyyy HH:mm:ss',
+];
+
+export const parseCryptoTimestamp = (value: string): string | null => {
+  const trimmed = value
+    .trim()
+    .replace(/\s*(UTC|Z)$/i, '')
+    .replace(/\.\d+$/, '');
+  if (!trimmed) return null;
+  if (/^\d{13}$/.test(trimmed))
+    return format(new Date(Number(trimmed)), "yyyy-MM-dd'T'HH:mm:ss");
+  if (/^\d{4}-\d{2}-\d{2}T/.test(trimmed)) {
+    const parsed = parseISO(trimmed);
+    return isValid(parsed) ? format(parsed, "yyyy-MM-dd'T'HH:mm:ss") : null;
+  }
+  for (const pattern of TIMESTAMP_FORMATS) {
+    const parsed = parse(trimmed, pattern, new Date());
+    if (isValid(parsed)) return format(parsed, "yyyy-MM-dd'T'HH:mm:ss");
+  }
+  return null;
+};
+
+export const pick = (row: CsvRow, headers: string[]): string => {
+  for (const header of headers) {
+    const value = row[header]?.trim();
+    if (value) return value;
+  }
+  return '';
+};
+
+export const hasAny = (headers: string[], candidates: string[]) =>
+  candidates.some((candidate) => headers.includes(candidate));
+
+// "0.00100000BTC", "1,234.5 USDT", "$1.99" or "-0.12": the number and the
+// unit written after it, if any.
+export function parseAmount(value: string): { amount: number; unit: string } {
+  const match = value
+    .replace(/,/g, '')
+    .trim()
+    .match(/^([-+]?)[^\d.-]*([\d.]+(?:e[-+]?\d+)?)\s*([A-Za-z]*)$/i);
+  if (!match) return { amount: NaN, unit: '' };
+  const amount = Number(match[2]);
+  return {
+    amount: match[1] === '-' ? -amount : amount,
+    unit: match[3].toUpperCase(),
+  };
+}
+
+export const sideFromText = (value: string): TradeSide | null => {
+  const normalized = value.trim().toUpperCase();
+  if (/\bBUY\b/.test(normalized) || /OPEN LONG|CLOSE SHORT/.test(normalized))
+    return 'LONG';
+  if (/\bSELL\b/.test(normalized) || /OPEN SHORT|CLOSE LONG/.test(normalized))
+    return 'SHORT';
+  return null;
+};
+
+// The execution fields for an exchange's symbol. Spot pairs are keyed by
+// base and quote so they never match a perpetual on the same pair. Null for
+// pairs quoted in another coin.
+export function cryptoFields(symbol: string, cryptoContract: CryptoContract) {
+  const pair = splitCryptoPair(symbol);
+  const currency = pair && quoteCurrency(pair.quote);
+  if (!pair || !currency) return null;
+  return {
+    contractKey:
+      cryptoContract === 'SPOT'
+        ? `${pair.base}/${pair.quote}`
+        : symbol.trim().toUpperCase(),
+    symbol: pair.base,
+    quote: pair.quote,
+    currency,
+    assetClass: 'CRYPTO' as const,
+    cryptoContract,
+  };
+}
+
+// Fees charged in the quote currency or in the coin bought, valued in the
+// quote currency. Fees paid in a third coin, such as BNB, can't be valued
+// from the export and are left out.
+export function feeInQuote(
+  fee: { amount: number; unit: string },
+  { base, quote, price }: { base: string; quote: string; price: number }
+): number {
+  if (!Number.isFinite(fee.amount)) return 0;
+  const amount = Math.abs(fee.amount);
+  if (!fee.unit || fee.unit === quote) return amount;
+  if (fee.unit === base) return amount * price;
+  return quoteCurrency(fee.unit) !== null &&
+    quoteCurrency(fee.unit) === quoteCurrency(quote)
+    ? amount
+    : 0;
+}
@@ -0,0 +1,47 @@
+import { feeAssetClass } from '@/lib/asset-classes';
+import { sideFees, tradeFees } from '@/lib/commission-schedules';
+import type { CommissionSchedule } from '@/types/database';
+import type { Broker, BrokerParseResult } from './types';
+
+// Charges fills the statement reported no fees for at the user's commission
+// schedule for the broker, and marks them so. Fees the statement does report
+// are kept. Round trips the platform paired itself are charged a round turn
+// when they came without fees.
+export function applyCommissionSchedule(
+  result: BrokerParseResult,
+  broker: Broker,
+  schedules: CommissionSchedule[]
+): BrokerParseResult {
+  return {
+    ...result,
+    executions: result.executions.map((execution) => {
+      const assetClass = feeAssetClass(execution.assetClass);
+      if (execution.commission !== undefined || !assetClass) return execution;
+      const commission = sideFees(
+        schedules,
+        broker,
+        assetClass,
+        execution.symbol,
+        execution.side === 'LONG' ? 'BUY' : 'SELL',
+        execution.quantity
+      );
+      return commission === null
+        ? execution
+        : { ...execution, commission, feesFromSchedule: true };
+    }),
+    roundTrips: result.roundTrips?.map((trade) => {
+      if (trade.commission) return trade;
+      const commission = tradeFees(schedules, {
+        broker,
+        asset_class: trade.assetClass,
+        symbol: trade.symbol,
+        side: trade.side,
+        quantity: trade.quantity,
+        status: 'CLOSED',
+      });
+      return commission === null
+        ? trade
+        : { ...trade, commission, pnl: trade.pnl - commission };
+    }),
+  };
+}
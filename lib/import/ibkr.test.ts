@@ -0,0 +1,143 @@
+import { readFileSync } from 'fs';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { calculateTradePnL } from '@/lib/asset-classes';
+import { matchExecutions, openTradeFromLot, parseImportText } from './index';
+
+const fixture = (name: string) =>
+  readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url), 'utf8');
+
+describe('parseIbkrFlexXml', () => {
+  // Single-digit years in "ESZ5" are read relative to today.
+  beforeAll(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-12-01T12:00:00'));
+  });
+  afterAll(() => {
+    vi.useRealTimers();
+  });
+
+  const parse = () => {
+    const parsed = parseImportText(fixture('ibkr-flex.xml'));
+    expect(parsed.broker).toBe('IBKR');
+    if (!parsed.broker) throw new Error('Expected a Flex Query');
+    return parsed.result;
+  };
+
+  it('reads execution-level trades in time order', () => {
+    const {
+      executions,
+      statementBaseCurrency,
+      skippedRows,
+      skippedOptionFills,
+    } = parse();
+
+    expect(statementBaseCurrency).toBe('USD');
+    // ORDER rows and currency conversions are left out; the option fill and
+    // the fill without a time are skipped.
+    expect(skippedRows).toBe(2);
+    expect(skippedOptionFills).toBe(1);
+    expect(executions.map((execution) => execution.tradeNumber)).toEqual([
+      '1001',
+      '1003',
+      '1004',
+      '1002',
+      '1005',
+    ]);
+    expect(executions[0]).toEqual({
+      contractKey: '265598',
+      symbol: 'AAPL',
+      contractMonth: undefined,
+      assetClass: 'STOCK',
+      side: 'LONG',
+      quantity: 10,
+      price: 190,
+      time: '2025-11-20T09:31:05',
+      tradeNumber: '1001',
+      commission: 1,
+      currency: 'USD',
+      multiplier: 1,
+      fxRateToBase: 1,
+    });
+    expect(executions[1]).toMatchObject({
+      symbol: 'SPY',
+      assetClass: 'ETF',
+      side: 'SHORT',
+      quantity: 5,
+    });
+  });
+
+  it('keeps commission in the trade currency', () => {
+    const sap = parse().executions.find(({ symbol }) => symbol === 'SAP');
+    expect(sap).toMatchObject({ currency: 'EUR', fxRateToBase: 1.1 });
+    // $2.20 at 1.1 dollars to the euro.
+    expect(sap?.commission).toBeCloseTo(2);
+  });
+
+  it('reads futures by their underlying with the contract month', () => {
+    const future = parse().executions.find(({ symbol }) => symbol === 'ES');
+    expect(future).toMatchObject({
+      assetClass: 'FUTURE',
+      contractMonth: '2025-12',
+      multiplier: 50,
+    });
+    // CommissionDetails win over ibCommission.
+    expect(future?.commission).toBeCloseTo(2.12);
+  });
+
+  it('saves the reported multiplier on the futures trade', () => {
+    const { openLots } = matchExecutions(
+      parse().executions,
+      [],
+      undefined,
+      [],
+      'FIFO'
+    );
+    const future = openLots.find(({ symbol }) => symbol === 'ES');
+    if (!future) throw new Error('Expected an open ES lot');
+    const trade = openTradeFromLot(future);
+
+    expect(trade).toMatchObject({ asset_class: 'FUTURE', multiplier: 50 });
+    // Valuing the trade again uses it rather than a contract spec, so
+    // contracts without one are valued too.
+    expect(
+      calculateTradePnL(
+        'FDAX',
+        6000,
+        6002,
+        1,
+        'LONG',
+        trade.asset_class,
+        undefined,
+        trade.multiplier
+      )
+    ).toBe(100);
+  });
+
+  it('values share trades per share', () => {
+    const { trades, openLots } = matchExecutions(
+      parse().executions,
+      [],
+      undefined,
+      [],
+      'FIFO'
+    );
+    expect(trades).toHaveLength(1);
+    expect(trades[0]).toMatchObject({
+      symbol: 'AAPL',
+      assetClass: 'STOCK',
+      side: 'LONG',
+      quantity: 10,
+      entryPrice: 190,
+      exitPrice: 195.5,
+      commission: 2,
+      pnl: 55 - 2,
+    });
+    expect(openLots.map((lot) => [lot.symbol, lot.side, lot.quantity])).toEqual(
+      [
+        ['SPY', 'SHORT', 5],
+        ['SAP', 'LONG', 4],
+        ['ES', 'LONG', 1],
+      ]
+    );
+  });
+});
@@ -0,0 +1,169 @@
+import { parseContractDescription } from '@/lib/futures-specs';
+import type { AssetClass } from '@/types/database';
+import type { Execution, TradeSide } from './matching';
+import type { BrokerParseResult } from './types';
+
+type XmlAttributes = Record<string, string>;
+
+const decodeEntities = (value: string) =>
+  value
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+
+// Flex reports are flat lists of self-closing elements, so reading the
+// attributes of one element type is all the parsing needed. This avoids
+// DOMParser, which is not available outside the browser.
+function readElements(xml: string, tag: string): XmlAttributes[] {
+  const elements: XmlAttributes[] = [];
+  const elementPattern = new RegExp(`<${tag}\\s([^>]*?)\\/?>`, 'g');
+  for (const [, body] of xml.matchAll(elementPattern)) {
+    const attributes: XmlAttributes = {};
+    for (const [, name, value] of body.matchAll(/([\w:]+)="([^"]*)"/g))
+      attributes[name] = decodeEntities(value);
+    elements.push(attributes);
+  }
+  return elements;
+}
+
+export const isFlexQueryXml = (text: string): boolean =>
+  /<FlexQueryResponse[\s>]/.test(text) || /<FlexStatement[\s>]/.test(text);
+
+// "20251120;093105", "2025-11-20;09:31:05" or tradeDate + tradeTime.
+const parseFlexTimestamp = (trade: XmlAttributes): string | null => {
+  const digits = (
+    trade.dateTime || `${trade.tradeDate ?? ''}${trade.tradeTime ?? ''}`
+  ).replace(/\D/g, '');
+  if (digits.length < 8) return null;
+  const padded = digits.padEnd(14, '0');
+  return `${padded.slice(0, 4)}-${padded.slice(4, 6)}-${padded.slice(
+    6,
+    8
+  )}T${padded.slice(8, 10)}:${padded.slice(10, 12)}:${padded.slice(12, 14)}`;
+};
+
+// The local symbol ("ESZ5") names the contract month; expiry ("20251219") is
+// the fallback, though energy contracts expire the month before.
+const futuresContractMonth = (trade: XmlAttributes): string | undefined => {
+  if (trade.assetCategory !== 'FUT') return undefined;
+  const fromSymbol = parseContractDescription(trade.symbol ?? '').contractMonth;
+  if (fromSymbol) return fromSymbol;
+  const expiry = trade.expiry?.replace(/\D/g, '') ?? '';
+  return expiry.length >= 6
+    ? `${expiry.slice(0, 4)}-${expiry.slice(4, 6)}`
+    : undefined;
+};
+
+// Flex reports ETFs as stocks with an ETF sub-category. Other categories are
+// left to the matcher's default.
+const assetClassOf = (trade: XmlAttributes): AssetClass | undefined => {
+  switch (trade.assetCategory) {
+    case 'FUT':
+      return 'FUTURE';
+    case 'STK':
+      return trade.subCategory === 'ETF' ? 'ETF' : 'STOCK';
+    case 'CRYPTO':
+      return 'CRYPTO';
+    default:
+      return undefined;
+  }
+};
+
+const toNumber = (value: string | undefined) =>
+  value === undefined || value.trim() === '' ? NaN : Number(value);
+
+export function parseIbkrFlexXml(xml: string): BrokerParseResult {
+  // CommissionDetails breaks fees out per execution; fall back to the
+  // ibCommission on the trade itself when the section was not included.
+  const commissionByTrade = new Map<string, number>();
+  for (const detail of readElements(xml, 'CommissionDetail')) {
+    const total = toNumber(detail.totalCommission);
+    const key = detail.tradeID || detail.ibExecID;
+    if (key && Number.isFinite(total))
+      commissionByTrade.set(
+        key,
+        (commissionByTrade.get(key) ?? 0) + Math.abs(total)
+      );
+  }
+
+  const executions: Execution[] = [];
+  let skippedRows = 0;
+  let skippedOptionFills = 0;
+
+  for (const trade of readElements(xml, 'Trade')) {
+    // ORDER and CLOSED_LOT rows repeat the same fills at a coarser level.
+    if (trade.levelOfDetail && trade.levelOfDetail !== 'EXECUTION') continue;
+    if (trade.assetCategory === 'CASH') continue;
+    // Options need their legs and strategy, which the fills alone don't give.
+    if (trade.assetCategory === 'OPT' || trade.assetCategory === 'FOP') {
+      skippedRows += 1;
+      skippedOptionFills += 1;
+      continue;
+    }
+
+    const buySell = trade.buySell?.toUpperCase();
+    const side: TradeSide | null =
+      buySell === 'BUY' ? 'LONG' : buySell === 'SELL' ? 'SHORT' : null;
+    const quantity = Math.abs(toNumber(trade.quantity));
+    const price = toNumber(trade.tradePrice);
+    const multiplier = toNumber(trade.multiplier);
+    const time = parseFlexTimestamp(trade);
+    const contractKey = (trade.conid || trade.symbol || '').toUpperCase();
+    if (
+      !side ||
+      !contractKey ||
+      !Number.isFinite(quantity) ||
+      quantity <= 0 ||
+      !Number.isFinite(price) ||
+      !time
+    ) {
+      skippedRows += 1;
+      continue;
+    }
+
+    const fxRateToBase = toNumber(trade.fxRateToBase);
+    const rate = Number.isFinite(fxRateToBase) ? fxRateToBase : undefined;
+    const commissionCurrency = trade.ibCommissionCurrency || trade.currency;
+    const nativeCommission =
+      commissionByTrade.get(trade.tradeID) ??
+      commissionByTrade.get(trade.ibExecID) ??
+      Math.abs(toNumber(trade.ibCommission) || 0);
+
+    executions.push({
+      contractKey,
+      symbol: (trade.assetCategory === 'FUT' && trade.underlyingSymbol
+        ? trade.underlyingSymbol
+        : trade.symbol
+      ).toUpperCase(),
+      contractMonth: futuresContractMonth(trade),
+      assetClass: assetClassOf(trade),
+      side,
+      quantity,
+      price,
+      time,
+      tradeNumber: trade.tradeID || trade.ibExecID || undefined,
+      // Commission charged in the base currency is converted back so it is
+      // in the trade's currency like its P&L.
+      commission:
+        commissionCurrency === trade.currency || !rate
+          ? nativeCommission
+          : nativeCommission / rate,
+      currency: trade.currency?.toUpperCase() || 'USD',
+      multiplier: Number.isFinite(multiplier) ? multiplier : undefined,
+      fxRateToBase: rate,
+    });
+  }
+
+  executions.sort((a, b) => a.time.localeCompare(b.time));
+  // fxRateToBase converts into the account's base currency, which the
+  // AccountInformation section names when the query includes it.
+  const [account] = readElements(xml, 'AccountInformation');
+  return {
+    executions,
+    statementBaseCurrency: account?.currency?.toUpperCase() || undefined,
+    skippedOptionFills,
+    skippedRows,
+  };
+}
@@ -0,0 +1,153 @@
+import Papa from 'papaparse';
+import type { ContractRegistry } from '@/lib/futures-specs';
+import { AMP_REQUIRED_HEADERS, parseAmpRows } from './amp';
+import { isBinanceHeaders, parseBinanceRows } from './binance';
+import { isBybitHeaders, parseBybitRows } from './bybit';
+import {
+  isCoinbaseHeaders,
+  parseCoinbaseRows,
+  skipCoinbasePreamble,
+} from './coinbase';
+import { isFlexQueryXml, parseIbkrFlexXml } from './ibkr';
+import type { FundingEvent } from './matching';
+import { parseMappedRows } from './mapping';
+import type { ColumnMapping } from './mapping';
+import { isNinjaTraderHeaders, parseNinjaTraderRows } from './ninjatrader';
+import { isTradovateHeaders, parseTradovateRows } from './tradovate';
+import type { Broker, BrokerParseResult, CsvBroker, CsvRow } from './types';
+
+export {
+  AMP_FEE_NAME,
+  isAmpActivityHeaders,
+  parseAmpFillTimes,
+  parseAmpRows,
+} from './amp';
+export { applyCommissionSchedule } from './fees';
+export * from './matching';
+export { isFlexQueryXml, parseIbkrFlexXml } from './ibkr';
+export * from './mapping';
+export * from './persist';
+export * from './positions';
+export type { Broker, BrokerParseResult, CsvBroker, CsvRow } from './types';
+
+export const BROKER_LABELS: Record<Broker, string> = {
+  AMP: 'AMP Futures',
+  TRADOVATE: 'Tradovate',
+  NINJATRADER: 'NinjaTrader 8',
+  IBKR: 'Interactive Brokers',
+  BINANCE: 'Binance',
+  BYBIT: 'Bybit',
+  COINBASE: 'Coinbase',
+  CUSTOM: 'Custom CSV',
+};
+
+export function detectBroker(headers: string[]): CsvBroker | null {
+  if (AMP_REQUIRED_HEADERS.every((header) => headers.includes(header)))
+    return 'AMP';
+  if (isTradovateHeaders(headers)) return 'TRADOVATE';
+  if (isNinjaTraderHeaders(headers)) return 'NINJATRADER';
+  if (isBybitHeaders(headers)) return 'BYBIT';
+  if (isBinanceHeaders(headers)) return 'BINANCE';
+  if (isCoinbaseHeaders(headers)) return 'COINBASE';
+  return null;
+}
+
+const PARSERS: Record<
+  CsvBroker,
+  (rows: CsvRow[], contracts?: ContractRegistry) => BrokerParseResult
+> = {
+  AMP: (rows, contracts) => parseAmpRows(rows, undefined, contracts),
+  TRADOVATE: parseTradovateRows,
+  NINJATRADER: parseNinjaTraderRows,
+  BINANCE: parseBinanceRows,
+  BYBIT: parseBybitRows,
+  COINBASE: parseCoinbaseRows,
+};
+
+export function parseBrokerRows(
+  broker: CsvBroker,
+  rows: CsvRow[],
+  contracts?: ContractRegistry
+) {
+  return PARSERS[broker](rows, contracts);
+}
+
+// Headers are upper-cased so parsers can match them regardless of how the
+// broker capitalizes them.
+export function readCsv(text: string) {
+  const { data, meta } = Papa.parse<CsvRow>(text, {
+    header: true,
+    skipEmptyLines: 'greedy',
+    transformHeader: (header) => header.trim().toUpperCase(),
+  });
+  return { headers: meta.fields ?? [], rows: data };
+}
+
+export type ParsedImportFile =
+  | { broker: Broker; result: BrokerParseResult; rows: CsvRow[] }
+  | { broker: null; headers: string[]; rows: CsvRow[] };
+
+// Reads any supported statement. A CSV that no built-in parser recognizes is
+// read through the column mapping when one is given, and otherwise returned
+// unparsed so the caller can ask for one.
+export function parseImportText(
+  text: string,
+  {
+    mapping,
+    fillTimes,
+    contracts,
+  }: {
+    mapping?: { mapping: ColumnMapping; dateFormat: string };
+    fillTimes?: Map<string, string>;
+    contracts?: ContractRegistry;
+  } = {}
+): ParsedImportFile {
+  if (isFlexQueryXml(text))
+    return { broker: 'IBKR', result: parseIbkrFlexXml(text), rows: [] };
+  const { headers, rows } = readCsv(skipCoinbasePreamble(text));
+  const broker = detectBroker(headers);
+  if (broker === 'AMP')
+    return { broker, result: parseAmpRows(rows, fillTimes, contracts), rows };
+  if (broker)
+    return { broker, result: parseBrokerRows(broker, rows, contracts), rows };
+  if (mapping)
+    return {
+      broker: 'CUSTOM',
+      result: parseMappedRows(
+        rows,
+        mapping.mapping,
+        mapping.dateFormat,
+        contracts
+      ),
+      rows,
+    };
+  return { broker: null, headers, rows };
+}
+
+// Adds the funding payments from a Binance Transaction History or Bybit
+// Transaction Log uploaded with the trade history. Payments on a position
+// that opened and closed within a statement only count when they are matched
+// together with its fills. Payments the trade history already lists are not
+// added twice.
+export function addFundingHistory(
+  result: BrokerParseResult,
+  broker: Broker,
+  text: string
+): BrokerParseResult {
+  const { headers, rows } = readCsv(text);
+  if (detectBroker(headers) !== broker)
+    throw new Error(`That file isn't a ${BROKER_LABELS[broker]} export.`);
+  const funding = parseBrokerRows(broker, rows).funding ?? [];
+  if (funding.length === 0)
+    throw new Error('That file has no funding payments.');
+  const paymentKey = (payment: FundingEvent) =>
+    `${payment.contractKey}|${payment.time}|${payment.amount}`;
+  const listed = new Set((result.funding ?? []).map(paymentKey));
+  return {
+    ...result,
+    funding: [
+      ...(result.funding ?? []),
+      ...funding.filter((payment) => !listed.has(paymentKey(payment))),
+    ].sort((a, b) => a.time.localeCompare(b.time)),
+  };
+}
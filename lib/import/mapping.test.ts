@@ -0,0 +1,103 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { parseImportText } from './index';
+import { headersSignature, missingMappingFields } from './mapping';
+import type { ColumnMapping } from './mapping';
+
+const fixture = (name: string) =>
+  readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url), 'utf8');
+
+const mapping: ColumnMapping = {
+  date: 'TRADE DATE',
+  time: 'TIME',
+  symbol: 'CONTRACT',
+  side: 'ACTION',
+  quantity: 'QTY',
+  price: 'FILL PRICE',
+  commission: 'FEES',
+  tradeId: 'EXEC ID',
+};
+
+describe('parseMappedRows', () => {
+  it('reads a CSV no built-in parser recognizes through its mapping', () => {
+    const text = fixture('custom.csv');
+    expect(parseImportText(text).broker).toBeNull();
+
+    const parsed = parseImportText(text, {
+      mapping: { mapping, dateFormat: 'MM/dd/yyyy' },
+    });
+    expect(parsed.broker).toBe('CUSTOM');
+    if (!parsed.broker) return;
+    const { executions, skippedRows } = parsed.result;
+
+    // "Hold" is not a side.
+    expect(skippedRows).toBe(1);
+    expect(executions).toEqual([
+      {
+        symbol: 'MNQ',
+        contractMonth: '2025-12',
+        currency: 'USD',
+        contractKey: 'MNQZ25',
+        side: 'LONG',
+        quantity: 2,
+        price: 21000.25,
+        time: '2025-11-20T09:31:05',
+        commission: 1.24,
+        tradeNumber: 'E1',
+      },
+      expect.objectContaining({
+        side: 'SHORT',
+        quantity: 1,
+        price: 21010.5,
+        time: '2025-11-20T09:45:10',
+        tradeNumber: 'E2',
+      }),
+      expect.objectContaining({
+        side: 'SHORT',
+        price: 21020,
+        time: '2025-11-20T10:02:00',
+        commission: undefined,
+        tradeNumber: 'E4',
+      }),
+    ]);
+  });
+
+  it('reads a negative quantity as a sell without a side column', () => {
+    const text = 'Date,Symbol,Qty,Price\n2025-11-20,AAPL,-10,190.5\n';
+    const parsed = parseImportText(text, {
+      mapping: {
+        mapping: {
+          date: 'DATE',
+          symbol: 'SYMBOL',
+          quantity: 'QTY',
+          price: 'PRICE',
+        },
+        dateFormat: 'yyyy-MM-dd',
+      },
+    });
+    if (!parsed.broker) throw new Error('Expected the mapping to be used');
+    expect(parsed.result.executions).toMatchObject([
+      {
+        side: 'SHORT',
+        quantity: 10,
+        price: 190.5,
+        time: '2025-11-20T00:00:00',
+      },
+    ]);
+  });
+});
+
+describe('mapping profiles', () => {
+  it('matches headers regardless of order and case', () => {
+    expect(headersSignature(['Price', ' qty', 'Date'])).toBe(
+      headersSignature(['DATE', 'PRICE', 'QTY'])
+    );
+  });
+
+  it('lists the required fields left unmapped', () => {
+    expect(missingMappingFields({ date: 'DATE', symbol: 'SYMBOL' })).toEqual([
+      'Quantity',
+      'Price',
+    ]);
+  });
+});
@@ -0,0 +1,141 @@
+import { format, isValid, parse } from 'date-fns';
+import type { ImportField, ImportProfile } from '@/types/database';
+import { parseContractPrice } from '@/lib/futures-specs';
+import type { ContractRegistry } from '@/lib/futures-specs';
+import { contractFields } from './matching';
+import type { Execution, TradeSide } from './matching';
+import type { BrokerParseResult, CsvRow } from './types';
+
+export const MAPPING_FIELDS: {
+  key: ImportField;
+  label: string;
+  required: boolean;
+}[] = [
+  { key: 'date', label: 'Date', required: true },
+  { key: 'time', label: 'Time', required: false },
+  { key: 'symbol', label: 'Symbol / Contract', required: true },
+  { key: 'side', label: 'Side (Buy/Sell)', required: false },
+  { key: 'quantity', label: 'Quantity', required: true },
+  { key: 'price', label: 'Price', required: true },
+  { key: 'commission', label: 'Commission', required: false },
+  { key: 'tradeId', label: 'Trade ID', required: false },
+];
+
+// Maps each field to the (upper-cased) CSV header it is read from.
+export type ColumnMapping = ImportProfile['column_mapping'];
+
+export const DATE_FORMATS = [
+  'MM/dd/yyyy',
+  'dd/MM/yyyy',
+  'yyyy-MM-dd',
+  'dd-MMM-yy',
+  'dd.MM.yyyy',
+  'MM/dd/yyyy HH:mm:ss',
+  'M/d/yyyy h:mm:ss a',
+  'yyyy-MM-dd HH:mm:ss',
+  "yyyy-MM-dd'T'HH:mm:ss",
+];
+
+const TIME_FORMATS = ['HH:mm:ss', 'H:mm:ss', 'HH:mm', 'h:mm:ss a', 'h:mm a'];
+
+// Headers are compared without order so a re-ordered export still matches
+// its saved profile.
+export const headersSignature = (headers: string[]): string =>
+  headers
+    .map((header) => header.trim().toUpperCase())
+    .filter(Boolean)
+    .sort()
+    .join('|');
+
+export const missingMappingFields = (mapping: ColumnMapping) =>
+  MAPPING_FIELDS.filter((field) => field.required && !mapping[field.key]).map(
+    (field) => field.label
+  );
+
+const sideFromValue = (value: string): TradeSide | null => {
+  const normalized = value.trim().toUpperCase();
+  if (
+    ['B', 'BUY', 'BOT', 'BOUGHT', 'LONG', 'BUY TO COVER'].includes(normalized)
+  )
+    return 'LONG';
+  if (['S', 'SELL', 'SLD', 'SOLD', 'SHORT', 'SELL SHORT'].includes(normalized))
+    return 'SHORT';
+  return null;
+};
+
+const parseMappedTimestamp = (
+  dateValue: string,
+  timeValue: string,
+  dateFormat: string
+): string | null => {
+  const date = parse(dateValue.trim(), dateFormat, new Date());
+  if (!isValid(date)) return null;
+  if (!timeValue.trim()) return format(date, "yyyy-MM-dd'T'HH:mm:ss");
+  for (const pattern of TIME_FORMATS) {
+    const time = parse(timeValue.trim(), pattern, date);
+    if (isValid(time)) return format(time, "yyyy-MM-dd'T'HH:mm:ss");
+  }
+  return null;
+};
+
+const toNumber = (value: string) => Number(value.replace(/[$,\s]/g, ''));
+
+export function parseMappedRows(
+  data: CsvRow[],
+  mapping: ColumnMapping,
+  dateFormat: string,
+  contracts?: ContractRegistry
+): BrokerParseResult {
+  const read = (row: CsvRow, field: ImportField) => {
+    const header = mapping[field];
+    return header ? row[header]?.trim() ?? '' : '';
+  };
+  const executions: Execution[] = [];
+  let skippedRows = 0;
+
+  for (const row of data) {
+    const contract = read(row, 'symbol').toUpperCase();
+    const signedQuantity = toNumber(read(row, 'quantity'));
+    const price =
+      parseContractPrice(read(row, 'price').replace(/[$\s]/g, '')) ?? NaN;
+    const time = parseMappedTimestamp(
+      read(row, 'date'),
+      read(row, 'time'),
+      dateFormat
+    );
+    // Without a side column, a negative quantity is read as a sell.
+    const side = mapping.side
+      ? sideFromValue(read(row, 'side'))
+      : signedQuantity < 0
+      ? 'SHORT'
+      : 'LONG';
+    const quantity = Math.abs(signedQuantity);
+    if (
+      !contract ||
+      !side ||
+      !Number.isFinite(quantity) ||
+      quantity <= 0 ||
+      !Number.isFinite(price) ||
+      !time
+    ) {
+      skippedRows += 1;
+      continue;
+    }
+
+    const commission = read(row, 'commission')
+      ? Math.abs(toNumber(read(row, 'commission')))
+      : NaN;
+    executions.push({
+      ...contractFields(contract, contracts),
+      side,
+      quantity,
+      price,
+      time,
+      commission: Number.isFinite(commission) ? commission : undefined,
+      tradeNumber: read(row, 'tradeId') || undefined,
+    });
+  }
+
+  executions.sort((a, b) => a.time.localeCompare(b.time));
+  return { executions, skippedRows };
+}
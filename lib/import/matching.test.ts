@@ -0,0 +1,286 @@
+import { describe, expect, it } from 'vitest';
+import type { Trade } from '@/types/database';
+import {
+  closingFillFingerprints,
+  contractFields,
+  matchExecutions,
+} from './matching';
+import type { Execution, LotMatching } from './matching';
+import { carriedLotFromTrade, diffCarriedPositions } from './positions';
+
+// MES is worth $5 a point.
+const fill = (
+  side: Execution['side'],
+  quantity: number,
+  price: number,
+  time: string,
+  tradeNumber: string
+): Execution => ({
+  ...contractFields('MESZ25'),
+  side,
+  quantity,
+  price,
+  time: `2025-11-20T${time}`,
+  tradeNumber,
+  commission: 0.62 * quantity,
+});
+
+// Scales in at 100 and 110, takes two off at 120 and the last at 130.
+const scaledPosition = [
+  fill('LONG', 1, 100, '09:30:00', 'n1'),
+  fill('LONG', 2, 110, '09:35:00', 'n2'),
+  fill('SHORT', 2, 120, '09:40:00', 'n3'),
+  fill('SHORT', 1, 130, '09:45:00', 'n4'),
+];
+
+const summary = (method: LotMatching) =>
+  matchExecutions(scaledPosition, [], undefined, [], method).trades.map(
+    (trade) => ({
+      quantity: trade.quantity,
+      entryPrice: Number(trade.entryPrice.toFixed(4)),
+      exitPrice: Number(trade.exitPrice.toFixed(4)),
+      pnl: Number(trade.pnl.toFixed(2)),
+      exitTradeNumber: trade.exitTradeNumber,
+    })
+  );
+
+describe('matchExecutions', () => {
+  it('closes the oldest lots first under FIFO', () => {
+    expect(summary('FIFO')).toEqual([
+      {
+        quantity: 1,
+        entryPrice: 100,
+        exitPrice: 120,
+        pnl: 98.76,
+        exitTradeNumber: 'n3',
+      },
+      {
+        quantity: 1,
+        entryPrice: 110,
+        exitPrice: 120,
+        pnl: 48.76,
+        exitTradeNumber: 'n3',
+      },
+      {
+        quantity: 1,
+        entryPrice: 110,
+        exitPrice: 130,
+        pnl: 98.76,
+        exitTradeNumber: 'n4',
+      },
+    ]);
+  });
+
+  it('closes the newest lots first under LIFO', () => {
+    expect(summary('LIFO')).toEqual([
+      {
+        quantity: 2,
+        entryPrice: 110,
+        exitPrice: 120,
+        pnl: 97.52,
+        exitTradeNumber: 'n3',
+      },
+      {
+        quantity: 1,
+        entryPrice: 100,
+        exitPrice: 130,
+        pnl: 148.76,
+        exitTradeNumber: 'n4',
+      },
+    ]);
+  });
+
+  it('makes one trade per exit at the average price under AVERAGE', () => {
+    expect(summary('AVERAGE')).toEqual([
+      {
+        quantity: 2,
+        entryPrice: 106.6667,
+        exitPrice: 120,
+        pnl: 130.85,
+        exitTradeNumber: 'n3',
+      },
+      {
+        quantity: 1,
+        entryPrice: 106.6667,
+        exitPrice: 130,
+        pnl: 115.43,
+        exitTradeNumber: 'n4',
+      },
+    ]);
+  });
+
+  it('makes one trade from flat to flat with its fills', () => {
+    const { trades, openLots } = matchExecutions(
+      scaledPosition,
+      [],
+      undefined,
+      [],
+      'FLAT_TO_FLAT'
+    );
+
+    expect(openLots).toEqual([]);
+    expect(trades).toHaveLength(1);
+    const [trade] = trades;
+    expect(trade).toMatchObject({
+      symbol: 'MES',
+      side: 'LONG',
+      quantity: 3,
+      entryTime: '2025-11-20T09:30:00',
+      exitTime: '2025-11-20T09:45:00',
+      entryTradeNumber: 'n1',
+      exitTradeNumber: 'n4',
+      maxPosition: 3,
+    });
+    expect(trade.entryPrice).toBeCloseTo(106.6667);
+    expect(trade.exitPrice).toBeCloseTo(123.3333);
+    expect(trade.commission).toBeCloseTo(0.62 * 6);
+    expect(trade.pnl).toBeCloseTo(250 - 0.62 * 6);
+    expect(trade.fills?.map((fill) => fill.tradeNumber)).toEqual([
+      'n1',
+      'n2',
+      'n3',
+      'n4',
+    ]);
+  });
+
+  it('nets the same P&L and closing fills under every method', () => {
+    const methods: LotMatching[] = ['FIFO', 'LIFO', 'AVERAGE', 'FLAT_TO_FLAT'];
+    for (const method of methods) {
+      const { trades } = matchExecutions(
+        scaledPosition,
+        [],
+        undefined,
+        [],
+        method
+      );
+      expect(trades.reduce((sum, trade) => sum + trade.pnl, 0)).toBeCloseTo(
+        250 - 0.62 * 6
+      );
+      expect(new Set(trades.flatMap(closingFillFingerprints))).toEqual(
+        new Set(['MES|n3', 'MES|n4'])
+      );
+    }
+  });
+
+  it('leaves a partly closed position open', () => {
+    const { trades, openLots } = matchExecutions(
+      scaledPosition.slice(0, 3),
+      [],
+      undefined,
+      [],
+      'FLAT_TO_FLAT'
+    );
+
+    // Exits from a position still open stay FIFO trades.
+    expect(trades.map((trade) => [trade.quantity, trade.entryPrice])).toEqual([
+      [1, 100],
+      [1, 110],
+    ]);
+    expect(openLots).toMatchObject([
+      { contractKey: 'MESZ25', side: 'LONG', quantity: 1, price: 110 },
+    ]);
+  });
+
+  it('reverses a position through flat', () => {
+    const { trades, openLots } = matchExecutions(
+      [
+        fill('LONG', 1, 100, '09:30:00', 'r1'),
+        fill('SHORT', 3, 105, '09:35:00', 'r2'),
+      ],
+      [],
+      undefined,
+      [],
+      'FIFO'
+    );
+
+    expect(trades).toHaveLength(1);
+    expect(trades[0].pnl).toBeCloseTo(25 - 0.62 * 2);
+    expect(openLots).toMatchObject([
+      { side: 'SHORT', quantity: 2, price: 105, tradeNumber: 'r2' },
+    ]);
+  });
+});
+
+describe('carried positions', () => {
+  const carried: Trade = {
+    id: 'trade-1',
+    user_id: 'user-1',
+    symbol: 'MES',
+    contract_month: '2025-12',
+    asset_class: 'FUTURE',
+    side: 'LONG',
+    entry_date: '2025-11-19T15:00:00',
+    entry_price: 100,
+    quantity: 2,
+    commission: 1.24,
+    status: 'OPEN',
+    currency: 'USD',
+    entry_trade_number: 'c1',
+    contract_key: 'MESZ25',
+    created_at: '2025-11-19T15:00:00Z',
+    updated_at: '2025-11-19T15:00:00Z',
+  };
+  const carriedLots = [carriedLotFromTrade(carried)!];
+
+  it('closes positions left open by an earlier statement', () => {
+    const { trades, openLots } = matchExecutions(
+      [
+        // An overlapping statement repeats the fill that opened it.
+        fill('LONG', 2, 100, '15:00:00', 'c1'),
+        fill('SHORT', 1, 110, '09:30:00', 'n5'),
+      ],
+      carriedLots,
+      undefined,
+      [],
+      'FIFO'
+    );
+
+    expect(trades).toHaveLength(1);
+    expect(trades[0]).toMatchObject({
+      quantity: 1,
+      entryPrice: 100,
+      entryTime: '2025-11-19T15:00:00',
+      entryTradeNumber: 'c1',
+      exitTradeNumber: 'n5',
+    });
+    expect(trades[0].pnl).toBeCloseTo(50 - 0.62 * 2);
+
+    const changes = diffCarriedPositions([carried], openLots);
+    expect(changes.consumed).toEqual([carried]);
+    expect(changes.closedIds).toEqual([]);
+    expect(changes.opened).toEqual([]);
+    expect(changes.reduced).toHaveLength(1);
+    expect(changes.reduced[0]).toMatchObject({
+      id: 'trade-1',
+      quantity: 1,
+      entryPrice: 100,
+    });
+    expect(changes.reduced[0].commission).toBeCloseTo(0.62);
+  });
+
+  it('folds a carried lot into the position it goes flat with', () => {
+    const { trades, openLots } = matchExecutions(
+      [
+        fill('LONG', 1, 104, '09:30:00', 'n6'),
+        fill('SHORT', 3, 110, '09:45:00', 'n7'),
+      ],
+      carriedLots,
+      undefined,
+      [],
+      'FLAT_TO_FLAT'
+    );
+
+    expect(openLots).toEqual([]);
+    expect(trades).toHaveLength(1);
+    expect(trades[0]).toMatchObject({
+      quantity: 3,
+      entryTime: '2025-11-19T15:00:00',
+      exitTime: '2025-11-20T09:45:00',
+      maxPosition: 3,
+    });
+    expect(trades[0].entryPrice).toBeCloseTo(101.3333);
+    expect(diffCarriedPositions([carried], openLots).closedIds).toEqual([
+      'trade-1',
+    ]);
+  });
+});
@@ -0,0 +1,501 @@
+import { calculateTradePnL, roundQuantity } from '@/lib/asset-classes';
+import {
+  contractCode,
+  contractCurrency,
+  parseContractDescription,
+} from '@/lib/futures-specs';
+import type { ContractRegistry } from '@/lib/futures-specs';
+import type { AssetClass, CryptoContract } from '@/types/database';
+
+export type TradeSide = 'LONG' | 'SHORT';
+
+// How a statement's fills are paired into trades.
+export type LotMatching = 'FIFO' | 'LIFO' | 'AVERAGE' | 'FLAT_TO_FLAT';
+
+export const LOT_MATCHING_LABELS: Record<LotMatching, string> = {
+  FIFO: 'FIFO',
+  LIFO: 'LIFO',
+  AVERAGE: 'Weighted average',
+  FLAT_TO_FLAT: 'Flat to flat',
+};
+
+// How imports paired fills before the method could be chosen.
+export const DEFAULT_LOT_MATCHING: LotMatching = 'FIFO';
+
+// A single broker fill, normalized so every statement format can share the
+// same lot matcher.
+export interface Execution {
+  contractKey: string;
+  // The root symbol, e.g. "ES", shared by every expiry of the contract.
+  symbol: string;
+  // The contract's expiry as "YYYY-MM", when the statement names one.
+  contractMonth?: string;
+  // Set when the statement says what was traded. Futures otherwise.
+  assetClass?: AssetClass;
+  cryptoContract?: CryptoContract;
+  side: TradeSide;
+  quantity: number;
+  price: number;
+  time: string;
+  // The broker's own id for this fill, used to detect re-imports.
+  tradeNumber?: string;
+  // Total fees charged on this fill, if the statement reports them, in the
+  // fill's currency.
+  commission?: number;
+  // Set when the commission was charged at the user's schedule because the
+  // statement reported none.
+  feesFromSchedule?: boolean;
+  // ISO code the fill is priced in.
+  currency?: string;
+  // Contract multiplier reported by the broker. When present it is used
+  // instead of the point value in FUTURES_CONTRACTS. For inverse perpetuals,
+  // the dollars each contract is worth.
+  multiplier?: number;
+  // Converts P&L from the contract's currency into the broker account's base
+  // currency, when the statement reports the rate. That need not be the
+  // journal's base currency; see BrokerParseResult.statementBaseCurrency.
+  fxRateToBase?: number;
+  // Set when the statement has no fill time and one was made up to keep the
+  // fills in order.
+  timeEstimated?: boolean;
+}
+
+// A funding payment on a perpetual, received when positive, in the
+// contract's currency.
+export interface FundingEvent {
+  contractKey: string;
+  amount: number;
+  time: string;
+  // Paid in the coin, as inverse perpetuals are. Like their P&L, it is valued
+  // at the price each lot closes at.
+  inCoin?: boolean;
+}
+
+// One of the fills a position was built from. A fill that took the position
+// through flat is split between the trade it closed and the one it opened.
+export type ParsedFill = Pick<
+  Execution,
+  'side' | 'quantity' | 'price' | 'time' | 'tradeNumber'
+> & { commission: number };
+
+export interface ParsedTrade {
+  symbol: string;
+  contractMonth?: string;
+  assetClass?: AssetClass;
+  cryptoContract?: CryptoContract;
+  multiplier?: number;
+  side: TradeSide;
+  entryPrice: number;
+  exitPrice: number;
+  quantity: number;
+  entryTime: string;
+  exitTime: string;
+  commission: number;
+  // Funding received or paid while the position was open.
+  funding?: number;
+  // Net of commission and funding, in the trade's currency.
+  pnl: number;
+  currency?: string;
+  // The statement's rate from the trade's currency into the base currency.
+  fxRateToBase?: number;
+  entryTradeNumber?: string;
+  exitTradeNumber?: string;
+  timeEstimated?: boolean;
+  // Some of the fees were reported by the statement, so re-applying a
+  // commission schedule leaves them alone.
+  feesFromStatement?: boolean;
+  // Set when the position opened and went flat within the statement: every
+  // fill it was scaled in and out with, and the largest size it reached.
+  fills?: ParsedFill[];
+  maxPosition?: number;
+}
+
+export interface OpenLot {
+  contractKey: string;
+  symbol: string;
+  contractMonth?: string;
+  assetClass?: AssetClass;
+  cryptoContract?: CryptoContract;
+  side: TradeSide;
+  quantity: number;
+  price: number;
+  time: string;
+  tradeNumber?: string;
+  commissionPerUnit: number;
+  feesFromStatement?: boolean;
+  multiplier?: number;
+  // Funding accrued on the lot's remaining quantity, and the part of it paid
+  // in the coin, which is valued once the lot closes.
+  funding?: number;
+  fundingCoins?: number;
+  currency?: string;
+  timeEstimated?: boolean;
+  // The OPEN trade this lot was carried over from, if an earlier import
+  // stored it.
+  openTradeId?: string;
+}
+
+export interface MatchResult {
+  trades: ParsedTrade[];
+  openLots: OpenLot[];
+}
+
+// Splits a broker's contract description into the fields an execution
+// needs. Fills are matched on the normalized contract code, so "MAR 26 MES"
+// and "MESH6" close each other, while other expiries stay separate.
+export function contractFields(
+  description: string,
+  contracts?: ContractRegistry
+) {
+  const { root, contractMonth } = parseContractDescription(
+    description,
+    contracts
+  );
+  return {
+    symbol: root,
+    contractMonth: contractMonth ?? undefined,
+    currency: contractCurrency(root, contracts),
+    contractKey: contractMonth
+      ? contractCode(root, contractMonth)
+      : description.trim().replace(/\s+/g, ' ').toUpperCase(),
+  };
+}
+
+const grossPnL = (
+  lot: OpenLot,
+  exitPrice: number,
+  quantity: number,
+  multiplier: number | undefined,
+  contracts: ContractRegistry | undefined
+) =>
+  multiplier === undefined || lot.cryptoContract === 'INVERSE'
+    ? calculateTradePnL(
+        lot.symbol,
+        lot.price,
+        exitPrice,
+        quantity,
+        lot.side,
+        lot.assetClass,
+        contracts,
+        multiplier,
+        lot.cryptoContract
+      )
+    : (lot.side === 'LONG' ? exitPrice - lot.price : lot.price - exitPrice) *
+      multiplier *
+      quantity;
+
+// A position from the fill that opened it from flat, and the trades its exits
+// have made so far.
+interface Round {
+  fills: ParsedFill[];
+  tradeIndices: number[];
+}
+
+const weightedPrice = (
+  trades: ParsedTrade[],
+  price: (trade: ParsedTrade) => number
+) =>
+  trades.reduce((sum, trade) => sum + price(trade) * trade.quantity, 0) /
+  trades.reduce((sum, trade) => sum + trade.quantity, 0);
+
+// One trade in place of the lot-by-lot trades it is made of, at their average
+// entry and exit. With fills, the trade is a position from flat back to flat
+// and runs from its first fill to its last.
+function mergeTrades(trades: ParsedTrade[], fills?: ParsedFill[]): ParsedTrade {
+  const sum = (value: (trade: ParsedTrade) => number) =>
+    trades.reduce((total, trade) => total + value(trade), 0);
+  const last = trades[trades.length - 1];
+  const merged: ParsedTrade = {
+    ...trades[0],
+    entryPrice: weightedPrice(trades, (trade) => trade.entryPrice),
+    exitPrice: weightedPrice(trades, (trade) => trade.exitPrice),
+    quantity: roundQuantity(sum((trade) => trade.quantity)),
+    exitTime: last.exitTime,
+    commission: sum((trade) => trade.commission),
+    funding: sum((trade) => trade.funding ?? 0),
+    pnl: sum((trade) => trade.pnl),
+    fxRateToBase: last.fxRateToBase,
+    exitTradeNumber: last.exitTradeNumber,
+    timeEstimated: trades.some((trade) => trade.timeEstimated),
+    feesFromStatement: trades.some((trade) => trade.feesFromStatement),
+  };
+  if (!fills) return merged;
+
+  let position = 0;
+  let maxPosition = 0;
+  for (const fill of fills) {
+    position = roundQuantity(
+      position + (fill.side === merged.side ? fill.quantity : -fill.quantity)
+    );
+    maxPosition = Math.max(maxPosition, position);
+  }
+  return {
+    ...merged,
+    entryTime: fills[0].time,
+    exitTime: fills[fills.length - 1].time,
+    entryTradeNumber: fills[0].tradeNumber,
+    exitTradeNumber: fills[fills.length - 1].tradeNumber,
+    fills,
+    maxPosition,
+  };
+}
+
+const lotFill = (lot: OpenLot): ParsedFill => ({
+  side: lot.side,
+  quantity: lot.quantity,
+  price: lot.price,
+  time: lot.time,
+  tradeNumber: lot.tradeNumber,
+  commission: lot.commissionPerUnit * lot.quantity,
+});
+
+// Executions must already be in chronological order. Carried lots are
+// positions left open by earlier statements; they are older than every
+// execution here. Each funding payment is shared by quantity between the lots
+// open on its contract when it was paid, and closes out with them.
+//
+// FIFO closes the oldest lot first and LIFO the newest, a trade per lot. Under
+// AVERAGE every lot on a contract is held at the position's average price, and
+// each exit is one trade. FLAT_TO_FLAT makes one trade with its fills of each
+// position that goes flat; exits from one still open at the end of the
+// statement stay FIFO trades.
+export function matchExecutions(
+  executions: Execution[],
+  carriedLots: OpenLot[] = [],
+  contracts?: ContractRegistry,
+  funding: FundingEvent[] = [],
+  method: LotMatching = DEFAULT_LOT_MATCHING
+): MatchResult {
+  const openLots: OpenLot[] = carriedLots.map((lot) => ({ ...lot }));
+  const trades: ParsedTrade[] = [];
+  // Trades to merge, each into the place of its first trade.
+  const groups: { tradeIndices: number[]; fills?: ParsedFill[] }[] = [];
+  const isFlat = (contractKey: string) =>
+    !openLots.some((lot) => lot.contractKey === contractKey);
+  // Open positions by contract, from their first fill or carried lot.
+  const rounds = new Map<string, Round>();
+  if (method === 'FLAT_TO_FLAT')
+    for (const lot of openLots) {
+      const round = rounds.get(lot.contractKey) ?? {
+        fills: [],
+        tradeIndices: [],
+      };
+      round.fills.push(lotFill(lot));
+      rounds.set(lot.contractKey, round);
+    }
+  // Overlapping statements repeat the fills that opened a carried lot.
+  const carriedFills = new Set(
+    carriedLots.map((lot) => lot.tradeNumber).filter(Boolean)
+  );
+  const payments = [...funding].sort((a, b) => a.time.localeCompare(b.time));
+  let paymentIndex = 0;
+  // Payments with no open lot on their contract, such as for a position
+  // opened before the statement began, are dropped.
+  const accrueFundingBefore = (time: string | null) => {
+    for (
+      ;
+      paymentIndex < payments.length &&
+      (time === null || payments[paymentIndex].time < time);
+      paymentIndex += 1
+    ) {
+      const payment = payments[paymentIndex];
+      const lots = openLots.filter(
+        (lot) => lot.contractKey === payment.contractKey
+      );
+      const total = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+      for (const lot of lots) {
+        const share = (payment.amount * lot.quantity) / total;
+        if (payment.inCoin) lot.fundingCoins = (lot.fundingCoins ?? 0) + share;
+        else lot.funding = (lot.funding ?? 0) + share;
+      }
+    }
+  };
+
+  for (const execution of executions) {
+    const {
+      contractKey,
+      symbol,
+      contractMonth,
+      side,
+      price,
+      time,
+      tradeNumber,
+      multiplier,
+    } = execution;
+    if (tradeNumber && carriedFills.has(tradeNumber)) continue;
+    accrueFundingBefore(time);
+    const commissionPerUnit = (execution.commission ?? 0) / execution.quantity;
+    const feesFromStatement =
+      execution.commission !== undefined && !execution.feesFromSchedule;
+    let remaining = execution.quantity;
+    const round = rounds.get(contractKey);
+    const fill = (quantity: number): ParsedFill => ({
+      side,
+      quantity,
+      price,
+      time,
+      tradeNumber,
+      commission: commissionPerUnit * quantity,
+    });
+    // The open lot on the other side of this exact contract to close next.
+    const nextLot = () => {
+      const closes = (lot: OpenLot) =>
+        lot.contractKey === contractKey && lot.side !== side;
+      if (method !== 'LIFO') return openLots.findIndex(closes);
+      for (let index = openLots.length - 1; index >= 0; index -= 1)
+        if (closes(openLots[index])) return index;
+      return -1;
+    };
+    const firstTrade = trades.length;
+
+    // The matched quantity is the lower of the entry and exit quantities, so
+    // a 2-lot exit against two 1-lot entries creates two trades, each with
+    // its own entry price and the shared exit price.
+    for (
+      let index = nextLot();
+      index !== -1 && remaining > 0;
+      index = nextLot()
+    ) {
+      const lot = openLots[index];
+      const matchedQuantity = Math.min(remaining, lot.quantity);
+      const commission =
+        (lot.commissionPerUnit + commissionPerUnit) * matchedQuantity;
+      const cashFunding = ((lot.funding ?? 0) * matchedQuantity) / lot.quantity;
+      const coinFunding =
+        ((lot.fundingCoins ?? 0) * matchedQuantity) / lot.quantity;
+      if (lot.funding) lot.funding -= cashFunding;
+      if (lot.fundingCoins) lot.fundingCoins -= coinFunding;
+      const lotFunding = cashFunding + coinFunding * price;
+      trades.push({
+        symbol: lot.symbol,
+        contractMonth: lot.contractMonth,
+        assetClass: lot.assetClass,
+        cryptoContract: lot.cryptoContract,
+        multiplier:
+          lot.cryptoContract === 'INVERSE'
+            ? lot.multiplier ?? multiplier
+            : undefined,
+        side: lot.side,
+        entryPrice: lot.price,
+        exitPrice: price,
+        quantity: matchedQuantity,
+        entryTime: lot.time,
+        exitTime: time,
+        commission,
+        funding: lotFunding,
+        pnl:
+          grossPnL(
+            lot,
+            price,
+            matchedQuantity,
+            lot.multiplier ?? multiplier,
+            contracts
+          ) -
+          commission +
+          lotFunding,
+        currency: lot.currency ?? execution.currency,
+        fxRateToBase: execution.fxRateToBase,
+        entryTradeNumber: lot.tradeNumber,
+        exitTradeNumber: tradeNumber,
+        timeEstimated: lot.timeEstimated || execution.timeEstimated,
+        feesFromStatement: lot.feesFromStatement || feesFromStatement,
+      });
+      round?.tradeIndices.push(trades.length - 1);
+      lot.quantity = roundQuantity(lot.quantity - matchedQuantity);
+      remaining = roundQuantity(remaining - matchedQuantity);
+      if (lot.quantity === 0) openLots.splice(index, 1);
+    }
+
+    const closedQuantity = roundQuantity(execution.quantity - remaining);
+    if (method === 'AVERAGE' && trades.length - firstTrade > 1)
+      groups.push({
+        tradeIndices: trades
+          .slice(firstTrade)
+          .map((_, offset) => firstTrade + offset),
+      });
+    if (method === 'FLAT_TO_FLAT') {
+      if (round && closedQuantity > 0) round.fills.push(fill(closedQuantity));
+      if (isFlat(contractKey)) {
+        if (round && closedQuantity > 0) groups.push(round);
+        rounds.delete(contractKey);
+        if (remaining > 0)
+          rounds.set(contractKey, { fills: [], tradeIndices: [] });
+      }
+      if (remaining > 0) rounds.get(contractKey)?.fills.push(fill(remaining));
+    }
+
+    if (remaining > 0) {
+      openLots.push({
+        contractKey,
+        symbol,
+        contractMonth,
+        assetClass: execution.assetClass,
+        cryptoContract: execution.cryptoContract,
+        side,
+        quantity: remaining,
+        price,
+        time,
+        tradeNumber,
+        commissionPerUnit,
+        feesFromStatement,
+        multiplier,
+        currency: execution.currency,
+        timeEstimated: execution.timeEstimated,
+      });
+      // Adding to a position moves every lot to its new average price.
+      if (method === 'AVERAGE') {
+        const position = openLots.filter(
+          (lot) => lot.contractKey === contractKey
+        );
+        const averagePrice =
+          position.reduce((sum, lot) => sum + lot.price * lot.quantity, 0) /
+          position.reduce((sum, lot) => sum + lot.quantity, 0);
+        for (const lot of position) lot.price = averagePrice;
+      }
+    }
+  }
+  accrueFundingBefore(null);
+
+  const replacements = new Map<number, ParsedTrade>();
+  const merged = new Set<number>();
+  for (const { tradeIndices, fills } of groups) {
+    replacements.set(
+      tradeIndices[0],
+      mergeTrades(
+        tradeIndices.map((index) => trades[index]),
+        fills
+      )
+    );
+    tradeIndices.forEach((index) => merged.add(index));
+  }
+  return {
+    trades: trades.flatMap((trade, index) =>
+      replacements.has(index)
+        ? [replacements.get(index)!]
+        : merged.has(index)
+        ? []
+        : [trade]
+    ),
+    openLots,
+  };
+}
+
+// Identifies a fill by its fill number, to recognize fills an earlier import
+// already stored. Returns null when the broker did not report a fill number.
+export const fillFingerprint = (
+  symbol: string,
+  tradeNumber?: string | null
+): string | null =>
+  tradeNumber ? `${symbol.toUpperCase()}|${tradeNumber}` : null;
+
+// The fingerprints of the fills that took a trade down, scaled exits
+// included.
+export const closingFillFingerprints = (trade: ParsedTrade): string[] =>
+  [
+    trade.exitTradeNumber,
+    ...(trade.fills ?? [])
+      .filter((fill) => fill.side !== trade.side)
+      .map((fill) => fill.tradeNumber),
+  ]
+    .map((tradeNumber) => fillFingerprint(trade.symbol, tradeNumber))
+    .filter((fingerprint): fingerprint is string => !!fingerprint);
@@ -0,0 +1,75 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { parseImportText } from './index';
+
+const fixture = (name: string) =>
+  readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url), 'utf8');
+
+describe('parseNinjaTraderRows', () => {
+  it('reads the Executions grid as fills', () => {
+    const parsed = parseImportText(fixture('ninjatrader-executions.csv'));
+    expect(parsed.broker).toBe('NINJATRADER');
+    if (!parsed.broker) return;
+    const { executions, roundTrips, skippedRows } = parsed.result;
+
+    expect(roundTrips).toBeUndefined();
+    expect(skippedRows).toBe(1);
+    expect(executions).toEqual([
+      {
+        symbol: 'MES',
+        contractMonth: '2025-12',
+        currency: 'USD',
+        contractKey: 'MESZ25',
+        side: 'LONG',
+        quantity: 2,
+        price: 6001.5,
+        time: '2025-11-20T09:31:05',
+        commission: 1.24,
+        tradeNumber: 'a1',
+      },
+      expect.objectContaining({
+        side: 'SHORT',
+        quantity: 1,
+        price: 6010,
+        time: '2025-11-20T09:40:00',
+        commission: 0.62,
+      }),
+      expect.objectContaining({
+        side: 'SHORT',
+        quantity: 1,
+        price: 6012.25,
+        time: '2025-11-20T13:15:30',
+        tradeNumber: 'a3',
+      }),
+    ]);
+  });
+
+  it('reads the Trades grid as round trips with their fees', () => {
+    const parsed = parseImportText(fixture('ninjatrader-trades.csv'));
+    expect(parsed.broker).toBe('NINJATRADER');
+    if (!parsed.broker) return;
+    const { executions, roundTrips, skippedRows } = parsed.result;
+
+    expect(executions).toEqual([]);
+    expect(skippedRows).toBe(0);
+    expect(roundTrips).toHaveLength(2);
+    const [long, short] = roundTrips ?? [];
+    expect(long).toMatchObject({
+      symbol: 'MES',
+      contractMonth: '2025-12',
+      side: 'LONG',
+      quantity: 2,
+      entryPrice: 6001.5,
+      exitPrice: 6010,
+      entryTime: '2025-11-20T09:31:05',
+      exitTime: '2025-11-20T09:40:00',
+      feesFromStatement: true,
+    });
+    // Commission, clearing, exchange and NFA fees.
+    expect(long.commission).toBeCloseTo(2.18);
+    expect(long.pnl).toBeCloseTo(85 - 2.18);
+    // A fee in parentheses is still a cost.
+    expect(short).toMatchObject({ side: 'SHORT', commission: 0.62 });
+    expect(short.pnl).toBeCloseTo(-13.75 - 0.62);
+  });
+});
@@ -0,0 +1,180 @@
+import { format, isValid, parse } from 'date-fns';
+import { calculateFuturesPnL, parseContractPrice } from '@/lib/futures-specs';
+import type { ContractRegistry } from '@/lib/futures-specs';
+import { contractFields } from './matching';
+import type { Execution, ParsedTrade, TradeSide } from './matching';
+import type { BrokerParseResult, CsvRow } from './types';
+
+const EXECUTION_HEADERS = ['INSTRUMENT', 'ACTION', 'QUANTITY', 'PRICE', 'TIME'];
+const TRADE_HEADERS = [
+  'INSTRUMENT',
+  'MARKET POS.',
+  'QTY',
+  'ENTRY PRICE',
+  'EXIT PRICE',
+  'ENTRY TIME',
+  'EXIT TIME',
+];
+const TRADE_FEE_HEADERS = [
+  'COMMISSION',
+  'CLEARING FEE',
+  'EXCHANGE FEE',
+  'IP FEE',
+  'NFA FEE',
+];
+
+// NinjaTrader writes timestamps in the Windows locale of the machine that
+// exported the grid.
+const TIMESTAMP_FORMATS = [
+  'M/d/yyyy h:mm:ss a',
+  'M/d/yyyy H:mm:ss',
+  'dd.MM.yyyy HH:mm:ss',
+  'yyyy-MM-dd HH:mm:ss',
+];
+
+export const isNinjaTraderHeaders = (headers: string[]): boolean =>
+  EXECUTION_HEADERS.every((header) => headers.includes(header)) ||
+  TRADE_HEADERS.every((header) => headers.includes(header));
+
+const parseNinjaTraderTimestamp = (value: string | undefined) => {
+  const trimmed = value?.trim() ?? '';
+  for (const pattern of TIMESTAMP_FORMATS) {
+    const parsed = parse(trimmed, pattern, new Date());
+    if (isValid(parsed)) return format(parsed, "yyyy-MM-dd'T'HH:mm:ss");
+  }
+  return null;
+};
+
+// "$1,234.50", "-$2.04" and "($2.04)" all appear depending on locale.
+const parseMoney = (value: string | undefined): number => {
+  const trimmed = value?.trim() ?? '';
+  if (!trimmed) return 0;
+  const negative = /^\(.*\)$/.test(trimmed) || trimmed.includes('-');
+  const amount = Number(trimmed.replace(/[^\d.]/g, ''));
+  return Number.isFinite(amount) ? (negative ? -amount : amount) : 0;
+};
+
+const sideFromAction = (action: string | undefined): TradeSide | null => {
+  const normalized = action?.trim().toUpperCase() ?? '';
+  if (normalized === 'BUY' || normalized === 'BUY TO COVER') return 'LONG';
+  if (normalized === 'SELL' || normalized === 'SELL SHORT') return 'SHORT';
+  return null;
+};
+
+function parseExecutionRows(
+  data: CsvRow[],
+  contracts?: ContractRegistry
+): BrokerParseResult {
+  const executions: Execution[] = [];
+  let skippedRows = 0;
+
+  for (const row of data) {
+    const instrument = row.INSTRUMENT?.trim().toUpperCase() ?? '';
+    const side = sideFromAction(row.ACTION);
+    const quantity = Number(row.QUANTITY?.replace(/,/g, ''));
+    const price = parseContractPrice(row.PRICE ?? '') ?? NaN;
+    const time = parseNinjaTraderTimestamp(row.TIME);
+    if (
+      !instrument ||
+      !side ||
+      !Number.isFinite(quantity) ||
+      quantity <= 0 ||
+      !Number.isFinite(price) ||
+      !time
+    ) {
+      skippedRows += 1;
+      continue;
+    }
+
+    executions.push({
+      ...contractFields(instrument, contracts),
+      side,
+      quantity,
+      price,
+      time,
+      commission: row.COMMISSION?.trim()
+        ? Math.abs(parseMoney(row.COMMISSION))
+        : undefined,
+      tradeNumber: row.ID?.trim() || undefined,
+    });
+  }
+
+  executions.sort((a, b) => a.time.localeCompare(b.time));
+  return { executions, skippedRows };
+}
+
+function parseTradeRows(
+  data: CsvRow[],
+  contracts?: ContractRegistry
+): BrokerParseResult {
+  const roundTrips: ParsedTrade[] = [];
+  let skippedRows = 0;
+
+  for (const row of data) {
+    const instrument = row.INSTRUMENT?.trim() ?? '';
+    const position = row['MARKET POS.']?.trim().toUpperCase();
+    const quantity = Number(row.QTY?.replace(/,/g, ''));
+    const entryPrice = parseContractPrice(row['ENTRY PRICE'] ?? '') ?? NaN;
+    const exitPrice = parseContractPrice(row['EXIT PRICE'] ?? '') ?? NaN;
+    const entryTime = parseNinjaTraderTimestamp(row['ENTRY TIME']);
+    const exitTime = parseNinjaTraderTimestamp(row['EXIT TIME']);
+    if (
+      !instrument ||
+      (position !== 'LONG' && position !== 'SHORT') ||
+      !Number.isFinite(quantity) ||
+      quantity <= 0 ||
+      !Number.isFinite(entryPrice) ||
+      !Number.isFinite(exitPrice) ||
+      !entryTime ||
+      !exitTime
+    ) {
+      skippedRows += 1;
+      continue;
+    }
+
+    const { symbol, contractMonth, currency } = contractFields(
+      instrument,
+      contracts
+    );
+    const commission = TRADE_FEE_HEADERS.reduce(
+      (sum, header) => sum + Math.abs(parseMoney(row[header])),
+      0
+    );
+    roundTrips.push({
+      symbol,
+      contractMonth,
+      side: position,
+      entryPrice,
+      exitPrice,
+      quantity,
+      entryTime,
+      exitTime,
+      commission,
+      feesFromStatement: commission > 0,
+      currency,
+      pnl:
+        calculateFuturesPnL(
+          symbol,
+          entryPrice,
+          exitPrice,
+          quantity,
+          position,
+          contracts
+        ) - commission,
+    });
+  }
+
+  return { executions: [], roundTrips, skippedRows };
+}
+
+// Handles both the Executions grid (individual fills) and the Trades grid
+// (round trips NinjaTrader has already paired).
+export function parseNinjaTraderRows(
+  data: CsvRow[],
+  contracts?: ContractRegistry
+): BrokerParseResult {
+  const isTradesGrid = data.some((row) => 'ENTRY PRICE' in row);
+  return isTradesGrid
+    ? parseTradeRows(data, contracts)
+    : parseExecutionRows(data, contracts);
+}
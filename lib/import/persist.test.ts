@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { contractFields } from './matching';
+import type { Execution, LotMatching } from './matching';
+import { planImport } from './persist';
+
+const fill = (
+  side: Execution['side'],
+  price: number,
+  time: string,
+  tradeNumber: string
+): Execution => ({
+  ...contractFields('MESZ25'),
+  side,
+  quantity: 1,
+  price,
+  time: `2025-11-20T${time}`,
+  tradeNumber,
+});
+
+describe('planImport', () => {
+  // An earlier import stored T1 and T2 as a closed trade. This statement
+  // overlaps it, starting with the fill that closed that trade.
+  const statement = {
+    executions: [
+      fill('SHORT', 110, '09:35:00', 'T2'),
+      fill('LONG', 105, '09:40:00', 'T3'),
+      fill('SHORT', 115, '09:45:00', 'T4'),
+    ],
+    skippedRows: 0,
+  };
+  const importedFills = new Set(['MES|T1', 'MES|T2']);
+
+  it.each<LotMatching>(['FIFO', 'LIFO', 'AVERAGE', 'FLAT_TO_FLAT'])(
+    'leaves out fills an earlier import stored under %s',
+    (lotMatching) => {
+      const plan = planImport(statement, [], undefined, {
+        broker: 'TRADOVATE',
+        lotMatching,
+        importedFills,
+      });
+
+      expect(plan.trades).toHaveLength(1);
+      expect(plan.trades[0]).toMatchObject({
+        side: 'LONG',
+        entryTradeNumber: 'T3',
+        exitTradeNumber: 'T4',
+      });
+      expect(plan.openLots).toEqual([]);
+      expect(plan.duplicateCount).toBe(1);
+      expect(plan.rowCount).toBe(3);
+    }
+  );
+
+  it('matches every fill when duplicates are not skipped', () => {
+    const plan = planImport(statement, [], undefined, {
+      broker: 'TRADOVATE',
+      lotMatching: 'FIFO',
+    });
+
+    expect(plan.duplicateCount).toBe(0);
+    expect(plan.trades[0]).toMatchObject({
+      side: 'SHORT',
+      entryTradeNumber: 'T2',
+      exitTradeNumber: 'T3',
+    });
+    expect(plan.openLots).toMatchObject([{ tradeNumber: 'T4' }]);
+  });
+});
@@ -0,0 +1,518 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { isFuture, percentageGain } from '@/lib/asset-classes';
+import { recalculateDailyStats } from '@/lib/daily-stats';
+import {
+  DEFAULT_BASE_CURRENCY,
+  findFxRate,
+  uniqueMissingRates,
+} from '@/lib/fx-rates';
+import type { MissingFxRate } from '@/lib/fx-rates';
+import { getContractSpecs } from '@/lib/futures-specs';
+import type { ContractRegistry } from '@/lib/futures-specs';
+import type { AssetClass, FxRate, ImportBatch, Trade } from '@/types/database';
+import {
+  DEFAULT_LOT_MATCHING,
+  LOT_MATCHING_LABELS,
+  closingFillFingerprints,
+  fillFingerprint,
+  matchExecutions,
+} from './matching';
+import type { Execution, LotMatching, OpenLot, ParsedTrade } from './matching';
+import {
+  carriedLotFromTrade,
+  diffCarriedPositions,
+  openTradeFromLot,
+} from './positions';
+import type { Broker, BrokerParseResult } from './types';
+
+// Streamed by the import route, one JSON object per line.
+export type ImportEvent =
+  | { type: 'progress'; current: number; total: number }
+  | { type: 'done'; batchId: string; tradeCount: number }
+  | { type: 'error'; message: string };
+
+export interface ImportPlan {
+  lotMatching: LotMatching;
+  trades: ParsedTrade[];
+  openLots: OpenLot[];
+  carried: Trade[];
+  // Every contract the statement has fills or funding on, whose carried
+  // positions it can change.
+  contractKeys: string[];
+  rowCount: number;
+  skippedRows: number;
+  // Fills and round trips left out because an earlier import stored them.
+  duplicateCount: number;
+  // Futures with no contract spec and no multiplier from the broker, whose
+  // P&L would be worked out with a point value of 1.
+  unknownSymbols: string[];
+  // Days a trade closed in another currency with no rate into the base
+  // currency, from the statement or the user's rates.
+  missingFxRates: MissingFxRate[];
+}
+
+// Positions left open by earlier imports from the same broker. Another
+// broker's account holds its own positions, even in the same contract.
+export async function fetchCarriedPositions(
+  supabase: SupabaseClient,
+  userId: string,
+  broker: Broker
+): Promise<Trade[]> {
+  const { data, error } = await supabase
+    .from('trades')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('broker', broker)
+    .eq('status', 'OPEN')
+    .not('contract_key', 'is', null)
+    .order('entry_date', { ascending: true });
+  if (error) throw error;
+  return data ?? [];
+}
+
+// How the user pairs fills into trades unless an import says otherwise.
+export async function fetchLotMatching(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<LotMatching> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('lot_matching')
+    .eq('id', userId)
+    .maybeSingle();
+  if (error) throw error;
+  return data?.lot_matching ?? DEFAULT_LOT_MATCHING;
+}
+
+// Fill numbers per query, so the filter stays well inside PostgREST's URL
+// length limit.
+const FILL_NUMBER_CHUNK_SIZE = 200;
+
+// Fingerprints of this statement's fills that earlier imports stored, as the
+// entry or exit of a trade or open position, or as one of a trade's
+// executions. Only the statement's own fill numbers are looked up, so the
+// result is not cut short by PostgREST's row limit.
+export async function fetchImportedFills(
+  supabase: SupabaseClient,
+  userId: string,
+  fills: Pick<Execution, 'symbol' | 'tradeNumber'>[]
+): Promise<Set<string>> {
+  const numbers = [
+    ...new Set(
+      fills
+        .map((fill) => fill.tradeNumber)
+        .filter((tradeNumber): tradeNumber is string => !!tradeNumber)
+    ),
+  ];
+  const fingerprints: (string | null)[] = [];
+  for (let index = 0; index < numbers.length; index += FILL_NUMBER_CHUNK_SIZE) {
+    const chunk = numbers.slice(index, index + FILL_NUMBER_CHUNK_SIZE);
+    const [
+      { data: entries, error: entriesError },
+      { data: exits, error: exitsError },
+      { data: executions, error: executionsError },
+    ] = await Promise.all([
+      supabase
+        .from('trades')
+        .select('symbol, entry_trade_number')
+        .eq('user_id', userId)
+        .in('entry_trade_number', chunk),
+      supabase
+        .from('trades')
+        .select('symbol, exit_trade_number')
+        .eq('user_id', userId)
+        .in('exit_trade_number', chunk),
+      supabase
+        .from('executions')
+        .select('trade_number, trades!inner(symbol)')
+        .eq('user_id', userId)
+        .in('trade_number', chunk),
+    ]);
+    if (entriesError) throw entriesError;
+    if (exitsError) throw exitsError;
+    if (executionsError) throw executionsError;
+    fingerprints.push(
+      ...(entries ?? []).map((trade) =>
+        fillFingerprint(trade.symbol, trade.entry_trade_number)
+      ),
+      ...(exits ?? []).map((trade) =>
+        fillFingerprint(trade.symbol, trade.exit_trade_number)
+      ),
+      ...(
+        (executions ?? []) as unknown as {
+          trade_number: string;
+          trades: Pick<Trade, 'symbol'>;
+        }[]
+      ).map((execution) =>
+        fillFingerprint(execution.trades.symbol, execution.trade_number)
+      )
+    );
+  }
+  return new Set(
+    fingerprints.filter((fingerprint): fingerprint is string => !!fingerprint)
+  );
+}
+
+const isImportedFill = (execution: Execution, importedFills: Set<string>) => {
+  const fingerprint = fillFingerprint(execution.symbol, execution.tradeNumber);
+  return !!fingerprint && importedFills.has(fingerprint);
+};
+
+const isImportedRoundTrip = (trade: ParsedTrade, importedFills: Set<string>) =>
+  closingFillFingerprints(trade).some((fingerprint) =>
+    importedFills.has(fingerprint)
+  );
+
+export interface PlanOptions {
+  // The broker the statement is from. Only its carried positions are matched.
+  broker: Broker;
+  baseCurrency?: string;
+  rates?: FxRate[];
+  lotMatching?: LotMatching;
+  // Fingerprints from fetchImportedFills. These fills are left out before
+  // matching, so a statement that overlaps an earlier one neither repeats
+  // its trades nor pairs its later fills with ones already used.
+  importedFills?: Set<string>;
+}
+
+// Positions left open by earlier imports from the same broker are matched
+// first, so a statement can close a position that was opened on a previous
+// one. Each trade gets the rate its P&L is converted into the base currency
+// at.
+export function planImport(
+  {
+    executions: statementExecutions,
+    roundTrips: statementRoundTrips = [],
+    funding = [],
+    statementBaseCurrency,
+    skippedRows,
+  }: BrokerParseResult,
+  carriedPositions: Trade[],
+  contracts: ContractRegistry | undefined,
+  {
+    broker,
+    baseCurrency = DEFAULT_BASE_CURRENCY,
+    rates = [],
+    lotMatching = DEFAULT_LOT_MATCHING,
+    importedFills = new Set(),
+  }: PlanOptions
+): ImportPlan {
+  const executions = statementExecutions.filter(
+    (execution) => !isImportedFill(execution, importedFills)
+  );
+  const roundTrips = statementRoundTrips.filter(
+    (trade) => !isImportedRoundTrip(trade, importedFills)
+  );
+  const carried = carriedPositions.filter((trade) => trade.broker === broker);
+  const matched = matchExecutions(
+    executions,
+    carried.map(carriedLotFromTrade).filter((lot): lot is OpenLot => !!lot),
+    contracts,
+    funding,
+    lotMatching
+  );
+  const missingFxRates: MissingFxRate[] = [];
+  const trades = [...matched.trades, ...roundTrips].map((trade) => {
+    const currency = trade.currency ?? DEFAULT_BASE_CURRENCY;
+    const date = trade.exitTime.slice(0, 10);
+    // A statement's rates convert into the broker account's base currency,
+    // which is only of use when that is the journal's too.
+    const statementRate =
+      statementBaseCurrency === baseCurrency ? trade.fxRateToBase : undefined;
+    const fxRateToBase =
+      currency === baseCurrency
+        ? 1
+        : statementRate ?? findFxRate(rates, currency, baseCurrency, date);
+    if (fxRateToBase === null) missingFxRates.push({ currency, date });
+    return { ...trade, currency, fxRateToBase: fxRateToBase ?? undefined };
+  });
+  const unknownSymbols = [
+    ...new Set([
+      ...executions
+        .filter(
+          (execution) =>
+            execution.multiplier === undefined && isFuture(execution.assetClass)
+        )
+        .map((execution) => execution.symbol),
+      ...roundTrips
+        .filter((trade) => isFuture(trade.assetClass))
+        .map((trade) => trade.symbol),
+    ]),
+  ].filter((symbol) => !getContractSpecs(symbol, contracts));
+  return {
+    lotMatching,
+    trades,
+    openLots: matched.openLots,
+    carried,
+    contractKeys: [
+      ...new Set([
+        ...executions.map((execution) => execution.contractKey),
+        ...funding.map((payment) => payment.contractKey),
+      ]),
+    ],
+    rowCount:
+      statementExecutions.length +
+      statementRoundTrips.length +
+      funding.length +
+      skippedRows,
+    skippedRows,
+    duplicateCount:
+      statementExecutions.length -
+      executions.length +
+      statementRoundTrips.length -
+      roundTrips.length,
+    unknownSymbols,
+    missingFxRates: uniqueMissingRates(missingFxRates),
+  };
+}
+
+export interface LotMatchingSummary {
+  lotMatching: LotMatching;
+  tradeCount: number;
+  // Share of the trades that made money, from 0 to 100. Null without trades.
+  winRate: number | null;
+  // Net P&L in the base currency.
+  pnl: number;
+}
+
+// What each matching method would make of the same statement.
+export function compareLotMatching(
+  result: BrokerParseResult,
+  carried: Trade[],
+  contracts: ContractRegistry | undefined,
+  options: Omit<PlanOptions, 'lotMatching'>
+): LotMatchingSummary[] {
+  return (Object.keys(LOT_MATCHING_LABELS) as LotMatching[]).map(
+    (lotMatching) => {
+      const { trades } = planImport(result, carried, contracts, {
+        ...options,
+        lotMatching,
+      });
+      return {
+        lotMatching,
+        tradeCount: trades.length,
+        winRate:
+          trades.length > 0
+            ? (trades.filter((trade) => trade.pnl > 0).length / trades.length) *
+              100
+            : null,
+        pnl: trades.reduce(
+          (sum, trade) => sum + trade.pnl * (trade.fxRateToBase ?? 1),
+          0
+        ),
+      };
+    }
+  );
+}
+
+const closedTradeRow = (trade: ParsedTrade) => ({
+  symbol: trade.symbol,
+  contract_month: trade.contractMonth ?? null,
+  asset_class: trade.assetClass ?? 'FUTURE',
+  crypto_contract: trade.cryptoContract ?? null,
+  multiplier: trade.multiplier ?? null,
+  side: trade.side,
+  entry_date: trade.entryTime,
+  exit_date: trade.exitTime,
+  entry_price: trade.entryPrice,
+  exit_price: trade.exitPrice,
+  quantity: trade.quantity,
+  max_position: trade.maxPosition ?? null,
+  commission: trade.commission,
+  fees_from_statement: trade.feesFromStatement ?? false,
+  funding: trade.funding ?? 0,
+  currency: trade.currency ?? DEFAULT_BASE_CURRENCY,
+  pnl_native: trade.pnl,
+  pnl: trade.pnl * (trade.fxRateToBase ?? 1),
+  fx_rate: trade.fxRateToBase ?? 1,
+  percentage_gain: percentageGain(
+    trade.entryPrice,
+    trade.exitPrice,
+    trade.side,
+    trade.assetClass
+  ),
+  status: 'CLOSED' as const,
+  entry_trade_number: trade.entryTradeNumber ?? null,
+  exit_trade_number: trade.exitTradeNumber ?? null,
+  time_estimated: trade.timeEstimated ?? false,
+});
+
+// Active imports made after this one that may have closed, reduced or built
+// on positions it carried over or opened. Undoing it first would bring back
+// positions they closed and delete ones they still point at. Imports from
+// before contract keys were recorded could have touched anything.
+export const blockingLaterBatches = (
+  batch: ImportBatch,
+  batches: ImportBatch[]
+) =>
+  batches.filter(
+    (later) =>
+      later.id !== batch.id &&
+      !later.undone_at &&
+      new Date(later.created_at) > new Date(batch.created_at) &&
+      (!batch.contract_keys ||
+        !later.contract_keys ||
+        later.contract_keys.some((key) => batch.contract_keys!.includes(key)))
+  );
+
+// Large enough to keep round trips down, small enough to stay well under
+// PostgREST's request size limit.
+const INSERT_CHUNK_SIZE = 500;
+
+// Writes a planned import as one batch: the closed trades, positions that are
+// still open, changes to carried positions and the daily stats of every day
+// that gained trades.
+export async function saveImport(
+  supabase: SupabaseClient,
+  userId: string,
+  {
+    plan,
+    broker,
+    fileName,
+    source,
+    equitySymbols = [],
+  }: {
+    plan: ImportPlan;
+    broker: Broker;
+    fileName: string;
+    source: string;
+    // Unknown symbols the user confirmed are stocks.
+    equitySymbols?: string[];
+  },
+  onProgress: (current: number, total: number) => void
+) {
+  const unresolved = plan.unknownSymbols.filter(
+    (symbol) => !equitySymbols.includes(symbol)
+  );
+  if (unresolved.length > 0)
+    throw new Error(
+      `There is no contract spec for ${unresolved.join(
+        ', '
+      )}. Define the contract or mark it as a stock before importing.`
+    );
+  if (plan.missingFxRates.length > 0)
+    throw new Error(
+      `There is no exchange rate for ${plan.missingFxRates
+        .map((rate) => `${rate.currency} on ${rate.date}`)
+        .join(', ')}. Add the rates before importing.`
+    );
+
+  const positionChanges = diffCarriedPositions(plan.carried, plan.openLots);
+  if (
+    plan.trades.length === 0 &&
+    positionChanges.opened.length === 0 &&
+    positionChanges.consumed.length === 0
+  )
+    throw new Error('There are no new trades or positions to import.');
+
+  const { data: batch, error: batchError } = await supabase
+    .from('import_batches')
+    .insert({
+      user_id: userId,
+      file_name: fileName,
+      broker: source,
+      row_count: plan.rowCount,
+      skipped_rows: plan.skippedRows,
+      duplicate_count: plan.duplicateCount,
+      consumed_positions: positionChanges.consumed,
+      contract_keys: plan.contractKeys,
+      lot_matching: plan.lotMatching,
+    })
+    .select()
+    .single();
+  if (batchError) throw batchError;
+
+  // Symbols the user marked as stocks override what the statement said.
+  const withEquities = <T extends { symbol: string; assetClass?: AssetClass }>(
+    item: T
+  ): T =>
+    equitySymbols.includes(item.symbol)
+      ? { ...item, assetClass: 'STOCK' }
+      : item;
+  const now = new Date().toISOString();
+  const rows = [
+    ...plan.trades.map(withEquities).map(closedTradeRow),
+    ...positionChanges.opened.map(withEquities).map(openTradeFromLot),
+  ].map((row) => ({
+    ...row,
+    broker,
+    user_id: userId,
+    notes: `Imported from ${source}`,
+    created_at: now,
+    updated_at: now,
+  }));
+  const statsDates = [
+    ...new Set(plan.trades.map((trade) => trade.exitTime.slice(0, 10))),
+  ];
+  const total = rows.length + statsDates.length;
+  const insertedIds: string[] = [];
+
+  try {
+    for (let index = 0; index < rows.length; index += INSERT_CHUNK_SIZE) {
+      const { data: inserted, error: insertError } = await supabase
+        .from('trades')
+        .insert(rows.slice(index, index + INSERT_CHUNK_SIZE))
+        .select('id');
+      if (insertError) throw insertError;
+      insertedIds.push(...(inserted ?? []).map((trade) => trade.id));
+      onProgress(insertedIds.length, total);
+    }
+    // Closed trades come first in the rows, so they line up with their ids.
+    const executionRows = plan.trades.flatMap((trade, index) =>
+      (trade.fills ?? []).map((fill) => ({
+        trade_id: insertedIds[index],
+        user_id: userId,
+        side: fill.side === 'LONG' ? 'BUY' : 'SELL',
+        quantity: fill.quantity,
+        price: fill.price,
+        executed_at: fill.time,
+        commission: fill.commission,
+        trade_number: fill.tradeNumber ?? null,
+      }))
+    );
+    for (
+      let index = 0;
+      index < executionRows.length;
+      index += INSERT_CHUNK_SIZE
+    ) {
+      const { error: executionsError } = await supabase
+        .from('executions')
+        .insert(executionRows.slice(index, index + INSERT_CHUNK_SIZE));
+      if (executionsError) throw executionsError;
+    }
+    for (const position of positionChanges.reduced) {
+      const { error: reduceError } = await supabase
+        .from('trades')
+        .update({
+          quantity: position.quantity,
+          entry_price: position.entryPrice,
+          commission: position.commission,
+          funding: position.funding,
+          funding_coins: position.fundingCoins,
+          updated_at: now,
+        })
+        .eq('id', position.id);
+      if (reduceError) throw reduceError;
+    }
+    if (positionChanges.closedIds.length > 0) {
+      const { error: closeError } = await supabase
+        .from('trades')
+        .delete()
+        .in('id', positionChanges.closedIds);
+      if (closeError) throw closeError;
+    }
+  } finally {
+    // Record whatever made it in, so a failed import can still be undone.
+    await supabase
+      .from('import_batches')
+      .update({ trade_ids: insertedIds, trade_count: insertedIds.length })
+      .eq('id', batch.id);
+  }
+
+  for (let index = 0; index < statsDates.length; index += 1) {
+    await recalculateDailyStats(supabase, userId, statsDates[index]);
+    onProgress(rows.length + index + 1, total);
+  }
+
+  return { batchId: batch.id as string, tradeCount: insertedIds.length };
+}
@@ -0,0 +1,111 @@
+import type { Trade } from '@/types/database';
+import type { OpenLot } from './matching';
+
+// Imported positions are stored as OPEN trades tagged with the broker's
+// contract key; manually entered open trades have none and are left alone.
+export function carriedLotFromTrade(trade: Trade): OpenLot | null {
+  if (trade.status !== 'OPEN' || !trade.contract_key || trade.quantity <= 0)
+    return null;
+  return {
+    contractKey: trade.contract_key,
+    symbol: trade.symbol,
+    contractMonth: trade.contract_month ?? undefined,
+    assetClass: trade.asset_class,
+    cryptoContract: trade.crypto_contract ?? undefined,
+    side: trade.side,
+    quantity: trade.quantity,
+    price: trade.entry_price,
+    time: trade.entry_date,
+    tradeNumber: trade.entry_trade_number ?? undefined,
+    commissionPerUnit: trade.commission / trade.quantity,
+    feesFromStatement: trade.fees_from_statement,
+    multiplier: trade.multiplier ?? undefined,
+    currency: trade.currency,
+    funding: Number(trade.funding ?? 0),
+    fundingCoins: Number(trade.funding_coins ?? 0),
+    timeEstimated: trade.time_estimated,
+    openTradeId: trade.id,
+  };
+}
+
+export const openTradeFromLot = (lot: OpenLot) => ({
+  symbol: lot.symbol,
+  contract_month: lot.contractMonth ?? null,
+  asset_class: lot.assetClass ?? 'FUTURE',
+  crypto_contract: lot.cryptoContract ?? null,
+  multiplier: lot.multiplier ?? null,
+  side: lot.side,
+  entry_date: lot.time,
+  entry_price: lot.price,
+  quantity: lot.quantity,
+  commission: lot.commissionPerUnit * lot.quantity,
+  fees_from_statement: lot.feesFromStatement ?? false,
+  funding: lot.funding ?? 0,
+  funding_coins: lot.fundingCoins ?? 0,
+  currency: lot.currency ?? 'USD',
+  status: 'OPEN' as const,
+  entry_trade_number: lot.tradeNumber ?? null,
+  contract_key: lot.contractKey,
+  time_estimated: lot.timeEstimated ?? false,
+});
+
+export interface PositionChanges {
+  // Carried positions that were partly closed, took funding or were averaged
+  // with later fills, with what is left of them.
+  reduced: {
+    id: string;
+    quantity: number;
+    entryPrice: number;
+    commission: number;
+    funding: number;
+    fundingCoins: number;
+  }[];
+  // Carried positions that were closed completely.
+  closedIds: string[];
+  // The carried positions above as they were before this import.
+  consumed: Trade[];
+  // Positions opened by this import and still open at the end of it.
+  opened: OpenLot[];
+}
+
+// Compares the positions carried into the matcher with the lots it left open
+// to work out which stored OPEN trades have to change.
+export function diffCarriedPositions(
+  carried: Trade[],
+  openLots: OpenLot[]
+): PositionChanges {
+  const remaining = new Map(
+    openLots
+      .filter((lot) => lot.openTradeId)
+      .map((lot) => [lot.openTradeId, lot])
+  );
+  const changes: PositionChanges = {
+    reduced: [],
+    closedIds: [],
+    consumed: [],
+    opened: openLots.filter((lot) => !lot.openTradeId),
+  };
+  for (const position of carried) {
+    const lot = remaining.get(position.id);
+    if (
+      lot &&
+      lot.quantity === position.quantity &&
+      lot.price === position.entry_price &&
+      (lot.funding ?? 0) === Number(position.funding ?? 0) &&
+      (lot.fundingCoins ?? 0) === Number(position.funding_coins ?? 0)
+    )
+      continue;
+    changes.consumed.push(position);
+    if (lot)
+      changes.reduced.push({
+        id: position.id,
+        quantity: lot.quantity,
+        entryPrice: lot.price,
+        commission: lot.commissionPerUnit * lot.quantity,
+        funding: lot.funding ?? 0,
+        fundingCoins: lot.fundingCoins ?? 0,
+      });
+    else changes.closedIds.push(position.id);
+  }
+  return changes;
+}
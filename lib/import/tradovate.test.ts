@@ -0,0 +1,51 @@
+import { readFileSync } from 'fs';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { parseImportText } from './index';
+
+const fixture = (name: string) =>
+  readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url), 'utf8');
+
+describe('parseTradovateRows', () => {
+  // Single-digit years in "MESZ5" are read relative to today.
+  beforeAll(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-12-01T12:00:00'));
+  });
+  afterAll(() => {
+    vi.useRealTimers();
+  });
+
+  it('reads filled orders in fill-time order', () => {
+    const parsed = parseImportText(fixture('tradovate-orders.csv'));
+    expect(parsed.broker).toBe('TRADOVATE');
+    if (!parsed.broker) return;
+    const { executions, skippedRows } = parsed.result;
+
+    // The cancelled order is left out, and the fill without a time skipped.
+    expect(skippedRows).toBe(1);
+    expect(executions).toEqual([
+      {
+        symbol: 'MES',
+        contractMonth: '2025-12',
+        currency: 'USD',
+        contractKey: 'MESZ25',
+        side: 'LONG',
+        quantity: 2,
+        price: 6001.5,
+        time: '2025-11-20T09:31:05',
+        tradeNumber: '5001',
+      },
+      {
+        symbol: 'MES',
+        contractMonth: '2025-12',
+        currency: 'USD',
+        contractKey: 'MESZ25',
+        side: 'SHORT',
+        quantity: 2,
+        price: 6012.25,
+        time: '2025-11-20T09:47:12',
+        tradeNumber: '5003',
+      },
+    ]);
+  });
+});
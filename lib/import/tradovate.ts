@@ -0,0 +1,95 @@
+import { format, isValid, parse } from 'date-fns';
+import { parseContractPrice } from '@/lib/futures-specs';
+import type { ContractRegistry } from '@/lib/futures-specs';
+import { contractFields } from './matching';
+import type { Execution } from './matching';
+import type { BrokerParseResult, CsvRow } from './types';
+
+// Tradovate's Orders and Fills reports name the same values differently, so
+// each field lists the headers to try in order of preference.
+const SIDE_HEADERS = ['B/S'];
+const CONTRACT_HEADERS = ['CONTRACT'];
+const PRODUCT_HEADERS = ['PRODUCT'];
+const QUANTITY_HEADERS = ['FILLED QTY', 'FILLEDQTY', 'QUANTITY', 'QTY'];
+const PRICE_HEADERS = ['AVG FILL PRICE', 'AVGPRICE', 'PRICE'];
+const TIME_HEADERS = ['FILL TIME', 'TIMESTAMP', 'DATE'];
+const ID_HEADERS = ['FILL ID', '_ID', 'ORDER ID', 'ORDERID'];
+
+const TIMESTAMP_FORMATS = [
+  'MM/dd/yyyy HH:mm:ss',
+  'MM/dd/yyyy H:mm:ss',
+  'MM/dd/yyyy HH:mm',
+  'yyyy-MM-dd HH:mm:ss',
+  "yyyy-MM-dd'T'HH:mm:ss",
+  'MM/dd/yyyy',
+  'yyyy-MM-dd',
+];
+
+export const isTradovateHeaders = (headers: string[]): boolean =>
+  SIDE_HEADERS.some((header) => headers.includes(header)) &&
+  CONTRACT_HEADERS.some((header) => headers.includes(header)) &&
+  QUANTITY_HEADERS.some((header) => headers.includes(header)) &&
+  PRICE_HEADERS.some((header) => headers.includes(header));
+
+const pick = (row: CsvRow, headers: string[]): string => {
+  for (const header of headers) {
+    const value = row[header]?.trim();
+    if (value) return value;
+  }
+  return '';
+};
+
+const parseTradovateTimestamp = (value: string): string | null => {
+  const trimmed = value.trim().replace(/\.\d+$/, '');
+  for (const pattern of TIMESTAMP_FORMATS) {
+    const parsed = parse(trimmed, pattern, new Date());
+    if (isValid(parsed)) return format(parsed, "yyyy-MM-dd'T'HH:mm:ss");
+  }
+  return null;
+};
+
+export function parseTradovateRows(
+  data: CsvRow[],
+  contracts?: ContractRegistry
+): BrokerParseResult {
+  const executions: Execution[] = [];
+  let skippedRows = 0;
+
+  for (const row of data) {
+    // The Orders report also lists working, cancelled and rejected orders.
+    const status = row.STATUS?.trim().toUpperCase();
+    if (status && status !== 'FILLED') continue;
+
+    const action = pick(row, SIDE_HEADERS).toUpperCase();
+    const contract = pick(row, CONTRACT_HEADERS).toUpperCase();
+    const quantity = Number(pick(row, QUANTITY_HEADERS).replace(/,/g, ''));
+    const price = parseContractPrice(pick(row, PRICE_HEADERS)) ?? NaN;
+    const time = parseTradovateTimestamp(pick(row, TIME_HEADERS));
+    if (
+      !['BUY', 'SELL'].includes(action) ||
+      !contract ||
+      !Number.isFinite(quantity) ||
+      quantity <= 0 ||
+      !Number.isFinite(price) ||
+      !time
+    ) {
+      skippedRows += 1;
+      continue;
+    }
+
+    const fields = contractFields(contract, contracts);
+    executions.push({
+      ...fields,
+      symbol: pick(row, PRODUCT_HEADERS).toUpperCase() || fields.symbol,
+      side: action === 'BUY' ? 'LONG' : 'SHORT',
+      quantity,
+      price,
+      time,
+      tradeNumber: pick(row, ID_HEADERS) || undefined,
+    });
+  }
+
+  // Exports are sorted by the grid's current column, not by fill time.
+  executions.sort((a, b) => a.time.localeCompare(b.time));
+  return { executions, skippedRows };
+}
@@ -0,0 +1,47 @@
+import type { Execution, FundingEvent, ParsedTrade } from './matching';
+
+export type Broker =
+  | 'AMP'
+  | 'TRADOVATE'
+  | 'NINJATRADER'
+  | 'IBKR'
+  | 'BINANCE'
+  | 'BYBIT'
+  | 'COINBASE'
+  | 'CUSTOM';
+
+// Brokers with a built-in CSV parser. IBKR Flex Queries are XML and CUSTOM
+// files are read through a user's import profile.
+export type CsvBroker = Exclude<Broker, 'IBKR' | 'CUSTOM'>;
+
+// A CSV record keyed by its trimmed, upper-cased header.
+export type CsvRow = Record<string, string | undefined>;
+
+// A statement fee line with no fills to charge it to, shown to the user so it
+// isn't dropped silently.
+export interface UnallocatedFee {
+  // "YYYY-MM-DD"
+  day: string;
+  description: string;
+  amount: number;
+}
+
+export interface BrokerParseResult {
+  executions: Execution[];
+  // Round trips the platform already paired itself, which skip lot matching.
+  roundTrips?: ParsedTrade[];
+  // Funding payments on perpetuals, attributed to the positions open at the
+  // time.
+  funding?: FundingEvent[];
+  // The account base currency the statement's fxRateToBase rates convert
+  // into, when it says. Its rates are only used when this is the user's base
+  // currency.
+  statementBaseCurrency?: string;
+  // Fee lines left over after charging fees to fills. They are also counted
+  // in skippedRows.
+  unallocatedFees?: UnallocatedFee[];
+  // Option fills, which imports can't journal yet. They are also counted in
+  // skippedRows.
+  skippedOptionFills?: number;
+  skippedRows: number;
+}
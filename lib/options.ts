@@ -0,0 +1,286 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { format, isValid, parseISO } from 'date-fns';
+import { DEFAULT_OPTION_MULTIPLIER } from '@/lib/asset-classes';
+import {
+  ExecutionDraft,
+  ExecutionInput,
+  draftFromExecution,
+  emptyExecutionDraft,
+  executionsFromDrafts,
+  summarizeExecutions,
+  validateExecutionDrafts,
+} from '@/lib/executions';
+import { getContractSpecs } from '@/lib/futures-specs';
+import type { ContractRegistry } from '@/lib/futures-specs';
+import type {
+  OptionLeg,
+  OptionRight,
+  OptionStrategy,
+  Trade,
+} from '@/types/database';
+
+export const OPTION_STRATEGY_LABELS: Record<OptionStrategy, string> = {
+  SINGLE: 'Single',
+  VERTICAL: 'Vertical',
+  STRADDLE: 'Straddle',
+  STRANGLE: 'Strangle',
+  IRON_CONDOR: 'Iron Condor',
+  CALENDAR: 'Calendar',
+  CUSTOM: 'Custom',
+};
+
+// A leg as typed into a form. Its side, size and prices come from its fills,
+// so a leg can be closed or rolled on its own.
+export type OptionLegDraft = {
+  option_right: OptionRight;
+  strike: string;
+  expiry: string;
+  fills: ExecutionDraft[];
+};
+
+const emptyLeg = (
+  side: OptionLeg['side'],
+  option_right: OptionRight
+): OptionLegDraft => ({
+  option_right,
+  strike: '',
+  expiry: '',
+  fills: [
+    { ...emptyExecutionDraft(side === 'LONG' ? 'BUY' : 'SELL'), quantity: '1' },
+  ],
+});
+
+// The legs a strategy starts with, lowest strike first. A calendar's near
+// leg comes first.
+export function strategyLegDrafts(strategy: OptionStrategy): OptionLegDraft[] {
+  switch (strategy) {
+    case 'VERTICAL':
+      return [emptyLeg('LONG', 'CALL'), emptyLeg('SHORT', 'CALL')];
+    case 'STRADDLE':
+    case 'STRANGLE':
+      return [emptyLeg('LONG', 'PUT'), emptyLeg('LONG', 'CALL')];
+    case 'IRON_CONDOR':
+      return [
+        emptyLeg('LONG', 'PUT'),
+        emptyLeg('SHORT', 'PUT'),
+        emptyLeg('SHORT', 'CALL'),
+        emptyLeg('LONG', 'CALL'),
+      ];
+    case 'CALENDAR':
+      return [emptyLeg('SHORT', 'CALL'), emptyLeg('LONG', 'CALL')];
+    default:
+      return [emptyLeg('LONG', 'CALL')];
+  }
+}
+
+export const sortedLegFills = (leg: Pick<OptionLeg, 'fills'>) =>
+  [...(leg.fills ?? [])].sort((a, b) =>
+    a.executed_at.localeCompare(b.executed_at)
+  );
+
+export const draftFromLeg = (leg: OptionLeg): OptionLegDraft => ({
+  option_right: leg.option_right,
+  strike: String(leg.strike),
+  expiry: leg.expiry,
+  fills: sortedLegFills(leg).map(draftFromExecution),
+});
+
+export const sortedLegs = (trade: Pick<Trade, 'option_legs'>) =>
+  [...(trade.option_legs ?? [])].sort((a, b) => a.leg_index - b.leg_index);
+
+// Options on a futures root are on one contract, so they use its point
+// value.
+export const defaultMultiplier = (
+  underlying: string,
+  contracts?: ContractRegistry
+) =>
+  (underlying && getContractSpecs(underlying, contracts)?.pointValue) ||
+  DEFAULT_OPTION_MULTIPLIER;
+
+// Each leg's fills are checked like a scaled position's. A closed position
+// needs every leg back to flat, and an open one at least one leg still open.
+export function validateOptionLegDrafts(
+  drafts: OptionLegDraft[],
+  closed: boolean
+): string | null {
+  if (drafts.length === 0) return 'Add at least one leg.';
+  for (const [index, draft] of drafts.entries()) {
+    const leg = `Leg ${index + 1}`;
+    if (!(Number(draft.strike) > 0))
+      return `${leg}: strike must be greater than 0.`;
+    if (
+      !/^\d{4}-\d{2}-\d{2}$/.test(draft.expiry) ||
+      !isValid(parseISO(draft.expiry))
+    )
+      return `${leg}: expiry is required.`;
+    const fillsError = validateExecutionDrafts(draft.fills);
+    if (fillsError) return `${leg}: ${fillsError}`;
+    if (draft.fills.some((fill) => !Number.isInteger(Number(fill.quantity))))
+      return `${leg}: quantity must be a whole number of contracts.`;
+    if (draft.fills.some((fill) => !(Number(fill.price) >= 0)))
+      return `${leg}: prices can't be negative.`;
+  }
+  const legs = legsFromDrafts(drafts);
+  const openLeg = legs.findIndex((leg) => leg.status === 'OPEN');
+  if (closed && openLeg !== -1)
+    return `Leg ${
+      openLeg + 1
+    } is still open. Add its closing fills or mark the position open.`;
+  if (!closed && openLeg === -1)
+    return 'Every leg is closed. Mark the position closed.';
+  return null;
+}
+
+export type OptionLegInput = Pick<
+  OptionLeg,
+  | 'side'
+  | 'option_right'
+  | 'strike'
+  | 'expiry'
+  | 'quantity'
+  | 'entry_price'
+  | 'exit_price'
+  | 'status'
+> & { fills: ExecutionInput[] };
+
+// A leg's side, size, average prices and status follow from its fills. Fill
+// times are typed in local time and stored in UTC.
+export const legsFromDrafts = (drafts: OptionLegDraft[]): OptionLegInput[] =>
+  drafts.map((draft) => {
+    const fills = executionsFromDrafts(draft.fills).map((fill) => ({
+      ...fill,
+      executed_at: new Date(fill.executed_at).toISOString(),
+    }));
+    const position = summarizeExecutions(fills);
+    return {
+      side: position.side,
+      option_right: draft.option_right,
+      strike: Number(draft.strike),
+      expiry: draft.expiry,
+      quantity: position.quantity,
+      entry_price: position.entry_price,
+      exit_price: position.exit_price,
+      status: position.closed ? 'CLOSED' : 'OPEN',
+      fills,
+    };
+  });
+
+// Premium paid per spread, negative for a credit.
+const netPremium = (
+  legs: OptionLegInput[],
+  price: 'entry_price' | 'exit_price',
+  spreads: number
+) =>
+  legs.reduce(
+    (sum, leg) =>
+      sum +
+      (leg.side === 'LONG' ? 1 : -1) *
+        Number(leg[price] ?? 0) *
+        Number(leg.quantity),
+    0
+  ) / spreads;
+
+// The position as one trade: long for a debit and short for a credit, priced
+// at the net premium per spread, where a spread is the smallest leg's
+// quantity. Ratio legs carry their extra contracts in the net premium. The
+// position opens with its first fill and closes once every leg is closed;
+// exit price and date are null until then.
+export function summarizeOptionPosition(legs: OptionLegInput[]) {
+  const spreads = Math.min(...legs.map((leg) => Number(leg.quantity)));
+  const entry = netPremium(legs, 'entry_price', spreads);
+  const side: Trade['side'] = entry >= 0 ? 'LONG' : 'SHORT';
+  const sign = side === 'LONG' ? 1 : -1;
+  const closed = legs.every((leg) => leg.status === 'CLOSED');
+  const fills = legs
+    .flatMap((leg) => leg.fills)
+    .sort((a, b) => a.executed_at.localeCompare(b.executed_at));
+  return {
+    side,
+    quantity: spreads,
+    entry_price: sign * entry,
+    exit_price: closed ? sign * netPremium(legs, 'exit_price', spreads) : null,
+    commission: fills.reduce((sum, fill) => sum + fill.commission, 0),
+    entry_date: fills[0].executed_at,
+    exit_date: closed ? fills[fills.length - 1].executed_at : null,
+    closed,
+  };
+}
+
+// Gross P&L on what the legs have closed so far, summed leg by leg at their
+// average prices, in the trade's currency. A rolled leg counts once closed.
+export const optionRealizedPnL = (legs: OptionLegInput[], multiplier: number) =>
+  legs.reduce((sum, leg) => {
+    const position = summarizeExecutions(leg.fills);
+    if (position.average_exit_price === null) return sum;
+    return (
+      sum +
+      (leg.side === 'LONG' ? 1 : -1) *
+        (position.average_exit_price - position.entry_price) *
+        position.exited_quantity *
+        multiplier
+    );
+  }, 0);
+
+// "+1 20 Nov 26 450C @ 3.20 → 4.10"
+export function formatOptionLeg(leg: Omit<OptionLegInput, 'fills'>) {
+  const prices =
+    leg.exit_price === null || leg.exit_price === undefined
+      ? `${leg.entry_price}`
+      : `${leg.entry_price} → ${leg.exit_price}`;
+  return `${leg.side === 'LONG' ? '+' : '-'}${leg.quantity} ${format(
+    parseISO(leg.expiry),
+    'dd MMM yy'
+  )} ${leg.strike}${leg.option_right === 'CALL' ? 'C' : 'P'} @ ${prices}`;
+}
+
+export const optionPositionLabel = (trade: Pick<Trade, 'strategy'>) =>
+  trade.strategy ? OPTION_STRATEGY_LABELS[trade.strategy] : 'Options';
+
+// Replaces a position's legs and their fills with these, in order.
+export async function saveOptionLegs(
+  supabase: SupabaseClient,
+  userId: string,
+  tradeId: string,
+  legs: OptionLegInput[]
+) {
+  const { error: deleteError } = await supabase
+    .from('option_legs')
+    .delete()
+    .eq('trade_id', tradeId);
+  if (deleteError) throw deleteError;
+  const { data: saved, error } = await supabase
+    .from('option_legs')
+    .insert(
+      legs.map((leg, index) => ({
+        side: leg.side,
+        option_right: leg.option_right,
+        strike: leg.strike,
+        expiry: leg.expiry,
+        quantity: leg.quantity,
+        entry_price: leg.entry_price,
+        exit_price: leg.exit_price,
+        status: leg.status,
+        trade_id: tradeId,
+        user_id: userId,
+        leg_index: index,
+      }))
+    )
+    .select('id, leg_index');
+  if (error) throw error;
+  const legIds = new Map(
+    (saved ?? []).map((leg: Pick<OptionLeg, 'id' | 'leg_index'>) => [
+      leg.leg_index,
+      leg.id,
+    ])
+  );
+  const { error: fillsError } = await supabase.from('option_leg_fills').insert(
+    legs.flatMap((leg, index) =>
+      leg.fills.map((fill) => ({
+        ...fill,
+        leg_id: legIds.get(index),
+        user_id: userId,
+      }))
+    )
+  );
+  if (fillsError) throw fillsError;
+}
@@ -0,0 +1,179 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { Setup, Trade } from '@/types/database';
+
+export async function fetchSetups(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<Setup[]> {
+  const { data, error } = await supabase
+    .from('setups')
+    .select('*')
+    .eq('user_id', userId)
+    .order('name', { ascending: true });
+  if (error) throw error;
+  return data ?? [];
+}
+
+// A setup as typed into the settings form, one rule per line.
+export type SetupDraft = {
+  name: string;
+  description: string;
+  rules: string;
+  target_r: string;
+};
+
+export const EMPTY_SETUP_DRAFT: SetupDraft = {
+  name: '',
+  description: '',
+  rules: '',
+  target_r: '',
+};
+
+export const draftFromSetup = (setup: Setup): SetupDraft => ({
+  name: setup.name,
+  description: setup.description,
+  rules: setup.rules.join('\n'),
+  target_r: setup.target_r === null ? '' : String(setup.target_r),
+});
+
+// Names are unique per user, ignoring case.
+export function validateSetupDraft(
+  draft: SetupDraft,
+  setups: Setup[],
+  editingId?: string
+): string | null {
+  const name = draft.name.trim();
+  if (!name) return 'Name is required.';
+  if (
+    setups.some(
+      (setup) =>
+        setup.id !== editingId &&
+        setup.name.toLowerCase() === name.toLowerCase()
+    )
+  )
+    return `There is already a setup called ${name}.`;
+  if (draft.target_r.trim() !== '' && !(Number(draft.target_r) > 0))
+    return 'Target R must be greater than 0.';
+  return null;
+}
+
+const setupFromDraft = (draft: SetupDraft) => ({
+  name: draft.name.trim(),
+  description: draft.description.trim(),
+  rules: draft.rules
+    .split('\n')
+    .map((rule) => rule.trim())
+    .filter(Boolean),
+  target_r: draft.target_r.trim() === '' ? null : Number(draft.target_r),
+});
+
+// Adds the setup, or updates it when an id is given.
+export async function saveSetup(
+  supabase: SupabaseClient,
+  userId: string,
+  draft: SetupDraft,
+  id?: string
+) {
+  const { error } = id
+    ? await supabase
+        .from('setups')
+        .update({
+          ...setupFromDraft(draft),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', id)
+    : await supabase
+        .from('setups')
+        .insert({ ...setupFromDraft(draft), user_id: userId });
+  if (error) throw error;
+}
+
+// Trades labeled with the setup keep their other labels.
+export async function deleteSetup(supabase: SupabaseClient, id: string) {
+  const { error } = await supabase.from('setups').delete().eq('id', id);
+  if (error) throw error;
+}
+
+// Labels the trades with one setup, or none. Rules ticked against another
+// setup no longer apply.
+export async function assignSetup(
+  supabase: SupabaseClient,
+  tradeIds: string[],
+  setupId: string | null
+) {
+  const { error } = await supabase
+    .from('trades')
+    .update({
+      setup_id: setupId,
+      rules_followed: null,
+      updated_at: new Date().toISOString(),
+    })
+    .in('id', tradeIds);
+  if (error) throw error;
+}
+
+// What a trade is labeled with, as edited alongside it.
+export type TradeLabels = {
+  setup_id: string | null;
+  rules_followed: string[];
+  tags: string[];
+};
+
+export const EMPTY_TRADE_LABELS: TradeLabels = {
+  setup_id: null,
+  rules_followed: [],
+  tags: [],
+};
+
+export const labelsFromTrade = (
+  trade: Pick<Trade, 'setup_id' | 'rules_followed' | 'tags'>
+): TradeLabels => ({
+  setup_id: trade.setup_id ?? null,
+  rules_followed: trade.rules_followed ?? [],
+  tags: (trade.tags ?? []).map((tag) => tag.name).sort(),
+});
+
+export interface SetupPerformance {
+  // Null for trades without a setup.
+  setupId: string | null;
+  trades: number;
+  winRate: number;
+  // Average net P&L per trade.
+  expectancy: number;
+  // Gross wins over gross losses. Infinite without a loss.
+  profitFactor: number;
+  pnl: number;
+}
+
+// Closed trades by setup, in the base currency, best P&L first.
+export function setupPerformance(trades: Trade[]): SetupPerformance[] {
+  const bySetup = new Map<string | null, Trade[]>();
+  for (const trade of trades.filter((t) => t.status === 'CLOSED')) {
+    const setupId = trade.setup_id ?? null;
+    bySetup.set(setupId, [...(bySetup.get(setupId) ?? []), trade]);
+  }
+  return [...bySetup.entries()]
+    .map(([setupId, closed]) => {
+      const pnls = closed.map((trade) => trade.pnl || 0);
+      const wins = pnls.filter((pnl) => pnl > 0);
+      const grossWins = wins.reduce((sum, pnl) => sum + pnl, 0);
+      const grossLosses = Math.abs(
+        pnls.filter((pnl) => pnl < 0).reduce((sum, pnl) => sum + pnl, 0)
+      );
+      const pnl = pnls.reduce((sum, value) => sum + value, 0);
+      return {
+        setupId,
+        trades: closed.length,
+        winRate: (wins.length / closed.length) * 100,
+        expectancy: pnl / closed.length,
+        profitFactor:
+          grossLosses > 0
+            ? grossWins / grossLosses
+            : grossWins > 0
+            ? Infinity
+            : 0,
+        pnl,
+      };
+    })
+    .sort((a, b) => b.pnl - a.pnl);
+}
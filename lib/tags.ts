@@ -0,0 +1,109 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { Tag } from '@/types/database';
+
+export async function fetchTags(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<Tag[]> {
+  const { data, error } = await supabase
+    .from('tags')
+    .select('*')
+    .eq('user_id', userId)
+    .order('name', { ascending: true });
+  if (error) throw error;
+  return data ?? [];
+}
+
+// Tags are matched by name, so "Revenge  trade" and "Revenge trade" are one.
+export const normalizeTagName = (name: string) =>
+  name.trim().replace(/\s+/g, ' ');
+
+// Ids for the named tags, adding the ones the user doesn't have yet.
+async function tagIds(
+  supabase: SupabaseClient,
+  userId: string,
+  names: string[]
+): Promise<string[]> {
+  const wanted = [...new Set(names.map(normalizeTagName).filter(Boolean))];
+  if (wanted.length === 0) return [];
+  const existing = await fetchTags(supabase, userId);
+  const missing = wanted.filter(
+    (name) => !existing.some((tag) => tag.name === name)
+  );
+  let added: Tag[] = [];
+  if (missing.length > 0) {
+    const { data, error } = await supabase
+      .from('tags')
+      .insert(missing.map((name) => ({ user_id: userId, name })))
+      .select();
+    if (error) throw error;
+    added = data ?? [];
+  }
+  return [...existing, ...added]
+    .filter((tag) => wanted.includes(tag.name))
+    .map((tag) => tag.id);
+}
+
+// Replaces a trade's tags with these.
+export async function saveTradeTags(
+  supabase: SupabaseClient,
+  userId: string,
+  tradeId: string,
+  names: string[]
+) {
+  const ids = await tagIds(supabase, userId, names);
+  const { error: deleteError } = await supabase
+    .from('trade_tags')
+    .delete()
+    .eq('trade_id', tradeId);
+  if (deleteError) throw deleteError;
+  if (ids.length === 0) return;
+  const { error } = await supabase.from('trade_tags').insert(
+    ids.map((tagId) => ({
+      trade_id: tradeId,
+      tag_id: tagId,
+      user_id: userId,
+    }))
+  );
+  if (error) throw error;
+}
+
+// Adds the tags to every one of the trades, keeping the tags they have.
+export async function addTradeTags(
+  supabase: SupabaseClient,
+  userId: string,
+  tradeIds: string[],
+  names: string[]
+) {
+  const ids = await tagIds(supabase, userId, names);
+  if (ids.length === 0 || tradeIds.length === 0) return;
+  const { error } = await supabase.from('trade_tags').upsert(
+    tradeIds.flatMap((tradeId) =>
+      ids.map((tagId) => ({
+        trade_id: tradeId,
+        tag_id: tagId,
+        user_id: userId,
+      }))
+    ),
+    { onConflict: 'trade_id,tag_id', ignoreDuplicates: true }
+  );
+  if (error) throw error;
+}
+
+export async function renameTag(
+  supabase: SupabaseClient,
+  id: string,
+  name: string
+) {
+  const { error } = await supabase
+    .from('tags')
+    .update({ name: normalizeTagName(name) })
+    .eq('id', id);
+  if (error) throw error;
+}
+
+// Takes the tag off every trade too.
+export async function deleteTag(supabase: SupabaseClient, id: string) {
+  const { error } = await supabase.from('tags').delete().eq('id', id);
+  if (error) throw error;
+}
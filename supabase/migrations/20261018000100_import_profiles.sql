@@ -0,0 +1,23 @@
+-- Saved column mappings for broker CSVs without a built-in parser.
+create table if not exists public.import_profiles (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  headers_signature text not null,
+  column_mapping jsonb not null,
+  date_format text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, name)
+);
+
+create index if not exists import_profiles_user_signature_idx
+  on public.import_profiles (user_id, headers_signature);
+
+alter table public.import_profiles enable row level security;
+
+create policy "Users manage their own import profiles"
+  on public.import_profiles
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
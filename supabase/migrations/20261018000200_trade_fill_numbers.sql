@@ -0,0 +1,9 @@
+-- Broker fill numbers, so overlapping statements can be re-imported without
+-- duplicating trades.
+alter table public.trades
+  add column if not exists entry_trade_number text,
+  add column if not exists exit_trade_number text;
+
+create index if not exists trades_user_fill_numbers_idx
+  on public.trades (user_id, symbol, entry_trade_number, exit_trade_number)
+  where entry_trade_number is not null and exit_trade_number is not null;
@@ -0,0 +1,26 @@
+-- One row per run of the importer, so an import can be rolled back without
+-- touching trades that were entered or imported separately.
+create table if not exists public.import_batches (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  file_name text not null,
+  broker text not null,
+  row_count integer not null default 0,
+  trade_count integer not null default 0,
+  skipped_rows integer not null default 0,
+  duplicate_count integer not null default 0,
+  trade_ids uuid[] not null default '{}',
+  undone_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists import_batches_user_created_idx
+  on public.import_batches (user_id, created_at desc);
+
+alter table public.import_batches enable row level security;
+
+create policy "Users manage their own import batches"
+  on public.import_batches
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
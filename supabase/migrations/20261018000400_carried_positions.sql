@@ -0,0 +1,13 @@
+-- Positions still open at the end of an imported statement are stored as OPEN
+-- trades with the broker's contract key, so a later statement can close them.
+alter table public.trades
+  add column if not exists contract_key text;
+
+create index if not exists trades_user_open_contract_idx
+  on public.trades (user_id, contract_key)
+  where status = 'OPEN' and contract_key is not null;
+
+-- The open trades an import closed or reduced, as they were before it ran,
+-- so undoing the import can restore them.
+alter table public.import_batches
+  add column if not exists consumed_positions jsonb not null default '[]';
@@ -0,0 +1,4 @@
+-- Statements without fill times get made-up times to keep fills in order.
+-- Flag those trades so time-based analytics can leave them out.
+alter table public.trades
+  add column if not exists time_estimated boolean not null default false;
@@ -0,0 +1,4 @@
+-- Futures trades keep the root symbol ("ES") in symbol so they group across
+-- expiries; the expiry they traded is stored separately as "YYYY-MM".
+alter table public.trades
+  add column if not exists contract_month text;
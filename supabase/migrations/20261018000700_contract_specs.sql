@@ -0,0 +1,64 @@
+-- Futures contract specs. Rows without a user are the shared defaults every
+-- user sees; a user's own row for the same symbol replaces the default for
+-- them, and rows for other symbols add contracts.
+create table if not exists public.contract_specs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users (id) on delete cascade,
+  symbol text not null,
+  name text not null,
+  exchange text not null,
+  tick_size numeric not null check (tick_size > 0),
+  tick_value numeric not null check (tick_value > 0),
+  point_value numeric not null check (point_value > 0),
+  initial_margin numeric not null default 0,
+  maintenance_margin numeric not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, symbol)
+);
+
+create unique index if not exists contract_specs_shared_symbol_idx
+  on public.contract_specs (symbol)
+  where user_id is null;
+
+alter table public.contract_specs enable row level security;
+
+create policy "Shared contract specs are readable by everyone"
+  on public.contract_specs
+  for select
+  using (user_id is null);
+
+create policy "Users manage their own contract specs"
+  on public.contract_specs
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+insert into public.contract_specs (
+  symbol,
+  name,
+  exchange,
+  tick_size,
+  tick_value,
+  point_value,
+  initial_margin,
+  maintenance_margin
+)
+values
+  ('ES', 'E-mini S&P 500', 'CME', 0.25, 12.5, 50, 13200, 12000),
+  ('MES', 'Micro E-mini S&P 500', 'CME', 0.25, 1.25, 5, 1320, 1200),
+  ('NQ', 'E-mini Nasdaq-100', 'CME', 0.25, 5, 20, 17600, 16000),
+  ('MNQ', 'Micro E-mini Nasdaq-100', 'CME', 0.25, 0.5, 2, 1760, 1600),
+  ('RTY', 'E-mini Russell 2000', 'CME', 0.1, 5, 50, 6820, 6200),
+  ('M2K', 'Micro E-mini Russell 2000', 'CME', 0.1, 0.5, 5, 6820, 6200),
+  ('YM', 'E-mini Dow Jones', 'CBOT', 1, 5, 5, 8800, 8000),
+  ('CL', 'Crude Oil', 'NYMEX', 0.01, 10, 1000, 5060, 4600),
+  ('MCL', 'Micro Crude Oil', 'NYMEX', 0.01, 1, 100, 506, 460),
+  ('GC', 'Gold', 'COMEX', 0.1, 10, 100, 10230, 9300),
+  ('MGC', 'Micro Gold', 'COMEX', 0.1, 1, 10, 1023, 930),
+  ('6E', 'Euro FX', 'CME', 0.00005, 6.25, 125000, 2310, 2100),
+  ('M6E', 'Micro Euro FX', 'CME', 0.0001, 1.25, 12500, 2310, 2100),
+  ('NG', 'Natural Gas', 'NYMEX', 0.001, 10, 10000, 3080, 2800),
+  ('ZN', '10-Year T-Note', 'CBOT', 0.015625, 15.625, 1000, 1650, 1500),
+  ('ZB', '30-Year T-Bond', 'CBOT', 0.03125, 31.25, 1000, 3850, 3500)
+on conflict do nothing;
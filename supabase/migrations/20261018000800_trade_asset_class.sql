@@ -0,0 +1,5 @@
+-- Trades on symbols without a contract spec can be marked as stocks, whose
+-- P&L is per share, instead of being treated as an unknown future.
+alter table public.trades
+  add column if not exists asset_class text not null default 'FUTURE'
+  check (asset_class in ('FUTURE', 'STOCK'));
@@ -0,0 +1,20 @@
+-- How a contract's prices are quoted: decimals, or 32nds of a point (and
+-- halves or quarters of a 32nd) for Treasury futures.
+alter table public.contract_specs
+  add column if not exists price_format text not null default 'DECIMAL'
+  check (
+    price_format in (
+      'DECIMAL',
+      'THIRTY_SECONDS',
+      'HALF_THIRTY_SECONDS',
+      'QUARTER_THIRTY_SECONDS'
+    )
+  );
+
+update public.contract_specs
+  set price_format = 'HALF_THIRTY_SECONDS'
+  where user_id is null and symbol = 'ZN';
+
+update public.contract_specs
+  set price_format = 'THIRTY_SECONDS'
+  where user_id is null and symbol = 'ZB';
@@ -0,0 +1,34 @@
+-- Per-user broker fees, charged per contract on each side of a round turn.
+-- A row without a symbol covers every contract of that broker that has no row
+-- of its own, and a row without a side applies to buys and sells alike.
+create table if not exists public.commission_schedules (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  broker text not null
+    check (broker in ('AMP', 'TRADOVATE', 'NINJATRADER', 'IBKR', 'CUSTOM')),
+  symbol text,
+  side text check (side in ('BUY', 'SELL')),
+  commission numeric not null default 0 check (commission >= 0),
+  exchange_fee numeric not null default 0 check (exchange_fee >= 0),
+  clearing_fee numeric not null default 0 check (clearing_fee >= 0),
+  nfa_fee numeric not null default 0 check (nfa_fee >= 0),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique nulls not distinct (user_id, broker, symbol, side)
+);
+
+alter table public.commission_schedules enable row level security;
+
+create policy "Users manage their own commission schedules"
+  on public.commission_schedules
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- The broker a trade was placed with, which picks its commission schedule,
+-- and whether its fees were typed in by hand. Re-applying a schedule leaves
+-- hand-entered fees alone.
+alter table public.trades
+  add column if not exists broker text
+    check (broker in ('AMP', 'TRADOVATE', 'NINJATRADER', 'IBKR', 'CUSTOM')),
+  add column if not exists commission_overridden boolean not null default false;
@@ -0,0 +1,60 @@
+-- Contracts are priced in their exchange's currency. A trade keeps its P&L in
+-- that currency (pnl_native) and in the user's base currency (pnl), converted
+-- at the user's FX rate for the day it closed.
+alter table public.contract_specs
+  add column if not exists currency text not null default 'USD'
+  check (currency ~ '^[A-Z]{3}$');
+
+insert into public.contract_specs (
+  symbol,
+  name,
+  exchange,
+  tick_size,
+  tick_value,
+  point_value,
+  initial_margin,
+  maintenance_margin,
+  currency
+)
+values
+  ('FDAX', 'DAX', 'EUREX', 1, 25, 25, 41000, 37000, 'EUR'),
+  ('FDXM', 'Mini-DAX', 'EUREX', 1, 5, 5, 8200, 7400, 'EUR'),
+  ('FESX', 'Euro Stoxx 50', 'EUREX', 1, 10, 10, 3600, 3300, 'EUR'),
+  ('NIY', 'Nikkei 225 Yen', 'CME', 5, 2500, 500, 1650000, 1500000, 'JPY')
+on conflict do nothing;
+
+alter table public.profiles
+  add column if not exists base_currency text not null default 'USD'
+  check (base_currency ~ '^[A-Z]{3}$');
+
+-- Every trade so far was taken to be in USD.
+alter table public.trades
+  add column if not exists currency text not null default 'USD'
+  check (currency ~ '^[A-Z]{3}$'),
+  add column if not exists pnl_native numeric,
+  add column if not exists fx_rate numeric;
+
+update public.trades
+set pnl_native = pnl, fx_rate = 1
+where pnl is not null and pnl_native is null;
+
+-- Units of base_currency for one unit of currency, as of the end of a day.
+create table if not exists public.fx_rates (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  date date not null,
+  currency text not null check (currency ~ '^[A-Z]{3}$'),
+  base_currency text not null check (base_currency ~ '^[A-Z]{3}$'),
+  rate numeric not null check (rate > 0),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, date, currency, base_currency)
+);
+
+alter table public.fx_rates enable row level security;
+
+create policy "Users manage their own FX rates"
+  on public.fx_rates
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
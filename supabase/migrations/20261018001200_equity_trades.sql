@@ -0,0 +1,23 @@
+-- Stocks, ETFs and crypto are traded in units with a point value of 1, and
+-- shares and coins can be bought in fractions.
+alter table public.trades
+  drop constraint if exists trades_asset_class_check,
+  add constraint trades_asset_class_check
+    check (asset_class in ('FUTURE', 'STOCK', 'ETF', 'CRYPTO'));
+
+alter table public.trades
+  alter column quantity type numeric using quantity::numeric;
+
+-- Equity fees are charged per share, usually with a minimum per order, so a
+-- schedule row is for futures or for stocks and ETFs. Existing rows are for
+-- futures.
+alter table public.commission_schedules
+  add column if not exists asset_class text not null default 'FUTURE'
+    check (asset_class in ('FUTURE', 'STOCK')),
+  add column if not exists minimum_fee numeric not null default 0
+    check (minimum_fee >= 0);
+
+alter table public.commission_schedules
+  drop constraint if exists commission_schedules_user_id_broker_symbol_side_key,
+  add constraint commission_schedules_user_id_broker_asset_class_symbol_side_key
+    unique nulls not distinct (user_id, broker, asset_class, symbol, side);
@@ -0,0 +1,52 @@
+-- An options position is one trade, whatever its number of legs, so a
+-- vertical or an iron condor counts once on the calendar and in analytics.
+-- Its prices are the net premium per spread and its quantity is the number
+-- of spreads; the legs keep their own strikes, expiries and fills.
+alter table public.trades
+  drop constraint if exists trades_asset_class_check,
+  add constraint trades_asset_class_check
+    check (asset_class in ('FUTURE', 'STOCK', 'ETF', 'CRYPTO', 'OPTION'));
+
+alter table public.trades
+  add column if not exists strategy text
+    check (
+      strategy in (
+        'SINGLE',
+        'VERTICAL',
+        'STRADDLE',
+        'STRANGLE',
+        'IRON_CONDOR',
+        'CALENDAR',
+        'CUSTOM'
+      )
+    ),
+  -- Units of the underlying per option contract: 100 for equity options,
+  -- the point value for options on futures.
+  add column if not exists multiplier numeric check (multiplier > 0);
+
+create table if not exists public.option_legs (
+  id uuid primary key default gen_random_uuid(),
+  trade_id uuid not null references public.trades (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  leg_index integer not null,
+  side text not null check (side in ('LONG', 'SHORT')),
+  option_right text not null check (option_right in ('CALL', 'PUT')),
+  strike numeric not null check (strike > 0),
+  expiry date not null,
+  quantity numeric not null check (quantity > 0),
+  entry_price numeric not null check (entry_price >= 0),
+  exit_price numeric check (exit_price >= 0),
+  created_at timestamptz not null default now(),
+  unique (trade_id, leg_index)
+);
+
+create index if not exists option_legs_trade_idx
+  on public.option_legs (trade_id);
+
+alter table public.option_legs enable row level security;
+
+create policy "Users manage their own option legs"
+  on public.option_legs
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,67 @@
+-- Crypto trades are spot buys and sells or perpetual futures. Linear
+-- perpetuals are margined in a stablecoin and sized in coins, like spot.
+-- Inverse perpetuals are margined in the coin and sized in contracts worth a
+-- fixed number of US dollars each, kept in multiplier.
+alter table public.trades
+  add column if not exists crypto_contract text
+    check (crypto_contract in ('SPOT', 'LINEAR', 'INVERSE')),
+  -- Funding received (positive) or paid (negative) while the position was
+  -- open, in the trade's currency. Net P&L includes it.
+  add column if not exists funding numeric not null default 0;
+
+alter table public.trades
+  drop constraint if exists trades_broker_check,
+  add constraint trades_broker_check
+    check (
+      broker in (
+        'AMP',
+        'TRADOVATE',
+        'NINJATRADER',
+        'IBKR',
+        'BINANCE',
+        'BYBIT',
+        'COINBASE',
+        'CUSTOM'
+      )
+    );
+
+alter table public.commission_schedules
+  drop constraint if exists commission_schedules_broker_check,
+  add constraint commission_schedules_broker_check
+    check (
+      broker in (
+        'AMP',
+        'TRADOVATE',
+        'NINJATRADER',
+        'IBKR',
+        'BINANCE',
+        'BYBIT',
+        'COINBASE',
+        'CUSTOM'
+      )
+    );
+
+-- Funding payments entered against a perpetual position. Their sum is kept
+-- in trades.funding together with any funding an import attributed to the
+-- position.
+create table if not exists public.funding_payments (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  trade_id uuid not null references public.trades (id) on delete cascade,
+  amount numeric not null,
+  -- The funding rate the payment was charged at, when known.
+  rate numeric,
+  paid_at timestamptz not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists funding_payments_trade_idx
+  on public.funding_payments (trade_id, paid_at);
+
+alter table public.funding_payments enable row level security;
+
+create policy "Users manage their own funding payments"
+  on public.funding_payments
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,32 @@
+-- A position can be scaled into and out of, so its fills are kept one row
+-- each. The trade's entry and exit prices are then the average of its buys
+-- and sells, its quantity is everything entered, and max_position is the
+-- largest size it reached along the way.
+alter table public.trades
+  add column if not exists max_position numeric check (max_position > 0);
+
+create table if not exists public.executions (
+  id uuid primary key default gen_random_uuid(),
+  trade_id uuid not null references public.trades (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  side text not null check (side in ('BUY', 'SELL')),
+  quantity numeric not null check (quantity > 0),
+  price numeric not null,
+  executed_at timestamptz not null,
+  -- Fees charged on this fill, in the trade's currency.
+  commission numeric not null default 0,
+  -- The broker's id for the fill, when it was imported.
+  trade_number text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists executions_trade_idx
+  on public.executions (trade_id, executed_at);
+
+alter table public.executions enable row level security;
+
+create policy "Users manage their own executions"
+  on public.executions
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,13 @@
+-- How an import pairs a statement's fills into trades. FIFO, the default, is
+-- how imports have always paired them; LIFO and AVERAGE close lots in the
+-- other usual accounting orders, and FLAT_TO_FLAT makes one trade of each
+-- position from flat back to flat.
+alter table public.profiles
+  add column if not exists lot_matching text not null default 'FIFO'
+  check (lot_matching in ('FIFO', 'LIFO', 'AVERAGE', 'FLAT_TO_FLAT'));
+
+-- The method each import was matched with, which can differ from the
+-- profile's when it was chosen for that import.
+alter table public.import_batches
+  add column if not exists lot_matching text
+  check (lot_matching in ('FIFO', 'LIFO', 'AVERAGE', 'FLAT_TO_FLAT'));
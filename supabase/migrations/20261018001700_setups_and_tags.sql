@@ -0,0 +1,63 @@
+-- A setup is a trade the user plays again and again, with the rules that
+-- define it and the reward it aims for in multiples of the risk taken.
+create table if not exists public.setups (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  description text not null default '',
+  rules text[] not null default '{}',
+  target_r numeric check (target_r > 0),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, name)
+);
+
+alter table public.setups enable row level security;
+
+create policy "Users manage their own setups"
+  on public.setups
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- A trade takes at most one setup, and records which of its rules were
+-- followed by their text, so later edits to the rules leave it as it was.
+alter table public.trades
+  add column if not exists setup_id uuid
+    references public.setups (id) on delete set null,
+  add column if not exists rules_followed text[];
+
+create index if not exists trades_setup_idx on public.trades (setup_id);
+
+create table if not exists public.tags (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  created_at timestamptz not null default now(),
+  unique (user_id, name)
+);
+
+alter table public.tags enable row level security;
+
+create policy "Users manage their own tags"
+  on public.tags
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create table if not exists public.trade_tags (
+  trade_id uuid not null references public.trades (id) on delete cascade,
+  tag_id uuid not null references public.tags (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  primary key (trade_id, tag_id)
+);
+
+create index if not exists trade_tags_tag_idx on public.trade_tags (tag_id);
+
+alter table public.trade_tags enable row level security;
+
+create policy "Users manage their own trade tags"
+  on public.trade_tags
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,29 @@
+-- Imports only carry positions over from the same broker. Positions carried
+-- over before trades recorded their broker take it from the batch that
+-- opened them, which stored the broker's label.
+update public.trades as trade
+set broker = case batch.broker
+    when 'AMP Futures' then 'AMP'
+    when 'Tradovate' then 'TRADOVATE'
+    when 'NinjaTrader 8' then 'NINJATRADER'
+    when 'Interactive Brokers' then 'IBKR'
+    when 'Custom CSV' then 'CUSTOM'
+  end
+from public.import_batches as batch
+where trade.status = 'OPEN'
+  and trade.contract_key is not null
+  and trade.broker is null
+  and trade.id = any (batch.trade_ids)
+  and batch.broker in (
+    'AMP Futures',
+    'Tradovate',
+    'NinjaTrader 8',
+    'Interactive Brokers',
+    'Custom CSV'
+  );
+
+drop index if exists public.trades_user_open_contract_idx;
+
+create index if not exists trades_user_open_contract_idx
+  on public.trades (user_id, broker, contract_key)
+  where status = 'OPEN' and contract_key is not null;
@@ -0,0 +1,5 @@
+-- The contracts each import had fills or funding on. An import can only be
+-- undone while no later import has touched the same contracts, since those
+-- may have closed or built on the positions it carried over.
+alter table public.import_batches
+  add column if not exists contract_keys text[];
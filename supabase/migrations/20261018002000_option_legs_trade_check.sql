@@ -0,0 +1,14 @@
+-- Legs can only be attached to the user's own trades.
+drop policy if exists "Users manage their own option legs" on public.option_legs;
+
+create policy "Users manage their own option legs"
+  on public.option_legs
+  for all
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from public.trades
+      where trades.id = option_legs.trade_id and trades.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,16 @@
+-- Funding can only be recorded against the user's own trades.
+drop policy if exists "Users manage their own funding payments"
+  on public.funding_payments;
+
+create policy "Users manage their own funding payments"
+  on public.funding_payments
+  for all
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from public.trades
+      where trades.id = funding_payments.trade_id
+        and trades.user_id = auth.uid()
+    )
+  );
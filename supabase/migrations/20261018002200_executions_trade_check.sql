@@ -0,0 +1,14 @@
+-- Fills can only be attached to the user's own trades.
+drop policy if exists "Users manage their own executions" on public.executions;
+
+create policy "Users manage their own executions"
+  on public.executions
+  for all
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from public.trades
+      where trades.id = executions.trade_id and trades.user_id = auth.uid()
+    )
+  );
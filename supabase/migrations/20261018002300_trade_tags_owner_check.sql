@@ -0,0 +1,19 @@
+-- A tag can only be put on the user's own trades, and only one of the user's
+-- own tags.
+drop policy if exists "Users manage their own trade tags" on public.trade_tags;
+
+create policy "Users manage their own trade tags"
+  on public.trade_tags
+  for all
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from public.trades
+      where trades.id = trade_tags.trade_id and trades.user_id = auth.uid()
+    )
+    and exists (
+      select 1 from public.tags
+      where tags.id = trade_tags.tag_id and tags.user_id = auth.uid()
+    )
+  );
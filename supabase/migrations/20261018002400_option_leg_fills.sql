@@ -0,0 +1,77 @@
+-- Each leg of an options position keeps its own fills and status, so one
+-- leg can be closed or rolled while the others stay open. The leg's
+-- quantity and prices become the totals and averages of its fills, and the
+-- position is closed once every leg is.
+alter table public.option_legs
+  add column if not exists status text not null default 'OPEN'
+    check (status in ('OPEN', 'CLOSED'));
+
+update public.option_legs
+set status = 'CLOSED'
+where exit_price is not null;
+
+create table if not exists public.option_leg_fills (
+  id uuid primary key default gen_random_uuid(),
+  leg_id uuid not null references public.option_legs (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  side text not null check (side in ('BUY', 'SELL')),
+  quantity numeric not null check (quantity > 0),
+  price numeric not null check (price >= 0),
+  executed_at timestamptz not null,
+  -- Fees charged on this fill, in the trade's currency.
+  commission numeric not null default 0,
+  -- The broker's id for the fill, when it was imported.
+  trade_number text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists option_leg_fills_leg_idx
+  on public.option_leg_fills (leg_id, executed_at);
+
+alter table public.option_leg_fills enable row level security;
+
+create policy "Users manage their own option leg fills"
+  on public.option_leg_fills
+  for all
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from public.option_legs
+      where option_legs.id = option_leg_fills.leg_id
+        and option_legs.user_id = auth.uid()
+    )
+  );
+
+-- Legs saved before now opened at the position's entry and closed at its
+-- exit, all at once.
+insert into public.option_leg_fills (leg_id, user_id, side, quantity, price, executed_at)
+select
+  option_legs.id,
+  option_legs.user_id,
+  case when option_legs.side = 'LONG' then 'BUY' else 'SELL' end,
+  option_legs.quantity,
+  option_legs.entry_price,
+  trades.entry_date
+from public.option_legs
+join public.trades on trades.id = option_legs.trade_id
+where not exists (
+  select 1 from public.option_leg_fills
+  where option_leg_fills.leg_id = option_legs.id
+);
+
+insert into public.option_leg_fills (leg_id, user_id, side, quantity, price, executed_at)
+select
+  option_legs.id,
+  option_legs.user_id,
+  case when option_legs.side = 'LONG' then 'SELL' else 'BUY' end,
+  option_legs.quantity,
+  option_legs.exit_price,
+  coalesce(trades.exit_date, trades.entry_date)
+from public.option_legs
+join public.trades on trades.id = option_legs.trade_id
+where option_legs.exit_price is not null
+  and (
+    select count(*) from public.option_leg_fills
+    where option_leg_fills.leg_id = option_legs.id
+  ) = 1;
@@ -0,0 +1,6 @@
+-- Fees a broker statement reported are what was actually charged, so
+-- re-applying a commission schedule must not replace them. Trades imported
+-- before now can't tell statement fees from scheduled ones and stay
+-- unmarked.
+alter table public.trades
+  add column if not exists fees_from_statement boolean not null default false;
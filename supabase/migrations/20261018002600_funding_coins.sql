@@ -0,0 +1,5 @@
+-- Funding on inverse perpetuals is paid in the coin. While the position is
+-- open it is kept in coins and valued at the exit price when the position
+-- closes, the same way its P&L is. Closed trades keep their funding as is.
+alter table public.trades
+  add column if not exists funding_coins numeric not null default 0;
@@ -0,0 +1,51 @@
+-- A trade can only take one of the user's own setups. The trades policies
+-- grant access by owner; this one is restrictive, so it applies on top of
+-- them.
+drop policy if exists "Trades only take the user's own setups" on public.trades;
+
+create policy "Trades only take the user's own setups"
+  on public.trades
+  as restrictive
+  for insert
+  with check (
+    setup_id is null
+    or exists (
+      select 1 from public.setups
+      where setups.id = trades.setup_id and setups.user_id = auth.uid()
+    )
+  );
+
+drop policy if exists "Trades only change to the user's own setups"
+  on public.trades;
+
+create policy "Trades only change to the user's own setups"
+  on public.trades
+  as restrictive
+  for update
+  using (true)
+  with check (
+    setup_id is null
+    or exists (
+      select 1 from public.setups
+      where setups.id = trades.setup_id and setups.user_id = auth.uid()
+    )
+  );
+
+-- Setup names are unique regardless of case, as the setup form checks.
+-- Setups that only differ by case are numbered first.
+update public.setups
+set name = setups.name || ' (' || numbered.n || ')'
+from (
+  select
+    id,
+    row_number() over (
+      partition by user_id, lower(name) order by created_at, id
+    ) as n
+  from public.setups
+) as numbered
+where numbered.id = setups.id and numbered.n > 1;
+
+alter table public.setups drop constraint if exists setups_user_id_name_key;
+
+create unique index if not exists setups_user_name_idx
+  on public.setups (user_id, lower(name));
@@ -1,22 +1,175 @@
+import type { PriceFormat } from '@/lib/futures-specs';
+import type { Broker, LotMatching } from '@/lib/import';
+
+export type AssetClass = 'FUTURE' | 'STOCK' | 'ETF' | 'CRYPTO' | 'OPTION';
+
+// Spot, or a perpetual margined in a stablecoin (linear) or in the coin
+// itself (inverse).
+export type CryptoContract = 'SPOT' | 'LINEAR' | 'INVERSE';
+
+// Commission schedules are for futures or for stocks and ETFs.
+export type FeeAssetClass = Extract<AssetClass, 'FUTURE' | 'STOCK'>;
+
 export interface Trade {
   id: string;
   user_id: string;
   symbol: string;
+  // Futures expiry as "YYYY-MM"; symbol holds the root.
+  contract_month?: string;
+  asset_class?: AssetClass;
   side: 'LONG' | 'SHORT';
   entry_date: string;
   exit_date?: string;
+  // The average of the buys or sells when the trade has executions.
   entry_price: number;
   exit_price?: number;
+  // Contracts for futures, inverse perpetuals and options (spreads); shares
+  // or coins, possibly fractional, otherwise.
   quantity: number;
+  // Options only. Entry and exit prices are the net premium per spread.
+  strategy?: OptionStrategy | null;
+  // Per option contract, or US dollars per inverse perpetual contract. On
+  // futures, the point value the broker reported, which wins over the
+  // contract spec.
+  multiplier?: number | null;
+  // Crypto only. Null is spot.
+  crypto_contract?: CryptoContract | null;
+  // Funding received (positive) or paid, in the trade's currency. Included in
+  // pnl.
+  funding?: number;
+  // Open inverse perpetuals only. Funding paid in the coin, which is added to
+  // funding at the exit price when the position closes.
+  funding_coins?: number;
+  option_legs?: OptionLeg[];
+  // The fills of a position scaled into or out of, and the largest size it
+  // reached. Quantity is then everything entered.
+  executions?: TradeExecution[];
+  max_position?: number | null;
+  // Fees, in the trade's currency.
   commission: number;
+  // Picks the commission schedule for the trade's fees.
+  broker?: Broker | null;
+  // The fees were typed in by hand, so re-applying a schedule skips them.
+  commission_overridden?: boolean;
+  // Some of the fees came from an imported statement. Re-applying a schedule
+  // always skips them.
+  fees_from_statement?: boolean;
+  // Net P&L in the user's base currency.
   pnl?: number;
+  // ISO code the contract is priced in, USD unless its spec says otherwise.
+  currency?: string;
+  // Net P&L in the trade's currency, and the rate it was converted at.
+  pnl_native?: number | null;
+  fx_rate?: number | null;
   percentage_gain?: number;
   status: 'OPEN' | 'CLOSED';
   notes?: string;
+  setup_id?: string | null;
+  // The setup's rules this trade kept to, by their text.
+  rules_followed?: string[] | null;
+  tags?: Tag[];
+  entry_trade_number?: string;
+  exit_trade_number?: string;
+  // Set on positions carried over from an imported statement.
+  contract_key?: string;
+  // The entry or exit time was made up because the statement had none.
+  time_estimated?: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type OptionStrategy =
+  | 'SINGLE'
+  | 'VERTICAL'
+  | 'STRADDLE'
+  | 'STRANGLE'
+  | 'IRON_CONDOR'
+  | 'CALENDAR'
+  | 'CUSTOM';
+
+export type OptionRight = 'CALL' | 'PUT';
+
+// One leg of an options position. Prices are per contract, before the
+// multiplier; exit_price is null while the leg is open.
+export interface OptionLeg {
+  id: string;
+  trade_id: string;
+  user_id: string;
+  leg_index: number;
+  side: 'LONG' | 'SHORT';
+  option_right: OptionRight;
+  strike: number;
+  // "YYYY-MM-DD"
+  expiry: string;
+  // Contracts opened, and the average prices of the fills. Exit price is
+  // null until the leg is closed.
+  quantity: number;
+  entry_price: number;
+  exit_price: number | null;
+  status: 'OPEN' | 'CLOSED';
+  fills?: OptionLegFill[];
+  created_at: string;
+}
+
+export interface OptionLegFill {
+  id: string;
+  leg_id: string;
+  user_id: string;
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  price: number;
+  executed_at: string;
+  // Fees, in the trade's currency.
+  commission: number;
+  trade_number: string | null;
+  created_at: string;
+}
+
+export interface TradeExecution {
+  id: string;
+  trade_id: string;
+  user_id: string;
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  price: number;
+  executed_at: string;
+  // Fees, in the trade's currency.
+  commission: number;
+  trade_number: string | null;
+  created_at: string;
+}
+
+// A trade the user plays again and again.
+export interface Setup {
+  id: string;
+  user_id: string;
+  name: string;
+  description: string;
+  // A checklist of what makes a trade this setup.
+  rules: string[];
+  // The reward aimed for, in multiples of the risk taken.
+  target_r: number | null;
   created_at: string;
   updated_at: string;
 }
 
+export interface Tag {
+  id: string;
+  user_id: string;
+  name: string;
+  created_at: string;
+}
+
+export interface FundingPayment {
+  id: string;
+  user_id: string;
+  trade_id: string;
+  amount: number;
+  rate: number | null;
+  paid_at: string;
+  created_at: string;
+}
+
 export interface DailyStats {
   id: string;
   user_id: string;
@@ -32,6 +185,10 @@ export interface Profile {
   id: string;
   email: string;
   full_name: string;
+  // What P&L is totalled in. Defaults to USD.
+  base_currency?: string;
+  // How imports pair fills into trades. Defaults to flat to flat.
+  lot_matching?: LotMatching;
   created_at: string;
   updated_at: string;
 }
@@ -64,3 +221,97 @@ export interface AccountTransaction {
   transaction_date: string;
   created_at: string;
 }
+
+export type ImportField =
+  | 'date'
+  | 'time'
+  | 'symbol'
+  | 'side'
+  | 'quantity'
+  | 'price'
+  | 'commission'
+  | 'tradeId';
+
+export interface ImportProfile {
+  id: string;
+  user_id: string;
+  name: string;
+  headers_signature: string;
+  column_mapping: Partial<Record<ImportField, string>>;
+  date_format: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ImportBatch {
+  id: string;
+  user_id: string;
+  file_name: string;
+  broker: string;
+  row_count: number;
+  trade_count: number;
+  skipped_rows: number;
+  // Fills left out because an earlier import stored them.
+  duplicate_count: number;
+  trade_ids: string[];
+  consumed_positions: Trade[];
+  // The contracts the import had fills or funding on. Null for imports made
+  // before they were recorded.
+  contract_keys?: string[] | null;
+  lot_matching?: LotMatching | null;
+  undone_at?: string;
+  created_at: string;
+}
+
+export interface ContractSpec {
+  id: string;
+  // Null for the shared defaults.
+  user_id: string | null;
+  symbol: string;
+  name: string;
+  exchange: string;
+  tick_size: number;
+  tick_value: number;
+  point_value: number;
+  initial_margin: number;
+  maintenance_margin: number;
+  price_format: PriceFormat;
+  currency: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type FeeSide = 'BUY' | 'SELL';
+
+// Fees per contract for one side of a round turn.
+export interface CommissionSchedule {
+  id: string;
+  user_id: string;
+  broker: Broker;
+  asset_class: FeeAssetClass;
+  // Root symbol or ticker. Null covers the broker's contracts, or stocks and
+  // ETFs, without a row of their own.
+  symbol: string | null;
+  // Null charges the same on buys and sells.
+  side: FeeSide | null;
+  commission: number;
+  exchange_fee: number;
+  clearing_fee: number;
+  nfa_fee: number;
+  // Least charged for one side of a trade, whatever its size.
+  minimum_fee: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// Units of base_currency for one unit of currency on a day.
+export interface FxRate {
+  id: string;
+  user_id: string;
+  date: string;
+  currency: string;
+  base_currency: string;
+  rate: number;
+  created_at: string;
+  updated_at: string;
+}